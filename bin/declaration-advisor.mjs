@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI through tsx so `npm link` exposes `declaration-advisor` without a build step;
+// tsx and yaml are runtime dependencies for that reason.
+import { tsImport } from "tsx/esm/api";
+
+await tsImport("../tools/declaration-advisor.ts", import.meta.url);
@@ -20,4 +20,10 @@ export default tseslint.config([
       globals: globals.browser,
     },
   },
+  {
+    files: ['tools/**/*.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
 ])
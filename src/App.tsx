@@ -1,384 +1,204 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
+import { AttackEditor } from "./components/AttackEditor.tsx";
+import { BattingOrderEditor } from "./components/BattingOrderEditor.tsx";
+import { ForecastEditor } from "./components/ForecastEditor.tsx";
+import { GroundEditor } from "./components/GroundEditor.tsx";
+import { LiveMatchPanel } from "./components/LiveMatchPanel.tsx";
+import { MatchStateEditor } from "./components/MatchStateEditor.tsx";
+import { NumberField, type NumberFieldName } from "./components/NumberField.tsx";
+import { OutcomeCurves } from "./components/OutcomeCurves.tsx";
+import { OutcomeHistograms } from "./components/OutcomeHistograms.tsx";
+import { PolicyControls } from "./components/PolicyControls.tsx";
+import { ReviewPanel } from "./components/ReviewPanel.tsx";
+import { ScenarioLibrary } from "./components/ScenarioLibrary.tsx";
+import { SensitivityPanel } from "./components/SensitivityPanel.tsx";
+import { StagePanel } from "./components/StagePanel.tsx";
+import { TradeOffChart } from "./components/TradeOffChart.tsx";
+import { UtilityModelEditor } from "./components/UtilityModelEditor.tsx";
+import { OUTCOME_COLOURS } from "./components/charts.ts";
+import { download, slugFileName } from "./components/download.ts";
+import { pct, pm } from "./components/format.ts";
+import { Bar, Section } from "./components/ui.tsx";
+import {
+  DEFAULT_ATTACK,
+  DEFAULT_BATTING_ORDER,
+  DEFAULT_MATCH_STATE,
+  CALIBRATION,
+  CHASE_INTENT_LABELS,
+  CHASE_INTENT_MODELS,
+  DEFAULT_SPIN_SHARE,
+  TYPICAL_RUNS_PER_WICKET,
+  TYPICAL_STRIKE_RATE,
+  UTILITY_MODEL_LABELS,
+  attackSpinShare,
+  attackStrength,
+  battingStrength,
+  calibratedEras,
+  Z95,
+  clamp,
+  currentMatchDay,
+  deriveInputs,
+  issueFor,
+  resolveGround,
+  usesProfiles,
+  usesRiskAppetite,
+  validateInputs,
+  type AlternativePolicySettings,
+  type ChaseIntentModel,
+  type ChaseModel,
+  type GroundPreset,
+  type Inputs,
+  type StrengthModel,
+  type WeatherModel,
+} from "./engine/index.ts";
+import { briefingMarkdown, briefingText } from "./explain/briefing.ts";
+import { explainEvaluation } from "./explain/explanation.ts";
+import { useDeclarationReview } from "./hooks/useDeclarationReview.ts";
+import { useDeclarationSweep } from "./hooks/useDeclarationSweep.ts";
+import { usePersistedState } from "./hooks/usePersistedState.ts";
+import { useLiveMatch } from "./hooks/useLiveMatch.ts";
+import { useOutcomeDistribution } from "./hooks/useOutcomeDistribution.ts";
+import { useSensitivity } from "./hooks/useSensitivity.ts";
+import { useStageEvaluation } from "./hooks/useStageEvaluation.ts";
+import { readUrlSnapshot, useUrlSnapshot } from "./hooks/useUrlSnapshot.ts";
+import { allGrounds, isBuiltInGround, readGrounds, writeGrounds } from "./grounds/library.ts";
+import { timelinePoint } from "./live/timeline.ts";
+import { DEFAULT_SNAPSHOT, type ScenarioSnapshot } from "./scenarios/snapshot.ts";
 
 // =============================
 // Test Cricket Declaration Advisor
-// Single-file React app rendered in-canvas
+// React front end over the headless engine in ./engine
 // =============================
 
-// ---------- Types ----------
-type SessionWeather = { rainChance: number }; // 0..1
-
-type Inputs = {
-  ground: string;
-  oversPerSession: number; // typical 30
-  sessionsRemaining: number; // whole sessions remaining in match including current
-  oversLeftThisSession: number; // overs left in the current session
-
-  currentLead: number; // runs ahead right now (can be negative but model focuses on declaration in 3rd innings)
-  wicketsInHand: number; // 0..10, for info when simulating batting on
-  continueBattingRunRate: number; // rpo while continuing to bat before declaring
-  continueBattingWicketProbPerOver: number; // chance of a wicket per over while batting before declaration
-
-  opponentBattingStrength: number; // 0..100 higher = better batting
-  ourBowlingStrength: number; // 0..100 higher = better bowling
-  pitchBowlingFactor: number; // 0.5 .. 2.0 higher = helps bowlers
-
-  weatherBySession: SessionWeather[]; // length >= sessionsRemaining (extra ignored)
-
-  riskAppetite: number; // 0 conservative (avoid loss), 1 balanced, 2 aggressive (maximize win even if loss risk rises)
-
-  groundPresetKey: string; // for quick presets
-};
-
-// ---------- Ground presets (simple heuristics) ----------
-const GROUND_PRESETS: Record<string, { name: string; wicketHelp: number; chaseEase: number }>
-  = {
-    generic: { name: "Generic Test Ground", wicketHelp: 1.0, chaseEase: 1.0 },
-    lords: { name: "Lord's, London", wicketHelp: 1.05, chaseEase: 0.95 },
-    gabba: { name: "The Gabba, Brisbane", wicketHelp: 1.1, chaseEase: 0.95 },
-    edenGardens: { name: "Eden Gardens, Kolkata", wicketHelp: 0.95, chaseEase: 1.05 },
-    mcg: { name: "MCG, Melbourne", wicketHelp: 1.0, chaseEase: 0.98 },
-    scg: { name: "SCG, Sydney", wicketHelp: 1.05, chaseEase: 1.0 },
-    wanderers: { name: "Wanderers, Johannesburg", wicketHelp: 1.12, chaseEase: 0.93 },
-    rawalpindi: { name: "Rawalpindi Cricket Stadium", wicketHelp: 0.9, chaseEase: 1.1 },
-  };
-
-// ---------- RNG helpers ----------
-function rng(seed: number) {
-  // Mulberry32 deterministic RNG
-  let t = seed >>> 0;
-  return () => {
-    t += 0x6D2B79F5;
-    let r = Math.imul(t ^ (t >>> 15), 1 | t);
-    r ^= r + Math.imul(r ^ (r >>> 7), 61 | r);
-    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
-  };
-}
-
-function normal(r: () => number, mean: number, sd: number) {
-  // Box-Muller
-  const u1 = Math.max(r(), 1e-9);
-  const u2 = r();
-  const z0 = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-  return mean + sd * z0;
-}
-
-// Clamp helper
-const clamp = (x: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, x));
-
-// ---------- Core simulation ----------
-
-type SimResult = {
-  winP: number;
-  drawP: number;
-  lossP: number;
-  expMarginRuns: number; // +ve means average runs short of target by opp when all out or time up; -ve means they win by that many runs
-};
-
-type OptionOutcome = SimResult & {
-  optionLabel: string;
-  declareAfterOvers: number; // K
-  expectAddedRuns: number;
-  expectWktsLostWhileBatting: number;
-  target: number;
-  bowlOversAvail: number; // expected overs available to bowl after declaration
-};
-
-function simulateOption(
-  inputs: Inputs,
-  preset: { wicketHelp: number; chaseEase: number },
-  declareAfterOvers: number,
-  sims: number,
-  seedBase = 12345
-): OptionOutcome {
-  const r0 = rng(seedBase + declareAfterOvers * 101);
-
-  // 1) Simulate batting on for K overs (or until all out) to set target
-  let addedRunsSamples: number[] = [];
-  let wktsLostSamples: number[] = [];
-
-  for (let s = 0; s < sims; s++) {
-    const r = rng((r0() * 1e9) | 0);
-    let runs = 0;
-    let wkts = 0;
-    for (let o = 0; o < declareAfterOvers; o++) {
-      // wicket this over while batting on?
-      if (r() < inputs.continueBattingWicketProbPerOver) {
-        wkts++;
-        if (wkts >= inputs.wicketsInHand) {
-          // all out during extension
-          // still some runs in the over
-          const rpo = Math.max(0, normal(r, inputs.continueBattingRunRate, 0.8));
-          runs += Math.max(0, Math.round(normal(r, rpo, 1)));
-          // stop early
-          // o = declareAfterOvers; // break
-          // break out by setting o large
-          o = declareAfterOvers;
-          break;
-        }
-      }
-      const rpo = Math.max(0, normal(r, inputs.continueBattingRunRate, 0.8));
-      runs += Math.max(0, Math.round(normal(r, rpo, 1)));
-    }
-    addedRunsSamples.push(runs);
-    wktsLostSamples.push(wkts);
-  }
-
-  const expectAddedRuns = addedRunsSamples.reduce((a, b) => a + b, 0) / sims;
-  const expectWktsLost = wktsLostSamples.reduce((a, b) => a + b, 0) / sims;
-
-  // If all out likely before K overs, we already handled by stopping early via sampling logic
-
-  // Target set
-  const targetMean = inputs.currentLead + expectAddedRuns; // lead they must chase (>=0)
-
-  // 2) Overs available to bowl after declaration
-  // Remaining overs in current session after batting K overs at ~14 minutes per over, but we'll assume overs are fungible: K overs consumed
-  // So overs left this session -> max(0, oversLeftThisSession - K)
-  // Future sessions: sessionsRemaining - 1
-
-  const oversLeftNow = Math.max(0, inputs.oversLeftThisSession - declareAfterOvers);
-//  const futureSessions = Math.max(0, inputs.sessionsRemaining - (oversLeftNow > 0 ? 1 : 0));
-
-  // Weather: for each remaining session, apply chance of reduction
-  // We'll Monte Carlo inside the main loop when simulating chase
-
-  // ---------- Simulate the chase ----------
-
-  let win = 0, draw = 0, loss = 0;
-  let marginAgg = 0;
-
-  const baseWicketPerOver = 0.08; // baseline hazard per over
-  const baseRPO = 3.2; // baseline runs per over in 4th innings
-
-  for (let s = 0; s < sims; s++) {
-    const r = rng((r0() * 1e9 + s) | 0);
-
-    // derive available overs
-    let oversAvail = oversLeftNow;
-
-    // For the remainder sessions after this one
-    const sessionCount = inputs.sessionsRemaining - (oversLeftNow > 0 ? 1 : 0);
-
-    for (let si = 0; si < sessionCount; si++) {
-      const weather = inputs.weatherBySession[si] || { rainChance: 0 };
-      const rainOccurs = r() < weather.rainChance;
-      const expectedCut = rainOccurs ? (0.2 + 0.6 * r()) : 0.0; // if it rains, 20%..80% of overs lost this session
-      const sessionOvers = inputs.oversPerSession * (1 - expectedCut);
-      oversAvail += sessionOvers;
-    }
-
-    // Simulate opposition batting towards target
-    const strengthFactor = (inputs.ourBowlingStrength / 50) * preset.wicketHelp * inputs.pitchBowlingFactor;
-    const battingFactor = (inputs.opponentBattingStrength / 50) * preset.chaseEase;
-
-    let wicketP = clamp(baseWicketPerOver * strengthFactor / Math.max(0.6, battingFactor), 0.03, 0.2);
-    let rpoMean = clamp(baseRPO * battingFactor / Math.max(0.7, inputs.pitchBowlingFactor), 1.5, 4.5);
-
-    // allow hazard to increase slightly every 20 overs as ball ages/pitch wears
-    let wickets = 0, runs = 0;
-    for (let o = 0; o < oversAvail; o++) {
-      // small end-game acceleration of scoring if behind RR
-      const reqRPO = (targetMean - runs) / Math.max(1, oversAvail - o);
-      const pressureLift = reqRPO > rpoMean ? clamp((reqRPO - rpoMean) * 0.15, 0, 0.8) : 0;
-
-      const overRuns = Math.max(0, Math.round(normal(r, rpoMean + pressureLift, 1)));
-      runs += overRuns;
-
-      // wicket event(s)
-      if (r() < wicketP) {
-        wickets++;
-        // slight increase as pitch wears and batters down the order appear
-        wicketP = clamp(wicketP * 1.02, 0.03, 0.25);
-      }
-
-      // drift towards tougher batting later
-      if ((o + 1) % 20 === 0) {
-        rpoMean = Math.max(1.2, rpoMean * 0.98);
-        wicketP = clamp(wicketP * 1.03, 0.03, 0.25);
-      }
-
-      if (runs >= targetMean) {
-        loss++; // opponent chased successfully
-        marginAgg += -(runs - targetMean); // negative = they win by runs
-        break;
-      }
-      if (wickets >= 10) {
-        win++;
-        marginAgg += targetMean - runs; // positive margin remaining
-        break;
-      }
-
-      // if last over used and neither condition met -> draw
-      if (o === Math.floor(oversAvail) - 1) {
-        draw++;
-        marginAgg += targetMean - runs; // our margin if time expired
-      }
-    }
-  }
-
-  const winP = win / sims;
-  const lossP = loss / sims;
-  const drawP = draw / sims;
-
-  return {
-    optionLabel: declareAfterOvers === 0 ? "Declare now" : `Declare in ${declareAfterOvers} over${declareAfterOvers === 1 ? "" : "s"}`,
-    declareAfterOvers,
-    expectAddedRuns: expectAddedRuns,
-    expectWktsLostWhileBatting: expectWktsLost,
-    target: targetMean,
-    bowlOversAvail: 0, // filled below with expectation, but we can approximate with mean
-    winP,
-    lossP,
-    drawP,
-    expMarginRuns: marginAgg / sims,
-  };
-}
-
-function evaluateAllOptions(inputs: Inputs, sims = 2500) {
-  const preset = GROUND_PRESETS[inputs.groundPresetKey] || GROUND_PRESETS.generic;
-
-  const maxK = Math.min(30, inputs.oversLeftThisSession + (inputs.sessionsRemaining - 1) * inputs.oversPerSession); // do not consider more than 30 overs of batting on
-  const options: OptionOutcome[] = [];
-
-  for (let K = 0; K <= maxK; K += 1) {
-    const out = simulateOption(inputs, preset, K, sims, 1234);
-    options.push(out);
-  }
-
-  // Utility based on risk appetite
-  const weightLoss = inputs.riskAppetite < 1 ? 2.0 : inputs.riskAppetite < 1.5 ? 1.2 : 0.8;
-  const weightWin = 1.0;
-
-  const withUtility = options.map((o) => ({
-    ...o,
-    utility: weightWin * o.winP - weightLoss * o.lossP,
-  }));
-
-  withUtility.sort((a, b) => b.utility - a.utility);
-
-  const best = withUtility[0];
-  const runnerUp = withUtility[1];
-
-  return { best, runnerUp, options: withUtility, preset };
-}
-
-// ---------- UI helpers ----------
-function pct(n: number) {
-  return (n * 100).toFixed(1) + "%";
-}
-
-function Bar({ value, label }: { value: number; label: string }) {
-  return (
-    <div className="w-full mb-2">
-      <div className="text-xs mb-1 flex justify-between"><span>{label}</span><span>{pct(value)}</span></div>
-      <div className="w-full h-2 bg-gray-200/80 rounded-xl overflow-hidden">
-        <div className="h-2 rounded-xl" style={{ width: `${Math.min(100, Math.max(0, value * 100))}%` }} />
-      </div>
-    </div>
+// ---------- Main Component ----------
+export default function DeclarationAdvisor() {
+  // a shared link seeds the whole page; without one the defaults apply
+  const [fromUrl] = useState(readUrlSnapshot);
+  const initial = fromUrl.snapshot ?? DEFAULT_SNAPSHOT;
+
+  const [baseInputs, setInputs] = useState<Inputs>(initial.inputs);
+  const [savedGrounds, setSavedGrounds] = usePersistedState(readGrounds, writeGrounds);
+  const grounds = useMemo(() => allGrounds(savedGrounds), [savedGrounds]);
+  const { matchState, setMatchState, revision, timeline, applyUpdate, undo, record, reset } = useLiveMatch(initial.matchState ?? DEFAULT_MATCH_STATE);
+  const [deriveFromMatch, setDeriveFromMatch] = useState(!!initial.matchState);
+  const [live, setLive] = useState(false); // over-by-over updates drive the match state
+
+  // with the match-state editor on, lead, wickets, sessions and overs come from the scorecard and clock
+  const derivation = useMemo(() => (deriveFromMatch ? deriveInputs(matchState, baseInputs) : null), [deriveFromMatch, matchState, baseInputs]);
+  const inputs = derivation ? derivation.inputs : baseInputs;
+  // shown beside the fields they belong to; the sweep refuses to run until they are fixed
+  const inputIssues = useMemo(() => validateInputs(inputs), [inputs]);
+  // what the chase makes of the two sides under player profiles
+  const profiles = usesProfiles(inputs);
+  const batting = battingStrength(inputs);
+  const attack = attackStrength(inputs, resolveGround(inputs));
+  const chaseIntent = inputs.chaseIntent ?? "adaptive";
+  const intentBias = inputs.chaseIntentBias ?? 0;
+  const spinShare = profiles ? attackSpinShare(inputs.ourAttack!) : inputs.spinShare ?? DEFAULT_SPIN_SHARE;
+  const blocked = !!derivation && (derivation.issues.length > 0 || !derivation.declaration.legal || !derivation.declaration.meaningful);
+
+  const [sims, setSims] = useState(initial.sims);
+  const [seed, setSeed] = useState(initial.seed);
+  const [adaptive, setAdaptive] = useState(initial.adaptive);
+  const [alternatives, setAlternatives] = useState<AlternativePolicySettings>(initial.alternatives);
+  const [loadCount, setLoadCount] = useState(0); // remounts the policy controls, which keep their own text, when a scenario loads
+
+  // the URL always carries the current scenario, so the address bar is a shareable link
+  const snapshot = useMemo<ScenarioSnapshot>(
+    () => ({ inputs: baseInputs, sims, seed, adaptive, alternatives, ...(deriveFromMatch && { matchState }) }),
+    [baseInputs, sims, seed, adaptive, alternatives, deriveFromMatch, matchState]
   );
-}
-
-function Section({ title, children }: { title: string; children: React.ReactNode }) {
-  return (
-    <div className="bg-white/70 rounded-2xl shadow p-4">
-      <h2 className="text-lg font-semibold mb-3">{title}</h2>
-      {children}
-    </div>
+  useUrlSnapshot(snapshot);
+
+  // the sweep runs in a Web Worker; rows arrive as each declaration option finishes
+  const { best, runnerUp, options, separation, progress, running, settled, issues, error } = useDeclarationSweep(blocked ? null : inputs, sims, seed, adaptive, alternatives);
+
+  // charts and table share one hovered option; clicking picks the option whose outcome spread is shown
+  const [hoveredKey, setHoveredKey] = useState<string | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const selected = options.find((o) => o.key === selectedKey) ?? best;
+  const { distribution, loading: distributionLoading } = useOutcomeDistribution(settled ? inputs : null, settled && selected ? selected.policy : null, sims, seed);
+
+  // sensitivity runs only when asked; it re-sweeps every perturbed input, so it gets its own, smaller sims setting
+  const [sensitivitySims, setSensitivitySims] = useState(1000);
+  const sensitivity = useSensitivity(blocked ? null : inputs, sensitivitySims, seed, alternatives);
+  const topSensitivity = !sensitivity.stale && !sensitivity.running ? sensitivity.rows[0] : undefined;
+
+  // the reasoning and the dressing-room briefing are built from the sweep and, once it has run, the sensitivity rows
+  const sensitivityRows = topSensitivity ? sensitivity.rows : null;
+  const explanation = useMemo(
+    () => (best ? explainEvaluation(inputs, { best, runnerUp, options, separation }, sensitivityRows) : null),
+    [inputs, best, runnerUp, options, separation, sensitivityRows]
   );
-}
 
-// ---------- Main Component ----------
-export default function DeclarationAdvisor() {
-  const [inputs, setInputs] = useState<Inputs>({
-    ground: GROUND_PRESETS.generic.name,
-    oversPerSession: 30,
-    sessionsRemaining: 3,
-    oversLeftThisSession: 24,
-
-    currentLead: 250,
-    wicketsInHand: 6,
-    continueBattingRunRate: 3.8,
-    continueBattingWicketProbPerOver: 0.12,
-
-    opponentBattingStrength: 60,
-    ourBowlingStrength: 65,
-    pitchBowlingFactor: 1.15,
-
-    weatherBySession: [
-      { rainChance: 0.1 },
-      { rainChance: 0.2 },
-      { rainChance: 0.2 },
-      { rainChance: 0.2 },
-    ],
-
-    riskAppetite: 1.0,
-    groundPresetKey: "generic",
-  });
-
-  const [sims, setSims] = useState(2500);
-  const [seed, setSeed] = useState(1234);
-
-  const { best, runnerUp, options } = useMemo(() => evaluateAllOptions({ ...inputs }, sims), [inputs, sims, seed]);
-
-  const applyPreset = (key: string) => {
-    const g = GROUND_PRESETS[key];
-    setInputs((prev) => ({ ...prev, ground: g.name, groundPresetKey: key }));
+  // first-innings declarations and the follow-on play out the whole match, so they run whatever innings the scorecard is in
+  const stageInputs = derivation && derivation.issues.length > 0 ? null : inputs;
+  const firstInnings = useStageEvaluation(stageInputs, sims, seed);
+  const followOn = useStageEvaluation(stageInputs, sims, seed);
+  // with the scorecard, the follow-on's fatigue comes from their first innings once the third has begun
+  const theirFirstInningsOvers = derivation && matchState.battingFirst === "us" && matchState.innings.length >= 3 ? matchState.innings[1].overs : undefined;
+
+  // post-match review of an actual declaration made from the moment on screen
+  const reviewer = useDeclarationReview(blocked ? null : inputs, sims, seed, alternatives);
+
+  // in live mode every finished evaluation is logged against the update it belongs to
+  useEffect(() => {
+    if (live && settled && best) record(timelinePoint(revision, matchState, best));
+  }, [live, settled, best, revision, matchState, record]);
+
+  // saved grounds travel inside the inputs, so the workers and shared links see the same profile
+  const applyPreset = (key: string, g: GroundPreset = grounds[key]) => {
+    setInputs((prev) => ({
+      ...prev,
+      ground: g.name,
+      groundPresetKey: key,
+      groundProfile: key in savedGrounds || !isBuiltInGround(key) ? g : undefined,
+      oversPerSession: g.sessionOvers ?? prev.oversPerSession,
+    }));
   };
 
-  const loadScenario = (label: string) => {
-    if (label === "Day 5 squeeze") {
-      setInputs({
-        ground: GROUND_PRESETS.scg.name,
-        oversPerSession: 30,
-        sessionsRemaining: 2,
-        oversLeftThisSession: 18,
-        currentLead: 310,
-        wicketsInHand: 7,
-        continueBattingRunRate: 3.7,
-        continueBattingWicketProbPerOver: 0.11,
-        opponentBattingStrength: 55,
-        ourBowlingStrength: 70,
-        pitchBowlingFactor: 1.25,
-        weatherBySession: [{ rainChance: 0.05 }, { rainChance: 0.15 }, { rainChance: 0.15 }],
-        riskAppetite: 1.0,
-        groundPresetKey: "scg",
-      });
-    }
-    if (label === "Flat pitch, rain risk") {
-      setInputs({
-        ground: GROUND_PRESETS.rawalpindi.name,
-        oversPerSession: 30,
-        sessionsRemaining: 3,
-        oversLeftThisSession: 22,
-        currentLead: 180,
-        wicketsInHand: 5,
-        continueBattingRunRate: 4.2,
-        continueBattingWicketProbPerOver: 0.09,
-        opponentBattingStrength: 70,
-        ourBowlingStrength: 60,
-        pitchBowlingFactor: 0.9,
-        weatherBySession: [{ rainChance: 0.3 }, { rainChance: 0.4 }, { rainChance: 0.4 }],
-        riskAppetite: 0.7,
-        groundPresetKey: "rawalpindi",
-      });
+  const saveGround = (key: string, g: GroundPreset) => {
+    setSavedGrounds((prev) => ({ ...prev, [key]: g }));
+    if (key === inputs.groundPresetKey) setInputs((prev) => ({ ...prev, ground: g.name, groundProfile: g }));
+  };
+
+  const deleteGround = (key: string) => {
+    setSavedGrounds((prev) => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+    if (key === inputs.groundPresetKey) {
+      const fallback = isBuiltInGround(key) ? key : "generic";
+      setInputs((prev) => ({ ...prev, ground: grounds[fallback].name, groundPresetKey: fallback, groundProfile: undefined }));
     }
   };
 
-  const onNum = (k: keyof Inputs) => (e: React.ChangeEvent<HTMLInputElement>) => {
-    const v = Number(e.target.value);
-    setInputs((prev) => ({ ...prev, [k]: isNaN(v) ? 0 : v }));
+  const loadSnapshot = (snapshot: ScenarioSnapshot) => {
+    setInputs(snapshot.inputs);
+    setSims(snapshot.sims);
+    setSeed(snapshot.seed);
+    setAdaptive(snapshot.adaptive);
+    setAlternatives(snapshot.alternatives);
+    if (snapshot.matchState) reset(snapshot.matchState);
+    setDeriveFromMatch(!!snapshot.matchState);
+    setLoadCount((n) => n + 1);
   };
 
+  const setNumber = (k: NumberFieldName) => (v: number) => setInputs((prev) => ({ ...prev, [k]: v }));
+
   const onSlider = (k: keyof Inputs, factor = 1) => (e: React.ChangeEvent<HTMLInputElement>) => {
     const v = Number(e.target.value) / factor;
     setInputs((prev) => ({ ...prev, [k]: v }));
   };
 
   const changeWeather = (idx: number, v: number) => {
-    const arr = inputs.weatherBySession.slice();
-    arr[idx] = { rainChance: clamp(v, 0, 1) };
-    setInputs((prev) => ({ ...prev, weatherBySession: arr }));
+    setInputs((prev) => {
+      // derived session counts can run past the array; pad with dry sessions rather than leave holes
+      const arr = Array.from({ length: Math.max(prev.weatherBySession.length, idx + 1) }, (_, i) => prev.weatherBySession[i] ?? { rainChance: 0 });
+      arr[idx] = { rainChance: clamp(v, 0, 1) };
+      return { ...prev, weatherBySession: arr };
+    });
   };
 
   return (
@@ -389,58 +209,172 @@ export default function DeclarationAdvisor() {
           <p className="text-sm md:text-base text-slate-600 mt-1">Input the current match context. The model simulates thousands of fourth-innings chases to suggest when to declare. Every recommendation includes the reasoning behind it.</p>
         </header>
 
+        <div className="mb-4">
+          <Section title="Scenarios">
+            {fromUrl.error && (
+              <div className="mb-3 p-3 rounded-2xl bg-amber-50 border border-amber-200 text-sm text-amber-900">Couldn't open the shared scenario ({fromUrl.error}); showing the defaults instead.</div>
+            )}
+            <ScenarioLibrary current={snapshot} onLoad={loadSnapshot} />
+          </Section>
+        </div>
+
+        <div className="mb-4">
+          <Section title="Match state">
+            <div className="flex flex-wrap gap-x-6 gap-y-2">
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={deriveFromMatch} onChange={(e) => { setDeriveFromMatch(e.target.checked); if (!e.target.checked) setLive(false); }} />
+                Derive lead, wickets in hand, sessions and overs from the scorecard and clock
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={live} onChange={(e) => { setLive(e.target.checked); if (e.target.checked) setDeriveFromMatch(true); }} />
+                Live mode: advance over by over
+              </label>
+            </div>
+            {live && (
+              <div className="mt-3 p-3 rounded-2xl border bg-white/60">
+                <LiveMatchPanel revision={revision} timeline={timeline} onUpdate={applyUpdate} onUndo={undo} />
+              </div>
+            )}
+            {deriveFromMatch && (
+              <div className="mt-3">
+                <MatchStateEditor state={matchState} onChange={setMatchState} />
+                {derivation && derivation.issues.length > 0 && (
+                  <ul className="mt-3 p-3 rounded-2xl bg-rose-50 border border-rose-200 text-sm text-rose-800 list-disc pl-8">
+                    {derivation.issues.map((i) => <li key={i.field + i.message}>{i.field} {i.message}</li>)}
+                  </ul>
+                )}
+                {derivation && derivation.declaration.reasons.length > 0 && (
+                  <div className="mt-3 p-3 rounded-2xl bg-amber-50 border border-amber-200 text-sm text-amber-900">
+                    <div className="font-medium">{derivation.declaration.legal ? "Declaring here is outside what the advisor models" : "No declaration to make"}</div>
+                    <ul className="list-disc pl-5">
+                      {derivation.declaration.reasons.map((r) => <li key={r}>{r}</li>)}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </Section>
+        </div>
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
           {/* Inputs */}
           <Section title="Match context">
             <div className="grid grid-cols-2 gap-3">
               <label className="flex flex-col text-sm">Ground preset
                 <select value={inputs.groundPresetKey} onChange={(e) => applyPreset(e.target.value)} className="mt-1 rounded-xl border p-2">
-                  {Object.keys(GROUND_PRESETS).map((k) => (
-                    <option key={k} value={k}>{GROUND_PRESETS[k].name}</option>
+                  {Object.keys(grounds).map((k) => (
+                    <option key={k} value={k}>{grounds[k].name}</option>
                   ))}
+                  {!(inputs.groundPresetKey in grounds) && <option value={inputs.groundPresetKey}>{inputs.ground}</option>}
                 </select>
               </label>
-              <label className="flex flex-col text-sm">Overs / session
-                <input type="number" value={inputs.oversPerSession} onChange={onNum("oversPerSession")} className="mt-1 rounded-xl border p-2" />
-              </label>
-              <label className="flex flex-col text-sm">Sessions remaining
-                <input type="number" value={inputs.sessionsRemaining} onChange={onNum("sessionsRemaining")} className="mt-1 rounded-xl border p-2" />
-              </label>
-              <label className="flex flex-col text-sm">Overs left this session
-                <input type="number" value={inputs.oversLeftThisSession} onChange={onNum("oversLeftThisSession")} className="mt-1 rounded-xl border p-2" />
-              </label>
-              <label className="flex flex-col text-sm">Current lead (runs)
-                <input type="number" value={inputs.currentLead} onChange={onNum("currentLead")} className="mt-1 rounded-xl border p-2" />
-              </label>
-              <label className="flex flex-col text-sm">Wickets in hand
-                <input type="number" value={inputs.wicketsInHand} onChange={onNum("wicketsInHand")} className="mt-1 rounded-xl border p-2" />
-              </label>
-              <label className="flex flex-col text-sm">If batting on, run rate
-                <input type="number" step={0.1} value={inputs.continueBattingRunRate} onChange={onNum("continueBattingRunRate")} className="mt-1 rounded-xl border p-2" />
-              </label>
-              <label className="flex flex-col text-sm">If batting on, wicket chance / over
-                <input type="number" step={0.01} value={inputs.continueBattingWicketProbPerOver} onChange={onNum("continueBattingWicketProbPerOver")} className="mt-1 rounded-xl border p-2" />
-              </label>
-              <label className="flex flex-col text-sm">Opponent batting strength
-                <input type="range" min={30} max={80} value={inputs.opponentBattingStrength} onChange={onSlider("opponentBattingStrength")}
-                  className="mt-3" />
-                <span className="text-xs text-slate-500">{inputs.opponentBattingStrength}</span>
-              </label>
-              <label className="flex flex-col text-sm">Our bowling strength
-                <input type="range" min={30} max={80} value={inputs.ourBowlingStrength} onChange={onSlider("ourBowlingStrength")}
-                  className="mt-3" />
-                <span className="text-xs text-slate-500">{inputs.ourBowlingStrength}</span>
+              <NumberField field="oversPerSession" value={inputs.oversPerSession} issue={issueFor(inputIssues, "oversPerSession")} onChange={setNumber("oversPerSession")} disabled={deriveFromMatch} />
+              <NumberField field="sessionsRemaining" value={inputs.sessionsRemaining} issue={issueFor(inputIssues, "sessionsRemaining")} onChange={setNumber("sessionsRemaining")} disabled={deriveFromMatch} />
+              <NumberField field="oversLeftThisSession" value={inputs.oversLeftThisSession} issue={issueFor(inputIssues, "oversLeftThisSession")} onChange={setNumber("oversLeftThisSession")} disabled={deriveFromMatch} />
+              <NumberField field="currentLead" value={inputs.currentLead} issue={issueFor(inputIssues, "currentLead")} onChange={setNumber("currentLead")} disabled={deriveFromMatch} />
+              <NumberField field="wicketsInHand" value={inputs.wicketsInHand} issue={issueFor(inputIssues, "wicketsInHand")} onChange={setNumber("wicketsInHand")} disabled={deriveFromMatch} />
+              <NumberField field="continueBattingRunRate" value={inputs.continueBattingRunRate} issue={issueFor(inputIssues, "continueBattingRunRate")} onChange={setNumber("continueBattingRunRate")} />
+              <NumberField field="continueBattingWicketProbPerOver" value={inputs.continueBattingWicketProbPerOver} issue={issueFor(inputIssues, "continueBattingWicketProbPerOver")} onChange={setNumber("continueBattingWicketProbPerOver")} />
+              <label className="flex flex-col text-sm col-span-2">Team strength from
+                <select
+                  value={inputs.strengthModel ?? "sliders"}
+                  onChange={(e) => setInputs((prev) => ({
+                    ...prev,
+                    strengthModel: e.target.value as StrengthModel,
+                    ourAttack: prev.ourAttack ?? DEFAULT_ATTACK,
+                    battingOrder: prev.battingOrder ?? DEFAULT_BATTING_ORDER,
+                  }))}
+                  className="mt-1 rounded-xl border p-2"
+                >
+                  <option value="sliders">Strength sliders (50 is a typical Test side)</option>
+                  <option value="profiles">Player profiles: their batters, our bowlers</option>
+                </select>
               </label>
-              <label className="flex flex-col text-sm">Pitch bowling factor
+              {profiles ? (
+                <div className="col-span-2 text-xs text-slate-600 rounded-xl bg-slate-50 p-2">
+                  Their batting: <span className="font-semibold">{(batting.resistance * TYPICAL_RUNS_PER_WICKET).toFixed(1)}</span> runs per wicket at a strike rate of <span className="font-semibold">{(batting.tempo * TYPICAL_STRIKE_RATE).toFixed(0)}</span> (typical {TYPICAL_RUNS_PER_WICKET} and {TYPICAL_STRIKE_RATE}).
+                  {" "}Our attack on this ground: wicket chance ×<span className="font-semibold">{attack.wickets[0].toFixed(2)}</span> at the start of the chase, ×<span className="font-semibold">{attack.wickets[Math.min(60, attack.wickets.length - 1)].toFixed(2)}</span> after 60 overs of it.
+                </div>
+              ) : (
+                <>
+                  <label className="flex flex-col text-sm">Opponent batting strength
+                    <input type="range" min={30} max={80} value={inputs.opponentBattingStrength} onChange={onSlider("opponentBattingStrength")}
+                      className="mt-3" />
+                    <span className="text-xs text-slate-500">{inputs.opponentBattingStrength}</span>
+                  </label>
+                  <label className="flex flex-col text-sm">Our bowling strength
+                    <input type="range" min={30} max={80} value={inputs.ourBowlingStrength} onChange={onSlider("ourBowlingStrength")}
+                      className="mt-3" />
+                    <span className="text-xs text-slate-500">{inputs.ourBowlingStrength}</span>
+                  </label>
+                </>
+              )}
+              <label className="flex flex-col text-sm">Pitch bowling factor today
                 <input type="range" min={0.6} max={1.6} step={0.01} value={inputs.pitchBowlingFactor} onChange={onSlider("pitchBowlingFactor")}
                   className="mt-3" />
                 <span className="text-xs text-slate-500">{inputs.pitchBowlingFactor.toFixed(2)}</span>
               </label>
-              <label className="flex flex-col text-sm">Risk appetite
-                <input type="range" min={0} max={2} step={0.01} value={inputs.riskAppetite} onChange={onSlider("riskAppetite")}
+              <label className="flex flex-col text-sm">Spin share of our overs
+                <input type="range" min={0} max={100} value={Math.round(spinShare * 100)} onChange={onSlider("spinShare", 100)} disabled={profiles}
                   className="mt-3" />
-                <span className="text-xs text-slate-500">{inputs.riskAppetite < 0.9 ? "Conservative" : inputs.riskAppetite < 1.4 ? "Balanced" : "Aggressive"} ({inputs.riskAppetite.toFixed(2)})</span>
+                <span className="text-xs text-slate-500">{Math.round(spinShare * 100)}%{profiles ? " (from the attack)" : ""}</span>
+              </label>
+              <NumberField field="matchDay" value={currentMatchDay(inputs)} issue={issueFor(inputIssues, "matchDay")} onChange={setNumber("matchDay")} disabled={deriveFromMatch} />
+              {usesRiskAppetite(inputs) && (
+                <label className="flex flex-col text-sm">Risk appetite
+                  <input type="range" min={0} max={2} step={0.01} value={inputs.riskAppetite} onChange={onSlider("riskAppetite")}
+                    className="mt-3" />
+                  <span className="text-xs text-slate-500">{inputs.riskAppetite < 0.9 ? "Conservative" : inputs.riskAppetite < 1.4 ? "Balanced" : "Aggressive"} ({inputs.riskAppetite.toFixed(2)})</span>
+                </label>
+              )}
+              {calibratedEras().length > 0 && (
+                <label className="flex flex-col text-sm col-span-2">Calibration era
+                  <select value={inputs.era ?? ""} onChange={(e) => setInputs((prev) => ({ ...prev, era: e.target.value || undefined }))} className="mt-1 rounded-xl border p-2">
+                    <option value="">All eras</option>
+                    {calibratedEras().map((era) => (
+                      <option key={era} value={era}>{era} ({CALIBRATION.eras[era].matches} matches)</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <div className="col-span-2">
+                <UtilityModelEditor inputs={inputs} onChange={(utilityModel) => setInputs((prev) => ({ ...prev, utilityModel }))} />
+              </div>
+              <label className="flex flex-col text-sm col-span-2">Weather model
+                <select value={inputs.weatherModel ?? "session"} onChange={(e) => setInputs((prev) => ({ ...prev, weatherModel: e.target.value as WeatherModel }))} className="mt-1 rounded-xl border p-2">
+                  <option value="session">Rain chance per session (cuts the chase only)</option>
+                  <option value="hourly">Hourly rain and bad light (stops batting on and the chase)</option>
+                </select>
+              </label>
+              {inputs.weatherModel === "hourly" && (
+                <label className="flex flex-col text-sm col-span-2">Current session
+                  <select value={inputs.sessionOfDay ?? 1} onChange={(e) => setInputs((prev) => ({ ...prev, sessionOfDay: Number(e.target.value) }))} disabled={deriveFromMatch} className="mt-1 rounded-xl border p-2 disabled:bg-slate-100">
+                    <option value={1}>Morning</option>
+                    <option value={2}>Afternoon</option>
+                    <option value={3}>Evening</option>
+                  </select>
+                </label>
+              )}
+              <label className="flex flex-col text-sm col-span-2">Chase model
+                <select value={inputs.chaseModel ?? "aggregate"} onChange={(e) => setInputs((prev) => ({ ...prev, chaseModel: e.target.value as ChaseModel, battingOrder: prev.battingOrder ?? DEFAULT_BATTING_ORDER }))} className="mt-1 rounded-xl border p-2">
+                  <option value="aggregate">Aggregate side (uses opponent batting strength)</option>
+                  <option value="detailed">Ball by ball through their batting order</option>
+                </select>
+              </label>
+              <label className="flex flex-col text-sm col-span-2">Opposition chase intent
+                <select value={chaseIntent} onChange={(e) => setInputs((prev) => ({ ...prev, chaseIntent: e.target.value as ChaseIntentModel }))} className="mt-1 rounded-xl border p-2">
+                  {CHASE_INTENT_MODELS.map((m) => (
+                    <option key={m} value={m}>{CHASE_INTENT_LABELS[m]}</option>
+                  ))}
+                </select>
               </label>
+              {chaseIntent === "adaptive" && (
+                <label className="flex flex-col text-sm col-span-2">Their bias between the draw and the win
+                  <input type="range" min={-1} max={1} step={0.1} value={intentBias} onChange={onSlider("chaseIntentBias")}
+                    className="mt-3" />
+                  <span className="text-xs text-slate-500">{intentBias < -0.3 ? "Draw-minded" : intentBias > 0.3 ? "Win-minded" : "Neutral"} ({intentBias.toFixed(1)})</span>
+                </label>
+              )}
             </div>
 
             <div className="mt-4">
@@ -461,29 +395,50 @@ export default function DeclarationAdvisor() {
                   </div>
                 ))}
               </div>
+              {issueFor(inputIssues, "weatherBySession") && (
+                <div className="mt-2 text-xs text-rose-700">
+                  Rain chances {issueFor(inputIssues, "weatherBySession")}.{" "}
+                  <button onClick={() => changeWeather(inputs.sessionsRemaining - 1, inputs.weatherBySession[inputs.sessionsRemaining - 1]?.rainChance ?? 0)} className="underline font-medium">Set the missing sessions to dry</button>
+                </div>
+              )}
+              {inputs.weatherModel === "hourly" && (
+                <div className="mt-3">
+                  <ForecastEditor inputs={inputs} onChange={(forecast) => setInputs((prev) => ({ ...prev, forecast }))} />
+                </div>
+              )}
             </div>
 
-            <div className="mt-4 flex gap-2 flex-wrap">
-              <button onClick={() => loadScenario("Day 5 squeeze")} className="px-3 py-2 rounded-xl bg-emerald-600 text-white text-sm shadow">Load: Day 5 squeeze</button>
-              <button onClick={() => loadScenario("Flat pitch, rain risk")} className="px-3 py-2 rounded-xl bg-sky-600 text-white text-sm shadow">Load: Flat pitch, rain risk</button>
-            </div>
           </Section>
 
           {/* Recommendation */}
           <Section title="Recommendation">
+            {issues.length > 0 && (
+              <div className="p-3 rounded-2xl bg-rose-50 border border-rose-200 text-sm text-rose-800">
+                <div className="font-medium mb-1">Fix these inputs to run the model</div>
+                <ul className="list-disc pl-5">
+                  {issues.map((i) => <li key={`${i.field}:${i.message}`}>{i.field} {i.message}</li>)}
+                </ul>
+              </div>
+            )}
+            {error && (
+              <div className="p-3 rounded-2xl bg-rose-50 border border-rose-200 text-sm text-rose-800">Simulation failed: {error}</div>
+            )}
             {best && (
               <div>
                 <div className="p-3 rounded-2xl bg-emerald-50 border border-emerald-200">
-                  <div className="text-sm">Suggested action</div>
-                  <div className="text-xl font-bold mt-1">{best.declareAfterOvers === 0 ? "Declare now" : `Declare in ${best.declareAfterOvers} over${best.declareAfterOvers === 1 ? "" : "s"}`}</div>
-                  <div className="text-sm mt-2 text-slate-700">Projected target ~ <span className="font-semibold">{Math.round(best.target)}</span> with an expected additional <span className="font-semibold">{Math.round(best.expectAddedRuns)}</span> runs if you bat on.
+                  <div className="text-sm">Suggested action{running && <span className="text-slate-500"> (provisional, {progress.completed}/{progress.total} options simulated)</span>}</div>
+                  <div className="text-xl font-bold mt-1">{best.optionLabel}</div>
+                  {best.policy.kind !== "overs" && (
+                    <div className="text-xs mt-1 text-slate-600">Expected to bat on for about {best.expectOversBatted.toFixed(1)} overs before declaring.</div>
+                  )}
+                  <div className="text-sm mt-2 text-slate-700">Projected target ~ <span className="font-semibold">{Math.round(best.target)}</span> (80% between {Math.round(best.targetQuantiles.p10)} and {Math.round(best.targetQuantiles.p90)}) with an expected additional <span className="font-semibold">{Math.round(best.expectAddedRuns)}</span> runs if you bat on, leaving about <span className="font-semibold">{Math.round(best.bowlOversAvail)}</span> overs to bowl them out.
                   </div>
                 </div>
 
                 <div className="mt-4">
-                  <Bar value={best.winP} label="Win probability" />
-                  <Bar value={best.drawP} label="Draw probability" />
-                  <Bar value={best.lossP} label="Loss probability" />
+                  <Bar value={best.winP} stdErr={best.stdErr.winP} label="Win probability" color={OUTCOME_COLOURS.win} />
+                  <Bar value={best.drawP} stdErr={best.stdErr.drawP} label="Draw probability" color={OUTCOME_COLOURS.draw} />
+                  <Bar value={best.lossP} stdErr={best.stdErr.lossP} label="Loss probability" color={OUTCOME_COLOURS.loss} />
                 </div>
 
                 {runnerUp && (
@@ -492,53 +447,84 @@ export default function DeclarationAdvisor() {
                   </div>
                 )}
 
-                <div className="mt-4">
-                  <h3 className="font-semibold mb-2">Reasoning</h3>
-                  <ul className="text-sm space-y-2 list-disc pl-5">
-                    <li>
-                      Trade-off between <span className="font-medium">time to take 10 wickets</span> and <span className="font-medium">runs on the board</span>: this option balances a target near <span className="font-semibold">{Math.round(best.target)}</span> with the time cost of batting on.
-                    </li>
-                    <li>
-                      Bowling context: our attack strength <span className="font-semibold">{inputs.ourBowlingStrength}</span> versus their batting <span className="font-semibold">{inputs.opponentBattingStrength}</span>, adjusted by pitch factor <span className="font-semibold">{inputs.pitchBowlingFactor.toFixed(2)}</span> and ground profile <span className="font-semibold">{inputs.ground}</span>.
-                    </li>
-                    <li>
-                      Weather risk reduces available overs. Session rain chances considered: {inputs.weatherBySession.slice(0, inputs.sessionsRemaining).map((w, i) => `${i + 1}:${Math.round((w?.rainChance ?? 0) * 100)}%`).join(", ")}. Declaring earlier preserves overs when rain is likely.
-                    </li>
-                    <li>
-                      Compared with {runnerUp ? <span className="font-medium">{runnerUp.optionLabel}</span> : "nearby options"}, this choice changes win by <span className="font-semibold">{runnerUp ? (Math.round((best.winP - runnerUp.winP) * 1000) / 10) : 0}%</span> and loss by <span className="font-semibold">{runnerUp ? (Math.round((best.lossP - runnerUp.lossP) * 1000) / 10) : 0}%</span>, reflecting your current risk appetite.
-                    </li>
-                    <li>
-                      Expected margin if time expires or wickets fall: <span className="font-semibold">{Math.round(best.expMarginRuns)}</span> runs in our favor on average under this option.
-                    </li>
-                  </ul>
-                </div>
+                {runnerUp && !running && !separation.separable && (
+                  <div className="mt-3 p-3 rounded-2xl bg-amber-50 border border-amber-200 text-xs text-amber-900">
+                    <span className="font-medium">{best.optionLabel}</span> and <span className="font-medium">{runnerUp.optionLabel}</span> are within Monte Carlo noise (utility gap {separation.z.toFixed(2)} standard errors; 95% needs {Z95}).
+                    {adaptive
+                      ? " Adaptive mode reached its simulation cap without separating them; treat them as equivalent."
+                      : <> <button onClick={() => setAdaptive(true)} className="underline font-medium">Run adaptive mode</button> to add simulations until they separate.</>}
+                  </div>
+                )}
+
+                {explanation && (
+                  <div className="mt-4">
+                    <h3 className="font-semibold mb-2">Reasoning</h3>
+                    <ul className="text-sm space-y-2 list-disc pl-5">
+                      {explanation.points.map((p) => <li key={p}>{p}</li>)}
+                    </ul>
+                    {!topSensitivity && <div className="mt-2 text-xs text-slate-500">Run the sensitivity analysis below to name the input that matters most.</div>}
+                    {explanation.warnings.length > 0 && (
+                      <div className="mt-3 p-2 rounded-xl border bg-amber-50 border-amber-200 text-xs text-amber-900">
+                        <div className="font-medium mb-1">Worth a second look</div>
+                        <ul className="list-disc pl-5">
+                          {explanation.warnings.map((w) => <li key={w}>{w}</li>)}
+                        </ul>
+                      </div>
+                    )}
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      <button onClick={() => void navigator.clipboard.writeText(briefingText(explanation, { sims, seed }))} disabled={running} className="px-3 py-2 rounded-xl text-sm shadow bg-white disabled:opacity-50">Copy briefing</button>
+                      <button onClick={() => download(slugFileName(`briefing ${inputs.ground}`, "briefing", "txt"), briefingText(explanation, { sims, seed }), "text/plain")} disabled={running} className="px-3 py-2 rounded-xl text-sm shadow bg-white disabled:opacity-50">Download briefing (.txt)</button>
+                      <button onClick={() => download(slugFileName(`briefing ${inputs.ground}`, "briefing", "md"), briefingMarkdown(explanation, { sims, seed }), "text/markdown")} disabled={running} className="px-3 py-2 rounded-xl text-sm shadow bg-white disabled:opacity-50">Download briefing (.md)</button>
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </Section>
 
           {/* Options table */}
           <Section title="Win/draw/loss by declaration timing">
+            <PolicyControls key={loadCount} inputs={inputs} value={alternatives} onChange={setAlternatives} />
+            {running && (
+              <div className="mb-3">
+                <div className="text-xs mb-1 flex justify-between text-slate-600">
+                  <span>{progress.refineRound > 0 ? `Adaptive refinement, round ${progress.refineRound}…` : "Simulating declaration options…"}</span>
+                  <span>{progress.completed}/{progress.total}</span>
+                </div>
+                <div className="w-full h-2 bg-gray-200/80 rounded-xl overflow-hidden">
+                  <div className="h-2 rounded-xl bg-sky-500 transition-all" style={{ width: `${progress.total ? (progress.completed / progress.total) * 100 : 0}%` }} />
+                </div>
+              </div>
+            )}
             <div className="max-h-[520px] overflow-auto rounded-xl border">
               <table className="min-w-full text-sm">
                 <thead className="sticky top-0 bg-white">
                   <tr>
                     <th className="text-left p-2">Declare</th>
-                    <th className="text-right p-2">Target</th>
+                    <th className="text-right p-2">Target (p10–p90)</th>
+                    <th className="text-right p-2">Overs bat / bowl</th>
                     <th className="text-right p-2">Win</th>
                     <th className="text-right p-2">Draw</th>
                     <th className="text-right p-2">Loss</th>
-                    <th className="text-right p-2">Utility</th>
+                    <th className="text-right p-2">Utility (95%)</th>
                   </tr>
                 </thead>
                 <tbody>
                   {options.map((o, idx) => (
-                    <tr key={idx} className={idx === 0 ? "bg-emerald-50" : idx % 2 ? "bg-white" : "bg-slate-50/40"}>
+                    <tr
+                      key={o.key}
+                      onMouseEnter={() => setHoveredKey(o.key)}
+                      onMouseLeave={() => setHoveredKey(null)}
+                      onClick={() => setSelectedKey(o.key)}
+                      className={`cursor-pointer ${o.key === hoveredKey ? "bg-sky-100" : idx === 0 ? "bg-emerald-50" : idx % 2 ? "bg-white" : "bg-slate-50/40"} ${o.key === selected?.key ? "font-medium" : ""}`}
+                    >
                       <td className="p-2">{o.optionLabel}</td>
-                      <td className="p-2 text-right">{Math.round(o.target)}</td>
-                      <td className="p-2 text-right">{pct(o.winP)}</td>
+                      <td className="p-2 text-right">{Math.round(o.targetQuantiles.p50)}<span className="text-xs text-slate-400"> {Math.round(o.targetQuantiles.p10)}–{Math.round(o.targetQuantiles.p90)}</span></td>
+                      <td className="p-2 text-right">{o.expectOversBatted.toFixed(1)} / {Math.round(o.bowlOversAvail)}</td>
+                      <td className="p-2 text-right">{pct(o.winP)}<span className="text-xs text-slate-400"> {pm(o.stdErr.winP)}</span></td>
                       <td className="p-2 text-right">{pct(o.drawP)}</td>
                       <td className="p-2 text-right">{pct(o.lossP)}</td>
-                      <td className="p-2 text-right">{o.utility.toFixed(3)}</td>
+                      <td className="p-2 text-right">{o.utility.toFixed(3)}<span className="text-xs text-slate-400"> ±{(Z95 * o.utilityStdErr).toFixed(3)}</span></td>
                     </tr>
                   ))}
                 </tbody>
@@ -546,18 +532,107 @@ export default function DeclarationAdvisor() {
             </div>
 
             <div className="mt-3 text-xs text-slate-500">
-              Simulations per option: {sims}. You can change this value in the code or ask me to increase it if you want even tighter estimates.
+              Simulations per option: {sims}{best && best.sims > sims ? ` (up to ${Math.max(...options.map((o) => o.sims))} after adaptive refinement)` : ""}. Seed {seed}. Utility model: {UTILITY_MODEL_LABELS[inputs.utilityModel?.kind ?? "steps"]}. The sweep runs in the background, so larger values only take longer to settle; changing any input restarts it.
             </div>
           </Section>
         </div>
 
+        {best && (
+          <div className="mt-4">
+            <Section title="Declaration timing charts">
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <div>
+                  <div className="text-sm font-medium mb-1">Win, draw and loss by overs batted</div>
+                  <div className="text-xs text-slate-500 mb-2">
+                    <span style={{ color: OUTCOME_COLOURS.win }}>■</span> win <span style={{ color: OUTCOME_COLOURS.draw }}>■</span> draw <span style={{ color: OUTCOME_COLOURS.loss }}>■</span> loss; ◆ marks lead, session and hybrid policies at their win chance.
+                  </div>
+                  <OutcomeCurves options={options} bestKey={best.key} hoveredKey={hoveredKey} onHover={setHoveredKey} onSelect={setSelectedKey} />
+                </div>
+                <div>
+                  <div className="text-sm font-medium mb-1">Target against time to bowl</div>
+                  <div className="text-xs text-slate-500 mb-2">Median target with its 80% range; darker points win more often, and the best option is ringed.</div>
+                  <TradeOffChart options={options} bestKey={best.key} hoveredKey={hoveredKey} onHover={setHoveredKey} onSelect={setSelectedKey} />
+                </div>
+              </div>
+              {selected && (
+                <div className="mt-4">
+                  <div className="text-sm font-medium mb-2">
+                    Outcome spread for {selected.optionLabel}
+                    <span className="text-xs font-normal text-slate-500"> {selected.key === best.key ? "(the recommendation; click a row or point to compare another option)" : <>(<button onClick={() => setSelectedKey(null)} className="underline">back to the recommendation</button>)</>}{distributionLoading && ", updating…"}</span>
+                  </div>
+                  {distribution && <OutcomeHistograms distribution={distribution} />}
+                </div>
+              )}
+            </Section>
+          </div>
+        )}
+
+        <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <Section title="First-innings declaration">
+            <StagePanel stage="first-innings" inputs={inputs} analysis={firstInnings} />
+          </Section>
+          <Section title="Follow-on">
+            <StagePanel stage="follow-on" inputs={inputs} analysis={followOn} derivedBowledOvers={theirFirstInningsOvers} />
+          </Section>
+        </div>
+
+        <div className="mt-4">
+          <Section title="Sensitivity">
+            <SensitivityPanel analysis={sensitivity} sims={sensitivitySims} onSims={setSensitivitySims} />
+          </Section>
+        </div>
+
+        {profiles && (
+          <div className="mt-4">
+            <Section title="Our attack">
+              <AttackEditor attack={inputs.ourAttack!} onChange={(ourAttack) => setInputs((prev) => ({ ...prev, ourAttack }))} />
+            </Section>
+          </div>
+        )}
+
+        {/* Detailed chase model and player profiles */}
+        {(inputs.chaseModel === "detailed" || profiles) && (
+          <div className="mt-4">
+            <Section title="Opposition batting order">
+              <BattingOrderEditor
+                order={inputs.battingOrder ?? DEFAULT_BATTING_ORDER}
+                onChange={(battingOrder) => setInputs((prev) => ({ ...prev, battingOrder }))}
+              />
+            </Section>
+          </div>
+        )}
+
+        <div className="mt-4">
+          <Section title="Grounds and pitch wear">
+            <GroundEditor
+              grounds={grounds}
+              saved={savedGrounds}
+              currentKey={inputs.groundPresetKey}
+              oversPerSession={inputs.oversPerSession}
+              onSave={saveGround}
+              onDelete={deleteGround}
+              onUse={(key) => applyPreset(key)}
+            />
+          </Section>
+        </div>
+
+        <div className="mt-4">
+          <Section title="Declaration review">
+            <ReviewPanel reviewer={reviewer} snapshot={snapshot} onLoad={loadSnapshot} />
+          </Section>
+        </div>
+
         {/* Footer controls */}
         <div className="mt-6 flex flex-wrap gap-3 items-center">
-          <div className="text-xs text-slate-500">Ground factors — wicket help: <span className="font-semibold">{GROUND_PRESETS[inputs.groundPresetKey]?.wicketHelp.toFixed(2)}</span>, chase ease: <span className="font-semibold">{GROUND_PRESETS[inputs.groundPresetKey]?.chaseEase.toFixed(2)}</span></div>
+          <div className="text-xs text-slate-500">Ground factors — wicket help: <span className="font-semibold">{resolveGround(inputs).wicketHelp.toFixed(2)}</span>, chase ease: <span className="font-semibold">{resolveGround(inputs).chaseEase.toFixed(2)}</span>, bad light: <span className="font-semibold">{(resolveGround(inputs).badLight ?? 1).toFixed(2)}</span></div>
           <div className="ml-auto flex items-center gap-2">
             <label className="text-sm">Seed
               <input type="number" value={seed} onChange={(e) => setSeed(Number(e.target.value))} className="ml-2 rounded-xl border p-2 w-28" />
             </label>
+            <label className="text-sm flex items-center gap-2">
+              <input type="checkbox" checked={adaptive} onChange={(e) => setAdaptive(e.target.checked)} />
+              Adaptive
+            </label>
             <label className="text-sm">Sims/option
               <input type="number" value={sims} onChange={(e) => setSims(Number(e.target.value))} className="ml-2 rounded-xl border p-2 w-28" />
             </label>
@@ -565,7 +640,7 @@ export default function DeclarationAdvisor() {
         </div>
 
         <div className="mt-6 text-xs text-slate-500">
-          Notes: This is a transparent heuristic Monte Carlo model, not a perfect replica of Test cricket dynamics. It captures the key trade-offs that elite captains juggle — time to take wickets, target size, pitch wearing, weather, and relative team strengths — and it always explains its recommendation. If you want, I can calibrate the ground presets and hazard rates from historical data next.
+          Notes: This is a transparent heuristic Monte Carlo model, not a perfect replica of Test cricket dynamics. It captures the key trade-offs that elite captains juggle — time to take wickets, target size, pitch wearing, weather, and relative team strengths — and it always explains its recommendation. Baseline rates and ground factors come from {CALIBRATION.source}; run <code>npm run calibrate</code> on local Cricsheet files to refit them.
         </div>
       </div>
     </div>
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { canonicalJson, createResultCache, requestHash } from "./cache.ts";
+
+describe("canonicalJson", () => {
+  it("sorts keys at every level and drops undefined fields", () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: undefined } })).toBe('{"a":{"d":[2,{"e":0,"f":1}]},"b":1}');
+  });
+});
+
+describe("requestHash", () => {
+  it("ignores key order but not values", () => {
+    expect(requestHash({ sims: 100, seed: 1 })).toBe(requestHash({ seed: 1, sims: 100 }));
+    expect(requestHash({ sims: 100, seed: 1 })).not.toBe(requestHash({ sims: 100, seed: 2 }));
+    expect(requestHash({})).toMatch(/^[0-9a-f]{14}$/);
+  });
+});
+
+describe("createResultCache", () => {
+  it("returns a stored result for an equal request", () => {
+    const cache = createResultCache<string>();
+    const hash = cache.set({ a: 1, b: 2 }, "result");
+    expect(cache.get({ b: 2, a: 1 })).toEqual({ hash, value: "result" });
+    expect(cache.get({ a: 1, b: 3 }).value).toBeUndefined();
+  });
+
+  it("drops the least recently used entry when full", () => {
+    const cache = createResultCache<number>(2);
+    cache.set({ n: 1 }, 1);
+    cache.set({ n: 2 }, 2);
+    cache.get({ n: 1 });
+    cache.set({ n: 3 }, 3);
+    expect(cache.size()).toBe(2);
+    expect(cache.get({ n: 1 }).value).toBe(1);
+    expect(cache.get({ n: 2 }).value).toBeUndefined();
+  });
+});
@@ -0,0 +1,62 @@
+// ---------- Result cache ----------
+// The engine is deterministic for a given request and seed, so a repeated request can be answered from the
+// last result. Requests are keyed on a hash of their canonical JSON; the JSON is kept too, so two requests
+// that happen to share a hash never share a result.
+
+// JSON with object keys sorted at every level, so key order in a request body doesn't change its hash
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map((v) => canonicalJson(v ?? null)).join(",")}]`;
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+// A 53-bit string hash (cyrb53), as 14 hex digits
+export function hashText(text: string) {
+  let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 2654435761);
+    h2 = Math.imul(h2 ^ c, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, "0");
+}
+
+export const requestHash = (value: unknown) => hashText(canonicalJson(value));
+
+export type ResultCache<T> = {
+  get: (request: unknown) => { hash: string; value: T | undefined };
+  set: (request: unknown, value: T) => string;
+  size: () => number;
+};
+
+// Least recently used entries go first once `capacity` is reached
+export function createResultCache<T>(capacity = 200): ResultCache<T> {
+  const entries = new Map<string, { json: string; value: T }>();
+  return {
+    get(request) {
+      const json = canonicalJson(request);
+      const hash = hashText(json);
+      const hit = entries.get(hash);
+      if (!hit || hit.json !== json) return { hash, value: undefined };
+      entries.delete(hash);
+      entries.set(hash, hit);
+      return { hash, value: hit.value };
+    },
+    set(request, value) {
+      const json = canonicalJson(request);
+      const hash = hashText(json);
+      entries.delete(hash);
+      entries.set(hash, { json, value });
+      while (entries.size > capacity) entries.delete(entries.keys().next().value!);
+      return hash;
+    },
+    size: () => entries.size,
+  };
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS, GROUND_PRESETS, INPUT_SCHEMA, evaluateAllOptions } from "../engine/index.ts";
+import { createApiHandler, parseEngineRequest, type EvaluateReply, type SensitivityReply } from "./handler.ts";
+import { EVALUATE_SIMS } from "./limits.ts";
+import { OPENAPI_DOCUMENT } from "./openapi.ts";
+
+const SIMS = 150;
+
+describe("parseEngineRequest", () => {
+  it("fills in the defaults around a partial body", () => {
+    const { request } = parseEngineRequest({ inputs: { currentLead: 300 } }, EVALUATE_SIMS);
+    expect(request).toMatchObject({ inputs: { ...DEFAULT_INPUTS, currentLead: 300 }, sims: EVALUATE_SIMS.default, seed: 1234 });
+  });
+
+  it("takes a body without an inputs object as the inputs", () => {
+    expect(parseEngineRequest({ wicketsInHand: 3 }, EVALUATE_SIMS).request?.inputs.wicketsInHand).toBe(3);
+  });
+
+  it("reports the wrong kinds, broken lists, invalid inputs and too many sims", () => {
+    expect(parseEngineRequest([], EVALUATE_SIMS).issues).toEqual([{ field: "body", message: "must be a JSON object" }]);
+    expect(parseEngineRequest({ inputs: { currentLead: "lots" } }, EVALUATE_SIMS).issues).toEqual([{ field: "body", message: "body.inputs.currentLead must be a number" }]);
+    expect(parseEngineRequest({ inputs: { weatherBySession: [null] } }, EVALUATE_SIMS).issues).toEqual([{ field: "body", message: "body.inputs.weatherBySession[0] must be an object" }]);
+    const { issues } = parseEngineRequest({ inputs: { wicketsInHand: 0 }, sims: EVALUATE_SIMS.max + 1, seed: 1.5 }, EVALUATE_SIMS);
+    expect(issues.map((i) => i.field)).toEqual(["wicketsInHand", "sims", "seed"]);
+  });
+
+  it("caps the lead targets and the session breaks", () => {
+    const alternatives = { leadTargets: Array.from({ length: 11 }, (_, i) => 200 + 10 * i), sessionBreaks: 4, hybridOvers: 10 };
+    expect(parseEngineRequest({ inputs: {}, alternatives }, EVALUATE_SIMS).issues).toEqual([
+      { field: "alternatives.leadTargets", message: "must have at most 10 targets" },
+      { field: "alternatives.sessionBreaks", message: "must be at most the 3 sessions remaining" },
+    ]);
+    const reply = createApiHandler()({ method: "POST", path: "/evaluate", body: { inputs: {}, alternatives } });
+    expect(reply.status).toBe(400);
+    expect(parseEngineRequest({ inputs: {}, alternatives: { ...alternatives, leadTargets: alternatives.leadTargets.slice(0, 10), sessionBreaks: 3 } }, EVALUATE_SIMS).issues).toEqual([]);
+  });
+});
+
+describe("createApiHandler", () => {
+  it("ranks the options exactly as the engine does, and answers a repeat from the cache", () => {
+    const handle = createApiHandler();
+    const request = { method: "POST", path: "/evaluate", body: { inputs: { currentLead: 260 }, sims: SIMS, seed: 7 } };
+    const first = handle(request);
+    expect(first.status).toBe(200);
+    expect(first.headers?.["X-Cache"]).toBe("miss");
+    const reply = first.body as EvaluateReply;
+    const engine = evaluateAllOptions({ ...DEFAULT_INPUTS, currentLead: 260 }, SIMS, 7);
+    expect(reply.options).toEqual(engine.options);
+    expect(reply.best).toBe(engine.best.key);
+
+    const again = handle({ ...request, body: { seed: 7, sims: SIMS, inputs: { currentLead: 260 } } });
+    expect(again.headers?.["X-Cache"]).toBe("hit");
+    expect((again.body as EvaluateReply).inputHash).toBe(reply.inputHash);
+    expect(handle({ ...request, body: { ...request.body, seed: 8 } }).headers?.["X-Cache"]).toBe("miss");
+  });
+
+  it("turns invalid inputs into a 400 with the issues", () => {
+    const reply = createApiHandler()({ method: "POST", path: "/evaluate", body: { inputs: { sessionsRemaining: 6 } } });
+    expect(reply.status).toBe(400);
+    expect(reply.body).toEqual({ error: "invalid request", issues: [{ field: "weatherBySession", message: "gives a rain chance for 4 sessions but 6 remain" }] });
+  });
+
+  it("checks a sensitivity request like an evaluation, then runs the analysis", () => {
+    const reply = createApiHandler()({ method: "POST", path: "/sensitivity", body: { inputs: { strengthModel: "profiles", ourAttack: [] } } });
+    expect(reply.status).toBe(400);
+    const ok = createApiHandler()({ method: "POST", path: "/sensitivity", body: { sims: 60, inputs: { sessionsRemaining: 1, oversLeftThisSession: 20 } } });
+    expect(ok.status).toBe(200);
+    const { rows } = ok.body as SensitivityReply;
+    expect(rows.length).toBeGreaterThan(0);
+    for (let i = 1; i < rows.length; i++) expect(rows[i].swing).toBeLessThanOrEqual(rows[i - 1].swing);
+  });
+
+  it("serves the grounds, the defaults and the OpenAPI description", () => {
+    const handle = createApiHandler();
+    expect(handle({ method: "GET", path: "/grounds" }).body).toBe(GROUND_PRESETS);
+    expect(handle({ method: "GET", path: "/defaults/" }).body).toBe(DEFAULT_INPUTS);
+    expect(handle({ method: "GET", path: "/openapi.json" }).body).toBe(OPENAPI_DOCUMENT);
+  });
+
+  it("answers unknown paths and methods", () => {
+    const handle = createApiHandler();
+    expect(handle({ method: "GET", path: "/nope" }).status).toBe(404);
+    expect(handle({ method: "GET", path: "/evaluate" })).toMatchObject({ status: 405, headers: { Allow: "POST" } });
+    expect(handle({ method: "OPTIONS", path: "/evaluate" }).status).toBe(204);
+  });
+});
+
+describe("OPENAPI_DOCUMENT", () => {
+  it("describes every endpoint and every schema field", () => {
+    expect(Object.keys(OPENAPI_DOCUMENT.paths)).toEqual(["/evaluate", "/sensitivity", "/grounds", "/defaults", "/openapi.json"]);
+    const properties = OPENAPI_DOCUMENT.components.schemas.Inputs.properties as Record<string, unknown>;
+    for (const field of Object.keys(INPUT_SCHEMA)) expect(properties).toHaveProperty(field);
+    for (const field of Object.keys(DEFAULT_INPUTS)) expect(properties).toHaveProperty(field);
+  });
+});
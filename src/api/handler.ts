@@ -0,0 +1,153 @@
+import {
+  DEFAULT_INPUTS,
+  GROUND_PRESETS,
+  declarationPolicies,
+  sensitivityAnalysis,
+  tryEvaluateAllOptions,
+  validateInputs,
+  validateSims,
+  type AlternativePolicySettings,
+  type Inputs,
+  type RankedOption,
+  type Separation,
+  type SensitivityRow,
+  type ValidationIssue,
+} from "../engine/index.ts";
+import { ScenarioImportError, parseSnapshot } from "../scenarios/snapshot.ts";
+import { createResultCache, type ResultCache } from "./cache.ts";
+import { EVALUATE_SIMS, MAX_LEAD_TARGETS, SENSITIVITY_SIMS } from "./limits.ts";
+import { OPENAPI_DOCUMENT } from "./openapi.ts";
+
+// ---------- HTTP API ----------
+// Routes a parsed request to the engine and shapes the reply. Nothing here touches the network, so the
+// server in tools/ is only a thin node:http wrapper and the routes can be tested directly.
+
+export type ApiRequest = { method: string; path: string; body?: unknown };
+export type ApiResponse = { status: number; body?: unknown; headers?: Record<string, string> };
+
+// A request body: the inputs, with the sweep settings alongside. Fields left out take the app's defaults.
+export type EngineRequest = { inputs: Inputs; sims: number; seed: number; alternatives: AlternativePolicySettings };
+
+export type EvaluateReply = {
+  inputHash: string;
+  sims: number;
+  seed: number;
+  best: string; // key of the best option
+  runnerUp: string | null;
+  separation: Separation;
+  options: RankedOption[]; // best first
+};
+
+export type SensitivityReply = {
+  inputHash: string;
+  sims: number;
+  seed: number;
+  best: string; // key of the best option for the inputs as sent
+  runnerUp: string | null;
+  rows: SensitivityRow[]; // largest win-probability swing first
+};
+
+type Obj = Record<string, unknown>;
+const isObj = (v: unknown): v is Obj => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// The body as an engine request, or the reasons it can't be one. A body without an `inputs` object is taken as the inputs.
+export function parseEngineRequest(body: unknown, limits: { default: number; max: number }): { request: EngineRequest; issues: [] } | { request: null; issues: ValidationIssue[] } {
+  if (!isObj(body)) return { request: null, issues: [{ field: "body", message: "must be a JSON object" }] };
+  const wrapped = isObj(body.inputs);
+  let snapshot;
+  try {
+    const raw = wrapped ? { inputs: body.inputs, sims: body.sims ?? limits.default, seed: body.seed, alternatives: body.alternatives } : { inputs: body, sims: limits.default };
+    snapshot = parseSnapshot(raw, "body");
+  } catch (e) {
+    if (!(e instanceof ScenarioImportError)) throw e;
+    return { request: null, issues: [{ field: "body", message: e.message }] };
+  }
+
+  const { inputs, sims, seed, alternatives } = snapshot;
+  const issues = [...validateInputs(inputs), ...validateSims(sims)];
+  if (sims > limits.max) issues.push({ field: "sims", message: `must be at most ${limits.max}` });
+  if (!Number.isSafeInteger(seed)) issues.push({ field: "seed", message: "must be a whole number" });
+  if (!alternatives.leadTargets.every((t) => typeof t === "number" && Number.isFinite(t))) issues.push({ field: "alternatives.leadTargets", message: "must be a list of numbers" });
+  if (alternatives.leadTargets.length > MAX_LEAD_TARGETS) issues.push({ field: "alternatives.leadTargets", message: `must have at most ${MAX_LEAD_TARGETS} targets` });
+  if (!Number.isInteger(alternatives.sessionBreaks) || alternatives.sessionBreaks < 0) issues.push({ field: "alternatives.sessionBreaks", message: "must be a whole number, zero or more" });
+  else if (alternatives.sessionBreaks > inputs.sessionsRemaining) {
+    issues.push({ field: "alternatives.sessionBreaks", message: `must be at most the ${inputs.sessionsRemaining} sessions remaining` });
+  }
+  if (alternatives.hybridOvers !== null && !(Number.isInteger(alternatives.hybridOvers) && alternatives.hybridOvers >= 1)) {
+    issues.push({ field: "alternatives.hybridOvers", message: "must be a whole number of overs, or null" });
+  }
+  if (issues.length > 0) return { request: null, issues };
+  return { request: { inputs, sims, seed, alternatives }, issues: [] };
+}
+
+const invalid = (issues: ValidationIssue[]): ApiResponse => ({ status: 400, body: { error: "invalid request", issues } });
+
+export type ApiOptions = { cacheSize?: number };
+
+// Returns the request handler, which owns its result caches. Every reply is deterministic for its request, seed included.
+export function createApiHandler({ cacheSize = 200 }: ApiOptions = {}) {
+  const evaluations: ResultCache<EvaluateReply> = createResultCache(cacheSize);
+  const sensitivities: ResultCache<SensitivityReply> = createResultCache(cacheSize);
+
+  function evaluate(body: unknown): ApiResponse {
+    const { request, issues } = parseEngineRequest(body, EVALUATE_SIMS);
+    if (!request) return invalid(issues);
+    const cached = evaluations.get(request);
+    if (cached.value) return { status: 200, body: cached.value, headers: { "X-Cache": "hit" } };
+
+    const { inputs, sims, seed, alternatives } = request;
+    const result = tryEvaluateAllOptions(inputs, sims, seed, declarationPolicies(inputs, alternatives));
+    if (!result.ok) return invalid(result.issues);
+    const { evaluation } = result;
+    const reply: EvaluateReply = {
+      inputHash: cached.hash,
+      sims,
+      seed,
+      best: evaluation.best.key,
+      runnerUp: evaluation.runnerUp?.key ?? null,
+      separation: evaluation.separation,
+      options: evaluation.options,
+    };
+    evaluations.set(request, reply);
+    return { status: 200, body: reply, headers: { "X-Cache": "miss" } };
+  }
+
+  function sensitivity(body: unknown): ApiResponse {
+    const { request, issues } = parseEngineRequest(body, SENSITIVITY_SIMS);
+    if (!request) return invalid(issues);
+    const cached = sensitivities.get(request);
+    if (cached.value) return { status: 200, body: cached.value, headers: { "X-Cache": "hit" } };
+
+    const { inputs, sims, seed, alternatives } = request;
+    // the body has passed the same checks sensitivityAnalysis makes, so it won't throw
+    const report = sensitivityAnalysis(inputs, { sims, seed, policies: declarationPolicies(inputs, alternatives) });
+    const reply: SensitivityReply = {
+      inputHash: cached.hash,
+      sims,
+      seed,
+      best: report.base.best.key,
+      runnerUp: report.base.runnerUp?.key ?? null,
+      rows: report.rows,
+    };
+    sensitivities.set(request, reply);
+    return { status: 200, body: reply, headers: { "X-Cache": "miss" } };
+  }
+
+  const routes: Record<string, Record<string, (body: unknown) => ApiResponse>> = {
+    "/evaluate": { POST: evaluate },
+    "/sensitivity": { POST: sensitivity },
+    "/grounds": { GET: () => ({ status: 200, body: GROUND_PRESETS }) },
+    "/defaults": { GET: () => ({ status: 200, body: DEFAULT_INPUTS }) },
+    "/openapi.json": { GET: () => ({ status: 200, body: OPENAPI_DOCUMENT }) },
+  };
+
+  return function handle({ method, path, body }: ApiRequest): ApiResponse {
+    const route = routes[path.replace(/\/+$/, "") || "/"];
+    if (!route) return { status: 404, body: { error: `no route for ${path}` } };
+    const allow = Object.keys(route).join(", ");
+    if (method === "OPTIONS") return { status: 204, headers: { Allow: allow } };
+    const run = route[method];
+    if (!run) return { status: 405, body: { error: `${path} takes ${allow}` }, headers: { Allow: allow } };
+    return run(body);
+  };
+}
@@ -0,0 +1,8 @@
+// ---------- Request limits ----------
+// Simulations per option for each endpoint: the default when a request leaves sims out, and the most it may ask for
+
+export const EVALUATE_SIMS = { default: 2500, max: 20000 };
+export const SENSITIVITY_SIMS = { default: 1000, max: 5000 }; // each row re-runs the sweep several times
+
+// Each lead target adds a declare-at-lead option and, with hybridOvers, a hybrid one; session breaks are capped by sessionsRemaining
+export const MAX_LEAD_TARGETS = 10;
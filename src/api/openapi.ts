@@ -0,0 +1,176 @@
+import { DEFAULT_SEED, INPUT_SCHEMA, type FieldRule } from "../engine/index.ts";
+import { EVALUATE_SIMS, MAX_LEAD_TARGETS, SENSITIVITY_SIMS } from "./limits.ts";
+
+// ---------- OpenAPI description ----------
+// Served at GET /openapi.json. The scalar input fields come from the engine's INPUT_SCHEMA, so their bounds
+// here always match what the server enforces; the lists and nested objects are described by hand.
+
+type JsonSchema = Record<string, unknown>;
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const list = (items: JsonSchema) => ({ type: "array", items });
+
+function fieldSchema(rule: FieldRule): JsonSchema {
+  if (rule.kind === "choice") return { description: rule.label, enum: [...rule.choices] };
+  return { description: rule.label, type: rule.integer ? "integer" : "number", minimum: rule.min, maximum: rule.max };
+}
+
+const inputsSchema: JsonSchema = {
+  type: "object",
+  description: "Match context. Any field left out takes the value from GET /defaults.",
+  properties: {
+    ground: { type: "string", description: "Ground name, for display" },
+    groundPresetKey: { type: "string", description: "Key into GET /grounds" },
+    ...Object.fromEntries(Object.entries(INPUT_SCHEMA).map(([field, rule]) => [field, fieldSchema(rule)])),
+    weatherBySession: list({ type: "object", required: ["rainChance"], properties: { rainChance: { type: "number", minimum: 0, maximum: 1 } } }),
+    forecast: list({
+      type: "object",
+      required: ["rainChance", "rainMinutes"],
+      properties: { rainChance: { type: "number", minimum: 0, maximum: 1 }, rainMinutes: { type: "number", minimum: 0, maximum: 60 } },
+    }),
+    groundProfile: ref("GroundPreset"),
+    utilityModel: { type: "object", description: "How results are scored", required: ["kind"], properties: { kind: { enum: ["steps", "risk", "wtc", "series", "custom"] } } },
+    era: { type: "string", description: "Calibration era key" },
+    battingOrder: list({ type: "object", required: ["name", "average", "strikeRate", "dismissalHazard"] }),
+    ourAttack: list({ type: "object", required: ["name", "kind", "average", "economy", "oversBowled", "fitness"] }),
+  },
+};
+
+const requestSchema = (sims: { default: number; max: number }): JsonSchema => ({
+  type: "object",
+  description: "A bare Inputs object is accepted too, with the default sims and seed.",
+  properties: {
+    inputs: ref("Inputs"),
+    sims: { type: "integer", minimum: 1, maximum: sims.max, default: sims.default, description: "Simulations per option" },
+    seed: { type: "integer", default: DEFAULT_SEED, description: "The same request and seed always give the same result" },
+    alternatives: {
+      type: "object",
+      description: "Declaration policies offered alongside the fixed-over sweep",
+      properties: {
+        leadTargets: { ...list({ type: "number" }), maxItems: MAX_LEAD_TARGETS },
+        sessionBreaks: { type: "integer", minimum: 0, description: "At most sessionsRemaining" },
+        hybridOvers: { type: ["integer", "null"], minimum: 1 },
+      },
+    },
+  },
+});
+
+const cacheHeader = { "X-Cache": { description: "hit when the reply came from the result cache", schema: { enum: ["hit", "miss"] } } };
+const invalid = { description: "The body is malformed or the inputs are invalid", content: { "application/json": { schema: ref("Invalid") } } };
+const json = (schema: JsonSchema) => ({ "application/json": { schema } });
+
+export const OPENAPI_DOCUMENT = {
+  openapi: "3.1.0",
+  info: {
+    title: "Test Cricket Declaration Advisor",
+    version: "1.0.0",
+    description: "Monte Carlo declaration advice. Runs offline; replies are deterministic for a given request and seed.",
+  },
+  paths: {
+    "/evaluate": {
+      post: {
+        summary: "Rank every declaration option",
+        requestBody: { required: true, content: json(requestSchema(EVALUATE_SIMS)) },
+        responses: { 200: { description: "Options ranked by utility, best first", headers: cacheHeader, content: json(ref("Evaluation")) }, 400: invalid },
+      },
+    },
+    "/sensitivity": {
+      post: {
+        summary: "How the recommendation moves with each uncertain input, and where it changes",
+        requestBody: { required: true, content: json(requestSchema(SENSITIVITY_SIMS)) },
+        responses: { 200: { description: "One row per input, widest swing first", headers: cacheHeader, content: json(ref("Sensitivity")) }, 400: invalid },
+      },
+    },
+    "/grounds": {
+      get: { summary: "The ground presets, by key", responses: { 200: { description: "GROUND_PRESETS", content: json({ type: "object", additionalProperties: ref("GroundPreset") }) } } },
+    },
+    "/defaults": {
+      get: { summary: "The default inputs, which fill in any field a request leaves out", responses: { 200: { description: "Inputs", content: json(ref("Inputs")) } } },
+    },
+    "/openapi.json": {
+      get: { summary: "This document", responses: { 200: { description: "OpenAPI 3.1", content: json({ type: "object" }) } } },
+    },
+  },
+  components: {
+    schemas: {
+      Inputs: inputsSchema,
+      GroundPreset: {
+        type: "object",
+        required: ["name", "wicketHelp", "chaseEase"],
+        properties: {
+          name: { type: "string" },
+          wicketHelp: { type: "number", minimum: 0.5, maximum: 2 },
+          chaseEase: { type: "number", minimum: 0.5, maximum: 2 },
+          badLight: { type: "number", minimum: 0, maximum: 3 },
+          sessionOvers: { type: "number", minimum: 1, maximum: 60 },
+          bounce: { type: "number", minimum: 0.5, maximum: 2 },
+          paceAssist: { type: "number", minimum: 0.5, maximum: 2 },
+          spinAssist: { type: "number", minimum: 0.5, maximum: 2 },
+          deterioration: list({ type: "object", properties: { wickets: { type: "number" }, runs: { type: "number" } } }),
+        },
+      },
+      RankedOption: {
+        type: "object",
+        properties: {
+          key: { type: "string" },
+          optionLabel: { type: "string" },
+          policy: { type: "object", description: "The declaration policy; kind is overs, lead, session or hybrid" },
+          declareAfterOvers: { type: "number" },
+          winP: { type: "number" },
+          drawP: { type: "number" },
+          lossP: { type: "number" },
+          stdErr: { type: "object", properties: { winP: { type: "number" }, drawP: { type: "number" }, lossP: { type: "number" } } },
+          utility: { type: "number" },
+          utilityStdErr: { type: "number" },
+          target: { type: "number" },
+          targetQuantiles: { type: "object", properties: { p10: { type: "number" }, p50: { type: "number" }, p90: { type: "number" } } },
+          bowlOversAvail: { type: "number" },
+          expMarginRuns: { type: "number" },
+          sims: { type: "integer" },
+        },
+      },
+      Evaluation: {
+        type: "object",
+        properties: {
+          inputHash: { type: "string", description: "Hash of the request with defaults filled in; the result cache's key" },
+          sims: { type: "integer" },
+          seed: { type: "integer" },
+          best: { type: "string", description: "Key of the best option" },
+          runnerUp: { type: ["string", "null"] },
+          separation: { type: "object", properties: { z: { type: ["number", "null"] }, separable: { type: "boolean" } } },
+          options: list(ref("RankedOption")),
+        },
+      },
+      Sensitivity: {
+        type: "object",
+        properties: {
+          inputHash: { type: "string" },
+          sims: { type: "integer" },
+          seed: { type: "integer" },
+          best: { type: "string" },
+          runnerUp: { type: ["string", "null"] },
+          rows: list({
+            type: "object",
+            properties: {
+              field: { type: "string" },
+              label: { type: "string" },
+              base: { type: "number" },
+              low: { type: "object" },
+              high: { type: "object" },
+              swing: { type: "number" },
+              breakEvenBelow: { type: ["number", "null"] },
+              breakEvenAbove: { type: ["number", "null"] },
+            },
+          }),
+        },
+      },
+      Invalid: {
+        type: "object",
+        properties: {
+          error: { type: "string" },
+          issues: list({ type: "object", properties: { field: { type: "string" }, message: { type: "string" } } }),
+        },
+      },
+    },
+  },
+};
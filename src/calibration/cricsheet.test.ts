@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { parse as parseYaml } from "yaml";
+import { inningsTotals, parseCricsheetMatch } from "./cricsheet.ts";
+
+const modern = {
+  meta: { data_version: "1.1.0" },
+  info: {
+    match_type: "Test",
+    venue: "Lord's, London",
+    dates: ["2019-08-14", "2019-08-15"],
+    teams: ["England", "Australia"],
+    outcome: { winner: "England", by: { runs: 100 } },
+  },
+  innings: [
+    {
+      team: "England",
+      declared: true,
+      overs: [
+        {
+          over: 0,
+          deliveries: [
+            { batter: "A", bowler: "X", runs: { batter: 4, extras: 0, total: 4 } },
+            { batter: "A", bowler: "X", runs: { batter: 0, extras: 1, total: 1 }, extras: { wides: 1 } },
+            { batter: "A", bowler: "X", runs: { batter: 0, extras: 0, total: 0 }, wickets: [{ player_out: "A", kind: "bowled" }] },
+            { batter: "B", bowler: "X", runs: { batter: 0, extras: 0, total: 0 }, wickets: [{ player_out: "B", kind: "retired hurt" }] },
+          ],
+        },
+        { over: 2, deliveries: [{ batter: "C", bowler: "Y", runs: { batter: 2, extras: 0, total: 2 } }] },
+      ],
+    },
+  ],
+};
+
+const legacy = `
+meta:
+  data_version: 0.9
+info:
+  match_type: Test
+  venue: Melbourne Cricket Ground
+  dates:
+    - 2010-12-26
+  teams: [Australia, England]
+  outcome:
+    result: draw
+innings:
+  - 1st innings:
+      team: Australia
+      deliveries:
+        - 0.1:
+            batsman: A
+            runs: { batsman: 1, extras: 0, total: 1 }
+        - 0.2:
+            batsman: B
+            runs: { batsman: 0, extras: 0, total: 0 }
+            wicket: { kind: caught, player_out: B }
+        - 1.1:
+            batsman: C
+            runs: { batsman: 0, extras: 1, total: 1 }
+            extras: { noballs: 1 }
+`;
+
+describe("parseCricsheetMatch", () => {
+  it("tallies runs, legal balls and dismissals per over from the JSON layout", () => {
+    const m = parseCricsheetMatch(modern, "m1")!;
+    expect(m).toMatchObject({ id: "m1", venue: "Lord's, London", date: "2019-08-14", winner: "England", result: "win" });
+    expect(m.innings[0].declared).toBe(true);
+    expect(m.innings[0].overs).toEqual([
+      { runs: 5, wickets: 1, balls: 3 },
+      { runs: 0, wickets: 0, balls: 0 },
+      { runs: 2, wickets: 0, balls: 1 },
+    ]);
+    expect(inningsTotals(m.innings[0])).toEqual({ runs: 7, wickets: 1, overs: 4 / 6 });
+  });
+
+  it("reads the legacy YAML layout", () => {
+    const m = parseCricsheetMatch(parseYaml(legacy), "m2")!;
+    expect(m).toMatchObject({ venue: "Melbourne Cricket Ground", date: "2010-12-26", winner: null, result: "draw" });
+    expect(m.innings[0]).toEqual({
+      team: "Australia",
+      declared: false,
+      overs: [
+        { runs: 1, wickets: 1, balls: 2 },
+        { runs: 1, wickets: 0, balls: 0 },
+      ],
+    });
+  });
+
+  it("ignores anything that is not a Test", () => {
+    expect(parseCricsheetMatch({ ...modern, info: { ...modern.info, match_type: "ODI" } }, "x")).toBeNull();
+    expect(parseCricsheetMatch("not a match", "x")).toBeNull();
+  });
+});
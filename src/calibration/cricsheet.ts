@@ -0,0 +1,114 @@
+// ---------- Cricsheet match parsing ----------
+// Accepts both the current JSON layout (innings[].overs[].deliveries[]) and the
+// legacy YAML layout (innings[]["1st innings"].deliveries[]["0.1"]), already parsed to objects.
+
+export type OverTally = { runs: number; wickets: number; balls: number }; // balls = legal deliveries
+
+export type ParsedInnings = { team: string; declared: boolean; overs: OverTally[] };
+
+export type ParsedMatch = {
+  id: string;
+  venue: string;
+  date: string; // first day, YYYY-MM-DD
+  teams: string[];
+  winner: string | null;
+  result: "win" | "draw" | "tie" | "no result";
+  innings: ParsedInnings[];
+};
+
+type Obj = Record<string, unknown>;
+
+const isObj = (v: unknown): v is Obj => typeof v === "object" && v !== null && !Array.isArray(v);
+const num = (v: unknown) => (typeof v === "number" ? v : 0);
+
+// Retirements are not dismissals the bowling side earned
+const NOT_DISMISSALS = new Set(["retired hurt", "retired not out"]);
+
+function tallyDelivery(over: OverTally, d: Obj) {
+  const runs = isObj(d.runs) ? num(d.runs.total) : 0;
+  over.runs += runs;
+
+  const extras = isObj(d.extras) ? d.extras : {};
+  if (!("wides" in extras) && !("noballs" in extras)) over.balls++;
+
+  const wickets = Array.isArray(d.wickets) ? d.wickets : isObj(d.wicket) ? [d.wicket] : [];
+  for (const w of wickets) {
+    if (isObj(w) && !NOT_DISMISSALS.has(String(w.kind))) over.wickets++;
+  }
+}
+
+function parseModernInnings(inn: Obj): ParsedInnings {
+  const overs: OverTally[] = [];
+  for (const o of Array.isArray(inn.overs) ? inn.overs : []) {
+    if (!isObj(o)) continue;
+    const idx = num(o.over);
+    const tally = (overs[idx] ??= { runs: 0, wickets: 0, balls: 0 });
+    for (const d of Array.isArray(o.deliveries) ? o.deliveries : []) {
+      if (isObj(d)) tallyDelivery(tally, d);
+    }
+  }
+  return { team: String(inn.team ?? ""), declared: inn.declared === true, overs: fillGaps(overs) };
+}
+
+function parseLegacyInnings(wrapper: Obj): ParsedInnings | null {
+  const inn = Object.values(wrapper)[0];
+  if (!isObj(inn)) return null;
+  const overs: OverTally[] = [];
+  for (const entry of Array.isArray(inn.deliveries) ? inn.deliveries : []) {
+    if (!isObj(entry)) continue;
+    const [key, d] = Object.entries(entry)[0] ?? [];
+    if (key === undefined || !isObj(d)) continue;
+    const idx = Math.floor(parseFloat(key));
+    tallyDelivery((overs[idx] ??= { runs: 0, wickets: 0, balls: 0 }), d);
+  }
+  return { team: String(inn.team ?? ""), declared: inn.declared === true, overs: fillGaps(overs) };
+}
+
+// Sparse over arrays (e.g. a missing over in the source) become empty overs
+function fillGaps(overs: OverTally[]) {
+  return Array.from({ length: overs.length }, (_, i) => overs[i] ?? { runs: 0, wickets: 0, balls: 0 });
+}
+
+// Returns null for anything that is not a Test with ball-by-ball innings
+export function parseCricsheetMatch(doc: unknown, id: string): ParsedMatch | null {
+  if (!isObj(doc) || !isObj(doc.info) || !Array.isArray(doc.innings)) return null;
+  const info = doc.info;
+  if (info.match_type !== "Test") return null;
+
+  const innings: ParsedInnings[] = [];
+  for (const inn of doc.innings) {
+    if (!isObj(inn)) continue;
+    if ("overs" in inn || "team" in inn) {
+      innings.push(parseModernInnings(inn));
+    } else {
+      const legacy = parseLegacyInnings(inn);
+      if (legacy) innings.push(legacy);
+    }
+  }
+
+  const outcome = isObj(info.outcome) ? info.outcome : {};
+  const winner = typeof outcome.winner === "string" ? outcome.winner : null;
+  const resultText = String(outcome.result ?? "");
+  const result = winner ? "win" : resultText === "tie" ? "tie" : resultText === "no result" ? "no result" : "draw";
+
+  const dates = Array.isArray(info.dates) ? info.dates : [];
+  return {
+    id,
+    venue: String(info.venue ?? "Unknown venue"),
+    date: String(dates[0] ?? ""),
+    teams: Array.isArray(info.teams) ? info.teams.map(String) : [],
+    winner,
+    result,
+    innings,
+  };
+}
+
+export function inningsTotals(inn: ParsedInnings) {
+  let runs = 0, wickets = 0, balls = 0;
+  for (const o of inn.overs) {
+    runs += o.runs;
+    wickets += o.wickets;
+    balls += o.balls;
+  }
+  return { runs, wickets, overs: balls / 6 };
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { OverTally, ParsedInnings, ParsedMatch } from "./cricsheet.ts";
+import { eraOf, fitCalibration, groundKey } from "./fit.ts";
+import { declarationCases, formatReliabilityMarkdown, reliabilityReport } from "./reliability.ts";
+
+// n six-ball overs, each with the given runs, and a wicket every `wicketEvery` overs
+function overs(n: number, runs: number, wicketEvery: number): OverTally[] {
+  return Array.from({ length: n }, (_, i) => ({ runs, wickets: (i + 1) % wicketEvery === 0 ? 1 : 0, balls: 6 }));
+}
+
+const innings = (team: string, o: OverTally[], declared = false): ParsedInnings => ({ team, declared, overs: o });
+
+function match(id: string, venue: string, date: string, fourth: OverTally[], winner: string | null): ParsedMatch {
+  return {
+    id,
+    venue,
+    date,
+    teams: ["A", "B"],
+    winner,
+    result: winner ? "win" : "draw",
+    innings: [
+      innings("A", overs(100, 3, 10)), // 300 all out
+      innings("B", overs(80, 3, 8)), // 240 all out
+      innings("A", overs(50, 4, 10), true), // 200/5 declared, lead 260
+      innings("B", fourth),
+    ],
+  };
+}
+
+const matches = [
+  match("1", "Lord's, London", "2015-07-01", overs(60, 3, 6), "A"),
+  match("2", "Lord's, London", "2016-07-01", overs(70, 3, 7), "A"),
+  match("3", "Lord's, London", "2017-07-01", overs(90, 2, 15), null),
+  match("4", "Galle International Stadium", "2005-03-01", overs(40, 4, 4), "A"),
+  match("5", "Galle International Stadium", "2006-03-01", overs(50, 4, 5), "A"),
+  match("6", "Galle International Stadium", "2007-03-01", overs(45, 4, 5), "A"),
+];
+
+describe("fitCalibration", () => {
+  it("fits baseline fourth-innings rates from every over bowled", () => {
+    const cal = fitCalibration(matches);
+    const allOvers = matches.flatMap((m) => m.innings[3].overs);
+    const wickets = allOvers.reduce((a, o) => a + o.wickets, 0);
+    const runs = allOvers.reduce((a, o) => a + o.runs, 0);
+    expect(cal.matches).toBe(6);
+    expect(cal.baseline.wicketPerOver).toBeCloseTo(wickets / allOvers.length, 10);
+    expect(cal.baseline.runsPerOver).toBeCloseTo(runs / allOvers.length, 10);
+  });
+
+  it("fits shrunk ground factors, keeping the hand-picked key and name for known venues", () => {
+    const cal = fitCalibration(matches);
+    expect(Object.keys(cal.grounds)).toEqual(["galleInternationalStadium", "lords"]);
+    expect(cal.grounds.lords.name).toBe("Lord's, London");
+    expect(cal.grounds.galleInternationalStadium.wicketHelp).toBeGreaterThan(1);
+    expect(cal.grounds.lords.wicketHelp).toBeLessThan(1);
+    expect(cal.grounds.lords.wicketHelp).toBeGreaterThan(0.5);
+  });
+
+  it("splits eras by decade and drops thin groups", () => {
+    const cal = fitCalibration(matches, { minMatches: 3 });
+    expect(Object.keys(cal.eras)).toEqual(["2000s", "2010s"]);
+    expect(Object.keys(fitCalibration(matches, { minMatches: 4 }).grounds)).toEqual([]);
+  });
+
+  it("refuses to fit without any fourth innings", () => {
+    expect(() => fitCalibration([])).toThrow(/No fourth innings/);
+  });
+
+  it("keys venues and eras", () => {
+    expect(groundKey("Brisbane Cricket Ground, Woolloongabba, Brisbane")).toBe("gabba");
+    expect(groundKey("Kensington Oval, Bridgetown")).toBe("kensingtonOval");
+    expect(eraOf("1998-01-02")).toBe("1990s");
+  });
+});
+
+describe("reliabilityReport", () => {
+  it("reconstructs the lead and time left at each third-innings declaration", () => {
+    const cases = declarationCases(matches);
+    expect(cases).toHaveLength(6);
+    expect(cases[0]).toMatchObject({ declaringTeam: "A", lead: 260, oversLeft: 450 - 230, actual: "win" });
+    expect(cases[2].actual).toBe("draw");
+  });
+
+  it("compares predicted and actual results", () => {
+    const cal = fitCalibration(matches);
+    const report = reliabilityReport(matches, cal, { sims: 100 });
+    expect(report.cases).toHaveLength(6);
+    expect(report.totals.actual).toEqual({ win: 5, draw: 1, loss: 0 });
+    expect(report.bins.reduce((a, b) => a + b.count, 0)).toBe(6);
+    expect(report.brier).toBeGreaterThanOrEqual(0);
+    expect(report.brier).toBeLessThanOrEqual(2);
+    expect(formatReliabilityMarkdown(report, cal)).toContain("6 declarations.");
+  });
+});
@@ -0,0 +1,136 @@
+import { HAND_PICKED_PRESETS, clamp, type Calibration, type CalibratedGround, type ChaseRates } from "../engine/index.ts";
+import type { ParsedMatch } from "./cricsheet.ts";
+
+// ---------- Fitting fourth-innings rates ----------
+
+export type FitOptions = {
+  priorOvers?: number; // overs of baseline-rate pseudo-data each ground and era is shrunk towards
+  minMatches?: number; // grounds and eras with fewer fourth innings are left out
+};
+
+type Tally = { runs: number; wickets: number; overs: number; matches: number; blocks: { wickets: number; runs: number; overs: number }[] };
+
+const BLOCK = 20; // overs per drift step, matching the engine
+
+const emptyTally = (): Tally => ({ runs: 0, wickets: 0, overs: 0, matches: 0, blocks: [] });
+
+function addInnings(t: Tally, match: ParsedMatch) {
+  const fourth = match.innings[3];
+  t.matches++;
+  fourth.overs.forEach((o, i) => {
+    const overs = o.balls / 6;
+    t.runs += o.runs;
+    t.wickets += o.wickets;
+    t.overs += overs;
+    const b = (t.blocks[Math.floor(i / BLOCK)] ??= { wickets: 0, runs: 0, overs: 0 });
+    b.wickets += o.wickets;
+    b.runs += o.runs;
+    b.overs += overs;
+  });
+}
+
+// Weighted least squares of log(rate) against block index; exp(slope) is the per-block multiplier
+function driftFactor(t: Tally, pick: (b: Tally["blocks"][number]) => number, fallback: number) {
+  const points = t.blocks
+    .map((b, i) => ({ x: i, w: b.overs, rate: b.overs > 0 ? pick(b) / b.overs : 0 }))
+    .filter((p) => p.w >= 50 && p.rate > 0);
+  if (points.length < 2) return fallback;
+  const sw = points.reduce((a, p) => a + p.w, 0);
+  const mx = points.reduce((a, p) => a + p.w * p.x, 0) / sw;
+  const my = points.reduce((a, p) => a + p.w * Math.log(p.rate), 0) / sw;
+  const sxx = points.reduce((a, p) => a + p.w * (p.x - mx) ** 2, 0);
+  if (sxx === 0) return fallback;
+  const sxy = points.reduce((a, p) => a + p.w * (p.x - mx) * (Math.log(p.rate) - my), 0);
+  return clamp(Math.exp(sxy / sxx), 0.9, 1.1);
+}
+
+// Shrinks a group's rate towards the baseline by `priorOvers` overs of baseline data
+function shrunk(count: number, overs: number, baseRate: number, priorOvers: number) {
+  return (count + baseRate * priorOvers) / (overs + priorOvers);
+}
+
+export function eraOf(date: string) {
+  const year = Number(date.slice(0, 4));
+  return Number.isFinite(year) && year > 0 ? `${Math.floor(year / 10) * 10}s` : "unknown";
+}
+
+// Hand-picked grounds Cricsheet knows under longer or different venue names
+const VENUE_ALIASES: [key: string, pattern: RegExp][] = [
+  ["lords", /lord's/i],
+  ["gabba", /gabba|woolloongabba|brisbane cricket ground/i],
+  ["edenGardens", /eden gardens/i],
+  ["mcg", /melbourne cricket ground/i],
+  ["scg", /sydney cricket ground/i],
+  ["wanderers", /wanderers/i],
+  ["rawalpindi", /rawalpindi/i],
+];
+
+export function groundKey(venue: string) {
+  const alias = VENUE_ALIASES.find(([, re]) => re.test(venue));
+  if (alias) return alias[0];
+  const words = venue.split(",")[0].replace(/[^A-Za-z0-9 ]/g, "").trim().split(/\s+/);
+  return words.map((w, i) => (i === 0 ? w.toLowerCase() : w[0].toUpperCase() + w.slice(1).toLowerCase())).join("") || "unknown";
+}
+
+// Matches with a fourth innings contribute to the fit
+export function fourthInningsMatches(matches: ParsedMatch[]) {
+  return matches.filter((m) => m.innings.length >= 4 && m.innings[3].overs.length > 0);
+}
+
+export function fitCalibration(matches: ParsedMatch[], { priorOvers = 150, minMatches = 3 }: FitOptions = {}): Calibration {
+  const usable = fourthInningsMatches(matches);
+  const all = emptyTally();
+  const byGround = new Map<string, Tally & { venue: string }>();
+  const byEra = new Map<string, Tally>();
+
+  for (const m of usable) {
+    addInnings(all, m);
+    const key = groundKey(m.venue);
+    if (!byGround.has(key)) byGround.set(key, { ...emptyTally(), venue: m.venue.split(",")[0] });
+    addInnings(byGround.get(key)!, m);
+    const era = eraOf(m.date);
+    if (!byEra.has(era)) byEra.set(era, emptyTally());
+    addInnings(byEra.get(era)!, m);
+  }
+
+  if (all.overs === 0) throw new Error("No fourth innings with ball-by-ball data to calibrate from");
+
+  const baseline: ChaseRates = {
+    wicketPerOver: all.wickets / all.overs,
+    runsPerOver: all.runs / all.overs,
+    wicketDriftPer20: driftFactor(all, (b) => b.wickets, 1.03),
+    rpoDriftPer20: driftFactor(all, (b) => b.runs, 0.98),
+  };
+
+  const eras: Calibration["eras"] = {};
+  for (const [era, t] of [...byEra].sort(([a], [b]) => a.localeCompare(b))) {
+    if (t.matches < minMatches) continue;
+    eras[era] = {
+      wicketPerOver: shrunk(t.wickets, t.overs, baseline.wicketPerOver, priorOvers),
+      runsPerOver: shrunk(t.runs, t.overs, baseline.runsPerOver, priorOvers),
+      wicketDriftPer20: baseline.wicketDriftPer20,
+      rpoDriftPer20: baseline.rpoDriftPer20,
+      matches: t.matches,
+    };
+  }
+
+  const grounds: Record<string, CalibratedGround> = {};
+  for (const [key, t] of [...byGround].sort(([a], [b]) => a.localeCompare(b))) {
+    if (t.matches < minMatches) continue;
+    grounds[key] = {
+      name: HAND_PICKED_PRESETS[key]?.name ?? t.venue,
+      wicketHelp: shrunk(t.wickets, t.overs, baseline.wicketPerOver, priorOvers) / baseline.wicketPerOver,
+      chaseEase: shrunk(t.runs, t.overs, baseline.runsPerOver, priorOvers) / baseline.runsPerOver,
+      matches: t.matches,
+    };
+  }
+
+  return {
+    source: `Cricsheet fourth innings from ${usable.length} Test matches`,
+    generatedAt: new Date().toISOString(),
+    matches: usable.length,
+    baseline,
+    eras,
+    grounds,
+  };
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { validateInputs, type ChaseOutcome } from "../engine/index.ts";
+import type { ParsedInnings, ParsedMatch } from "./cricsheet.ts";
+import { brierScore, declarationCases, declarationInputs, reliabilityBins, type DeclarationCase } from "./reliability.ts";
+
+// An innings as one tally: its runs over a whole number of six-ball overs
+const innings = (team: string, runs: number, overs: number, declared = false): ParsedInnings => ({ team, declared, overs: [{ runs, wickets: 0, balls: overs * 6 }] });
+
+const match = (id: string, innings: ParsedInnings[], winner: string | null, result: ParsedMatch["result"] = winner ? "win" : "draw"): ParsedMatch => ({
+  id,
+  venue: "Lord's, London",
+  date: "2015-07-01",
+  teams: ["A", "B"],
+  winner,
+  result,
+  innings,
+});
+
+const declaredThird = [innings("A", 300, 100), innings("B", 240, 80), innings("A", 200, 50, true)];
+
+const caseOf = (winP: number, drawP: number, lossP: number, actual: ChaseOutcome): DeclarationCase => ({
+  id: `${winP}`,
+  venue: "Lord's, London",
+  date: "2015-07-01",
+  declaringTeam: "A",
+  lead: 250,
+  oversLeft: 90,
+  predicted: { winP, drawP, lossP },
+  actual,
+});
+
+// Squared errors 0.065, 0.26, 1.455 and 1.635
+const cases = [caseOf(0.8, 0.15, 0.05, "win"), caseOf(0.3, 0.6, 0.1, "draw"), caseOf(0.05, 0.25, 0.7, "win"), caseOf(0.85, 0.1, 0.05, "loss")];
+
+describe("declarationCases", () => {
+  it("keeps declared third innings the declaring side leads, with the time left and result", () => {
+    const found = declarationCases([
+      match("lost", [...declaredThird, innings("B", 261, 60)], "B"),
+      match("not declared", [...declaredThird.slice(0, 2), innings("A", 200, 50), innings("B", 100, 40)], "A"),
+      match("behind", [innings("A", 100, 40), innings("B", 400, 120), innings("A", 150, 40, true), innings("B", 20, 5)], null),
+      match("no fourth innings", declaredThird, null),
+      match("tied", [...declaredThird, innings("B", 260, 70)], null, "tie"),
+      match("follow-on", [innings("A", 400, 130), innings("B", 150, 60), innings("B", 500, 160, true), innings("A", 100, 30)], null),
+    ]);
+    expect(found.map((c) => ({ id: c.match.id, declaringTeam: c.declaringTeam, lead: c.lead, oversLeft: c.oversLeft, actual: c.actual }))).toEqual([
+      { id: "lost", declaringTeam: "A", lead: 260, oversLeft: 220, actual: "loss" },
+      { id: "follow-on", declaringTeam: "B", lead: 250, oversLeft: 100, actual: "draw" },
+    ]);
+  });
+
+  it("leaves no time when the first three innings used up five days", () => {
+    const [found] = declarationCases([match("long", [innings("A", 500, 200), innings("B", 300, 150), innings("A", 100, 120, true), innings("B", 10, 3)], null)]);
+    expect(found.oversLeft).toBe(0);
+  });
+});
+
+describe("declarationInputs", () => {
+  it("spreads the overs left over 30-over sessions, the first one part-played", () => {
+    const inputs = declarationInputs(260, 220, "lords", "2010s");
+    expect(inputs).toMatchObject({ ground: "Lord's, London", groundPresetKey: "lords", era: "2010s", currentLead: 260, sessionsRemaining: 8, oversLeftThisSession: 10 });
+    expect(inputs.weatherBySession).toEqual(Array.from({ length: 8 }, () => ({ rainChance: 0 })));
+    expect(validateInputs(inputs)).toEqual([]);
+  });
+
+  it("names an unknown ground by its key and keeps at least one session", () => {
+    expect(declarationInputs(100, 0, "somewhereElse", "1990s")).toMatchObject({ ground: "somewhereElse", sessionsRemaining: 1, oversLeftThisSession: 0 });
+  });
+});
+
+describe("brierScore", () => {
+  it("averages the squared error across win, draw and loss", () => {
+    expect(brierScore(cases)).toBeCloseTo(3.415 / 4, 10);
+    expect(brierScore([caseOf(1, 0, 0, "win")])).toBe(0);
+    expect(brierScore([caseOf(1, 0, 0, "loss")])).toBe(2);
+  });
+
+  it("is undefined without any cases", () => {
+    expect(brierScore([])).toBeNaN();
+  });
+});
+
+describe("reliabilityBins", () => {
+  it("bins by predicted win probability with each bin's mean prediction and win rate", () => {
+    const bins = reliabilityBins(cases, 4);
+    expect(bins.map((b) => [b.lo, b.hi, b.count])).toEqual([[0, 0.25, 1], [0.25, 0.5, 1], [0.5, 0.75, 0], [0.75, 1, 2]]);
+    expect(bins[0]).toMatchObject({ meanPredicted: 0.05, observed: 1 });
+    expect(bins[1]).toMatchObject({ meanPredicted: 0.3, observed: 0 });
+    expect(bins[2]).toMatchObject({ meanPredicted: 0, observed: 0 });
+    expect(bins[3].meanPredicted).toBeCloseTo(0.825, 10);
+    expect(bins[3].observed).toBe(0.5);
+  });
+
+  it("puts a certain win in the top bin", () => {
+    expect(reliabilityBins([caseOf(1, 0, 0, "win")], 10)[9]).toMatchObject({ count: 1, meanPredicted: 1, observed: 1 });
+  });
+});
@@ -0,0 +1,171 @@
+import {
+  DEFAULT_INPUTS,
+  HAND_PICKED_PRESETS,
+  simulateOption,
+  type Calibration,
+  type ChaseOutcome,
+  type Inputs,
+} from "../engine/index.ts";
+import { inningsTotals, type ParsedMatch } from "./cricsheet.ts";
+import { eraOf, groundKey } from "./fit.ts";
+
+// ---------- Reliability of historical declarations ----------
+
+const SCHEDULED_OVERS = 5 * 90; // a five-day Test with no weather loss
+const OVERS_PER_SESSION = 30;
+
+export type DeclarationCase = {
+  id: string;
+  venue: string;
+  date: string;
+  declaringTeam: string;
+  lead: number;
+  oversLeft: number;
+  predicted: { winP: number; drawP: number; lossP: number };
+  actual: ChaseOutcome;
+};
+
+export type ReliabilityBin = { lo: number; hi: number; count: number; meanPredicted: number; observed: number };
+
+export type ReliabilityReport = {
+  cases: DeclarationCase[];
+  brier: number; // mean over cases of the squared error summed across win/draw/loss
+  bins: ReliabilityBin[]; // by predicted win probability
+  totals: { predicted: { win: number; draw: number; loss: number }; actual: { win: number; draw: number; loss: number } };
+};
+
+// Third-innings declarations followed by a fourth innings, with the lead and time left at the declaration
+export function declarationCases(matches: ParsedMatch[]) {
+  const out: { match: ParsedMatch; declaringTeam: string; lead: number; oversLeft: number; actual: ChaseOutcome }[] = [];
+  for (const match of matches) {
+    const third = match.innings[2];
+    if (!third?.declared || match.innings.length < 4 || match.result === "tie" || match.result === "no result") continue;
+
+    let lead = 0, oversSoFar = 0;
+    for (const inn of match.innings.slice(0, 3)) {
+      const t = inningsTotals(inn);
+      lead += inn.team === third.team ? t.runs : -t.runs;
+      oversSoFar += t.overs;
+    }
+    if (lead <= 0) continue;
+
+    const actual: ChaseOutcome = match.winner === null ? "draw" : match.winner === third.team ? "win" : "loss";
+    out.push({ match, declaringTeam: third.team, lead, oversLeft: Math.max(0, SCHEDULED_OVERS - oversSoFar), actual });
+  }
+  return out;
+}
+
+// Neutral-strength inputs for "declare now" with the reconstructed lead and clock
+export function declarationInputs(lead: number, oversLeft: number, key: string, era: string): Inputs {
+  const sessionsRemaining = Math.max(1, Math.ceil(oversLeft / OVERS_PER_SESSION));
+  return {
+    ...DEFAULT_INPUTS,
+    ground: HAND_PICKED_PRESETS[key]?.name ?? key,
+    groundPresetKey: key,
+    era,
+    oversPerSession: OVERS_PER_SESSION,
+    sessionsRemaining,
+    oversLeftThisSession: oversLeft - (sessionsRemaining - 1) * OVERS_PER_SESSION,
+    currentLead: lead,
+    opponentBattingStrength: 50,
+    ourBowlingStrength: 50,
+    pitchBowlingFactor: 1,
+    weatherBySession: Array.from({ length: sessionsRemaining }, () => ({ rainChance: 0 })),
+    chaseModel: "aggregate",
+  };
+}
+
+const indicator = (c: DeclarationCase, k: ChaseOutcome) => (c.actual === k ? 1 : 0);
+
+// Mean over cases of the squared error summed across win/draw/loss: 0 is perfect, 2 is confidently wrong every time
+export function brierScore(cases: DeclarationCase[]) {
+  if (!cases.length) return NaN;
+  const error = (c: DeclarationCase) =>
+    (c.predicted.winP - indicator(c, "win")) ** 2 + (c.predicted.drawP - indicator(c, "draw")) ** 2 + (c.predicted.lossP - indicator(c, "loss")) ** 2;
+  return cases.reduce((a, c) => a + error(c), 0) / cases.length;
+}
+
+// Cases grouped into equal-width bins of predicted win probability, each with how often the side actually won
+export function reliabilityBins(cases: DeclarationCase[], binCount: number): ReliabilityBin[] {
+  const bins: ReliabilityBin[] = Array.from({ length: binCount }, (_, i) => ({ lo: i / binCount, hi: (i + 1) / binCount, count: 0, meanPredicted: 0, observed: 0 }));
+  for (const c of cases) {
+    const bin = bins[Math.min(binCount - 1, Math.floor(c.predicted.winP * binCount))];
+    bin.count++;
+    bin.meanPredicted += c.predicted.winP;
+    bin.observed += indicator(c, "win");
+  }
+  for (const b of bins) {
+    if (b.count === 0) continue;
+    b.meanPredicted /= b.count;
+    b.observed /= b.count;
+  }
+  return bins;
+}
+
+export function reliabilityReport(matches: ParsedMatch[], calibration: Calibration, { sims = 500, seed = 1234, binCount = 10 } = {}): ReliabilityReport {
+  const cases: DeclarationCase[] = declarationCases(matches).map(({ match, declaringTeam, lead, oversLeft, actual }) => {
+    const key = groundKey(match.venue);
+    const era = eraOf(match.date);
+    const ground = calibration.grounds[key] ?? { wicketHelp: 1, chaseEase: 1 };
+    const rates = calibration.eras[era] ?? calibration.baseline;
+    const out = simulateOption(declarationInputs(lead, oversLeft, key, era), { ...ground, rates }, 0, sims, seed);
+    return {
+      id: match.id,
+      venue: match.venue,
+      date: match.date,
+      declaringTeam,
+      lead,
+      oversLeft,
+      predicted: { winP: out.winP, drawP: out.drawP, lossP: out.lossP },
+      actual,
+    };
+  });
+
+  const sum = (f: (c: DeclarationCase) => number) => cases.reduce((a, c) => a + f(c), 0);
+  return {
+    cases,
+    brier: brierScore(cases),
+    bins: reliabilityBins(cases, binCount),
+    totals: {
+      predicted: { win: sum((c) => c.predicted.winP), draw: sum((c) => c.predicted.drawP), loss: sum((c) => c.predicted.lossP) },
+      actual: { win: sum((c) => indicator(c, "win")), draw: sum((c) => indicator(c, "draw")), loss: sum((c) => indicator(c, "loss")) },
+    },
+  };
+}
+
+const p1 = (x: number) => (x * 100).toFixed(1) + "%";
+
+export function formatReliabilityMarkdown(report: ReliabilityReport, calibration: Calibration) {
+  const lines: string[] = [];
+  lines.push("# Calibration report", "");
+  lines.push(`Source: ${calibration.source}.`, "");
+  lines.push("## Fourth-innings baseline", "");
+  lines.push("| Wickets / over | Runs / over | Hazard drift / 20 overs | Run-rate drift / 20 overs |", "|---:|---:|---:|---:|");
+  const b = calibration.baseline;
+  lines.push(`| ${b.wicketPerOver.toFixed(4)} | ${b.runsPerOver.toFixed(3)} | ${b.wicketDriftPer20.toFixed(3)} | ${b.rpoDriftPer20.toFixed(3)} |`, "");
+
+  const grounds = Object.entries(calibration.grounds);
+  if (grounds.length) {
+    lines.push("## Grounds", "", "| Key | Name | Matches | Wicket help | Chase ease |", "|---|---|---:|---:|---:|");
+    for (const [key, g] of grounds) lines.push(`| ${key} | ${g.name} | ${g.matches} | ${g.wicketHelp.toFixed(3)} | ${g.chaseEase.toFixed(3)} |`);
+    lines.push("");
+  }
+
+  lines.push("## Historical third-innings declarations", "");
+  const n = report.cases.length;
+  if (n === 0) {
+    lines.push("No declared third innings followed by a fourth innings were found.");
+    return lines.join("\n") + "\n";
+  }
+  const t = report.totals;
+  lines.push(`${n} declarations. Brier score (win/draw/loss): ${report.brier.toFixed(3)}.`, "");
+  lines.push("| | Win | Draw | Loss |", "|---|---:|---:|---:|");
+  lines.push(`| Predicted | ${p1(t.predicted.win / n)} | ${p1(t.predicted.draw / n)} | ${p1(t.predicted.loss / n)} |`);
+  lines.push(`| Actual | ${p1(t.actual.win / n)} | ${p1(t.actual.draw / n)} | ${p1(t.actual.loss / n)} |`, "");
+  lines.push("### Reliability of the predicted win probability", "", "| Predicted | Matches | Mean predicted | Observed |", "|---|---:|---:|---:|");
+  for (const bin of report.bins) {
+    if (bin.count === 0) continue;
+    lines.push(`| ${p1(bin.lo)}–${p1(bin.hi)} | ${bin.count} | ${p1(bin.meanPredicted)} | ${p1(bin.observed)} |`);
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,52 @@
+import {
+  DEFAULT_SEED,
+  InputValidationError,
+  NO_ALTERNATIVES,
+  declarationPolicies,
+  evaluateAdaptive,
+  evaluateAllOptions,
+  type AlternativePolicySettings,
+  type ValidationIssue,
+} from "../engine/index.ts";
+import type { ScenarioResult } from "./report.ts";
+import type { Scenario } from "./scenario.ts";
+
+// ---------- Batch evaluation ----------
+
+export type EvaluateSettings = {
+  sims: number; // per option, unless the scenario sets its own
+  seed: number; // likewise
+  adaptive: boolean;
+  alternatives: AlternativePolicySettings;
+};
+
+export const DEFAULT_EVALUATE_SETTINGS: EvaluateSettings = {
+  sims: 2500,
+  seed: DEFAULT_SEED,
+  adaptive: false,
+  alternatives: NO_ALTERNATIVES,
+};
+
+export type ScenarioFailure = { name: string; issues: ValidationIssue[] };
+
+// Evaluates every scenario with the same ranking the app uses. Invalid scenarios are
+// collected rather than thrown so one bad entry doesn't sink a batch.
+export function evaluateScenarios(scenarios: Scenario[], settings: EvaluateSettings = DEFAULT_EVALUATE_SETTINGS) {
+  const results: ScenarioResult[] = [];
+  const failures: ScenarioFailure[] = [];
+
+  for (const { name, inputs, sims = settings.sims, seed = settings.seed } of scenarios) {
+    try {
+      const policies = declarationPolicies(inputs, settings.alternatives);
+      const evaluation = settings.adaptive
+        ? evaluateAdaptive(inputs, { sims, seed, policies })
+        : evaluateAllOptions(inputs, sims, seed, policies);
+      results.push({ name, sims, evaluation });
+    } catch (e) {
+      if (!(e instanceof InputValidationError)) throw e;
+      failures.push({ name, issues: e.issues });
+    }
+  }
+
+  return { results, failures };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS, evaluateAllOptions } from "../engine/index.ts";
+import { formatResults, type ScenarioResult } from "./report.ts";
+
+const evaluation = evaluateAllOptions(DEFAULT_INPUTS, 200, 3);
+const results: ScenarioResult[] = [{ name: "Lord's, day 5", sims: 200, evaluation }];
+
+describe("formatResults", () => {
+  it("writes JSON with the ranking, best and runner-up", () => {
+    const [out] = JSON.parse(formatResults(results, "json"));
+    expect(out.name).toBe("Lord's, day 5");
+    expect(out.best).toBe(evaluation.best.optionLabel);
+    expect(out.runnerUp).toBe(evaluation.runnerUp?.optionLabel);
+    expect(out.options).toHaveLength(evaluation.options.length);
+    expect(out.options[0]).toMatchObject({ rank: 1, key: evaluation.best.key });
+  });
+
+  it("writes one CSV row per option and quotes awkward cells", () => {
+    const lines = formatResults(results, "csv", 3).trimEnd().split("\n");
+    expect(lines[0]).toMatch(/^scenario,rank,key,option,/);
+    expect(lines).toHaveLength(4);
+    expect(lines[1]).toMatch(/^"Lord's, day 5",1,/);
+    expect(lines[1].endsWith(",1")).toBe(true);
+    expect(lines[2].endsWith(",0")).toBe(true);
+  });
+
+  it("writes an aligned table with a verdict line", () => {
+    const out = formatResults(results, "table", 5);
+    expect(out).toContain("Lord's, day 5 (200 sims/option, seed 3)");
+    expect(out).toContain(`Best: ${evaluation.best.optionLabel}`);
+    expect(out.split("\n").filter((l) => /^\s*\d+\s/.test(l))).toHaveLength(5);
+  });
+});
@@ -0,0 +1,107 @@
+import { Z95, type Evaluation, type RankedOption } from "../engine/index.ts";
+
+// ---------- CLI output formats ----------
+
+export type OutputFormat = "json" | "csv" | "table";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["json", "csv", "table"];
+
+export type ScenarioResult = { name: string; sims: number; evaluation: Evaluation };
+
+const pct = (n: number) => (n * 100).toFixed(1) + "%";
+
+function optionJson(o: RankedOption, rank: number) {
+  return {
+    rank,
+    key: o.key,
+    option: o.optionLabel,
+    policy: o.policy,
+    target: o.target,
+    targetQuantiles: o.targetQuantiles,
+    expectOversBatted: o.expectOversBatted,
+    bowlOversAvail: o.bowlOversAvail,
+    winP: o.winP,
+    drawP: o.drawP,
+    lossP: o.lossP,
+    stdErr: o.stdErr,
+    utility: o.utility,
+    utilityStdErr: o.utilityStdErr,
+    expMarginRuns: o.expMarginRuns,
+    sims: o.sims,
+  };
+}
+
+export function formatJson(results: ScenarioResult[], top: number) {
+  return JSON.stringify(
+    results.map(({ name, sims, evaluation: e }) => ({
+      name,
+      sims,
+      seed: e.seed,
+      best: e.best.optionLabel,
+      runnerUp: e.runnerUp?.optionLabel ?? null,
+      separation: e.separation,
+      options: e.options.slice(0, top).map((o, i) => optionJson(o, i + 1)),
+    })),
+    null,
+    2
+  ) + "\n";
+}
+
+const CSV_COLUMNS = ["scenario", "rank", "key", "option", "target", "target_p10", "target_p50", "target_p90", "win", "draw", "loss", "utility", "utility_se", "best"];
+
+const csvCell = (v: string | number) => (typeof v === "string" && /[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : String(v));
+
+export function formatCsv(results: ScenarioResult[], top: number) {
+  const rows = [CSV_COLUMNS.join(",")];
+  for (const { name, evaluation: e } of results) {
+    e.options.slice(0, top).forEach((o, i) => {
+      rows.push(
+        [name, i + 1, o.key, o.optionLabel, o.target.toFixed(1), o.targetQuantiles.p10, o.targetQuantiles.p50, o.targetQuantiles.p90,
+          o.winP.toFixed(4), o.drawP.toFixed(4), o.lossP.toFixed(4), o.utility.toFixed(4), o.utilityStdErr.toFixed(4), i === 0 ? 1 : 0]
+          .map(csvCell)
+          .join(",")
+      );
+    });
+  }
+  return rows.join("\n") + "\n";
+}
+
+function pad(cells: string[][]) {
+  const widths = cells[0].map((_, c) => Math.max(...cells.map((row) => row[c].length)));
+  return cells.map((row) => row.map((cell, c) => (c === 1 ? cell.padEnd(widths[c]) : cell.padStart(widths[c]))).join("  ")).join("\n");
+}
+
+export function formatTable(results: ScenarioResult[], top: number) {
+  return results
+    .map(({ name, sims, evaluation: e }) => {
+      const header = ["#", "Option", "Target", "p10-p90", "Win", "Draw", "Loss", "Utility"];
+      const body = e.options.slice(0, top).map((o, i) => [
+        String(i + 1),
+        o.optionLabel,
+        String(Math.round(o.target)),
+        `${Math.round(o.targetQuantiles.p10)}-${Math.round(o.targetQuantiles.p90)}`,
+        pct(o.winP),
+        pct(o.drawP),
+        pct(o.lossP),
+        `${o.utility.toFixed(3)} ±${(Z95 * o.utilityStdErr).toFixed(3)}`,
+      ]);
+      const verdict = e.runnerUp
+        ? e.separation.separable
+          ? `Best: ${e.best.optionLabel}, ahead of ${e.runnerUp.optionLabel} beyond Monte Carlo noise (z = ${e.separation.z.toFixed(2)}).`
+          : `Best: ${e.best.optionLabel}, but ${e.runnerUp.optionLabel} is within Monte Carlo noise (z = ${e.separation.z.toFixed(2)}).`
+        : `Best: ${e.best.optionLabel}.`;
+      return `${name} (${sims} sims/option, seed ${e.seed})\n${pad([header, ...body])}\n${verdict}\n`;
+    })
+    .join("\n");
+}
+
+export function formatResults(results: ScenarioResult[], format: OutputFormat, top = Infinity) {
+  switch (format) {
+    case "json":
+      return formatJson(results, top);
+    case "csv":
+      return formatCsv(results, top);
+    case "table":
+      return formatTable(results, top);
+  }
+}
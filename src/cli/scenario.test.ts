@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS, type Inputs } from "../engine/index.ts";
+import { evaluateScenarios } from "./evaluate.ts";
+import { ScenarioFormatError, scenariosFromDocument } from "./scenario.ts";
+
+describe("scenariosFromDocument", () => {
+  it("reads a bare Inputs document, filling gaps from the defaults", () => {
+    const [s] = scenariosFromDocument({ currentLead: 300 }, "perth");
+    expect(s.name).toBe("perth#1");
+    expect(s.inputs).toEqual({ ...DEFAULT_INPUTS, currentLead: 300 });
+    expect(s.sims).toBeUndefined();
+  });
+
+  it("reads wrappers with their own name, sims and seed", () => {
+    const [s] = scenariosFromDocument({ name: "day 5", inputs: { currentLead: 200 }, sims: 400, seed: 7 }, "f");
+    expect(s).toMatchObject({ name: "day 5", sims: 400, seed: 7 });
+    expect(s.inputs.currentLead).toBe(200);
+  });
+
+  it("reads batches as a list or under scenarios", () => {
+    expect(scenariosFromDocument([{}, { name: "b", inputs: {} }], "f").map((s) => s.name)).toEqual(["f#1", "b"]);
+    expect(scenariosFromDocument({ scenarios: [{}, {}, {}] }, "f")).toHaveLength(3);
+  });
+
+  it("rejects documents that aren't scenarios", () => {
+    expect(() => scenariosFromDocument("lead 300", "f")).toThrow(ScenarioFormatError);
+    expect(() => scenariosFromDocument([], "f")).toThrow(/no scenarios/);
+    expect(() => scenariosFromDocument({ inputs: {}, sims: "lots" }, "f")).toThrow(/sims must be a number/);
+    expect(() => scenariosFromDocument({ weatherBySession: "dry" }, "f")).toThrow(/weatherBySession/);
+    expect(() => scenariosFromDocument({ inputs: { weatherBySession: [null] } }, "f")).toThrow(new ScenarioFormatError("f[0].inputs.weatherBySession[0] must be an object"));
+    expect(() => scenariosFromDocument({ chaseModel: "detailed", battingOrder: 5 }, "f")).toThrow(/battingOrder must be a list/);
+  });
+});
+
+describe("evaluateScenarios", () => {
+  const settings = { sims: 200, seed: 5, adaptive: false, alternatives: { leadTargets: [350], sessionBreaks: 0, hybridOvers: null } };
+
+  it("ranks each valid scenario and collects the invalid ones", () => {
+    const scenarios = scenariosFromDocument([{ name: "ok", inputs: {} }, { name: "bad", inputs: { wicketsInHand: 12 } }], "f");
+    const { results, failures } = evaluateScenarios(scenarios, settings);
+
+    expect(results.map((r) => r.name)).toEqual(["ok"]);
+    const { options, best } = results[0].evaluation;
+    expect(best).toBe(options[0]);
+    expect(options.some((o) => o.policy.kind === "lead")).toBe(true);
+
+    expect(failures).toHaveLength(1);
+    expect(failures[0].name).toBe("bad");
+    expect(failures[0].issues.map((i) => i.field)).toContain("wicketsInHand");
+  });
+
+  it("collects a malformed scenario built outside a file instead of throwing", () => {
+    const inputs = { ...DEFAULT_INPUTS, chaseModel: "detailed", battingOrder: 5 } as unknown as Inputs;
+    const { results, failures } = evaluateScenarios([{ name: "odd", inputs }], settings);
+    expect(results).toEqual([]);
+    expect(failures).toEqual([{ name: "odd", issues: [{ field: "battingOrder", message: "must be a list" }] }]);
+  });
+
+  it("lets a scenario's own sims and seed override the settings", () => {
+    const [s] = scenariosFromDocument({ inputs: {}, sims: 100, seed: 9 }, "f");
+    const { results } = evaluateScenarios([s], settings);
+    expect(results[0].sims).toBe(100);
+    expect(results[0].evaluation.seed).toBe(9);
+    expect(results[0].evaluation.best.sims).toBe(100);
+  });
+});
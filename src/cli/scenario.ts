@@ -0,0 +1,57 @@
+import type { Inputs } from "../engine/index.ts";
+import { ScenarioImportError, parseSnapshot } from "../scenarios/snapshot.ts";
+
+// ---------- Scenario documents ----------
+// A document is an Inputs object, a { name, inputs, sims, seed } wrapper, an array of
+// either, or { scenarios: [...] }. Inputs are read by the app's snapshot parser, so fields left out
+// take DEFAULT_INPUTS and a file is held to the same checks as an imported or shared scenario.
+
+export type Scenario = {
+  name: string;
+  inputs: Inputs;
+  sims?: number;
+  seed?: number;
+};
+
+export class ScenarioFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScenarioFormatError";
+  }
+}
+
+type Obj = Record<string, unknown>;
+const isObj = (v: unknown): v is Obj => typeof v === "object" && v !== null && !Array.isArray(v);
+
+function optionalNumber(v: unknown, field: string, where: string) {
+  if (v === undefined) return undefined;
+  if (typeof v !== "number") throw new ScenarioFormatError(`${where}: ${field} must be a number`);
+  return v;
+}
+
+function toScenario(entry: unknown, index: number, source: string): Scenario {
+  const where = `${source}[${index}]`;
+  if (!isObj(entry)) throw new ScenarioFormatError(`${where}: expected an object`);
+
+  const wrapped = isObj(entry.inputs);
+  let inputs: Inputs;
+  try {
+    ({ inputs } = parseSnapshot({ inputs: wrapped ? entry.inputs : entry }, where));
+  } catch (e) {
+    if (!(e instanceof ScenarioImportError)) throw e;
+    throw new ScenarioFormatError(e.message);
+  }
+
+  return {
+    name: typeof entry.name === "string" ? entry.name : `${source}#${index + 1}`,
+    inputs,
+    sims: wrapped ? optionalNumber(entry.sims, "sims", where) : undefined,
+    seed: wrapped ? optionalNumber(entry.seed, "seed", where) : undefined,
+  };
+}
+
+export function scenariosFromDocument(doc: unknown, source: string): Scenario[] {
+  const list = Array.isArray(doc) ? doc : isObj(doc) && Array.isArray(doc.scenarios) ? doc.scenarios : [doc];
+  if (list.length === 0) throw new ScenarioFormatError(`${source}: no scenarios`);
+  return list.map((entry, i) => toScenario(entry, i, source));
+}
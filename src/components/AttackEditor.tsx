@@ -0,0 +1,76 @@
+import { DEFAULT_ATTACK, bowlerQuality, bowlingShares, fatigueFactor, type BowlerKind, type BowlerProfile } from "../engine/index.ts";
+
+const blank: BowlerProfile = { name: "New bowler", kind: "pace", average: 32, economy: 3.2, oversBowled: 0, fitness: 1 };
+
+// Table editor for our bowlers under the player-profile strength model.
+// Shares and the tiredness column show what the engine makes of each row at the start of the chase.
+export function AttackEditor({ attack, onChange }: { attack: BowlerProfile[]; onChange: (attack: BowlerProfile[]) => void }) {
+  const update = (idx: number, patch: Partial<BowlerProfile>) => onChange(attack.map((b, i) => (i === idx ? { ...b, ...patch } : b)));
+
+  const num = (idx: number, k: "average" | "economy" | "oversBowled") => (e: React.ChangeEvent<HTMLInputElement>) =>
+    update(idx, { [k]: Number(e.target.value) });
+
+  const shares = bowlingShares(attack);
+
+  return (
+    <div>
+      <div className="overflow-auto rounded-xl border">
+        <table className="min-w-full text-sm">
+          <thead className="bg-white">
+            <tr>
+              <th className="text-left p-2">Bowler</th>
+              <th className="text-left p-2">Type</th>
+              <th className="text-right p-2">Average</th>
+              <th className="text-right p-2">Economy</th>
+              <th className="text-right p-2">Overs this match</th>
+              <th className="text-right p-2">Fitness</th>
+              <th className="text-right p-2">Wickets vs typical</th>
+              <th className="text-right p-2">Share of overs</th>
+              <th className="text-right p-2">Freshness</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {attack.map((b, idx) => (
+              <tr key={idx} className={idx % 2 ? "bg-white" : "bg-slate-50/40"}>
+                <td className="p-2">
+                  <input value={b.name} onChange={(e) => update(idx, { name: e.target.value })} className="rounded-xl border p-1 w-32" />
+                </td>
+                <td className="p-2">
+                  <select value={b.kind} onChange={(e) => update(idx, { kind: e.target.value as BowlerKind })} className="rounded-xl border p-1">
+                    <option value="pace">Pace</option>
+                    <option value="spin">Spin</option>
+                  </select>
+                </td>
+                <td className="p-2 text-right">
+                  <input type="number" step={0.5} value={b.average} onChange={num(idx, "average")} className="rounded-xl border p-1 w-20 text-right" />
+                </td>
+                <td className="p-2 text-right">
+                  <input type="number" step={0.1} value={b.economy} onChange={num(idx, "economy")} className="rounded-xl border p-1 w-20 text-right" />
+                </td>
+                <td className="p-2 text-right">
+                  <input type="number" step={1} value={b.oversBowled} onChange={num(idx, "oversBowled")} className="rounded-xl border p-1 w-20 text-right" />
+                </td>
+                <td className="p-2 text-right">
+                  <input type="range" min={0} max={100} value={Math.round(b.fitness * 100)} onChange={(e) => update(idx, { fitness: Number(e.target.value) / 100 })} className="w-20 align-middle" />
+                  <span className="ml-1 text-xs text-slate-500">{Math.round(b.fitness * 100)}%</span>
+                </td>
+                <td className="p-2 text-right text-slate-500">×{bowlerQuality(b).wickets.toFixed(2)}</td>
+                <td className="p-2 text-right text-slate-500">{(shares[idx] * 100).toFixed(0)}%</td>
+                <td className="p-2 text-right text-slate-500">{(fatigueFactor(b.oversBowled, b.fitness) * 100).toFixed(0)}%</td>
+                <td className="p-2 text-right">
+                  <button onClick={() => onChange(attack.filter((_, i) => i !== idx))} disabled={attack.length <= 1} className="text-xs text-rose-700 disabled:opacity-40">Remove</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-3 flex gap-2 items-center">
+        <button onClick={() => onChange([...attack, blank])} disabled={attack.length >= 11} className="px-3 py-2 rounded-xl bg-white text-sm shadow disabled:opacity-50">Add bowler</button>
+        <button onClick={() => onChange(DEFAULT_ATTACK)} className="px-3 py-2 rounded-xl bg-slate-600 text-white text-sm shadow">Reset to typical attack</button>
+        <span className="text-xs text-slate-500">Bowlers tire as their overs in the match pile up, sooner when less than fully fit. Seamers use the ground's pace and bounce, spinners its turn.</span>
+      </div>
+    </div>
+  );
+}
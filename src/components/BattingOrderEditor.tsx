@@ -0,0 +1,61 @@
+import { DEFAULT_BATTING_ORDER, impliedDismissalHazard, type BatterProfile } from "../engine/index.ts";
+
+// Table editor for the opposition order used by the detailed chase model.
+// Editing average or strike rate re-derives the dismissal hazard; the hazard can then be overridden.
+export function BattingOrderEditor({ order, onChange }: { order: BatterProfile[]; onChange: (order: BatterProfile[]) => void }) {
+  const update = (idx: number, patch: Partial<BatterProfile>) => {
+    const next = order.slice();
+    const merged = { ...next[idx], ...patch };
+    if (patch.average !== undefined || patch.strikeRate !== undefined) {
+      merged.dismissalHazard = impliedDismissalHazard(merged.average, merged.strikeRate);
+    }
+    next[idx] = merged;
+    onChange(next);
+  };
+
+  const num = (idx: number, k: "average" | "strikeRate" | "dismissalHazard") => (e: React.ChangeEvent<HTMLInputElement>) =>
+    update(idx, { [k]: Number(e.target.value) });
+
+  return (
+    <div>
+      <div className="overflow-auto rounded-xl border">
+        <table className="min-w-full text-sm">
+          <thead className="bg-white">
+            <tr>
+              <th className="text-left p-2">#</th>
+              <th className="text-left p-2">Batter</th>
+              <th className="text-right p-2">Average</th>
+              <th className="text-right p-2">Strike rate</th>
+              <th className="text-right p-2">Out chance / ball</th>
+              <th className="text-right p-2">Balls / dismissal</th>
+            </tr>
+          </thead>
+          <tbody>
+            {order.map((b, idx) => (
+              <tr key={idx} className={idx >= 7 ? "bg-amber-50/60" : idx % 2 ? "bg-white" : "bg-slate-50/40"}>
+                <td className="p-2">{idx + 1}</td>
+                <td className="p-2">
+                  <input value={b.name} onChange={(e) => update(idx, { name: e.target.value })} className="rounded-xl border p-1 w-32" />
+                </td>
+                <td className="p-2 text-right">
+                  <input type="number" step={0.5} value={b.average} onChange={num(idx, "average")} className="rounded-xl border p-1 w-20 text-right" />
+                </td>
+                <td className="p-2 text-right">
+                  <input type="number" step={1} value={b.strikeRate} onChange={num(idx, "strikeRate")} className="rounded-xl border p-1 w-20 text-right" />
+                </td>
+                <td className="p-2 text-right">
+                  <input type="number" step={0.001} value={Number(b.dismissalHazard.toFixed(4))} onChange={num(idx, "dismissalHazard")} className="rounded-xl border p-1 w-24 text-right" />
+                </td>
+                <td className="p-2 text-right text-slate-500">{b.dismissalHazard > 0 ? Math.round(1 / b.dismissalHazard) : "∞"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-3 flex gap-2 items-center">
+        <button onClick={() => onChange(DEFAULT_BATTING_ORDER)} className="px-3 py-2 rounded-xl bg-slate-600 text-white text-sm shadow">Reset to typical order</button>
+        <span className="text-xs text-slate-500">Nos. 8–11 are highlighted. Hazards are scaled by our attack, the pitch, the new ball (overs 0–14 and 80–94) and how settled the partnership is.</span>
+      </div>
+    </div>
+  );
+}
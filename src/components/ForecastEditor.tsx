@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { badLightChance, hourlyForecast, resolveGround, sessionWindows, type HourlyWeather, type Inputs } from "../engine/index.ts";
+import { ForecastFormatError, parseForecast } from "../weather/forecast.ts";
+
+const clock = (hours: number) => {
+  const day = Math.floor(hours / 24);
+  const t = hours - day * 24;
+  const hh = Math.floor(t);
+  const mm = Math.round((t - hh) * 60);
+  return `${day > 0 ? `+${day}d ` : ""}${String(hh).padStart(2, "0")}:${String(mm).padStart(2, "0")}`;
+};
+
+// Hour-by-hour rain for the hourly weather model: imported from a forecast file, edited by hand,
+// or left to follow the per-session rain chances
+export function ForecastEditor({ inputs, onChange }: { inputs: Inputs; onChange: (forecast: HourlyWeather[] | undefined) => void }) {
+  const [error, setError] = useState<string | null>(null);
+  const windows = sessionWindows(inputs);
+  const hours = hourlyForecast(inputs, windows);
+  const now = windows[0]?.start ?? 0;
+  const editable = inputs.forecast !== undefined;
+
+  // only hours with play in them matter
+  const inPlay = hours
+    .map((h, i) => ({ ...h, i }))
+    .filter(({ i }) => windows.some((w) => now + i < w.end && now + i + 1 > w.start));
+
+  const setHour = (i: number, patch: Partial<HourlyWeather>) => {
+    const next = hours.slice();
+    next[i] = { ...next[i], ...patch };
+    onChange(next);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      onChange(parseForecast(await file.text(), file.name));
+      setError(null);
+    } catch (e) {
+      if (!(e instanceof ForecastFormatError)) throw e;
+      setError(`${file.name}: ${e.message}`);
+    }
+  };
+
+  const preset = resolveGround(inputs);
+  const evenings = windows.filter((w) => w.sessionOfDay === 3);
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap gap-2 items-center">
+        <label className="px-3 py-2 rounded-xl bg-white border text-sm shadow cursor-pointer">Import forecast (JSON/CSV)…
+          <input
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void importFile(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        {editable
+          ? <button onClick={() => onChange(undefined)} className="px-3 py-2 rounded-xl bg-slate-600 text-white text-sm shadow">Follow session sliders</button>
+          : <button onClick={() => onChange(hours)} className="px-3 py-2 rounded-xl bg-slate-600 text-white text-sm shadow">Edit hour by hour</button>}
+      </div>
+      {error && <div className="mt-2 p-2 rounded-xl border bg-rose-50 border-rose-200 text-xs text-rose-800">{error}</div>}
+      <div className="mt-2 text-xs text-slate-500">
+        {editable ? "Using the imported or edited forecast; the first hour is the coming one." : "Built from the session rain chances above."}
+        {" "}Bad light risk at {preset.name}: {evenings.length > 0 ? `${Math.round(badLightChance(preset, []) * 100)}% per evening in clear weather, more under cloud` : "no evening session left"}.
+      </div>
+
+      <div className="mt-2 max-h-56 overflow-auto rounded-xl border">
+        <table className="min-w-full text-xs">
+          <thead className="sticky top-0 bg-white">
+            <tr>
+              <th className="text-left p-1">Hour from</th>
+              <th className="text-right p-1">Rain chance</th>
+              <th className="text-right p-1">Minutes lost if it rains</th>
+            </tr>
+          </thead>
+          <tbody>
+            {inPlay.map(({ i, rainChance, rainMinutes }) => (
+              <tr key={i} className={i % 2 ? "bg-white" : "bg-slate-50/40"}>
+                <td className="p-1">{clock(now + i)}</td>
+                <td className="p-1 text-right">
+                  {editable
+                    ? <input type="number" min={0} max={100} value={Math.round(rainChance * 100)} onChange={(e) => setHour(i, { rainChance: Number(e.target.value) / 100 })} className="w-16 rounded border p-0.5 text-right" />
+                    : `${Math.round(rainChance * 100)}`}%
+                </td>
+                <td className="p-1 text-right">
+                  {editable
+                    ? <input type="number" min={0} max={60} value={rainMinutes} onChange={(e) => setHour(i, { rainMinutes: Number(e.target.value) })} className="w-16 rounded border p-0.5 text-right" />
+                    : rainMinutes}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
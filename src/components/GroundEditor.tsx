@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { GROUND_PRESETS, MAX_SCHEDULED_DAYS, validateGroundProfile, type DayWear, type GroundPreset } from "../engine/index.ts";
+import { customGroundKey, editableDeterioration, isBuiltInGround } from "../grounds/library.ts";
+import { OUTCOME_COLOURS, linearScale } from "./charts.ts";
+
+// Wicket and scoring multipliers by day, drawn together so the shape of the wear is easy to read
+function CurvePreview({ curve }: { curve: DayWear[] }) {
+  const width = 220, height = 90, pad = 14;
+  const values = curve.flatMap((d) => [d.wickets, d.runs]);
+  const x = linearScale([0, Math.max(1, curve.length - 1)], [pad, width - pad]);
+  const y = linearScale([Math.min(0.8, ...values), Math.max(1.2, ...values)], [height - pad, pad]);
+  const line = (k: keyof DayWear) => curve.map((d, i) => `${x(i)},${y(d[k])}`).join(" ");
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full max-w-xs" role="img" aria-label="Deterioration by day">
+      <line x1={pad} x2={width - pad} y1={y(1)} y2={y(1)} stroke="#94a3b8" strokeDasharray="3 2" />
+      <polyline points={line("wickets")} fill="none" stroke={OUTCOME_COLOURS.win} strokeWidth={2} />
+      <polyline points={line("runs")} fill="none" stroke="#0ea5e9" strokeWidth={2} />
+      {curve.map((_, i) => (
+        <text key={i} x={x(i)} y={height - 2} textAnchor="middle" fontSize={9} fill="#475569">Day {i + 1}</text>
+      ))}
+    </svg>
+  );
+}
+
+const NUMBER_FIELDS: { key: "wicketHelp" | "chaseEase" | "badLight" | "sessionOvers" | "bounce" | "paceAssist" | "spinAssist"; label: string; step: number }[] = [
+  { key: "wicketHelp", label: "Wicket help", step: 0.01 },
+  { key: "chaseEase", label: "Chase ease", step: 0.01 },
+  { key: "sessionOvers", label: "Typical overs / session", step: 1 },
+  { key: "bounce", label: "Altitude / bounce", step: 0.01 },
+  { key: "paceAssist", label: "Pace assistance", step: 0.01 },
+  { key: "spinAssist", label: "Spin assistance", step: 0.01 },
+  { key: "badLight", label: "Bad-light risk", step: 0.1 },
+];
+
+// Adds or edits grounds: factors, typical session overs, surface assistance and a deterioration curve by day.
+// Saving a built-in ground stores an override of it; "Save as new" adds a ground of the user's own.
+export function GroundEditor({
+  grounds,
+  saved,
+  currentKey,
+  oversPerSession,
+  onSave,
+  onDelete,
+  onUse,
+}: {
+  grounds: Record<string, GroundPreset>;
+  saved: Record<string, GroundPreset>;
+  currentKey: string;
+  oversPerSession: number;
+  onSave: (key: string, ground: GroundPreset) => void;
+  onDelete: (key: string) => void;
+  onUse: (key: string) => void;
+}) {
+  const [key, setKey] = useState(currentKey in grounds ? currentKey : "generic");
+  const [draft, setDraft] = useState<GroundPreset>(() => grounds[key] ?? grounds.generic);
+
+  const pick = (k: string) => {
+    setKey(k);
+    setDraft(grounds[k]);
+  };
+
+  const curve = editableDeterioration(draft, oversPerSession);
+  const setCurve = (next: DayWear[]) => setDraft((d) => ({ ...d, deterioration: next }));
+  const setDay = (i: number, patch: Partial<DayWear>) => setCurve(curve.map((d, j) => (j === i ? { ...d, ...patch } : d)));
+
+  const issues = validateGroundProfile(draft);
+  const issueFor = (field: string) => issues.find((i) => i.field === `groundProfile.${field}`)?.message;
+
+  const remove = () => {
+    onDelete(key);
+    if (isBuiltInGround(key)) setDraft(GROUND_PRESETS[key]);
+    else pick("generic");
+  };
+
+  const saveAsNew = () => {
+    const k = customGroundKey(draft.name, Object.keys(grounds));
+    onSave(k, draft);
+    setKey(k);
+  };
+
+  const field = "mt-1 rounded-xl border p-2";
+  const button = "px-3 py-2 rounded-xl text-sm shadow disabled:opacity-50";
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap gap-3 items-end">
+        <label className="flex flex-col">Ground
+          <select value={key} onChange={(e) => pick(e.target.value)} className={field}>
+            {Object.entries(grounds).map(([k, g]) => (
+              <option key={k} value={k}>{g.name}{k in saved ? (isBuiltInGround(k) ? " (edited)" : " (yours)") : ""}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col flex-1 min-w-48">Name
+          <input value={draft.name} onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))} className={field} />
+          {issueFor("name") && <span className="text-xs text-rose-700">Name {issueFor("name")}</span>}
+        </label>
+      </div>
+
+      <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3">
+        {NUMBER_FIELDS.map(({ key: k, label, step }) => (
+          <label key={k} className="flex flex-col">{label}
+            <input
+              type="number"
+              step={step}
+              value={draft[k] ?? ""}
+              placeholder={k === "sessionOvers" ? String(oversPerSession) : "1"}
+              onChange={(e) => setDraft((d) => ({ ...d, [k]: e.target.value === "" ? undefined : Number(e.target.value) }))}
+              className={field}
+            />
+            {issueFor(k) && <span className="text-xs text-rose-700">{issueFor(k)}</span>}
+          </label>
+        ))}
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <div className="font-medium mb-1">Deterioration by day</div>
+          <div className="text-xs text-slate-500 mb-2">Multipliers at the start of each day, relative to day one. The chase wears the pitch from today's value as the overs pass.</div>
+          <table className="text-sm">
+            <thead>
+              <tr>
+                <th className="text-left p-1">Day</th>
+                <th className="text-right p-1">Wicket chance</th>
+                <th className="text-right p-1">Scoring rate</th>
+              </tr>
+            </thead>
+            <tbody>
+              {curve.map((d, i) => (
+                <tr key={i}>
+                  <td className="p-1">{i + 1}</td>
+                  <td className="p-1 text-right">
+                    <input type="number" step={0.01} value={d.wickets} onChange={(e) => setDay(i, { wickets: Number(e.target.value) })} className="rounded-xl border p-1 w-20 text-right" />
+                  </td>
+                  <td className="p-1 text-right">
+                    <input type="number" step={0.01} value={d.runs} onChange={(e) => setDay(i, { runs: Number(e.target.value) })} className="rounded-xl border p-1 w-20 text-right" />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="mt-2 flex gap-2">
+            <button onClick={() => setCurve([...curve, curve[curve.length - 1] ?? { wickets: 1, runs: 1 }])} disabled={curve.length >= MAX_SCHEDULED_DAYS} className={`${button} bg-white`}>Add day</button>
+            <button onClick={() => setCurve(curve.slice(0, -1))} disabled={curve.length <= 1} className={`${button} bg-white`}>Remove day</button>
+            <button onClick={() => setDraft((d) => ({ ...d, deterioration: undefined }))} disabled={!draft.deterioration} className={`${button} bg-white`}>Use calibrated drift</button>
+          </div>
+          {issues.some((i) => i.field.startsWith("groundProfile.deterioration")) && (
+            <div className="mt-2 text-xs text-rose-700">{issues.filter((i) => i.field.startsWith("groundProfile.deterioration")).map((i) => `${i.field.replace("groundProfile.", "")} ${i.message}`).join("; ")}</div>
+          )}
+        </div>
+        <div>
+          <CurvePreview curve={curve} />
+          <div className="text-xs text-slate-500">
+            <span style={{ color: OUTCOME_COLOURS.win }}>■</span> wicket chance <span className="text-sky-500">■</span> scoring rate
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        <button onClick={() => onSave(key, draft)} disabled={issues.length > 0} className={`${button} bg-sky-600 text-white`}>Save</button>
+        <button onClick={saveAsNew} disabled={issues.length > 0} className={`${button} bg-white`}>Save as new ground</button>
+        <button onClick={() => onUse(key)} className={`${button} bg-white`}>Use for this match</button>
+        {key in saved && (
+          <button onClick={remove} className={`${button} bg-white text-rose-700`}>
+            {isBuiltInGround(key) ? "Reset to built-in" : "Delete"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import type { LiveUpdate } from "../engine/index.ts";
+import { useLiveFeed } from "../hooks/useLiveFeed.ts";
+import type { TimelinePoint } from "../live/timeline.ts";
+import { pct } from "./format.ts";
+
+// Over-by-over entry by hand, from a replayed feed file or from a WebSocket, plus the timeline of recommendations
+export function LiveMatchPanel({
+  revision,
+  timeline,
+  onUpdate,
+  onUndo,
+}: {
+  revision: number;
+  timeline: TimelinePoint[];
+  onUpdate: (update: LiveUpdate) => void;
+  onUndo: () => void;
+}) {
+  const [runs, setRuns] = useState(0);
+  const [wickets, setWickets] = useState(0);
+  const [overs, setOvers] = useState(1);
+  const [url, setUrl] = useState("ws://localhost:8787");
+  const feed = useLiveFeed(onUpdate);
+
+  const submit = (extra: Partial<LiveUpdate> = {}) => {
+    onUpdate({ runs, wickets, overs, ...extra });
+    setRuns(0);
+    setWickets(0);
+    setOvers(1);
+  };
+
+  const button = "px-3 py-2 rounded-xl text-sm shadow disabled:opacity-50";
+  const field = "mt-1 rounded-xl border p-2 w-20";
+
+  return (
+    <div className="text-sm">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <div className="font-medium mb-2">Enter an over</div>
+          <div className="flex flex-wrap gap-2 items-end">
+            <label className="flex flex-col">Runs
+              <input type="number" min={0} value={runs} onChange={(e) => setRuns(Number(e.target.value))} className={field} />
+            </label>
+            <label className="flex flex-col">Wickets
+              <input type="number" min={0} max={10} value={wickets} onChange={(e) => setWickets(Number(e.target.value))} className={field} />
+            </label>
+            <label className="flex flex-col">Overs
+              <input type="number" min={0} step={0.1} value={overs} onChange={(e) => setOvers(Number(e.target.value))} className={field} />
+            </label>
+          </div>
+          <div className="mt-2 flex flex-wrap gap-2">
+            <button onClick={() => submit()} className={`${button} bg-emerald-600 text-white`}>Add</button>
+            <button onClick={() => submit({ endSession: true })} className={`${button} bg-slate-600 text-white`}>Add and end session</button>
+            <button onClick={() => submit({ declared: true })} className={`${button} bg-amber-600 text-white`}>Add and declare</button>
+            <button onClick={onUndo} disabled={revision === 0} className={`${button} bg-white border`}>Undo</button>
+          </div>
+          <div className="mt-1 text-xs text-slate-500">{revision} update{revision === 1 ? "" : "s"} applied. Overs use scorebook notation: 0.4 is four balls.</div>
+        </div>
+
+        <div>
+          <div className="font-medium mb-2">Replay a feed file</div>
+          <input
+            type="file"
+            accept=".json,.jsonl,application/json"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              if (file) feed.loadFeed(await file.text());
+              e.target.value = "";
+            }}
+            className="text-xs"
+          />
+          <div className="mt-2 flex flex-wrap gap-2 items-center">
+            <button onClick={feed.step} disabled={feed.queued === 0} className={`${button} bg-white border`}>Step</button>
+            <button onClick={() => feed.setPlaying(!feed.playing)} disabled={feed.queued === 0 && !feed.playing} className={`${button} bg-sky-600 text-white`}>{feed.playing ? "Pause" : "Play"}</button>
+            <label className="text-xs">every
+              <input type="number" min={0.2} step={0.2} value={feed.intervalMs / 1000} onChange={(e) => feed.setIntervalMs(Math.max(200, Number(e.target.value) * 1000))} className="mx-1 rounded-lg border p-1 w-14" />
+              s
+            </label>
+          </div>
+          <div className="mt-1 text-xs text-slate-500">{feed.queued} update{feed.queued === 1 ? "" : "s"} queued</div>
+        </div>
+
+        <div>
+          <div className="font-medium mb-2">WebSocket feed</div>
+          <input value={url} onChange={(e) => setUrl(e.target.value)} className="rounded-xl border p-2 w-full" />
+          <div className="mt-2 flex gap-2 items-center">
+            {feed.socketStatus === "disconnected"
+              ? <button onClick={() => feed.connect(url)} className={`${button} bg-sky-600 text-white`}>Connect</button>
+              : <button onClick={feed.disconnect} className={`${button} bg-white border`}>Disconnect</button>}
+            <span className="text-xs text-slate-500">{feed.socketStatus}</span>
+          </div>
+          <div className="mt-1 text-xs text-slate-500">Try <code>npm run live-feed -- examples/live-feed.jsonl</code></div>
+        </div>
+      </div>
+
+      {feed.error && <div className="mt-3 p-2 rounded-xl border bg-rose-50 border-rose-200 text-xs text-rose-800">Feed: {feed.error}</div>}
+
+      <div className="mt-4 font-medium">Timeline</div>
+      {timeline.length === 0
+        ? <div className="text-xs text-slate-500 mt-1">Each update's finished recommendation is logged here.</div>
+        : (
+          <div className="mt-2 max-h-72 overflow-auto rounded-xl border">
+            <table className="min-w-full text-xs">
+              <thead className="sticky top-0 bg-white">
+                <tr>
+                  <th className="text-left p-2">#</th>
+                  <th className="text-left p-2">Clock</th>
+                  <th className="text-left p-2">Score</th>
+                  <th className="text-right p-2">Lead</th>
+                  <th className="text-left p-2">Recommendation</th>
+                  <th className="text-right p-2">Target</th>
+                  <th className="text-right p-2">Win</th>
+                  <th className="text-right p-2">Loss</th>
+                </tr>
+              </thead>
+              <tbody>
+                {timeline.slice().reverse().map((p, i, rows) => {
+                  const prev = rows[i + 1];
+                  const delta = prev ? p.winP - prev.winP : 0;
+                  return (
+                    <tr key={p.revision} className={i % 2 ? "bg-white" : "bg-slate-50/40"}>
+                      <td className="p-2">{p.revision}</td>
+                      <td className="p-2">{p.clock}</td>
+                      <td className="p-2">{p.score}</td>
+                      <td className="p-2 text-right">{p.lead}</td>
+                      <td className="p-2">{p.best}{prev && prev.best !== p.best && <span className="ml-1 text-amber-700">(was {prev.best})</span>}</td>
+                      <td className="p-2 text-right">{Math.round(p.target)}</td>
+                      <td className="p-2 text-right">
+                        {pct(p.winP)}
+                        {prev && Math.abs(delta) >= 0.0005 && <span className={delta > 0 ? "text-emerald-700" : "text-rose-700"}> {delta > 0 ? "▲" : "▼"}{(Math.abs(delta) * 100).toFixed(1)}</span>}
+                      </td>
+                      <td className="p-2 text-right">{pct(p.lossP)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { MAX_SCHEDULED_DAYS, inningsOrder, type InningsScore, type MatchState, type Side } from "../engine/index.ts";
+
+const ORDINALS = ["1st", "2nd", "3rd", "4th"];
+
+// Scorecard and clock editor; the advisor derives lead, wickets in hand, sessions and overs from it
+export function MatchStateEditor({ state, onChange }: { state: MatchState; onChange: (state: MatchState) => void }) {
+  const order = inningsOrder(state);
+
+  const set = <K extends keyof MatchState>(k: K, v: MatchState[K]) => onChange({ ...state, [k]: v });
+  const num = (k: "scheduledDays" | "day" | "session" | "oversBowledToday" | "minOversPerDay") => (e: React.ChangeEvent<HTMLInputElement>) =>
+    set(k, Number(e.target.value));
+
+  const setInnings = (idx: number, patch: Partial<InningsScore>) => {
+    const innings = state.innings.slice();
+    innings[idx] = { ...innings[idx], ...patch };
+    set("innings", innings);
+  };
+
+  return (
+    <div className="text-sm">
+      <div className="grid grid-cols-3 gap-3">
+        <label className="flex flex-col">Match days
+          <input type="number" min={1} max={MAX_SCHEDULED_DAYS} value={state.scheduledDays} onChange={num("scheduledDays")} className="mt-1 rounded-xl border p-2" />
+        </label>
+        <label className="flex flex-col">Day
+          <input type="number" min={1} value={state.day} onChange={num("day")} className="mt-1 rounded-xl border p-2" />
+        </label>
+        <label className="flex flex-col">Session
+          <select value={state.session} onChange={(e) => set("session", Number(e.target.value))} className="mt-1 rounded-xl border p-2">
+            <option value={1}>Morning</option>
+            <option value={2}>Afternoon</option>
+            <option value={3}>Evening</option>
+          </select>
+        </label>
+        <label className="flex flex-col">Overs bowled today
+          <input type="number" step={0.1} value={state.oversBowledToday} onChange={num("oversBowledToday")} className="mt-1 rounded-xl border p-2" />
+        </label>
+        <label className="flex flex-col">Minimum overs / day
+          <input type="number" value={state.minOversPerDay} onChange={num("minOversPerDay")} className="mt-1 rounded-xl border p-2" />
+        </label>
+        <label className="flex flex-col">Batting first
+          <select value={state.battingFirst} onChange={(e) => set("battingFirst", e.target.value as Side)} className="mt-1 rounded-xl border p-2">
+            <option value="us">Us</option>
+            <option value="them">Them</option>
+          </select>
+        </label>
+      </div>
+
+      <label className="mt-3 flex items-center gap-2">
+        <input type="checkbox" checked={state.followOnEnforced} onChange={(e) => set("followOnEnforced", e.target.checked)} />
+        Follow-on enforced
+      </label>
+
+      <table className="mt-3 min-w-full">
+        <thead>
+          <tr>
+            <th className="text-left p-1">Innings</th>
+            <th className="text-right p-1">Runs</th>
+            <th className="text-right p-1">Wkts</th>
+            <th className="text-right p-1">Overs</th>
+            <th className="text-center p-1">Dec</th>
+          </tr>
+        </thead>
+        <tbody>
+          {state.innings.map((inn, i) => (
+            <tr key={i}>
+              <td className="p-1">{ORDINALS[i]} ({order[i] === "us" ? "us" : "them"}){i === state.innings.length - 1 && <span className="text-xs text-slate-500"> in progress</span>}</td>
+              <td className="p-1 text-right"><input type="number" value={inn.runs} onChange={(e) => setInnings(i, { runs: Number(e.target.value) })} className="rounded-xl border p-1 w-20 text-right" /></td>
+              <td className="p-1 text-right"><input type="number" min={0} max={10} value={inn.wickets} onChange={(e) => setInnings(i, { wickets: Number(e.target.value) })} className="rounded-xl border p-1 w-14 text-right" /></td>
+              <td className="p-1 text-right"><input type="number" step={0.1} value={inn.overs} onChange={(e) => setInnings(i, { overs: Number(e.target.value) })} className="rounded-xl border p-1 w-20 text-right" /></td>
+              <td className="p-1 text-center"><input type="checkbox" checked={!!inn.declared} onChange={(e) => setInnings(i, { declared: e.target.checked })} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-2 flex gap-2">
+        <button disabled={state.innings.length >= 4} onClick={() => set("innings", [...state.innings, { runs: 0, wickets: 0, overs: 0 }])} className="px-3 py-1 rounded-xl bg-slate-600 text-white text-xs shadow disabled:opacity-40">Start next innings</button>
+        <button disabled={state.innings.length <= 1} onClick={() => set("innings", state.innings.slice(0, -1))} className="px-3 py-1 rounded-xl bg-slate-200 text-xs shadow disabled:opacity-40">Remove last innings</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { INPUT_SCHEMA, type NumberRule, type SchemaField } from "../engine/index.ts";
+
+export type NumberFieldName = { [K in SchemaField]: (typeof INPUT_SCHEMA)[K] extends NumberRule ? K : never }[SchemaField];
+
+// A number input labelled and bounded by the field's schema rule, with its validation problem shown beneath.
+// A blank or half-typed entry goes through as NaN so validation reports it, rather than it quietly becoming 0.
+export function NumberField({
+  field,
+  value,
+  issue,
+  onChange,
+  disabled = false,
+}: {
+  field: NumberFieldName;
+  value: number;
+  issue?: string;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}) {
+  const rule: NumberRule = INPUT_SCHEMA[field];
+  return (
+    <label className="flex flex-col text-sm">{rule.label}
+      <input
+        type="number"
+        min={rule.min}
+        max={rule.max}
+        step={rule.step}
+        value={Number.isNaN(value) ? "" : value}
+        onChange={(e) => onChange(e.target.value === "" ? Number.NaN : Number(e.target.value))}
+        disabled={disabled}
+        aria-invalid={issue !== undefined}
+        className={`mt-1 rounded-xl border p-2 disabled:bg-slate-100 ${issue ? "border-rose-400 bg-rose-50" : ""}`}
+      />
+      {issue && <span className="text-xs text-rose-700 mt-1">{issue}</span>}
+    </label>
+  );
+}
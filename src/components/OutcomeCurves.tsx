@@ -0,0 +1,91 @@
+import type { RankedOption } from "../engine/index.ts";
+import { OUTCOME_COLOURS, linearScale, ticks, type Margin } from "./charts.ts";
+import { pct } from "./format.ts";
+
+const WIDTH = 560;
+const HEIGHT = 260;
+const M: Margin = { top: 12, right: 12, bottom: 34, left: 40 };
+
+// Stacked win/draw/loss probabilities against K for the fixed-over options, with lead, session and hybrid
+// policies marked at the overs they bat on average. Hovering or clicking reports the option's key.
+export function OutcomeCurves({
+  options,
+  bestKey,
+  hoveredKey,
+  onHover,
+  onSelect,
+}: {
+  options: RankedOption[];
+  bestKey: string | undefined;
+  hoveredKey: string | null;
+  onHover: (key: string | null) => void;
+  onSelect: (key: string) => void;
+}) {
+  const curve = options.filter((o) => o.policy.kind === "overs").sort((a, b) => a.declareAfterOvers - b.declareAfterOvers);
+  const others = options.filter((o) => o.policy.kind !== "overs");
+  if (curve.length === 0) return <div className="text-xs text-slate-500">No fixed-over options to plot yet.</div>;
+
+  const maxK = Math.max(1, ...options.map((o) => o.declareAfterOvers));
+  const x = linearScale([0, maxK], [M.left, WIDTH - M.right]);
+  const y = linearScale([0, 1], [HEIGHT - M.bottom, M.top]);
+  const column = (WIDTH - M.left - M.right) / (maxK + 1);
+
+  // band between two cumulative probabilities, traced along the curve and back
+  const band = (lower: (o: RankedOption) => number, upper: (o: RankedOption) => number) =>
+    [
+      ...curve.map((o) => `${x(o.declareAfterOvers)},${y(upper(o))}`),
+      ...curve.slice().reverse().map((o) => `${x(o.declareAfterOvers)},${y(lower(o))}`),
+    ].join(" ");
+
+  const best = options.find((o) => o.key === bestKey);
+  const hovered = options.find((o) => o.key === hoveredKey);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label="Win, draw and loss probability by overs batted before declaring" onMouseLeave={() => onHover(null)}>
+      <polygon points={band(() => 0, (o) => o.winP)} fill={OUTCOME_COLOURS.win} fillOpacity={0.75} />
+      <polygon points={band((o) => o.winP, (o) => o.winP + o.drawP)} fill={OUTCOME_COLOURS.draw} fillOpacity={0.6} />
+      <polygon points={band((o) => o.winP + o.drawP, () => 1)} fill={OUTCOME_COLOURS.loss} fillOpacity={0.7} />
+
+      {ticks(0, 1).map((t) => (
+        <g key={t}>
+          <line x1={M.left} x2={WIDTH - M.right} y1={y(t)} y2={y(t)} stroke="#0f172a" strokeOpacity={0.08} />
+          <text x={M.left - 4} y={y(t) + 3} textAnchor="end" fontSize={10} fill="#475569">{Math.round(t * 100)}%</text>
+        </g>
+      ))}
+      {ticks(0, maxK).map((t) => (
+        <text key={t} x={x(t)} y={HEIGHT - M.bottom + 14} textAnchor="middle" fontSize={10} fill="#475569">{t}</text>
+      ))}
+      <text x={(M.left + WIDTH - M.right) / 2} y={HEIGHT - 4} textAnchor="middle" fontSize={11} fill="#334155">Overs batted before declaring (K)</text>
+
+      {best && (
+        <g>
+          <line x1={x(best.declareAfterOvers)} x2={x(best.declareAfterOvers)} y1={M.top} y2={HEIGHT - M.bottom} stroke="#047857" strokeWidth={2} />
+          <text x={x(best.declareAfterOvers) + 4} y={M.top + 10} fontSize={10} fontWeight="bold" fill="#047857">Best</text>
+        </g>
+      )}
+      {hovered && hovered !== best && (
+        <line x1={x(hovered.declareAfterOvers)} x2={x(hovered.declareAfterOvers)} y1={M.top} y2={HEIGHT - M.bottom} stroke="#0f172a" strokeDasharray="3 2" />
+      )}
+
+      {/* one invisible hit area per K, so hovering anywhere in a column picks that option; the markers sit on top */}
+      {curve.map((o) => (
+        <rect key={o.key} x={x(o.declareAfterOvers) - column / 2} y={M.top} width={column} height={HEIGHT - M.top - M.bottom} fill="transparent"
+          onMouseEnter={() => onHover(o.key)} onClick={() => onSelect(o.key)} className="cursor-pointer">
+          <title>{`${o.optionLabel}: ${pct(o.winP)} win, ${pct(o.drawP)} draw, ${pct(o.lossP)} loss`}</title>
+        </rect>
+      ))}
+
+      {others.map((o) => {
+        const cx = x(o.declareAfterOvers);
+        const cy = y(o.winP);
+        const r = o.key === hoveredKey ? 6 : 4;
+        return (
+          <polygon key={o.key} points={`${cx},${cy - r} ${cx + r},${cy} ${cx},${cy + r} ${cx - r},${cy}`} fill="#0f172a" stroke="white"
+            onMouseEnter={() => onHover(o.key)} onClick={() => onSelect(o.key)} className="cursor-pointer">
+            <title>{`${o.optionLabel}: ${pct(o.winP)} win, ${pct(o.drawP)} draw, ${pct(o.lossP)} loss`}</title>
+          </polygon>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,54 @@
+import type { Histogram, HistogramBin, OutcomeDistribution } from "../engine/index.ts";
+import { OUTCOME_COLOURS, linearScale, ticks, type Margin } from "./charts.ts";
+
+const WIDTH = 300;
+const HEIGHT = 170;
+const M: Margin = { top: 8, right: 8, bottom: 30, left: 8 };
+
+function HistogramChart({ hist, title, fill, binLabel }: { hist: Histogram; title: string; fill: (bin: HistogramBin) => string; binLabel: (bin: HistogramBin) => string }) {
+  if (hist.bins.length === 0) return null;
+  const lo = hist.bins[0].lo;
+  const hi = hist.bins[hist.bins.length - 1].hi;
+  const x = linearScale([lo, hi], [M.left, WIDTH - M.right]);
+  const y = linearScale([0, Math.max(...hist.bins.map((b) => b.count))], [HEIGHT - M.bottom, M.top]);
+
+  return (
+    <div>
+      <div className="text-xs font-medium mb-1">{title} <span className="text-slate-500 font-normal">mean {hist.mean.toFixed(1)}</span></div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label={title}>
+        {hist.bins.map((b) => (
+          <rect key={b.lo} x={x(b.lo) + 0.5} y={y(b.count)} width={Math.max(0, x(b.hi) - x(b.lo) - 1)} height={HEIGHT - M.bottom - y(b.count)} fill={fill(b)}>
+            <title>{`${binLabel(b)}: ${b.count} of ${hist.total} (${((b.count / hist.total) * 100).toFixed(1)}%)`}</title>
+          </rect>
+        ))}
+        <line x1={M.left} x2={WIDTH - M.right} y1={HEIGHT - M.bottom} y2={HEIGHT - M.bottom} stroke="#94a3b8" />
+        {ticks(lo, hi, 4).map((t) => (
+          <text key={t} x={x(t)} y={HEIGHT - M.bottom + 14} textAnchor="middle" fontSize={10} fill="#475569">{t}</text>
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+const range = (b: HistogramBin) => `${b.lo} to ${b.hi - 1}`;
+
+// The spread behind the selected option's averages: their final score, wickets they lost and the margin
+export function OutcomeHistograms({ distribution }: { distribution: OutcomeDistribution }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <HistogramChart hist={distribution.chaseRuns} title="Their final score" fill={() => "#38bdf8"} binLabel={(b) => `${range(b)} runs`} />
+      <HistogramChart
+        hist={distribution.chaseWickets}
+        title="Wickets they lost"
+        fill={(b) => (b.lo >= 10 ? OUTCOME_COLOURS.win : "#38bdf8")}
+        binLabel={(b) => `${b.lo} wicket${b.lo === 1 ? "" : "s"}`}
+      />
+      <HistogramChart
+        hist={distribution.margin}
+        title="Margin (target minus their score)"
+        fill={(b) => (b.hi <= 0 ? OUTCOME_COLOURS.loss : OUTCOME_COLOURS.win)}
+        binLabel={(b) => `${range(b)} runs`}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useState } from "react";
+import { suggestedLeadTargets, type AlternativePolicySettings, type Inputs } from "../engine/index.ts";
+
+// Chooses which lead-threshold, session-break and hybrid policies are swept next to the K-over options
+export function PolicyControls({
+  inputs,
+  value,
+  onChange,
+}: {
+  inputs: Inputs;
+  value: AlternativePolicySettings;
+  onChange: (value: AlternativePolicySettings) => void;
+}) {
+  const [leadText, setLeadText] = useState(value.leadTargets.join(", "));
+
+  const commitLeads = (text: string) => {
+    setLeadText(text);
+    const leadTargets = text
+      .split(/[\s,]+/)
+      .map(Number)
+      .filter((n) => Number.isFinite(n) && n > 0);
+    onChange({ ...value, leadTargets: [...new Set(leadTargets)].sort((a, b) => a - b) });
+  };
+
+  return (
+    <div className="mb-3 grid grid-cols-2 gap-3 text-sm">
+      <label className="flex flex-col col-span-2">Declare at lead (comma-separated)
+        <div className="mt-1 flex gap-2">
+          <input value={leadText} onChange={(e) => commitLeads(e.target.value)} placeholder="e.g. 300, 350" className="flex-1 rounded-xl border p-2" />
+          <button onClick={() => commitLeads(suggestedLeadTargets(inputs).join(", "))} className="px-3 py-2 rounded-xl bg-slate-600 text-white text-xs shadow">Suggest</button>
+        </div>
+      </label>
+      <label className="flex flex-col">Session breaks
+        <input type="number" min={0} max={3} value={value.sessionBreaks} onChange={(e) => onChange({ ...value, sessionBreaks: Math.max(0, Math.floor(Number(e.target.value) || 0)) })} className="mt-1 rounded-xl border p-2" />
+      </label>
+      <label className="flex flex-col">Hybrid: lead or overs
+        <div className="mt-1 flex items-center gap-2">
+          <input type="checkbox" checked={value.hybridOvers !== null} onChange={(e) => onChange({ ...value, hybridOvers: e.target.checked ? 20 : null })} />
+          <input type="number" min={1} disabled={value.hybridOvers === null} value={value.hybridOvers ?? 20} onChange={(e) => onChange({ ...value, hybridOvers: Math.max(1, Math.floor(Number(e.target.value) || 1)) })} className="w-20 rounded-xl border p-2 disabled:opacity-50" />
+          <span className="text-xs text-slate-500">overs</span>
+        </div>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useMemo, useState } from "react";
+import type { ChaseOutcome } from "../engine/index.ts";
+import type { DeclarationReviewer } from "../hooks/useDeclarationReview.ts";
+import { usePersistedState } from "../hooks/usePersistedState.ts";
+import { readReviews, removeReview, reviewRecord, reviewSeasons, seasonStats, writeReviews, type ReviewRecord } from "../reviews/history.ts";
+import { reviewReportHtml, seasonReportHtml } from "../reviews/report.ts";
+import type { ScenarioSnapshot } from "../scenarios/snapshot.ts";
+import { download, printHtml, slugFileName } from "./download.ts";
+import { pct } from "./format.ts";
+
+const RESULT_OPTIONS: { value: ChaseOutcome; label: string }[] = [
+  { value: "win", label: "We won" },
+  { value: "draw", label: "Drawn" },
+  { value: "loss", label: "We lost" },
+];
+
+const points = (n: number) => `${n >= 0 ? "" : "−"}${(Math.abs(n) * 100).toFixed(1)} pts`;
+
+// Post-match review of the captain's call: the inputs on screen are the moment of decision, and the form
+// takes what was actually done. Reviews can be printed and kept in a season history.
+export function ReviewPanel({ reviewer, snapshot, onLoad }: { reviewer: DeclarationReviewer; snapshot: ScenarioSnapshot; onLoad: (snapshot: ScenarioSnapshot) => void }) {
+  const [history, setHistory] = usePersistedState(readReviews, writeReviews);
+  const [match, setMatch] = useState("");
+  const [season, setSeason] = useState(String(new Date().getFullYear()));
+  const [overs, setOvers] = useState(0);
+  const [lead, setLead] = useState(snapshot.inputs.currentLead);
+  const [result, setResult] = useState<ChaseOutcome>("draw");
+  const [reviewedMeta, setReviewedMeta] = useState<{ match: string; season: string; snapshot: ScenarioSnapshot } | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [seasonFilter, setSeasonFilter] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const { review, running, stale, issues, error } = reviewer;
+  const seasons = reviewSeasons(history);
+  const shownSeason = seasonFilter ?? seasons[0] ?? null;
+  const seasonReviews = history.filter((r) => r.season === shownSeason);
+  const stats = seasonStats(seasonReviews);
+
+  const run = () => {
+    reviewer.run({ overs, lead }, result);
+    setReviewedMeta({ match: match.trim() || "Unnamed match", season: season.trim() || "Unfiled", snapshot });
+    setSaved(false);
+  };
+
+  // built once per finished review, so saving and printing share one id and timestamp
+  const record = useMemo(
+    () => (review && reviewedMeta ? reviewRecord(review, { match: reviewedMeta.match, season: reviewedMeta.season }, reviewedMeta.snapshot) : null),
+    [review, reviewedMeta]
+  );
+
+  const print = (html: string) => {
+    if (!printHtml(html)) setMessage("The report window was blocked; allow pop-ups for this page or download the report instead.");
+  };
+  const downloadReport = (r: ReviewRecord) => download(slugFileName(`${r.season} ${r.match}`, "declaration-review", "html"), reviewReportHtml(r), "text/html");
+
+  const field = "mt-1 rounded-xl border p-2";
+  const button = "px-3 py-2 rounded-xl text-sm shadow disabled:opacity-50";
+  const rowButton = "px-2 py-1 rounded-lg border text-xs bg-white";
+
+  return (
+    <div className="text-sm">
+      <p className="text-xs text-slate-500 mb-3">Set the inputs above to the moment the captain had to decide, then enter what was actually done and how the match ended.</p>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+        <label className="flex flex-col col-span-2 md:col-span-1">Match
+          <input value={match} onChange={(e) => setMatch(e.target.value)} placeholder="e.g. 2nd Test, Lord's" className={field} />
+        </label>
+        <label className="flex flex-col">Season
+          <input value={season} onChange={(e) => setSeason(e.target.value)} className={field} />
+        </label>
+        <label className="flex flex-col">Overs batted on
+          <input type="number" min={0} value={overs} onChange={(e) => setOvers(Number(e.target.value))} className={field} />
+        </label>
+        <label className="flex flex-col">Lead at declaration
+          <input type="number" value={lead} onChange={(e) => setLead(Number(e.target.value))} className={field} />
+        </label>
+        <label className="flex flex-col">Result
+          <select value={result} onChange={(e) => setResult(e.target.value as ChaseOutcome)} className={field}>
+            {RESULT_OPTIONS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="mt-3 flex gap-2 items-center">
+        <button onClick={run} disabled={running} className={`${button} bg-sky-600 text-white`}>{running ? "Reviewing…" : "Review declaration"}</button>
+        {stale && review && <span className="text-xs text-amber-700">The inputs have changed since this review.</span>}
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="mt-3 p-2 rounded-xl border bg-rose-50 border-rose-200 text-xs text-rose-800">
+          {issues.map((i) => <li key={`${i.field}:${i.message}`}>{i.field} {i.message}</li>)}
+        </ul>
+      )}
+      {error && <div className="mt-3 p-2 rounded-xl border bg-rose-50 border-rose-200 text-xs text-rose-800">Review failed: {error}</div>}
+      {message && <div className="mt-3 p-2 rounded-xl border bg-amber-50 border-amber-200 text-xs text-amber-900">{message}</div>}
+
+      {review && record && (
+        <div className="mt-4">
+          <div className={`p-3 rounded-xl border ${review.defensible ? "bg-emerald-50 border-emerald-200" : "bg-amber-50 border-amber-200"}`}>
+            <div className="font-medium">
+              {review.rank === 1
+                ? "The declaration was the model's best option."
+                : `Ranked ${review.rank} of ${review.evaluation.options.length}${review.defensible ? ", within noise of the best." : "."}`}
+            </div>
+            <div className="text-xs mt-1">
+              Win chance given up: <span className="font-semibold">{points(review.winCost)}</span> ({pct(review.actual.winP)} against {pct(review.evaluation.best.winP)} for {review.evaluation.best.optionLabel}); utility given up {review.utilityCost.toFixed(3)}.
+            </div>
+            <div className="text-xs mt-1">
+              As it turned out, the target and time the declaration left gave win {pct(review.hindsight.winP)}, draw {pct(review.hindsight.drawP)}, loss {pct(review.hindsight.lossP)}; the actual result had a <span className="font-semibold">{pct(review.resultChance)}</span> chance.
+            </div>
+          </div>
+
+          <div className="mt-3 overflow-auto rounded-xl border">
+            <table className="min-w-full text-sm">
+              <thead className="bg-white">
+                <tr>
+                  <th className="text-left p-2">#</th>
+                  <th className="text-left p-2">Option</th>
+                  <th className="text-right p-2">Win</th>
+                  <th className="text-right p-2">Draw</th>
+                  <th className="text-right p-2">Loss</th>
+                  <th className="text-right p-2">Utility</th>
+                </tr>
+              </thead>
+              <tbody>
+                {review.evaluation.options.map((o, i) => (i < 8 || o.key === review.actual.key) && (
+                  <tr key={o.key} className={o.key === review.actual.key ? "bg-amber-100 font-medium" : i % 2 ? "bg-white" : "bg-slate-50/40"}>
+                    <td className="p-2">{i + 1}</td>
+                    <td className="p-2">{o.optionLabel}{o.key === review.actual.key ? " (our call)" : ""}</td>
+                    <td className="p-2 text-right">{pct(o.winP)}</td>
+                    <td className="p-2 text-right">{pct(o.drawP)}</td>
+                    <td className="p-2 text-right">{pct(o.lossP)}</td>
+                    <td className="p-2 text-right">{o.utility.toFixed(3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-3 flex flex-wrap gap-2">
+            <button onClick={() => { setHistory((prev) => [...prev, record]); setSaved(true); setSeasonFilter(record.season); }} disabled={saved} className={`${button} bg-emerald-600 text-white`}>{saved ? "Saved to history" : "Save to history"}</button>
+            <button onClick={() => print(reviewReportHtml(record))} className={`${button} bg-white`}>Print report</button>
+            <button onClick={() => downloadReport(record)} className={`${button} bg-white`}>Download report</button>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-6">
+        <div className="flex flex-wrap gap-2 items-center">
+          <h3 className="font-semibold">Season history</h3>
+          {seasons.length > 0 && (
+            <>
+              <select value={shownSeason ?? ""} onChange={(e) => setSeasonFilter(e.target.value)} className="rounded-xl border p-1 text-sm">
+                {seasons.map((s) => <option key={s} value={s}>{s}</option>)}
+              </select>
+              <button onClick={() => shownSeason && print(seasonReportHtml(shownSeason, seasonReviews))} className={rowButton}>Print season report</button>
+            </>
+          )}
+        </div>
+        {seasonReviews.length === 0 ? (
+          <div className="mt-2 text-xs text-slate-500">No reviews saved yet.</div>
+        ) : (
+          <>
+            <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+              <div className="p-2 rounded-xl bg-slate-50">Model's best: <span className="font-semibold">{stats.optimal} of {stats.reviews}</span> ({stats.defensible} within noise)</div>
+              <div className="p-2 rounded-xl bg-slate-50">Average rank: <span className="font-semibold">{stats.meanRank.toFixed(1)}</span></div>
+              <div className="p-2 rounded-xl bg-slate-50">Win chance given up: <span className="font-semibold">{points(stats.meanWinCost)}</span> a call, {stats.winsGivenUp.toFixed(2)} wins in all</div>
+              <div className="p-2 rounded-xl bg-slate-50">Results: <span className="font-semibold">{stats.wins}–{stats.draws}–{stats.losses}</span> against {stats.expectedWins.toFixed(1)} wins expected</div>
+            </div>
+            <ul className="mt-2 divide-y rounded-xl border bg-white/60">
+              {seasonReviews.map((r) => (
+                <li key={r.id} className="p-2 flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{r.match}</span>
+                  <span className="text-xs text-slate-500">{r.actual.overs} overs, lead {r.actual.lead} · rank {r.rank}/{r.optionCount} · {points(r.winCost)} · {RESULT_OPTIONS.find((o) => o.value === r.result)?.label}</span>
+                  <span className="ml-auto flex gap-1">
+                    <button onClick={() => onLoad(r.snapshot)} className={rowButton}>Load moment</button>
+                    <button onClick={() => print(reviewReportHtml(r))} className={rowButton}>Print</button>
+                    <button onClick={() => downloadReport(r)} className={rowButton}>Download</button>
+                    <button onClick={() => setHistory((prev) => removeReview(prev, r.id))} className={`${rowButton} text-rose-700`}>Delete</button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { usePersistedState } from "../hooks/usePersistedState.ts";
+import {
+  addScenario,
+  duplicateScenario,
+  exportScenarios,
+  filterByTags,
+  importScenarios,
+  parseTags,
+  readLibrary,
+  removeScenario,
+  updateScenario,
+  writeLibrary,
+  type NamedSnapshot,
+} from "../scenarios/library.ts";
+import { EXAMPLE_SCENARIOS, ScenarioImportError, type ScenarioSnapshot } from "../scenarios/snapshot.ts";
+import { download, slugFileName } from "./download.ts";
+
+const fileName = (name: string) => slugFileName(name, "scenario", "json");
+
+// Saved scenarios with names and tags, the built-in examples, JSON import/export and the shareable link
+export function ScenarioLibrary({ current, onLoad }: { current: ScenarioSnapshot; onLoad: (snapshot: ScenarioSnapshot) => void }) {
+  const [library, setLibrary] = usePersistedState(readLibrary, writeLibrary);
+  const [name, setName] = useState("");
+  const [tagText, setTagText] = useState("");
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [message, setMessage] = useState<{ tone: "ok" | "error"; text: string } | null>(null);
+
+  const allTags = [...new Set([...EXAMPLE_SCENARIOS, ...library].flatMap((s) => s.tags))].sort();
+  const examples = EXAMPLE_SCENARIOS.filter((s) => tagFilter.every((t) => s.tags.includes(t)));
+  const saved = filterByTags(library, tagFilter);
+
+  const save = () => {
+    setLibrary((prev) => addScenario(prev, { name: name.trim() || `Scenario ${prev.length + 1}`, tags: parseTags(tagText), snapshot: current }));
+    setName("");
+    setMessage({ tone: "ok", text: "Saved to this browser's library." });
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setMessage({ tone: "ok", text: "Link copied. It reproduces these inputs, sims and seed exactly." });
+    } catch {
+      setMessage({ tone: "error", text: "Couldn't reach the clipboard; copy the address bar instead." });
+    }
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const entries = importScenarios(await file.text());
+      setLibrary((prev) => entries.reduce((lib, entry) => addScenario(lib, entry), prev));
+      setMessage({ tone: "ok", text: `Imported ${entries.length} scenario${entries.length === 1 ? "" : "s"} from ${file.name}.` });
+    } catch (e) {
+      if (!(e instanceof ScenarioImportError)) throw e;
+      setMessage({ tone: "error", text: `Couldn't import ${file.name}: ${e.message}` });
+    }
+  };
+
+  const exportAll = (entries: NamedSnapshot[], filename: string) => download(filename, exportScenarios(entries));
+
+  const toggleTag = (tag: string) => setTagFilter((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]));
+
+  const button = "px-3 py-2 rounded-xl text-sm shadow";
+  const rowButton = "px-2 py-1 rounded-lg border text-xs bg-white";
+
+  return (
+    <div className="text-sm">
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-2 items-end">
+        <label className="flex flex-col">Name
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Day 5 at the SCG" className="mt-1 rounded-xl border p-2" />
+        </label>
+        <label className="flex flex-col">Tags (comma-separated)
+          <input value={tagText} onChange={(e) => setTagText(e.target.value)} placeholder="e.g. day 5, spin" className="mt-1 rounded-xl border p-2" />
+        </label>
+        <button onClick={save} className={`${button} bg-emerald-600 text-white`}>Save current</button>
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button onClick={copyLink} className={`${button} bg-sky-600 text-white`}>Copy link</button>
+        <button onClick={() => exportAll([{ name: name.trim() || "Current scenario", tags: parseTags(tagText), snapshot: current }], "scenario.json")} className={`${button} bg-slate-600 text-white`}>Export current</button>
+        <button onClick={() => exportAll(library, "scenario-library.json")} disabled={library.length === 0} className={`${button} bg-slate-600 text-white disabled:opacity-50`}>Export library</button>
+        <label className={`${button} bg-white border cursor-pointer`}>Import JSON…
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void importFile(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      {message && (
+        <div className={`mt-3 p-2 rounded-xl border text-xs ${message.tone === "ok" ? "bg-emerald-50 border-emerald-200 text-emerald-900" : "bg-rose-50 border-rose-200 text-rose-800"}`}>{message.text}</div>
+      )}
+
+      {allTags.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-1 items-center">
+          <span className="text-xs text-slate-500 mr-1">Filter:</span>
+          {allTags.map((t) => (
+            <button key={t} onClick={() => toggleTag(t)} className={`px-2 py-0.5 rounded-full border text-xs ${tagFilter.includes(t) ? "bg-slate-700 text-white" : "bg-white"}`}>{t}</button>
+          ))}
+        </div>
+      )}
+
+      <ul className="mt-3 divide-y rounded-xl border bg-white/60">
+        {examples.map((s) => (
+          <li key={s.name} className="p-2 flex flex-wrap items-center gap-2">
+            <span className="font-medium">{s.name}</span>
+            {s.tags.map((t) => <span key={t} className="px-2 py-0.5 rounded-full bg-slate-100 text-xs">{t}</span>)}
+            <span className="ml-auto flex gap-1">
+              <button onClick={() => onLoad(s.snapshot)} className={rowButton}>Load</button>
+              <button onClick={() => setLibrary((prev) => addScenario(prev, { ...s, name: `${s.name} (copy)`, tags: s.tags.filter((t) => t !== "example") }))} className={rowButton}>Duplicate</button>
+            </span>
+          </li>
+        ))}
+        {saved.map((s) => (
+          <li key={s.id} className="p-2 flex flex-wrap items-center gap-2">
+            <span className="font-medium">{s.name}</span>
+            {s.tags.map((t) => <span key={t} className="px-2 py-0.5 rounded-full bg-slate-100 text-xs">{t}</span>)}
+            <span className="text-xs text-slate-400">{new Date(s.savedAt).toLocaleString()}</span>
+            <span className="ml-auto flex gap-1">
+              <button onClick={() => onLoad(s.snapshot)} className={rowButton}>Load</button>
+              <button onClick={() => setLibrary((prev) => updateScenario(prev, s.id, { snapshot: current }))} className={rowButton} title="Overwrite with the current inputs">Update</button>
+              <button onClick={() => setLibrary((prev) => duplicateScenario(prev, s.id))} className={rowButton}>Duplicate</button>
+              <button onClick={() => exportAll([s], fileName(s.name))} className={rowButton}>Export</button>
+              <button onClick={() => setLibrary((prev) => removeScenario(prev, s.id))} className={`${rowButton} text-rose-700`}>Delete</button>
+            </span>
+          </li>
+        ))}
+        {examples.length === 0 && saved.length === 0 && <li className="p-2 text-xs text-slate-500">No scenarios carry all the selected tags.</li>}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import type { SensitivityPoint, SensitivityRow } from "../engine/index.ts";
+import type { SensitivityAnalysis } from "../hooks/useSensitivity.ts";
+import { pct } from "./format.ts";
+
+// Rain chances read as percentages; everything else as the number typed into the form
+function formatValue(field: string, v: number) {
+  return field.startsWith("weatherBySession.") ? `${Math.round(v * 100)}%` : String(Math.round(v * 100) / 100);
+}
+
+const LABEL_WIDTH = 190;
+const CHART_WIDTH = 560;
+const ROW_HEIGHT = 26;
+const BAR_HEIGHT = 14;
+
+// Win probability of the recommended option at each end of every input's range, widest swing on top.
+// Bar ends carry the best declaration over there, in bold when it differs from today's recommendation.
+function Tornado({ rows, baseWinP, baseKey }: { rows: SensitivityRow[]; baseWinP: number; baseKey: string }) {
+  const values = rows.flatMap((r) => [r.low.winP, r.high.winP]).concat(baseWinP);
+  const pad = 0.02;
+  const lo = Math.max(0, Math.min(...values) - pad);
+  const hi = Math.min(1, Math.max(...values) + pad);
+  const plot = CHART_WIDTH - LABEL_WIDTH - 60; // room for the end labels
+  const x = (p: number) => LABEL_WIDTH + 30 + ((p - lo) / (hi - lo || 1)) * plot;
+  const height = rows.length * ROW_HEIGHT + 20;
+
+  const end = (r: SensitivityRow, pt: SensitivityPoint, y: number, side: "low" | "high") => {
+    const left = pt.winP < baseWinP || (pt.winP === baseWinP && side === "low");
+    return (
+      <text x={x(pt.winP) + (left ? -4 : 4)} y={y + BAR_HEIGHT / 2 + 4} textAnchor={left ? "end" : "start"} fontSize={10}
+        fontWeight={pt.bestKey === baseKey ? "normal" : "bold"} fill="#334155">
+        <title>{`${r.label} ${formatValue(r.field, pt.value)}: ${pt.best}`}</title>
+        K{pt.declareAfterOvers}
+      </text>
+    );
+  };
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} className="w-full" role="img" aria-label="Tornado chart of win probability by input">
+      {rows.map((r, i) => {
+        const y = i * ROW_HEIGHT + 4;
+        return (
+          <g key={r.field}>
+            <text x={LABEL_WIDTH} y={y + BAR_HEIGHT / 2 + 4} textAnchor="end" fontSize={11} fill="#0f172a">{r.label}</text>
+            {[{ pt: r.low, fill: "#38bdf8" }, { pt: r.high, fill: "#f59e0b" }].map(({ pt, fill }) => (
+              <rect key={fill} x={Math.min(x(pt.winP), x(baseWinP))} y={y} width={Math.abs(x(pt.winP) - x(baseWinP))} height={BAR_HEIGHT} fill={fill} rx={2}>
+                <title>{`${r.label} ${formatValue(r.field, pt.value)}: ${pt.best}, ${pct(pt.winP)} win`}</title>
+              </rect>
+            ))}
+            {end(r, r.low, y, "low")}
+            {end(r, r.high, y, "high")}
+          </g>
+        );
+      })}
+      <line x1={x(baseWinP)} x2={x(baseWinP)} y1={0} y2={height - 16} stroke="#0f172a" strokeDasharray="3 2" />
+      <text x={x(baseWinP)} y={height - 4} textAnchor="middle" fontSize={10} fill="#475569">{pct(baseWinP)} today</text>
+    </svg>
+  );
+}
+
+// Runs the one-at-a-time sensitivity analysis on request and shows the tornado chart plus break-even values
+export function SensitivityPanel({ analysis, sims, onSims }: { analysis: SensitivityAnalysis; sims: number; onSims: (sims: number) => void }) {
+  const { base, rows, progress, running, stale, issues, error, run, cancel } = analysis;
+  const button = "px-3 py-2 rounded-xl text-sm shadow disabled:opacity-50";
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap gap-3 items-end">
+        <button onClick={running ? cancel : run} className={`${button} ${running ? "bg-white" : "bg-sky-600 text-white"}`}>
+          {running ? "Cancel" : rows.length ? "Re-run analysis" : "Run analysis"}
+        </button>
+        <label className="flex flex-col">Sims per option
+          <input type="number" value={sims} onChange={(e) => onSims(Number(e.target.value))} className="mt-1 rounded-xl border p-2 w-28" />
+        </label>
+        <div className="text-xs text-slate-500 max-w-md">
+          Moves one input at a time and re-runs the sweep with the same seed. Each input costs a few sweeps, so this only runs when asked.
+        </div>
+      </div>
+
+      {running && (
+        <div className="mt-3 text-xs text-slate-600">Perturbing inputs… {progress.completed}/{progress.total}</div>
+      )}
+      {stale && !running && rows.length > 0 && (
+        <div className="mt-3 p-3 rounded-2xl bg-amber-50 border border-amber-200 text-xs text-amber-900">The inputs have changed since this analysis ran; re-run it to bring it up to date.</div>
+      )}
+      {issues.length > 0 && (
+        <ul className="mt-3 p-3 rounded-2xl bg-rose-50 border border-rose-200 text-rose-800 list-disc pl-8">
+          {issues.map((i) => <li key={`${i.field}:${i.message}`}>{i.field} {i.message}</li>)}
+        </ul>
+      )}
+      {error && <div className="mt-3 p-3 rounded-2xl bg-rose-50 border border-rose-200 text-rose-800">Sensitivity analysis failed: {error}</div>}
+
+      {base && rows.length > 0 && (
+        <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div>
+            <div className="font-medium mb-1">Win probability of the best option</div>
+            <div className="text-xs text-slate-500 mb-2">
+              <span className="inline-block w-3 h-3 align-middle rounded-sm bg-sky-400" /> input lowered, <span className="inline-block w-3 h-3 align-middle rounded-sm bg-amber-500" /> raised. K is the best declaration over at that end.
+            </div>
+            <Tornado rows={rows} baseWinP={base.best.winP} baseKey={base.best.key} />
+          </div>
+          <div>
+            <div className="font-medium mb-1">Break-even values</div>
+            <div className="text-xs text-slate-500 mb-2">
+              Where {base.runnerUp ? <span className="font-medium">{base.runnerUp.optionLabel}</span> : "the runner-up"} overtakes <span className="font-medium">{base.best.optionLabel}</span>; a dash means it never does within the input's range.
+            </div>
+            <div className="overflow-auto rounded-xl border">
+              <table className="min-w-full text-sm">
+                <thead className="bg-white">
+                  <tr>
+                    <th className="text-left p-2">Input</th>
+                    <th className="text-right p-2">Now</th>
+                    <th className="text-right p-2">Flips below</th>
+                    <th className="text-right p-2">Flips above</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((r, idx) => (
+                    <tr key={r.field} className={idx % 2 ? "bg-white" : "bg-slate-50/40"}>
+                      <td className="p-2">{r.label}</td>
+                      <td className="p-2 text-right">{formatValue(r.field, r.base)}</td>
+                      <td className="p-2 text-right">{r.breakEvenBelow === null ? "–" : formatValue(r.field, r.breakEvenBelow)}</td>
+                      <td className="p-2 text-right">{r.breakEvenAbove === null ? "–" : formatValue(r.field, r.breakEvenAbove)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { FOLLOW_ON_LEAD, type Inputs, type MatchStage } from "../engine/index.ts";
+import type { StageAnalysis } from "../hooks/useStageEvaluation.ts";
+import { OUTCOME_COLOURS } from "./charts.ts";
+import { pct } from "./format.ts";
+import { Bar } from "./ui.tsx";
+
+const INTRO: Record<MatchStage, (lead: number) => string> = {
+  "first-innings": (lead) =>
+    `We are batting first on ${lead}. Each option declares our innings at a different point, then plays out the rest of the match: their reply, the follow-on if it comes, and the last two innings.`,
+  "follow-on": (lead) =>
+    `We lead by ${lead} on first innings${lead >= FOLLOW_ON_LEAD ? "" : `, short of the ${FOLLOW_ON_LEAD} the follow-on needs`}. Enforcing sends the same bowlers straight back out; batting again rests them and sets a fourth-innings target.`,
+};
+
+// A recommendation for a decision earlier in the match than the third-innings declaration. The current inputs
+// supply the clock, weather and both sides; the lead reads as our first-innings score or lead.
+export function StagePanel({ stage, inputs, analysis, derivedBowledOvers }: { stage: MatchStage; inputs: Inputs; analysis: StageAnalysis; derivedBowledOvers?: number }) {
+  const [bowledOvers, setBowledOvers] = useState(90);
+  const overs = derivedBowledOvers ?? bowledOvers;
+  const { evaluation, running, stale, issues, error } = analysis;
+  const best = evaluation?.best;
+
+  return (
+    <div className="text-sm">
+      <p className="text-xs text-slate-500 mb-3">
+        {INTRO[stage](inputs.currentLead)} We bat at the batting-on rate and wicket chance throughout; the opposition never declares.
+      </p>
+      <div className="flex flex-wrap gap-3 items-end">
+        {stage === "follow-on" && (
+          <label className="flex flex-col">Overs we just bowled
+            <input type="number" min={0} value={overs} disabled={derivedBowledOvers !== undefined} onChange={(e) => setBowledOvers(Number(e.target.value))} className="mt-1 rounded-xl border p-2 w-28 disabled:bg-slate-100" />
+          </label>
+        )}
+        <button onClick={() => analysis.run({ stage, bowledOvers: overs })} disabled={running} className="px-3 py-2 rounded-xl text-sm shadow bg-sky-600 text-white disabled:opacity-50">
+          {running ? "Simulating…" : "Play out the match"}
+        </button>
+        {stale && evaluation && <span className="text-xs text-amber-700">The inputs have changed since this ran.</span>}
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="mt-3 p-2 rounded-xl border bg-rose-50 border-rose-200 text-xs text-rose-800">
+          {issues.map((i) => <li key={`${i.field}:${i.message}`}>{i.field} {i.message}</li>)}
+        </ul>
+      )}
+      {error && <div className="mt-3 p-2 rounded-xl border bg-rose-50 border-rose-200 text-xs text-rose-800">Simulation failed: {error}</div>}
+
+      {evaluation && best && (
+        <div className="mt-4">
+          <div className="p-3 rounded-2xl bg-emerald-50 border border-emerald-200">
+            <div className="text-xs">Suggested action</div>
+            <div className="text-lg font-bold mt-1">{best.label}</div>
+            {evaluation.runnerUp && !evaluation.separation.separable && (
+              <div className="text-xs mt-1 text-amber-800">Within Monte Carlo noise of {evaluation.runnerUp.label}.</div>
+            )}
+          </div>
+          <div className="mt-3">
+            <Bar value={best.winP} stdErr={best.stdErr.winP} label="Win probability" color={OUTCOME_COLOURS.win} />
+            <Bar value={best.drawP} stdErr={best.stdErr.drawP} label="Draw probability" color={OUTCOME_COLOURS.draw} />
+            <Bar value={best.lossP} stdErr={best.stdErr.lossP} label="Loss probability" color={OUTCOME_COLOURS.loss} />
+          </div>
+          <div className="mt-3 overflow-auto rounded-xl border">
+            <table className="min-w-full text-sm">
+              <thead className="bg-white">
+                <tr>
+                  <th className="text-left p-2">Option</th>
+                  <th className="text-right p-2">Win</th>
+                  <th className="text-right p-2">Draw</th>
+                  <th className="text-right p-2">Loss</th>
+                  <th className="text-right p-2" title="Share of matches in which they followed on">Follow-on</th>
+                  <th className="text-right p-2" title="Share of matches that reached a fourth innings">4th innings</th>
+                  <th className="text-right p-2">Utility</th>
+                </tr>
+              </thead>
+              <tbody>
+                {evaluation.options.map((o, i) => (
+                  <tr key={o.key} className={o === best ? "bg-emerald-50 font-medium" : i % 2 ? "bg-white" : "bg-slate-50/40"}>
+                    <td className="p-2">{o.label}</td>
+                    <td className="p-2 text-right">{pct(o.winP)}</td>
+                    <td className="p-2 text-right">{pct(o.drawP)}</td>
+                    <td className="p-2 text-right">{pct(o.lossP)}</td>
+                    <td className="p-2 text-right">{pct(o.followOnP)}</td>
+                    <td className="p-2 text-right">{pct(o.fourthInningsP)}</td>
+                    <td className="p-2 text-right">{o.utility.toFixed(3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import type { RankedOption } from "../engine/index.ts";
+import { linearScale, niceDomain, ticks, type Margin } from "./charts.ts";
+import { pct } from "./format.ts";
+
+const WIDTH = 560;
+const HEIGHT = 260;
+const M: Margin = { top: 12, right: 12, bottom: 34, left: 48 };
+
+// Deeper green for a higher win probability
+const winFill = (winP: number) => `hsl(152, 60%, ${Math.round(88 - winP * 60)}%)`;
+
+// Median target against overs left to bowl, one point per option with its 80% target range as a whisker.
+// Batting on buys runs with time, so the points trace the trade-off the captain is making.
+export function TradeOffChart({
+  options,
+  bestKey,
+  hoveredKey,
+  onHover,
+  onSelect,
+}: {
+  options: RankedOption[];
+  bestKey: string | undefined;
+  hoveredKey: string | null;
+  onHover: (key: string | null) => void;
+  onSelect: (key: string) => void;
+}) {
+  if (options.length === 0) return null;
+
+  const xDomain = niceDomain(Math.min(...options.map((o) => o.bowlOversAvail)), Math.max(...options.map((o) => o.bowlOversAvail)));
+  const yDomain = niceDomain(Math.min(...options.map((o) => o.targetQuantiles.p10)), Math.max(...options.map((o) => o.targetQuantiles.p90)));
+  const x = linearScale(xDomain, [M.left, WIDTH - M.right]);
+  const y = linearScale(yDomain, [HEIGHT - M.bottom, M.top]);
+
+  // draw the hovered and best points last so nothing covers them
+  const rank = (o: RankedOption) => (o.key === hoveredKey ? 2 : o.key === bestKey ? 1 : 0);
+  const ordered = options.slice().sort((a, b) => rank(a) - rank(b));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label="Target against overs left to bowl" onMouseLeave={() => onHover(null)}>
+      {ticks(...yDomain).map((t) => (
+        <g key={t}>
+          <line x1={M.left} x2={WIDTH - M.right} y1={y(t)} y2={y(t)} stroke="#0f172a" strokeOpacity={0.08} />
+          <text x={M.left - 4} y={y(t) + 3} textAnchor="end" fontSize={10} fill="#475569">{t}</text>
+        </g>
+      ))}
+      {ticks(...xDomain).map((t) => (
+        <text key={t} x={x(t)} y={HEIGHT - M.bottom + 14} textAnchor="middle" fontSize={10} fill="#475569">{t}</text>
+      ))}
+      <text x={(M.left + WIDTH - M.right) / 2} y={HEIGHT - 4} textAnchor="middle" fontSize={11} fill="#334155">Overs left to bowl</text>
+      <text x={12} y={(M.top + HEIGHT - M.bottom) / 2} textAnchor="middle" fontSize={11} fill="#334155" transform={`rotate(-90 12 ${(M.top + HEIGHT - M.bottom) / 2})`}>Target</text>
+
+      {ordered.map((o) => {
+        const cx = x(o.bowlOversAvail);
+        const highlighted = o.key === hoveredKey;
+        const best = o.key === bestKey;
+        return (
+          <g key={o.key} onMouseEnter={() => onHover(o.key)} onClick={() => onSelect(o.key)} className="cursor-pointer">
+            <line x1={cx} x2={cx} y1={y(o.targetQuantiles.p10)} y2={y(o.targetQuantiles.p90)} stroke="#64748b" strokeOpacity={highlighted ? 0.9 : 0.35} />
+            <circle cx={cx} cy={y(o.targetQuantiles.p50)} r={highlighted ? 7 : 5} fill={winFill(o.winP)}
+              stroke={best ? "#047857" : highlighted ? "#0f172a" : "white"} strokeWidth={best || highlighted ? 2 : 1} />
+            <title>{`${o.optionLabel}: target ${Math.round(o.targetQuantiles.p50)} (${Math.round(o.targetQuantiles.p10)}–${Math.round(o.targetQuantiles.p90)}), ${Math.round(o.bowlOversAvail)} overs to bowl, ${pct(o.winP)} win`}</title>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,80 @@
+import {
+  DEFAULT_UTILITY_MODELS,
+  UTILITY_MODEL_LABELS,
+  outcomeValues,
+  type Inputs,
+  type UtilityKind,
+  type UtilityModel,
+} from "../engine/index.ts";
+
+// Picks how declaration options are scored and edits the chosen model's settings
+export function UtilityModelEditor({ inputs, onChange }: { inputs: Inputs; onChange: (model: UtilityModel) => void }) {
+  const model = inputs.utilityModel ?? DEFAULT_UTILITY_MODELS.steps;
+  const values = outcomeValues(inputs);
+  const field = "mt-1 rounded-xl border p-2";
+  const num = (v: string) => {
+    const n = Number(v);
+    return isNaN(n) ? 0 : n;
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3 text-sm">
+      <label className="flex flex-col col-span-2">Score options by
+        <select value={model.kind} onChange={(e) => onChange(DEFAULT_UTILITY_MODELS[e.target.value as UtilityKind])} className={field}>
+          {(Object.keys(UTILITY_MODEL_LABELS) as UtilityKind[]).map((k) => (
+            <option key={k} value={k}>{UTILITY_MODEL_LABELS[k]}</option>
+          ))}
+        </select>
+      </label>
+
+      {model.kind === "wtc" && (
+        <>
+          <label className="flex flex-col">Points won so far
+            <input type="number" value={model.pointsWon} onChange={(e) => onChange({ ...model, pointsWon: num(e.target.value) })} className={field} />
+          </label>
+          <label className="flex flex-col">Points contested so far
+            <input type="number" value={model.pointsContested} onChange={(e) => onChange({ ...model, pointsContested: num(e.target.value) })} className={field} />
+          </label>
+          <label className="flex flex-col col-span-2">Qualifying percentage (blank scores the expected percentage)
+            <input type="number" value={model.qualifyingPct ?? ""} onChange={(e) => onChange({ ...model, qualifyingPct: e.target.value === "" ? undefined : num(e.target.value) })} placeholder="e.g. 60" className={field} />
+          </label>
+        </>
+      )}
+
+      {model.kind === "series" && (
+        <>
+          <label className="flex flex-col">Series lead before this match
+            <input type="number" value={model.lead} onChange={(e) => onChange({ ...model, lead: num(e.target.value) })} className={field} />
+          </label>
+          <label className="flex flex-col">Matches after this one
+            <input type="number" min={0} value={model.matchesAfter} onChange={(e) => onChange({ ...model, matchesAfter: num(e.target.value) })} className={field} />
+          </label>
+          <label className="flex flex-col">Later matches: win chance
+            <input type="number" step={0.05} value={model.futureWinP} onChange={(e) => onChange({ ...model, futureWinP: num(e.target.value) })} className={field} />
+          </label>
+          <label className="flex flex-col">Later matches: draw chance
+            <input type="number" step={0.05} value={model.futureDrawP} onChange={(e) => onChange({ ...model, futureDrawP: num(e.target.value) })} className={field} />
+          </label>
+          <label className="flex items-center gap-2 col-span-2">
+            <input type="checkbox" checked={model.holders} onChange={(e) => onChange({ ...model, holders: e.target.checked })} />
+            We hold the trophy, so a level series keeps it
+          </label>
+        </>
+      )}
+
+      {model.kind === "custom" && (
+        <div className="col-span-2 grid grid-cols-3 gap-3">
+          {(["win", "draw", "loss"] as const).map((k) => (
+            <label key={k} className="flex flex-col capitalize">{k}
+              <input type="number" step={0.1} value={model[k]} onChange={(e) => onChange({ ...model, [k]: num(e.target.value) })} className={field} />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="col-span-2 text-xs text-slate-500">
+        A win is worth <span className="font-semibold">{values.win.toFixed(2)}</span>, a draw <span className="font-semibold">{values.draw.toFixed(2)}</span> and a loss <span className="font-semibold">{values.loss.toFixed(2)}</span>.
+      </div>
+    </div>
+  );
+}
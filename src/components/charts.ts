@@ -0,0 +1,27 @@
+import { niceStep } from "../engine/index.ts";
+
+// ---------- Chart helpers ----------
+// The charts are hand-drawn SVG; these keep their scales, ticks and colours consistent
+
+export const OUTCOME_COLOURS = { win: "#10b981", draw: "#94a3b8", loss: "#f43f5e" };
+
+export type Margin = { top: number; right: number; bottom: number; left: number };
+
+// Maps [d0, d1] onto [r0, r1]; a zero-width domain maps to the middle of the range
+export function linearScale([d0, d1]: [number, number], [r0, r1]: [number, number]) {
+  return (v: number) => (d1 === d0 ? (r0 + r1) / 2 : r0 + ((v - d0) / (d1 - d0)) * (r1 - r0));
+}
+
+// Round-numbered ticks covering [lo, hi]
+export function ticks(lo: number, hi: number, count = 5) {
+  const step = niceStep(hi - lo, count);
+  const out: number[] = [];
+  for (let v = Math.ceil(lo / step) * step; v <= hi + step * 1e-9; v += step) out.push(Math.round(v * 1e6) / 1e6);
+  return out;
+}
+
+// Widens [lo, hi] outwards to whole steps so the data never touches the frame
+export function niceDomain(lo: number, hi: number, count = 5): [number, number] {
+  const step = niceStep(hi - lo, count);
+  return [Math.floor(lo / step) * step, Math.ceil(hi / step) * step];
+}
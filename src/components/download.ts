@@ -0,0 +1,25 @@
+// ---------- Browser file helpers ----------
+
+export function download(filename: string, text: string, type = "application/json") {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// A file name from free text, e.g. a scenario or match name
+export const slugFileName = (name: string, fallback: string, extension: string) =>
+  `${name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || fallback}.${extension}`;
+
+// Opens an HTML document in a new tab and brings up the print dialog; false if a popup blocker got in the way
+export function printHtml(html: string) {
+  const w = window.open("", "_blank");
+  if (!w) return false;
+  w.document.write(html);
+  w.document.close();
+  w.focus();
+  w.print();
+  return true;
+}
@@ -0,0 +1,12 @@
+import { Z95 } from "../engine/index.ts";
+
+// ---------- Display formatting ----------
+
+export function pct(n: number) {
+  return (n * 100).toFixed(1) + "%";
+}
+
+// ± half-width of the 95% interval, in percentage points
+export function pm(stdErr: number) {
+  return "±" + (Z95 * stdErr * 100).toFixed(1);
+}
@@ -0,0 +1,24 @@
+import React from "react";
+import { pct, pm } from "./format.ts";
+
+// ---------- Shared layout pieces ----------
+
+export function Bar({ value, label, stdErr, color = "#0ea5e9" }: { value: number; label: string; stdErr?: number; color?: string }) {
+  return (
+    <div className="w-full mb-2">
+      <div className="text-xs mb-1 flex justify-between"><span>{label}</span><span>{pct(value)}{stdErr !== undefined && <span className="text-slate-500"> {pm(stdErr)}</span>}</span></div>
+      <div className="w-full h-2 bg-gray-200/80 rounded-xl overflow-hidden">
+        <div className="h-2 rounded-xl" style={{ width: `${Math.min(100, Math.max(0, value * 100))}%`, backgroundColor: color }} />
+      </div>
+    </div>
+  );
+}
+
+export function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white/70 rounded-2xl shadow p-4">
+      <h2 className="text-lg font-semibold mb-3">{title}</h2>
+      {children}
+    </div>
+  );
+}
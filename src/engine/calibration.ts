@@ -0,0 +1,35 @@
+import calibrationFile from "./calibration.json";
+import type { GroundPreset } from "./types.ts";
+
+// ---------- Calibrated constants ----------
+
+// Fourth-innings rates against a neutral attack on a neutral pitch
+export type ChaseRates = {
+  wicketPerOver: number;
+  runsPerOver: number;
+  wicketDriftPer20: number; // hazard multiplier applied every 20 overs
+  rpoDriftPer20: number; // run-rate multiplier applied every 20 overs
+};
+
+export type CalibratedGround = GroundPreset & { matches: number };
+
+// Shape of calibration.json, written by `npm run calibrate`
+export type Calibration = {
+  source: string;
+  generatedAt: string | null;
+  matches: number;
+  baseline: ChaseRates;
+  eras: Record<string, ChaseRates & { matches: number }>;
+  grounds: Record<string, CalibratedGround>;
+};
+
+export const CALIBRATION: Calibration = calibrationFile;
+
+// Era-specific rates when the calibration has them, otherwise the all-era baseline
+export function chaseRates(era?: string): ChaseRates {
+  return (era && CALIBRATION.eras[era]) || CALIBRATION.baseline;
+}
+
+export function calibratedEras() {
+  return Object.keys(CALIBRATION.eras).sort();
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  chaseAggregate,
+  chaseDetailed,
+  impliedDismissalHazard,
+  newBallFactor,
+  partnershipFactor,
+  simulateChase,
+} from "./chase.ts";
+import { DEFAULT_BATTING_ORDER, DEFAULT_INPUTS } from "./defaults.ts";
+import { GROUND_PRESETS } from "./grounds.ts";
+import { rng } from "./random.ts";
+import { simulateOption } from "./simulate.ts";
+import type { BatterProfile } from "./types.ts";
+
+const preset = GROUND_PRESETS.generic;
+const detailed = { ...DEFAULT_INPUTS, chaseModel: "detailed" as const };
+
+function winRate(order: BatterProfile[], runs: number) {
+  let wins = 0;
+  for (let s = 0; s < runs; s++) {
+    if (chaseDetailed(detailed, order, preset, 300, 90, rng(s + 1)).outcome === "win") wins++;
+  }
+  return wins / runs;
+}
+
+describe("detailed chase helpers", () => {
+  it("derives a per-ball hazard from average and strike rate", () => {
+    expect(impliedDismissalHazard(40, 50)).toBeCloseTo(1 / 80, 10);
+  });
+
+  it("boosts the hazard for the first new ball and the second one at over 80", () => {
+    expect(newBallFactor(0)).toBeGreaterThan(1);
+    expect(newBallFactor(40)).toBe(1);
+    expect(newBallFactor(80)).toBeGreaterThan(1);
+    expect(newBallFactor(95)).toBe(1);
+  });
+
+  it("makes fresh partnerships more fragile than settled ones", () => {
+    expect(partnershipFactor(0)).toBeGreaterThan(1);
+    expect(partnershipFactor(200)).toBeLessThan(1);
+  });
+});
+
+describe("chaseDetailed", () => {
+  it("is deterministic for a given RNG stream", () => {
+    const a = chaseDetailed(detailed, DEFAULT_BATTING_ORDER, preset, 300, 90, rng(5));
+    const b = chaseDetailed(detailed, DEFAULT_BATTING_ORDER, preset, 300, 90, rng(5));
+    expect(a).toEqual(b);
+  });
+
+  it("is all out after ten wickets, or one fewer than a short order", () => {
+    const flimsy = DEFAULT_BATTING_ORDER.map((b) => ({ ...b, dismissalHazard: 0.5 }));
+    expect(chaseDetailed(detailed, flimsy, preset, 1000, 200, rng(1))).toMatchObject({ outcome: "win", wickets: 10 });
+    expect(chaseDetailed(detailed, flimsy.slice(0, 5), preset, 1000, 200, rng(1))).toMatchObject({ outcome: "win", wickets: 4 });
+  });
+
+  it("wins more often against a weaker tail", () => {
+    const weakTail = DEFAULT_BATTING_ORDER.map((b, i) => (i >= 7 ? { ...b, dismissalHazard: b.dismissalHazard * 3 } : b));
+    expect(winRate(weakTail, 300)).toBeGreaterThan(winRate(DEFAULT_BATTING_ORDER, 300));
+  });
+});
+
+describe("simulateChase", () => {
+  it("uses the aggregate model unless the detailed one is selected", () => {
+    expect(simulateChase(DEFAULT_INPUTS, preset, 300, 90, rng(3))).toEqual(chaseAggregate(DEFAULT_INPUTS, preset, 300, 90, rng(3)));
+    expect(simulateChase(detailed, preset, 300, 90, rng(3))).toEqual(chaseDetailed(detailed, DEFAULT_BATTING_ORDER, preset, 300, 90, rng(3)));
+  });
+
+  it("keeps win + draw + loss = 1 through simulateOption", () => {
+    const out = simulateOption(detailed, preset, 10, 200, 4);
+    expect(out.winP + out.drawP + out.lossP).toBeCloseTo(1, 10);
+  });
+});
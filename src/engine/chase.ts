@@ -0,0 +1,214 @@
+import { chaseRates, type ChaseRates } from "./calibration.ts";
+import { overEffect } from "./intent.ts";
+import { pitchWear } from "./pitch.ts";
+import { attackStrength, battingStrength, carriedFatigue } from "./profiles.ts";
+import { clamp, normal, type Rng } from "./random.ts";
+import type { BatterProfile, GroundPreset, Inputs } from "./types.ts";
+
+// ---------- Fourth-innings chase models ----------
+
+export type ChaseOutcome = "win" | "draw" | "loss"; // from the declaring side's point of view
+
+export type ChaseResult = { outcome: ChaseOutcome; runs: number; wickets: number };
+
+// An innings with nothing to chase; it ends when they are bowled out or the overs run out
+export type InningsResult = { runs: number; wickets: number; overs: number };
+
+// rates overrides the calibration file, e.g. when checking a freshly fitted calibration
+export type ChasePreset = Pick<
+  GroundPreset,
+  "wicketHelp" | "chaseEase" | "badLight" | "bounce" | "paceAssist" | "spinAssist" | "deterioration"
+> & { rates?: ChaseRates };
+
+// The aggregate side has no batting order, so each wicket brings in a slightly weaker batter
+const TAIL_HAZARD_STEP = 1.02;
+
+// What the aggregate side and our attack bring, shared by every innings it plays
+function aggregateSide(inputs: Inputs, preset: ChasePreset) {
+  const rates = preset.rates ?? chaseRates(inputs.era); // baseline hazard and run rate from calibration.json
+  const batting = battingStrength(inputs);
+  const attack = attackStrength(inputs, preset); // our attack, helped by the surface and tiring through the innings
+  const wear = pitchWear(inputs, preset, rates);
+  return {
+    rates,
+    attack,
+    wear,
+    help: preset.wicketHelp * inputs.pitchBowlingFactor,
+    resistance: Math.max(0.6, batting.resistance * preset.chaseEase),
+    tempo: batting.tempo * preset.chaseEase / Math.max(0.7, inputs.pitchBowlingFactor),
+    lastOver: wear.wickets.length - 1,
+    lastAttackOver: attack.wickets.length - 1,
+  };
+}
+
+// Opposition bats as one aggregate side with a single per-over hazard and run rate.
+// `startOver` is how many overs from now the chase begins, so the pitch has worn that much further;
+// `carried` is how many overs our attack bowled in the innings before without a break.
+export function chaseAggregate(inputs: Inputs, preset: ChasePreset, target: number, overCap: number, r: Rng, startOver = 0, carried = 0): ChaseResult {
+  const { rates, attack, wear, help, resistance, tempo, lastOver, lastAttackOver } = aggregateSide(inputs, preset);
+
+  let wickets = 0, runs = 0, tail = 1;
+  for (let o = 0; o < overCap; o++) {
+    // the pitch wears by match day and over count
+    const at = Math.min(startOver + o, lastOver);
+    const a = Math.min(o, lastAttackOver);
+    const tired = carriedFatigue(carried, o);
+    const baseWicketP = clamp(rates.wicketPerOver * help * attack.wickets[a] * tired / resistance, 0.03, 0.2);
+    const rpoMean = Math.max(1.2, clamp(rates.runsPerOver * tempo * attack.runs[a] * (2 - tired), 1.5, 4.5) * wear.runs[at]);
+
+    // they go for the target, keep it alive or block for the draw, depending on how the chase stands. They judge
+    // the asking rate against their own game on this pitch, so a weaker attack of ours never talks them into a chase
+    const reqRPO = (target - runs) / Math.max(1, overCap - o);
+    const ownRpo = Math.max(1.2, clamp(rates.runsPerOver * tempo, 1.5, 4.5) * wear.runs[at]);
+    const effect = overEffect(inputs, reqRPO, ownRpo, 10 - wickets, overCap - o);
+    const wicketP = clamp(baseWicketP * tail * wear.wickets[at] * effect.wickets, 0.03, 0.25);
+
+    // small end-game acceleration of scoring if behind RR, unless they have given up on it
+    const pressureLift = reqRPO > rpoMean ? effect.chasing * clamp((reqRPO - rpoMean) * 0.15, 0, 0.8) : 0;
+
+    const overRuns = Math.max(0, Math.round(normal(r, rpoMean * effect.runs + pressureLift, 1)));
+    runs += overRuns;
+
+    if (r() < wicketP) {
+      wickets++;
+      tail *= TAIL_HAZARD_STEP;
+    }
+
+    if (runs >= target) return { outcome: "loss", runs, wickets }; // opponent chased successfully
+    if (wickets >= 10) return { outcome: "win", runs, wickets };
+  }
+
+  // overs ran out with neither side home -> draw
+  return { outcome: "draw", runs, wickets };
+}
+
+// The aggregate side batting with no target in sight, as in their first innings or after following on:
+// no intent and no asking rate, just their own game until they are bowled out or the overs run out
+export function inningsAggregate(inputs: Inputs, preset: ChasePreset, overCap: number, r: Rng, startOver = 0, carried = 0): InningsResult {
+  const { rates, attack, wear, help, resistance, tempo, lastOver, lastAttackOver } = aggregateSide(inputs, preset);
+
+  let wickets = 0, runs = 0, tail = 1;
+  for (let o = 0; o < overCap; o++) {
+    const at = Math.min(startOver + o, lastOver);
+    const a = Math.min(o, lastAttackOver);
+    const tired = carriedFatigue(carried, o);
+    const baseWicketP = clamp(rates.wicketPerOver * help * attack.wickets[a] * tired / resistance, 0.03, 0.2);
+    const rpoMean = Math.max(1.2, clamp(rates.runsPerOver * tempo * attack.runs[a] * (2 - tired), 1.5, 4.5) * wear.runs[at]);
+
+    runs += Math.max(0, Math.round(normal(r, rpoMean, 1)));
+    if (r() < clamp(baseWicketP * tail * wear.wickets[at], 0.03, 0.25)) {
+      wickets++;
+      tail *= TAIL_HAZARD_STEP;
+      if (wickets >= 10) return { runs, wickets, overs: o + 1 };
+    }
+  }
+  return { runs, wickets, overs: overCap };
+}
+
+// ---------- Detailed (ball-by-ball) model ----------
+
+// A batter's career numbers imply a per-ball dismissal chance of SR / (100 * average)
+export function impliedDismissalHazard(average: number, strikeRate: number) {
+  return clamp(strikeRate / (100 * Math.max(1, average)), 0.002, 0.2);
+}
+
+const NEW_BALL_OVERS = [0, 80]; // overs into the innings at which a new ball is taken
+const NEW_BALL_SPELL = 15; // overs the new ball stays lively
+const NEW_BALL_HAZARD = 1.25;
+
+export function newBallFactor(over: number) {
+  return NEW_BALL_OVERS.some((start) => over >= start && over < start + NEW_BALL_SPELL) ? NEW_BALL_HAZARD : 1;
+}
+
+// Fresh partnerships are fragile; set ones settle below the batters' base hazard
+export function partnershipFactor(partnershipBalls: number) {
+  return 0.85 + 0.4 * Math.exp(-partnershipBalls / 30);
+}
+
+// Runs off a scoring ball: mostly singles, some boundaries; mean is SCORING_SHOT_MEAN
+const SCORING_SHOTS: [runs: number, p: number][] = [[1, 0.6], [2, 0.15], [3, 0.03], [4, 0.2], [6, 0.02]];
+const SCORING_SHOT_MEAN = SCORING_SHOTS.reduce((a, [runs, p]) => a + runs * p, 0);
+
+function scoringShot(r: Rng) {
+  let u = r();
+  for (const [runs, p] of SCORING_SHOTS) {
+    if (u < p) return runs;
+    u -= p;
+  }
+  return 1;
+}
+
+// Opposition bats through its order ball by ball; each batter has their own hazard and scoring rate
+export function chaseDetailed(
+  inputs: Inputs,
+  order: BatterProfile[],
+  preset: ChasePreset,
+  target: number,
+  overCap: number,
+  r: Rng,
+  startOver = 0,
+  carried = 0
+): ChaseResult {
+  const rates = preset.rates ?? chaseRates(inputs.era);
+  const attack = attackStrength(inputs, preset);
+  const help = preset.wicketHelp * inputs.pitchBowlingFactor;
+  const scoringScale = preset.chaseEase / Math.max(0.7, inputs.pitchBowlingFactor);
+  const allOut = Math.min(10, order.length - 1);
+  const wear = pitchWear(inputs, preset, rates);
+  const lastOver = wear.wickets.length - 1;
+  const lastAttackOver = attack.wickets.length - 1;
+
+  let striker = 0, nonStriker = 1, nextIn = 2;
+  let wickets = 0, runs = 0, partnershipBalls = 0;
+
+  for (let o = 0; o < overCap; o++) {
+    const at = Math.min(startOver + o, lastOver);
+    const a = Math.min(o, lastAttackOver);
+    const tired = carriedFatigue(carried, o);
+    const pitchScoring = Math.max(0.6, wear.runs[at]);
+    const scoringWear = pitchScoring * attack.runs[a] * (2 - tired);
+
+    // the pair at the crease settle the over's intent from their own natural rate on this pitch, whoever is bowling
+    const pairRpo = ((order[striker].strikeRate + order[nonStriker].strikeRate) / 200) * scoringScale * pitchScoring * 6;
+    const effect = overEffect(inputs, (target - runs) / Math.max(1, overCap - o), pairRpo, allOut - wickets, overCap - o);
+    const overHazard = help * attack.wickets[a] * tired * newBallFactor(o) * wear.wickets[at] * effect.wickets;
+
+    for (let b = 0; b < 6; b++) {
+      const batter = order[striker];
+      if (r() < clamp(batter.dismissalHazard * overHazard * partnershipFactor(partnershipBalls), 0, 0.5)) {
+        wickets++;
+        if (wickets >= allOut) return { outcome: "win", runs, wickets };
+        striker = nextIn++;
+        partnershipBalls = 0;
+        continue;
+      }
+      partnershipBalls++;
+
+      // batters lift their rate when the asking rate climbs above their natural game
+      const ballsLeft = (overCap - o) * 6 - b;
+      const reqPerBall = (target - runs) / Math.max(1, ballsLeft);
+      const natural = (batter.strikeRate / 100) * scoringScale * scoringWear;
+      const lift = reqPerBall > natural ? effect.chasing * clamp((reqPerBall - natural) * 0.15, 0, 0.15) : 0;
+      const perBall = natural * effect.runs + lift;
+
+      if (r() < clamp(perBall / SCORING_SHOT_MEAN, 0, 0.9)) {
+        const shot = scoringShot(r);
+        runs += shot;
+        if (runs >= target) return { outcome: "loss", runs, wickets };
+        if (shot % 2 === 1) [striker, nonStriker] = [nonStriker, striker];
+      }
+    }
+
+    [striker, nonStriker] = [nonStriker, striker];
+  }
+
+  return { outcome: "draw", runs, wickets };
+}
+
+// Picks the model the inputs ask for; the detailed one needs a batting order of at least two
+export function simulateChase(inputs: Inputs, preset: ChasePreset, target: number, overCap: number, r: Rng, startOver = 0, carried = 0): ChaseResult {
+  if (inputs.chaseModel === "detailed" && inputs.battingOrder && inputs.battingOrder.length >= 2) {
+    return chaseDetailed(inputs, inputs.battingOrder, preset, target, overCap, r, startOver, carried);
+  }
+  return chaseAggregate(inputs, preset, target, overCap, r, startOver, carried);
+}
@@ -0,0 +1,83 @@
+import { GROUND_PRESETS } from "./grounds.ts";
+import { impliedDismissalHazard } from "./chase.ts";
+import type { MatchState } from "./matchState.ts";
+import type { BatterProfile, BowlerProfile, Inputs } from "./types.ts";
+import { STANDARD_TEST_DAYS } from "./validate.ts";
+
+const batter = (name: string, average: number, strikeRate: number): BatterProfile => ({
+  name,
+  average,
+  strikeRate,
+  dismissalHazard: impliedDismissalHazard(average, strikeRate),
+});
+
+// A typical Test order: solid top six, keeper, then a tail that falls quickly
+export const DEFAULT_BATTING_ORDER: BatterProfile[] = [
+  batter("Opener 1", 38, 48),
+  batter("Opener 2", 35, 50),
+  batter("No. 3", 45, 52),
+  batter("No. 4", 48, 55),
+  batter("No. 5", 40, 56),
+  batter("No. 6", 34, 60),
+  batter("Keeper", 30, 62),
+  batter("No. 8", 22, 55),
+  batter("No. 9", 15, 50),
+  batter("No. 10", 10, 45),
+  batter("No. 11", 6, 40),
+];
+
+// A four-pronged attack plus a part-timer, with overs from the opposition's first innings already in their legs
+export const DEFAULT_ATTACK: BowlerProfile[] = [
+  { name: "Opening seamer", kind: "pace", average: 26, economy: 2.9, oversBowled: 30, fitness: 1 },
+  { name: "Second seamer", kind: "pace", average: 29, economy: 3.1, oversBowled: 28, fitness: 0.9 },
+  { name: "Third seamer", kind: "pace", average: 32, economy: 3.3, oversBowled: 22, fitness: 1 },
+  { name: "Spinner", kind: "spin", average: 33, economy: 2.9, oversBowled: 32, fitness: 1 },
+  { name: "Part-timer", kind: "spin", average: 45, economy: 3.4, oversBowled: 8, fitness: 1 },
+];
+
+// Starting scenario for the advisor page
+export const DEFAULT_INPUTS: Inputs = {
+  ground: GROUND_PRESETS.generic.name,
+  oversPerSession: 30,
+  sessionsRemaining: 3,
+  oversLeftThisSession: 24,
+
+  currentLead: 250,
+  wicketsInHand: 6,
+  continueBattingRunRate: 3.8,
+  continueBattingWicketProbPerOver: 0.12,
+
+  opponentBattingStrength: 60,
+  ourBowlingStrength: 65,
+  pitchBowlingFactor: 1.15,
+
+  weatherBySession: [
+    { rainChance: 0.1 },
+    { rainChance: 0.2 },
+    { rainChance: 0.2 },
+    { rainChance: 0.2 },
+  ],
+
+  riskAppetite: 1.0,
+  groundPresetKey: "generic",
+
+  chaseModel: "aggregate",
+  battingOrder: DEFAULT_BATTING_ORDER,
+};
+
+// Start of day five, third innings under way; derives to the same clock and lead as DEFAULT_INPUTS
+export const DEFAULT_MATCH_STATE: MatchState = {
+  scheduledDays: STANDARD_TEST_DAYS,
+  day: 5,
+  session: 1,
+  oversBowledToday: 6,
+  minOversPerDay: 90,
+
+  battingFirst: "us",
+  followOnEnforced: false,
+  innings: [
+    { runs: 420, wickets: 10, overs: 128 },
+    { runs: 380, wickets: 10, overs: 121.3 },
+    { runs: 210, wickets: 4, overs: 55 },
+  ],
+};
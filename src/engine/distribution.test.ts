@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS } from "./defaults.ts";
+import { histogram, niceStep, outcomeDistribution } from "./distribution.ts";
+import { evaluateAllOptions } from "./evaluate.ts";
+import { InputValidationError } from "./validate.ts";
+
+describe("niceStep", () => {
+  it("rounds to 1, 2 or 5 times a power of ten", () => {
+    expect(niceStep(100, 10)).toBe(10);
+    expect(niceStep(130, 10)).toBe(20);
+    expect(niceStep(300, 10)).toBe(50);
+    expect(niceStep(0.8, 4)).toBeCloseTo(0.2, 10);
+    expect(niceStep(0, 10)).toBe(1);
+  });
+});
+
+describe("histogram", () => {
+  it("bins on multiples of the width and keeps empty bins in between", () => {
+    const h = histogram([-3, 1, 2, 14], 5);
+    expect(h.bins).toEqual([
+      { lo: -5, hi: 0, count: 1 },
+      { lo: 0, hi: 5, count: 2 },
+      { lo: 5, hi: 10, count: 0 },
+      { lo: 10, hi: 15, count: 1 },
+    ]);
+    expect(h.total).toBe(4);
+    expect(h.mean).toBe(3.5);
+  });
+
+  it("is empty for no values", () => {
+    expect(histogram([], 1)).toEqual({ bins: [], total: 0, mean: 0 });
+  });
+});
+
+describe("outcomeDistribution", () => {
+  const policy = { kind: "overs", overs: 10 } as const;
+  const d = outcomeDistribution(DEFAULT_INPUTS, policy, 300, 7);
+
+  it("reproduces the sweep's averages for the same sims and seed", () => {
+    const option = evaluateAllOptions(DEFAULT_INPUTS, 300, 7).options.find((o) => o.declareAfterOvers === 10)!;
+    expect(d.margin.mean).toBeCloseTo(option.expMarginRuns, 10);
+    const allOut = d.chaseWickets.bins.find((b) => b.lo === 10)?.count ?? 0;
+    expect(allOut / d.sims).toBeCloseTo(option.winP, 10);
+  });
+
+  it("counts every simulation in each histogram", () => {
+    for (const h of [d.chaseRuns, d.chaseWickets, d.margin]) {
+      expect(h.bins.reduce((n, b) => n + b.count, 0)).toBe(300);
+    }
+    expect(d.chaseWickets.bins.every((b) => b.hi - b.lo === 1)).toBe(true);
+  });
+
+  it("rejects invalid inputs", () => {
+    expect(() => outcomeDistribution({ ...DEFAULT_INPUTS, wicketsInHand: 0 }, policy, 100, 1)).toThrow(InputValidationError);
+  });
+});
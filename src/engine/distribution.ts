@@ -0,0 +1,71 @@
+import { resolveGround } from "./grounds.ts";
+import type { DeclarationPolicy } from "./policy.ts";
+import { matchSamples } from "./simulate.ts";
+import type { Inputs } from "./types.ts";
+import { assertValidInputs, assertValidSims } from "./validate.ts";
+
+// ---------- Outcome distributions ----------
+// The sweep keeps only averages; these re-run one option with the same seed to show the spread behind them
+
+export type HistogramBin = { lo: number; hi: number; count: number }; // values in [lo, hi)
+
+export type Histogram = { bins: HistogramBin[]; total: number; mean: number };
+
+// 1, 2 or 5 times a power of ten, so roughly `count` steps cover `span`
+export function niceStep(span: number, count: number) {
+  if (!(span > 0) || count < 1) return 1;
+  const raw = span / count;
+  const power = Math.pow(10, Math.floor(Math.log10(raw)));
+  const m = raw / power;
+  return (m <= 1 ? 1 : m <= 2 ? 2 : m <= 5 ? 5 : 10) * power;
+}
+
+// Bins start on a multiple of `width`; empty bins between the extremes are kept so the axis stays linear
+export function histogram(values: number[], width: number): Histogram {
+  if (values.length === 0) return { bins: [], total: 0, mean: 0 };
+  let min = Infinity, max = -Infinity, sum = 0;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+    sum += v;
+  }
+  const first = Math.floor(min / width);
+  const bins: HistogramBin[] = Array.from({ length: Math.floor(max / width) - first + 1 }, (_, i) => ({
+    lo: (first + i) * width,
+    hi: (first + i + 1) * width,
+    count: 0,
+  }));
+  for (const v of values) bins[Math.floor(v / width) - first].count++;
+  return { bins, total: values.length, mean: sum / values.length };
+}
+
+export type OutcomeDistribution = {
+  chaseRuns: Histogram; // the opposition's final score
+  chaseWickets: Histogram; // wickets they lost, one bin per wicket
+  margin: Histogram; // target minus their score, as expMarginRuns averages it
+  sims: number;
+};
+
+const RUN_BINS = 20;
+
+// Reproduces the sweep's first batch for this policy: same sims and seed give the same matches
+export function outcomeDistribution(inputs: Inputs, policy: DeclarationPolicy, sims: number, seed: number): OutcomeDistribution {
+  assertValidInputs(inputs);
+  assertValidSims(sims);
+  const runs: number[] = [];
+  const wickets: number[] = [];
+  const margins: number[] = [];
+  for (const { target, chase } of matchSamples(inputs, resolveGround(inputs), policy, sims, seed)) {
+    runs.push(chase.runs);
+    wickets.push(chase.wickets);
+    margins.push(target - chase.runs);
+  }
+  // runs are whole numbers, so bins are never narrower than one run; reduce rather than spread, as sims can be large
+  const width = (xs: number[]) => Math.max(1, niceStep(xs.reduce((a, b) => Math.max(a, b), -Infinity) - xs.reduce((a, b) => Math.min(a, b), Infinity), RUN_BINS));
+  return {
+    chaseRuns: histogram(runs, width(runs)),
+    chaseWickets: histogram(wickets, 1),
+    margin: histogram(margins, width(margins)),
+    sims,
+  };
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS } from "./defaults.ts";
+import {
+  declarationOvers,
+  declarationPolicies,
+  evaluateAdaptive,
+  evaluateAllOptions,
+  maxDeclarationOvers,
+  prioritisePolicies,
+  rankOptions,
+  sweepOptions,
+  tryEvaluateAllOptions,
+} from "./evaluate.ts";
+import type { Inputs } from "./types.ts";
+import { InputValidationError } from "./validate.ts";
+
+describe("evaluateAllOptions", () => {
+  it("sweeps every K from 0 to the batting-on cap", () => {
+    const { options } = evaluateAllOptions(DEFAULT_INPUTS, 100);
+    const ks = options.map((o) => o.declareAfterOvers).sort((a, b) => a - b);
+    expect(ks).toEqual(Array.from({ length: maxDeclarationOvers(DEFAULT_INPUTS) + 1 }, (_, i) => i));
+  });
+
+  it("ranks options by utility with best and runner-up first", () => {
+    const { best, runnerUp, options } = evaluateAllOptions(DEFAULT_INPUTS, 100);
+    expect(best).toBe(options[0]);
+    expect(runnerUp).toBe(options[1]);
+    for (let i = 1; i < options.length; i++) {
+      expect(options[i - 1].utility).toBeGreaterThanOrEqual(options[i].utility);
+    }
+  });
+
+  it("is reproducible per seed", () => {
+    expect(evaluateAllOptions(DEFAULT_INPUTS, 100, 7)).toEqual(evaluateAllOptions(DEFAULT_INPUTS, 100, 7));
+  });
+
+  it("honours the seed", () => {
+    const a = evaluateAllOptions(DEFAULT_INPUTS, 100, 7);
+    const b = evaluateAllOptions(DEFAULT_INPUTS, 100, 8);
+    expect(a.seed).toBe(7);
+    expect(a.options).not.toEqual(b.options);
+  });
+
+  it("attaches standard errors to every option", () => {
+    const { options } = evaluateAllOptions(DEFAULT_INPUTS, 100);
+    for (const o of options) {
+      expect(o.sims).toBe(100);
+      expect(o.stdErr.winP).toBeGreaterThanOrEqual(0);
+      expect(o.utilityStdErr).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it("falls back to the generic ground for unknown presets", () => {
+    const { preset } = evaluateAllOptions({ ...DEFAULT_INPUTS, groundPresetKey: "nowhere" }, 50);
+    expect(preset.name).toBe("Generic Test Ground");
+  });
+
+  it("rejects invalid inputs and sims", () => {
+    expect(() => evaluateAllOptions({ ...DEFAULT_INPUTS, wicketsInHand: 0 }, 50)).toThrow(InputValidationError);
+    expect(() => evaluateAllOptions(DEFAULT_INPUTS, 0)).toThrow(InputValidationError);
+    expect(() => evaluateAllOptions(DEFAULT_INPUTS, 50, 1, [])).toThrow(InputValidationError);
+  });
+});
+
+describe("tryEvaluateAllOptions", () => {
+  it("returns the evaluation when everything checks out", () => {
+    const result = tryEvaluateAllOptions(DEFAULT_INPUTS, 100, 9);
+    if (!result.ok) throw new Error("expected an evaluation");
+    expect(result.evaluation).toEqual(evaluateAllOptions(DEFAULT_INPUTS, 100, 9));
+  });
+
+  it("returns every issue instead of throwing", () => {
+    const result = tryEvaluateAllOptions({ ...DEFAULT_INPUTS, wicketsInHand: 0, weatherBySession: [] }, 0, 1, []);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.issues.map((i) => i.field)).toEqual(["wicketsInHand", "weatherBySession", "sims", "policies"]);
+  });
+
+  it("returns malformed lists as issues too", () => {
+    const nullWeather = tryEvaluateAllOptions({ ...DEFAULT_INPUTS, weatherBySession: [null] } as unknown as Inputs, 50);
+    expect(nullWeather).toEqual({ ok: false, issues: [{ field: "weatherBySession", message: "must be a list of objects" }] });
+    const order = tryEvaluateAllOptions({ ...DEFAULT_INPUTS, chaseModel: "detailed", battingOrder: 5 } as unknown as Inputs, 50);
+    expect(order).toEqual({ ok: false, issues: [{ field: "battingOrder", message: "must be a list" }] });
+  });
+});
+
+describe("sweepOptions", () => {
+  it("yields one option per K in order, matching the full evaluation", () => {
+    const streamed = [...sweepOptions(DEFAULT_INPUTS, 100)];
+    expect(streamed.map((o) => o.declareAfterOvers)).toEqual(declarationOvers(DEFAULT_INPUTS));
+    const ranked = rankOptions(DEFAULT_INPUTS, streamed);
+    expect(ranked).toEqual(evaluateAllOptions(DEFAULT_INPUTS, 100).options);
+  });
+
+  it("can be stopped part-way", () => {
+    const it = sweepOptions(DEFAULT_INPUTS, 50);
+    const first = it.next();
+    it.return(undefined);
+    expect(first.value?.declareAfterOvers).toBe(0);
+    expect(it.next().done).toBe(true);
+  });
+});
+
+describe("prioritisePolicies", () => {
+  it("sweeps the leading keys first without changing the ranking", () => {
+    const policies = declarationPolicies(DEFAULT_INPUTS);
+    const ordered = prioritisePolicies(policies, ["overs:7", "overs:3", "lead:999"]);
+    expect(ordered.slice(0, 3).map((p) => p.kind === "overs" && p.overs)).toEqual([7, 3, 0]);
+    expect(ordered).toHaveLength(policies.length);
+
+    const ranked = rankOptions(DEFAULT_INPUTS, [...sweepOptions(DEFAULT_INPUTS, 100, undefined, ordered)]);
+    expect(ranked).toEqual(evaluateAllOptions(DEFAULT_INPUTS, 100).options);
+  });
+});
+
+describe("evaluateAdaptive", () => {
+  it("adds simulations to the contenders until best and runner-up separate or the cap is hit", () => {
+    const base = evaluateAllOptions(DEFAULT_INPUTS, 200, 3);
+    const adaptive = evaluateAdaptive(DEFAULT_INPUTS, { sims: 200, seed: 3, maxSims: 1000 });
+    if (base.separation.separable) {
+      expect(adaptive.rounds).toBe(0);
+    } else {
+      expect(adaptive.rounds).toBeGreaterThan(0);
+      expect(adaptive.separation.separable || adaptive.best.sims + 200 > 1000).toBe(true);
+    }
+    expect(Math.max(...adaptive.options.map((o) => o.sims))).toBeLessThanOrEqual(1000);
+  });
+
+  it("is reproducible per seed", () => {
+    const opts = { sims: 100, seed: 9, maxSims: 400 };
+    expect(evaluateAdaptive(DEFAULT_INPUTS, opts)).toEqual(evaluateAdaptive(DEFAULT_INPUTS, opts));
+  });
+});
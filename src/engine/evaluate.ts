@@ -0,0 +1,188 @@
+import { resolveGround } from "./grounds.ts";
+import {
+  NO_ALTERNATIVES,
+  alternativePolicies,
+  policyKey,
+  scheduledOvers,
+  type AlternativePolicySettings,
+  type DeclarationPolicy,
+} from "./policy.ts";
+import { simulatePolicy } from "./simulate.ts";
+import { Z95, mergeOutcomes, separation, utilityStdErr } from "./stats.ts";
+import type { Evaluation, Inputs, OptionOutcome, RankedOption } from "./types.ts";
+import { expectedUtility, outcomeValues } from "./utility.ts";
+import { InputValidationError, assertValidInputs, assertValidSims, validateInputs, validatePolicies, validateSims, type ValidationIssue } from "./validate.ts";
+
+// ---------- Option sweep ----------
+
+// do not consider more than 30 overs of batting on
+export function maxDeclarationOvers(inputs: Inputs) {
+  return Math.min(30, scheduledOvers(inputs));
+}
+
+// Every declaration point the sweep considers, in the order it simulates them
+export function declarationOvers(inputs: Inputs) {
+  const maxK = maxDeclarationOvers(inputs);
+  return Array.from({ length: Math.max(0, maxK + 1) }, (_, K) => K);
+}
+
+// The K-over options, followed by any lead, session-break and hybrid alternatives
+export function declarationPolicies(inputs: Inputs, alternatives: AlternativePolicySettings = NO_ALTERNATIVES): DeclarationPolicy[] {
+  return [
+    ...declarationOvers(inputs).map((overs): DeclarationPolicy => ({ kind: "overs", overs })),
+    ...alternativePolicies(inputs, alternatives),
+  ];
+}
+
+// Sweeps the policies whose keys appear in `leading` first, in that order; the rest keep theirs.
+// Each policy has its own seed, so this only changes how soon a good provisional best shows up.
+export function prioritisePolicies(policies: DeclarationPolicy[], leading: string[]): DeclarationPolicy[] {
+  const rank = new Map(leading.map((key, i) => [key, i]));
+  const at = (p: DeclarationPolicy) => rank.get(policyKey(p)) ?? leading.length;
+  return policies.map((p, i) => ({ p, i })).sort((a, b) => at(a.p) - at(b.p) || a.i - b.i).map(({ p }) => p);
+}
+
+export const DEFAULT_SEED = 1234;
+
+// Seeds for the extra batches in adaptive mode; the stride keeps them clear of simulateOption's per-K offsets
+export function batchSeed(seed: number, round: number) {
+  return seed + round * 7919;
+}
+
+// Simulates one option at a time so callers can stream rows or stop part-way
+export function* sweepOptions(
+  inputs: Inputs,
+  sims = 2500,
+  seed = DEFAULT_SEED,
+  policies: DeclarationPolicy[] = declarationPolicies(inputs)
+): Generator<OptionOutcome> {
+  assertValidInputs(inputs);
+  assertValidSims(sims);
+  yield* simulateOptions(inputs, sims, seed, policies);
+}
+
+// The sweep itself, for callers that have already validated what they pass
+function* simulateOptions(inputs: Inputs, sims: number, seed: number, policies: DeclarationPolicy[]): Generator<OptionOutcome> {
+  const preset = resolveGround(inputs);
+  for (const policy of policies) {
+    yield simulatePolicy(inputs, preset, policy, sims, seed);
+  }
+}
+
+// Scores options with the inputs' utility model and sorts best first; works on a partial sweep too
+export function rankOptions(inputs: Inputs, options: OptionOutcome[]): RankedOption[] {
+  const values = outcomeValues(inputs);
+
+  const withUtility = options.map((o) => ({
+    ...o,
+    utility: expectedUtility(o, values),
+    utilityStdErr: utilityStdErr(o, o.sims, values),
+  }));
+
+  withUtility.sort((a, b) => b.utility - a.utility);
+  return withUtility;
+}
+
+export function evaluateAllOptions(
+  inputs: Inputs,
+  sims = 2500,
+  seed = DEFAULT_SEED,
+  policies: DeclarationPolicy[] = declarationPolicies(inputs)
+): Evaluation {
+  const issues = evaluationIssues(inputs, sims, policies);
+  if (issues.length > 0) throw new InputValidationError(issues);
+  return summarise(inputs, [...simulateOptions(inputs, sims, seed, policies)], seed);
+}
+
+// The sweep's answer or every reason it can't give one, for callers that would rather branch than catch
+export type EvaluationResult = { ok: true; evaluation: Evaluation } | { ok: false; issues: ValidationIssue[] };
+
+export function tryEvaluateAllOptions(
+  inputs: Inputs,
+  sims = 2500,
+  seed = DEFAULT_SEED,
+  policies: DeclarationPolicy[] = declarationPolicies(inputs)
+): EvaluationResult {
+  const issues = evaluationIssues(inputs, sims, policies);
+  if (issues.length > 0) return { ok: false, issues };
+  return { ok: true, evaluation: summarise(inputs, [...simulateOptions(inputs, sims, seed, policies)], seed) };
+}
+
+function evaluationIssues(inputs: Inputs, sims: number, policies: DeclarationPolicy[]) {
+  return [...validateInputs(inputs), ...validateSims(sims), ...validatePolicies(policies)];
+}
+
+function summarise(inputs: Inputs, outcomes: OptionOutcome[], seed: number): Evaluation {
+  const options = rankOptions(inputs, outcomes);
+
+  const best = options[0];
+  const runnerUp = options[1];
+
+  return {
+    best,
+    runnerUp,
+    options,
+    preset: resolveGround(inputs),
+    separation: separation(best, runnerUp),
+    seed,
+  };
+}
+
+// ---------- Adaptive refinement ----------
+
+export type AdaptiveOptions = {
+  sims?: number; // size of the initial sweep and of every extra batch
+  seed?: number;
+  maxSims?: number; // stop adding batches once an option has this many simulations
+  policies?: DeclarationPolicy[]; // defaults to the K-over sweep
+};
+
+// Options whose 95% utility interval overlaps the leader's are still in contention
+function contenders(ranked: RankedOption[]) {
+  const best = ranked[0];
+  if (!best) return [];
+  const floor = best.utility - Z95 * best.utilityStdErr;
+  return ranked.filter((o) => o === best || o.utility + Z95 * o.utilityStdErr >= floor);
+}
+
+// After a full sweep, keeps adding batches to the contenders until best and runner-up separate.
+// Yields the complete, updated outcome list after each round.
+export function* refineOptions(
+  inputs: Inputs,
+  outcomes: OptionOutcome[],
+  { sims = 2500, seed = DEFAULT_SEED, maxSims = 20000 }: AdaptiveOptions = {}
+): Generator<{ round: number; outcomes: OptionOutcome[] }> {
+  assertValidInputs(inputs);
+  assertValidSims(sims);
+
+  const preset = resolveGround(inputs);
+  let current = outcomes;
+
+  for (let round = 1; ; round++) {
+    const ranked = rankOptions(inputs, current);
+    if (separation(ranked[0], ranked[1]).separable) return;
+
+    const toRefine = contenders(ranked).filter((o) => o.sims + sims <= maxSims);
+    if (toRefine.length === 0) return;
+    const keys = new Set(toRefine.map((o) => o.key));
+
+    current = current.map((o) =>
+      keys.has(o.key)
+        ? mergeOutcomes(o, simulatePolicy(inputs, preset, o.policy, sims, batchSeed(seed, round)))
+        : o
+    );
+    yield { round, outcomes: current };
+  }
+}
+
+// Full sweep plus adaptive refinement, run synchronously
+export function evaluateAdaptive(inputs: Inputs, opts: AdaptiveOptions = {}): Evaluation & { rounds: number } {
+  const seed = opts.seed ?? DEFAULT_SEED;
+  let outcomes = [...sweepOptions(inputs, opts.sims, seed, opts.policies)];
+  let rounds = 0;
+  for (const step of refineOptions(inputs, outcomes, opts)) {
+    outcomes = step.outcomes;
+    rounds = step.round;
+  }
+  return { ...summarise(inputs, outcomes, seed), rounds };
+}
@@ -0,0 +1,54 @@
+import { CALIBRATION } from "./calibration.ts";
+import type { GroundPreset, Inputs } from "./types.ts";
+
+// ---------- Ground presets (simple heuristics) ----------
+export const HAND_PICKED_PRESETS: Record<string, GroundPreset>
+  = {
+    generic: { name: "Generic Test Ground", wicketHelp: 1.0, chaseEase: 1.0, badLight: 1.0 },
+    lords: { name: "Lord's, London", wicketHelp: 1.05, chaseEase: 0.95, badLight: 1.6, paceAssist: 1.1, spinAssist: 0.9 },
+    gabba: { name: "The Gabba, Brisbane", wicketHelp: 1.1, chaseEase: 0.95, badLight: 0.8, bounce: 1.15, paceAssist: 1.1, spinAssist: 0.85 },
+    edenGardens: {
+      name: "Eden Gardens, Kolkata", wicketHelp: 0.95, chaseEase: 1.05, badLight: 1.5, sessionOvers: 28, paceAssist: 0.9, spinAssist: 1.2,
+      // a turner: slow to start, then spinners take over from day three
+      deterioration: [
+        { wickets: 1, runs: 1 },
+        { wickets: 1.04, runs: 0.99 },
+        { wickets: 1.12, runs: 0.96 },
+        { wickets: 1.25, runs: 0.92 },
+        { wickets: 1.4, runs: 0.87 },
+      ],
+    },
+    mcg: { name: "MCG, Melbourne", wicketHelp: 1.0, chaseEase: 0.98, badLight: 0.7 },
+    scg: { name: "SCG, Sydney", wicketHelp: 1.05, chaseEase: 1.0, badLight: 0.8, paceAssist: 0.95, spinAssist: 1.15 },
+    wanderers: { name: "Wanderers, Johannesburg", wicketHelp: 1.12, chaseEase: 0.93, badLight: 0.9, bounce: 1.2, paceAssist: 1.15, spinAssist: 0.85 },
+    rawalpindi: {
+      name: "Rawalpindi Cricket Stadium", wicketHelp: 0.9, chaseEase: 1.1, badLight: 1.3, paceAssist: 0.9, spinAssist: 0.95,
+      // a road that barely wears
+      deterioration: [
+        { wickets: 1, runs: 1 },
+        { wickets: 1.01, runs: 1 },
+        { wickets: 1.03, runs: 0.99 },
+        { wickets: 1.06, runs: 0.98 },
+        { wickets: 1.1, runs: 0.97 },
+      ],
+    },
+  };
+
+// Calibrated grounds override the hand-picked factors and add any grounds they know about.
+// Calibration only fits wicket help and chase ease, so a hand-picked ground keeps the rest of its profile.
+export const GROUND_PRESETS: Record<string, GroundPreset> = {
+  ...HAND_PICKED_PRESETS,
+  ...Object.fromEntries(
+    Object.entries(CALIBRATION.grounds).map(([key, g]) => [key, { ...HAND_PICKED_PRESETS[key], name: g.name, wicketHelp: g.wicketHelp, chaseEase: g.chaseEase }])
+  ),
+};
+
+// Unknown keys fall back to the generic ground
+export function resolvePreset(key: string): GroundPreset {
+  return GROUND_PRESETS[key] || GROUND_PRESETS.generic;
+}
+
+// The ground a simulation uses: the inputs' own profile when they carry one, otherwise the preset
+export function resolveGround(inputs: Pick<Inputs, "groundPresetKey" | "groundProfile">): GroundPreset {
+  return inputs.groundProfile ?? resolvePreset(inputs.groundPresetKey);
+}
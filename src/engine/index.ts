@@ -0,0 +1,157 @@
+// Headless declaration engine: everything the UI (or any other caller) needs to run the model
+export type {
+  BatterProfile,
+  BowlerKind,
+  BowlerProfile,
+  ChaseIntent,
+  ChaseIntentModel,
+  ChaseModel,
+  DayWear,
+  Evaluation,
+  GroundPreset,
+  HourlyWeather,
+  Inputs,
+  OptionOutcome,
+  OutcomeValues,
+  RankedOption,
+  SessionWeather,
+  SimResult,
+  StrengthModel,
+  UtilityKind,
+  UtilityModel,
+  WeatherModel,
+} from "./types.ts";
+export { GROUND_PRESETS, HAND_PICKED_PRESETS, resolveGround, resolvePreset } from "./grounds.ts";
+export { DEFAULT_SPIN_SHARE, attackAssist, currentMatchDay, dayPosition, defaultDeterioration, pitchWear, wearAt } from "./pitch.ts";
+export type { WearTable } from "./pitch.ts";
+export {
+  TYPICAL_BOWLING_AVERAGE,
+  TYPICAL_ECONOMY,
+  TYPICAL_RUNS_PER_WICKET,
+  TYPICAL_STRIKE_RATE,
+  attackSpinShare,
+  attackStrength,
+  battingStrength,
+  bowlerQuality,
+  bowlingShares,
+  carriedFatigue,
+  fatigueFactor,
+  orderStrength,
+  usesProfiles,
+} from "./profiles.ts";
+export type { AttackTable, BattingStrength } from "./profiles.ts";
+export { CALIBRATION, calibratedEras, chaseRates } from "./calibration.ts";
+export type { CalibratedGround, Calibration, ChaseRates } from "./calibration.ts";
+export { DEFAULT_ATTACK, DEFAULT_BATTING_ORDER, DEFAULT_INPUTS, DEFAULT_MATCH_STATE } from "./defaults.ts";
+export {
+  SESSIONS_PER_DAY,
+  declarationStatus,
+  deriveInputs,
+  followOnLead,
+  inningsOrder,
+  oversLeftInSession,
+  sessionsLeftInMatch,
+  sideTotals,
+  validateMatchState,
+} from "./matchState.ts";
+export type { DeclarationStatus, InningsScore, MatchState, MatchStateDerivation, Side } from "./matchState.ts";
+export { BALLS_PER_OVER, applyLiveUpdate, ballsToOvers, isMatchOver, oversToBalls, validateLiveUpdate } from "./live.ts";
+export type { LiveUpdate } from "./live.ts";
+export {
+  chaseAggregate,
+  chaseDetailed,
+  impliedDismissalHazard,
+  inningsAggregate,
+  newBallFactor,
+  partnershipFactor,
+  simulateChase,
+} from "./chase.ts";
+export type { ChaseOutcome, ChasePreset, ChaseResult, InningsResult } from "./chase.ts";
+export { CHASE_INTENT_LABELS, CHASE_INTENT_MODELS, INTENT_EFFECTS, chooseIntent, intentWeights, overEffect, type IntentEffect, type IntentWeights } from "./intent.ts";
+export { clamp, normal, rng } from "./random.ts";
+export type { Rng } from "./random.ts";
+export { batOn, matchSamples, oversToBowl, simulateDeclared, simulateMatch, simulateOption, simulatePolicy } from "./simulate.ts";
+export { DEFAULT_RAIN_MINUTES, SESSION_CLOCK, badLightChance, hourlyForecast, oversAfterBatting, samplePlayableOvers, sessionWindows } from "./weather.ts";
+export type { SessionWindow } from "./weather.ts";
+export {
+  NO_ALTERNATIVES,
+  alternativePolicies,
+  optionLabel,
+  policyKey,
+  policyLabel,
+  policyOverCap,
+  scheduledOvers,
+  scheduledSessionOvers,
+  suggestedLeadTargets,
+} from "./policy.ts";
+export type { AlternativePolicySettings, DeclarationPolicy } from "./policy.ts";
+export type { BattingOn, MatchSample } from "./simulate.ts";
+export {
+  DEFAULT_SEED,
+  batchSeed,
+  declarationOvers,
+  declarationPolicies,
+  evaluateAdaptive,
+  evaluateAllOptions,
+  maxDeclarationOvers,
+  prioritisePolicies,
+  rankOptions,
+  refineOptions,
+  sweepOptions,
+  tryEvaluateAllOptions,
+} from "./evaluate.ts";
+export type { AdaptiveOptions, EvaluationResult } from "./evaluate.ts";
+export { histogram, niceStep, outcomeDistribution } from "./distribution.ts";
+export type { Histogram, HistogramBin, OutcomeDistribution } from "./distribution.ts";
+export {
+  bySwing,
+  fieldValue,
+  sensitivityAnalysis,
+  sensitivityParams,
+  sensitivityRow,
+  sensitivityRows,
+  withFieldValue,
+} from "./sensitivity.ts";
+export type { SensitivityOptions, SensitivityParam, SensitivityPoint, SensitivityReport, SensitivityRow } from "./sensitivity.ts";
+export {
+  FOLLOW_ON_LEAD,
+  MATCH_STAGE_LABELS,
+  evaluateStage,
+  simulateStage,
+  simulateStagePlan,
+  stagePlanKey,
+  stagePlanLabel,
+  stagePlans,
+  validateStage,
+} from "./stages.ts";
+export type { MatchStage, StageEvaluation, StageOutcome, StagePlan, StageSample, StageScenario } from "./stages.ts";
+export { reviewDeclaration, reviewPolicies, validateActualDeclaration } from "./review.ts";
+export type { ActualDeclaration, DeclarationReview } from "./review.ts";
+export { Z95, interval95, mergeOutcomes, proportionStdErr, quantile, separation, utilityStdErr } from "./stats.ts";
+export type { Separation } from "./stats.ts";
+export {
+  DEFAULT_UTILITY_MODELS,
+  UTILITY_MODEL_LABELS,
+  WTC_POINTS,
+  continuousLossWeight,
+  expectedUtility,
+  outcomeValues,
+  seriesValues,
+  usesRiskAppetite,
+  utilityWeights,
+  wtcValues,
+} from "./utility.ts";
+export {
+  INPUT_SCHEMA,
+  InputValidationError,
+  MAX_SCHEDULED_DAYS,
+  STANDARD_TEST_DAYS,
+  assertValidInputs,
+  issueFor,
+  validateField,
+  validateGroundProfile,
+  validateInputs,
+  validatePolicies,
+  validateSims,
+} from "./validate.ts";
+export type { ChoiceRule, FieldRule, NumberRule, SchemaField, ValidationIssue } from "./validate.ts";
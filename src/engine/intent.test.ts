@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS } from "./defaults.ts";
+import { GROUND_PRESETS } from "./grounds.ts";
+import { DEFAULT_ATTACK } from "./defaults.ts";
+import { INTENT_EFFECTS, chooseIntent, intentWeights, overEffect } from "./intent.ts";
+import { sensitivityParams } from "./sensitivity.ts";
+import { simulateOption } from "./simulate.ts";
+import type { Inputs } from "./types.ts";
+
+describe("chooseIntent", () => {
+  it("goes for a gettable target, blocks a distant one and keeps the rest alive", () => {
+    expect(chooseIntent(3, 3, 8, 60)).toBe("attack");
+    expect(chooseIntent(6, 3, 8, 60)).toBe("block");
+    expect(chooseIntent(4, 3, 8, 60)).toBe("cautious");
+  });
+
+  it("blocks sooner with the tail exposed and pushes late when the target is close", () => {
+    expect(chooseIntent(3.3, 3, 3, 60)).toBe("block");
+    expect(chooseIntent(4, 3, 6, 10)).toBe("attack");
+  });
+
+  it("moves the thresholds with the bias", () => {
+    expect(chooseIntent(4, 3, 8, 60, 1)).toBe("attack");
+    expect(chooseIntent(4, 3, 8, 60, -1)).toBe("block");
+  });
+});
+
+describe("intentWeights", () => {
+  it("shares the over between the intents", () => {
+    for (const required of [2, 3.5, 4.5, 6]) {
+      const w = intentWeights(required, 3, 5, 40);
+      expect(w.attack + w.cautious + w.block).toBeCloseTo(1, 12);
+      for (const share of Object.values(w)) expect(share).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it("moves between intents gradually as the asking rate climbs", () => {
+    let last = intentWeights(2, 3, 8, 60);
+    for (let required = 2.05; required <= 6; required += 0.05) {
+      const w = intentWeights(required, 3, 8, 60);
+      expect(w.attack).toBeLessThanOrEqual(last.attack);
+      expect(w.block).toBeGreaterThanOrEqual(last.block);
+      expect(Math.abs(w.attack - last.attack) + Math.abs(w.block - last.block)).toBeLessThan(0.15);
+      last = w;
+    }
+  });
+});
+
+describe("overEffect", () => {
+  const inputs = (chaseIntent: Inputs["chaseIntent"]): Inputs => ({ ...DEFAULT_INPUTS, chaseIntent });
+
+  it("holds a fixed intent and leaves the pressure-only chase alone", () => {
+    expect(overEffect(inputs("block"), 3, 3, 10, 60)).toEqual({ ...INTENT_EFFECTS.block, chasing: 0 });
+    expect(overEffect(inputs("pressure"), 6, 3, 10, 60)).toEqual({ runs: 1, wickets: 1, chasing: 1 });
+  });
+
+  it("blends the adaptive intents by their shares", () => {
+    const w = intentWeights(4, 3, 8, 60);
+    const effect = overEffect(inputs(undefined), 4, 3, 8, 60);
+    expect(effect.wickets).toBeCloseTo(w.attack * 1.35 + w.cautious * 0.9 + w.block * 0.6, 12);
+    expect(effect.chasing).toBeCloseTo(1 - w.block, 12);
+    expect(overEffect(inputs(undefined), 9, 3, 10, 60).chasing).toBeLessThan(0.01);
+  });
+});
+
+describe("chase intent in the simulation", () => {
+  const run = (patch: Partial<Inputs>) => simulateOption({ ...DEFAULT_INPUTS, ...patch }, GROUND_PRESETS.generic, 6, 3000, 11);
+
+  it("draws far more often when they shut up shop from the start", () => {
+    const block = run({ chaseIntent: "block" });
+    const attack = run({ chaseIntent: "attack" });
+    expect(block.drawP).toBeGreaterThan(attack.drawP + 0.2);
+    expect(block.lossP).toBeLessThan(attack.lossP);
+  });
+
+  it("lets a draw-minded side save more games and a win-minded one risk more", () => {
+    const drawMinded = run({ chaseIntentBias: -1 });
+    const winMinded = run({ chaseIntentBias: 1 });
+    expect(drawMinded.drawP).toBeGreaterThan(winMinded.drawP);
+    expect(winMinded.lossP).toBeGreaterThan(drawMinded.lossP);
+  });
+
+  it("wins more often with a stronger attack, however they choose to chase", () => {
+    const winP = [30, 40, 50, 60, 70, 80, 90].map((ourBowlingStrength) => run({ ourBowlingStrength }).winP);
+    for (let i = 1; i < winP.length; i++) expect(winP[i]).toBeGreaterThan(winP[i - 1]);
+    const profiled = [1.3, 1.15, 1, 0.85, 0.7].map((f) => {
+      const ourAttack = DEFAULT_ATTACK.map((b) => ({ ...b, average: b.average * f }));
+      return run({ strengthModel: "profiles", ourAttack }).winP;
+    });
+    for (let i = 1; i < profiled.length; i++) expect(profiled[i]).toBeGreaterThan(profiled[i - 1]);
+  });
+
+  it("loses the win chance gradually, not at a cliff, as the declaration comes later", () => {
+    const winP = [1, 2, 3, 4, 5].map((overs) => simulateOption({ ...DEFAULT_INPUTS, currentLead: 300 }, GROUND_PRESETS.generic, overs, 3000, 11).winP);
+    for (let i = 1; i < winP.length; i++) expect(winP[i - 1] - winP[i]).toBeLessThan(0.08);
+  });
+
+  it("puts the bias up for sensitivity only when the intent adapts", () => {
+    expect(sensitivityParams(DEFAULT_INPUTS).map((p) => p.field)).toContain("chaseIntentBias");
+    expect(sensitivityParams({ ...DEFAULT_INPUTS, chaseIntent: "pressure" }).map((p) => p.field)).not.toContain("chaseIntentBias");
+  });
+});
@@ -0,0 +1,76 @@
+import type { ChaseIntent, ChaseIntentModel, Inputs } from "./types.ts";
+
+// ---------- Opposition chase intent ----------
+// Each over the batting side decides whether the target is on: going hard at it, keeping it alive while
+// protecting wickets, or shutting up shop for the draw. Each intent scales their scoring and the wicket chance.
+
+export const CHASE_INTENT_LABELS: Record<ChaseIntentModel, string> = {
+  adaptive: "Adaptive: decide over by over",
+  pressure: "Pressure only: speed up when behind the rate, never block",
+  attack: "Always going for the win",
+  cautious: "Always keeping the chase alive",
+  block: "Always shutting up shop",
+};
+
+export const CHASE_INTENT_MODELS = Object.keys(CHASE_INTENT_LABELS) as ChaseIntentModel[];
+
+export const INTENT_EFFECTS: Record<ChaseIntent, { runs: number; wickets: number }> = {
+  attack: { runs: 1.2, wickets: 1.35 },
+  cautious: { runs: 0.9, wickets: 0.9 },
+  block: { runs: 0.5, wickets: 0.6 },
+};
+
+const ATTACK_STRETCH = 1.15; // asking rate, over their natural rate, they will still go hard at
+const LAST_HOUR_STRETCH = 1.4; // ...and in the last hour, when a gettable target brings a final push
+const BLOCK_STRETCH = 1.6; // beyond this the target is given up
+const LAST_HOUR_OVERS = 15;
+
+// Sides don't switch at an exact asking rate, so each threshold is a blend this wide rather than a step.
+// A step made a few more runs on the target flip the whole chase from going for it to blocking.
+const STRETCH_BLEND = 0.12;
+const WICKETS_BLEND = 0.75;
+const OVERS_BLEND = 2;
+
+export type IntentWeights = Record<ChaseIntent, number>;
+
+// How far past `edge` x is, from 0 well below it to 1 well above
+const past = (x: number, edge: number, width: number) => 1 / (1 + Math.exp((edge - x) / width));
+
+// The share of each intent in their approach this over, summing to 1.
+// bias runs from -1 (draw-minded) to 1 (win-minded) and moves the point at which they give up or go for it.
+export function intentWeights(requiredRpo: number, naturalRpo: number, wicketsInHand: number, oversLeft: number, bias = 0): IntentWeights {
+  const stretch = requiredRpo / Math.max(0.1, naturalRpo);
+  const nerve = 1 + 0.35 * bias;
+  const lastHour = past(LAST_HOUR_OVERS + 0.5, oversLeft, OVERS_BLEND);
+  const attackCutoff = (ATTACK_STRETCH + (LAST_HOUR_STRETCH - ATTACK_STRETCH) * lastHour) * nerve;
+
+  const goFor = past(attackCutoff, stretch, STRETCH_BLEND) * past(wicketsInHand, 3.5 - 2 * bias, WICKETS_BLEND);
+  const outOfReach = past(stretch, BLOCK_STRETCH * nerve, STRETCH_BLEND);
+  const tailExposed = past(3.5 - bias, wicketsInHand, WICKETS_BLEND) * past(stretch, nerve, STRETCH_BLEND);
+  const block = 1 - (1 - outOfReach) * (1 - tailExposed);
+  const attack = (1 - block) * goFor;
+  return { attack, cautious: 1 - attack - block, block };
+}
+
+// The intent with the largest share
+export function chooseIntent(requiredRpo: number, naturalRpo: number, wicketsInHand: number, oversLeft: number, bias = 0): ChaseIntent {
+  const weights = intentWeights(requiredRpo, naturalRpo, wicketsInHand, oversLeft, bias);
+  return (Object.keys(weights) as ChaseIntent[]).reduce((a, b) => (weights[b] > weights[a] ? b : a));
+}
+
+// How the over's intent scales their scoring and the wicket chance, and how much they still chase the asking
+// rate (0 when shutting up shop). Fixed intents apply in full; the pressure-only chase leaves everything at 1.
+export type IntentEffect = { runs: number; wickets: number; chasing: number };
+
+const NO_INTENT: IntentEffect = { runs: 1, wickets: 1, chasing: 1 };
+
+export function overEffect(inputs: Inputs, requiredRpo: number, naturalRpo: number, wicketsInHand: number, oversLeft: number): IntentEffect {
+  const model = inputs.chaseIntent ?? "adaptive";
+  if (model === "pressure") return NO_INTENT;
+  const weights: IntentWeights =
+    model === "adaptive"
+      ? intentWeights(requiredRpo, naturalRpo, wicketsInHand, oversLeft, inputs.chaseIntentBias ?? 0)
+      : { attack: 0, cautious: 0, block: 0, [model]: 1 };
+  const blend = (k: "runs" | "wickets") => weights.attack * INTENT_EFFECTS.attack[k] + weights.cautious * INTENT_EFFECTS.cautious[k] + weights.block * INTENT_EFFECTS.block[k];
+  return { runs: blend("runs"), wickets: blend("wickets"), chasing: 1 - weights.block };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS, DEFAULT_MATCH_STATE } from "./defaults.ts";
+import { applyLiveUpdate, ballsToOvers, isMatchOver, oversToBalls, validateLiveUpdate } from "./live.ts";
+import { declarationStatus, deriveInputs, type MatchState } from "./matchState.ts";
+
+const state = (patch: Partial<MatchState>): MatchState => ({ ...DEFAULT_MATCH_STATE, ...patch });
+
+describe("scorebook overs", () => {
+  it("converts between overs.balls and balls", () => {
+    expect(oversToBalls(121.3)).toBe(729);
+    expect(oversToBalls(0.4)).toBe(4);
+    expect(ballsToOvers(729)).toBeCloseTo(121.3);
+    expect(ballsToOvers(oversToBalls(55.5) + 1)).toBe(56);
+  });
+});
+
+describe("applyLiveUpdate", () => {
+  it("adds runs, wickets and overs to the innings in progress and the day", () => {
+    const next = applyLiveUpdate(DEFAULT_MATCH_STATE, { runs: 6, wickets: 1 });
+    expect(next.innings[2]).toEqual({ runs: 216, wickets: 5, overs: 56 });
+    expect(next.oversBowledToday).toBe(7);
+
+    const { inputs } = deriveInputs(next, DEFAULT_INPUTS);
+    expect(inputs).toMatchObject({ currentLead: 256, wicketsInHand: 5, oversLeftThisSession: 23, sessionsRemaining: 3 });
+  });
+
+  it("counts part overs by the ball", () => {
+    const next = applyLiveUpdate(state({ innings: [...DEFAULT_MATCH_STATE.innings.slice(0, 2), { runs: 0, wickets: 0, overs: 10.4 }] }), { runs: 1, wickets: 0, overs: 0.4 });
+    expect(next.innings[2].overs).toBeCloseTo(11.2);
+    expect(next.oversBowledToday).toBeCloseTo(6 + 4 / 6);
+  });
+
+  it("rolls into the next session when the session's overs are used", () => {
+    const next = applyLiveUpdate(state({ oversBowledToday: 29 }), { runs: 0, wickets: 0 });
+    expect(next).toMatchObject({ day: 5, session: 2, oversBowledToday: 30 });
+  });
+
+  it("closes a session early and loses its remaining overs", () => {
+    const next = applyLiveUpdate(state({ oversBowledToday: 20 }), { runs: 0, wickets: 0, endSession: true });
+    expect(next).toMatchObject({ session: 2, oversBowledToday: 30 });
+    expect(deriveInputs(next, DEFAULT_INPUTS).inputs.oversLeftThisSession).toBe(30);
+  });
+
+  it("doesn't close twice when the overs already ended the session", () => {
+    const next = applyLiveUpdate(state({ oversBowledToday: 29 }), { runs: 0, wickets: 0, endSession: true });
+    expect(next.session).toBe(2);
+  });
+
+  it("moves to the next morning at stumps", () => {
+    const next = applyLiveUpdate(state({ day: 4, session: 3, oversBowledToday: 89 }), { runs: 2, wickets: 0 });
+    expect(next).toMatchObject({ day: 5, session: 1, oversBowledToday: 0 });
+  });
+
+  it("stops at the end of the match", () => {
+    const next = applyLiveUpdate(state({ session: 3, oversBowledToday: 89 }), { runs: 2, wickets: 0 });
+    expect(next).toMatchObject({ day: 5, session: 3 });
+    expect(isMatchOver(next)).toBe(true);
+    expect(isMatchOver(applyLiveUpdate(next, { runs: 0, wickets: 0 }))).toBe(true);
+  });
+
+  it("starts the next innings after a declaration or the tenth wicket", () => {
+    const declared = applyLiveUpdate(DEFAULT_MATCH_STATE, { runs: 4, wickets: 0, declared: true });
+    expect(declared.innings).toHaveLength(4);
+    expect(declared.innings[2]).toMatchObject({ runs: 214, declared: true });
+    expect(declarationStatus(declared).legal).toBe(false);
+
+    const allOut = applyLiveUpdate(state({ innings: [...DEFAULT_MATCH_STATE.innings.slice(0, 2), { runs: 300, wickets: 9, overs: 80 }] }), { runs: 0, wickets: 2 });
+    expect(allOut.innings[2]).toMatchObject({ wickets: 10 });
+    expect(allOut.innings[2].declared).toBeUndefined();
+    expect(allOut.innings[3]).toEqual({ runs: 0, wickets: 0, overs: 0 });
+  });
+});
+
+describe("validateLiveUpdate", () => {
+  it("accepts whole overs and part overs", () => {
+    expect(validateLiveUpdate({ runs: 4, wickets: 1 })).toEqual([]);
+    expect(validateLiveUpdate({ runs: 0, wickets: 0, overs: 0.5 })).toEqual([]);
+  });
+
+  it("flags impossible updates", () => {
+    const fields = (u: Parameters<typeof validateLiveUpdate>[0]) => validateLiveUpdate(u).map((i) => i.field);
+    expect(fields({ runs: -1, wickets: 0 })).toEqual(["runs"]);
+    expect(fields({ runs: 0, wickets: 11 })).toEqual(["wickets"]);
+    expect(fields({ runs: 0, wickets: 0, overs: 0.6 })).toEqual(["overs"]);
+    expect(fields({ runs: 0, wickets: 0, overs: 1.25 })).toEqual(["overs"]);
+  });
+});
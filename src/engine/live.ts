@@ -0,0 +1,81 @@
+import { SESSIONS_PER_DAY, oversLeftInSession, type MatchState } from "./matchState.ts";
+import type { ValidationIssue } from "./validate.ts";
+
+// ---------- Live over-by-over updates ----------
+
+export type LiveUpdate = {
+  runs: number; // runs off the over, extras included
+  wickets: number;
+  overs?: number; // overs elapsed in scorebook notation (0.4 is four balls); a full over when omitted
+  endSession?: boolean; // interval, stumps or an early finish called straight after this update
+  declared?: boolean; // we declared at the end of this update
+};
+
+export const BALLS_PER_OVER = 6;
+
+// Scorebook overs (121.3 = 121 overs and 3 balls) to balls and back
+export function oversToBalls(overs: number) {
+  const whole = Math.floor(overs);
+  return whole * BALLS_PER_OVER + Math.round((overs - whole) * 10);
+}
+
+export function ballsToOvers(balls: number) {
+  return Math.floor(balls / BALLS_PER_OVER) + (balls % BALLS_PER_OVER) / 10;
+}
+
+export function validateLiveUpdate(update: LiveUpdate): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const push = (field: string, message: string) => issues.push({ field, message });
+  if (!Number.isInteger(update.runs) || update.runs < 0) push("runs", "must be a whole number of runs");
+  if (!Number.isInteger(update.wickets) || update.wickets < 0 || update.wickets > 10) push("wickets", "must be between 0 and 10");
+  if (update.overs !== undefined) {
+    const balls = update.overs - Math.floor(update.overs);
+    if (!(update.overs >= 0) || Math.round(balls * 10) >= BALLS_PER_OVER || Math.abs(balls * 10 - Math.round(balls * 10)) > 1e-6) {
+      push("overs", "must be in overs.balls notation, e.g. 1 or 0.4");
+    }
+  }
+  return issues;
+}
+
+// Last session of the last day with its overs used up
+export function isMatchOver(s: MatchState) {
+  return s.day >= s.scheduledDays && s.session >= SESSIONS_PER_DAY && oversLeftInSession(s) <= 0;
+}
+
+// An early close loses the rest of the session's overs rather than adding them to the next one
+function closeSession(s: MatchState): MatchState {
+  const perSession = s.minOversPerDay / SESSIONS_PER_DAY;
+  if (s.session < SESSIONS_PER_DAY) return { ...s, session: s.session + 1, oversBowledToday: Math.max(s.oversBowledToday, s.session * perSession) };
+  if (s.day < s.scheduledDays) return { ...s, day: s.day + 1, session: 1, oversBowledToday: 0 };
+  return { ...s, oversBowledToday: Math.max(s.oversBowledToday, s.minOversPerDay) };
+}
+
+// Moves into the next session, or the next day, once the current one has no overs left
+function rollSessions(s: MatchState): MatchState {
+  let next = s;
+  while (oversLeftInSession(next) <= 0 && !isMatchOver(next)) next = closeSession(next);
+  return next;
+}
+
+// Adds one update to the innings in progress and advances the clock. When an innings ends,
+// all out or declared, the next one starts at 0/0.
+export function applyLiveUpdate(state: MatchState, update: LiveUpdate): MatchState {
+  const balls = oversToBalls(update.overs ?? 1);
+  const innings = state.innings.slice();
+  const last = innings.length - 1;
+  const current = innings[last];
+  const wickets = Math.min(10, current.wickets + update.wickets);
+  innings[last] = {
+    ...current,
+    runs: current.runs + update.runs,
+    wickets,
+    overs: ballsToOvers(oversToBalls(current.overs) + balls),
+    ...(update.declared && wickets < 10 && { declared: true }),
+  };
+  if ((wickets >= 10 || update.declared) && innings.length < 4) innings.push({ runs: 0, wickets: 0, overs: 0 });
+
+  let next = rollSessions({ ...state, innings, oversBowledToday: state.oversBowledToday + balls / BALLS_PER_OVER });
+  // a session that already rolled over on overs doesn't close twice
+  if (update.endSession && next.day === state.day && next.session === state.session) next = rollSessions(closeSession(next));
+  return next;
+}
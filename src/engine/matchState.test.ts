@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS, DEFAULT_MATCH_STATE } from "./defaults.ts";
+import {
+  declarationStatus,
+  deriveInputs,
+  followOnLead,
+  inningsOrder,
+  oversLeftInSession,
+  sessionsLeftInMatch,
+  validateMatchState,
+  type MatchState,
+} from "./matchState.ts";
+
+const state = (patch: Partial<MatchState>): MatchState => ({ ...DEFAULT_MATCH_STATE, ...patch });
+
+describe("deriveInputs", () => {
+  it("derives lead, wickets, sessions and overs from the match state", () => {
+    const { inputs, issues, declaration } = deriveInputs(DEFAULT_MATCH_STATE, DEFAULT_INPUTS);
+    expect(issues).toEqual([]);
+    expect(declaration).toEqual({ legal: true, meaningful: true, reasons: [] });
+    expect(inputs).toMatchObject({
+      currentLead: 250,
+      wicketsInHand: 6,
+      sessionsRemaining: 3,
+      oversLeftThisSession: 24,
+      oversPerSession: 30,
+    });
+    expect(inputs.opponentBattingStrength).toBe(DEFAULT_INPUTS.opponentBattingStrength);
+  });
+});
+
+describe("session clock", () => {
+  it("counts sessions left including the current one", () => {
+    expect(sessionsLeftInMatch(state({ day: 4, session: 2 }))).toBe(5);
+  });
+
+  it("stretches the last session so the day's minimum overs get bowled", () => {
+    expect(oversLeftInSession(state({ session: 2, oversBowledToday: 40 }))).toBe(20);
+    expect(oversLeftInSession(state({ session: 3, oversBowledToday: 52 }))).toBe(38);
+  });
+});
+
+describe("declarationStatus", () => {
+  it("follows an enforced follow-on when deciding who bats", () => {
+    expect(inningsOrder({ battingFirst: "us", followOnEnforced: true })).toEqual(["us", "them", "them", "us"]);
+  });
+
+  it("flags that only the batting side can declare", () => {
+    const s = state({ battingFirst: "them" });
+    expect(declarationStatus(s).legal).toBe(false);
+  });
+
+  it("flags second-innings declarations as outside the model", () => {
+    const s = state({ battingFirst: "them", innings: [{ runs: 300, wickets: 10, overs: 100 }, { runs: 150, wickets: 3, overs: 40 }] });
+    expect(declarationStatus(s)).toMatchObject({ legal: true, meaningful: false });
+  });
+
+  it("flags a third-innings declaration while we trail", () => {
+    const s = state({
+      innings: [
+        { runs: 200, wickets: 10, overs: 70 },
+        { runs: 400, wickets: 10, overs: 120 },
+        { runs: 150, wickets: 3, overs: 40 },
+      ],
+    });
+    const status = declarationStatus(s);
+    expect(status.meaningful).toBe(false);
+    expect(status.reasons[0]).toMatch(/trail by 50/);
+  });
+});
+
+describe("validateMatchState", () => {
+  it("rejects contradictory scorecards and clocks", () => {
+    const s = state({
+      day: 6,
+      oversBowledToday: 60,
+      innings: [
+        { runs: 420, wickets: 7, overs: 128 },
+        { runs: 380, wickets: 10, overs: 121 },
+        { runs: 210, wickets: 10, overs: 55 },
+      ],
+    });
+    expect(validateMatchState(s).map((i) => i.field)).toEqual(["day", "oversBowledToday", "innings[0].wickets", "innings[2]"]);
+  });
+
+  it("only allows the follow-on with a big enough first-innings lead", () => {
+    const s = state({ followOnEnforced: true });
+    expect(validateMatchState(s)).toEqual([{ field: "followOnEnforced", message: "needs a first-innings lead of at least 200" }]);
+    expect([followOnLead(5), followOnLead(4), followOnLead(2)]).toEqual([200, 150, 100]);
+  });
+
+  it("reports match-state problems instead of deriving nonsense", () => {
+    const { issues } = deriveInputs(state({ session: 4 }), DEFAULT_INPUTS);
+    expect(issues.map((i) => i.field)).toContain("session");
+  });
+});
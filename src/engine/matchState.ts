@@ -0,0 +1,171 @@
+import type { Inputs } from "./types.ts";
+import { MAX_SCHEDULED_DAYS, validateInputs, type ValidationIssue } from "./validate.ts";
+
+// ---------- Whole-match state ----------
+
+export type Side = "us" | "them";
+
+export type InningsScore = {
+  runs: number;
+  wickets: number;
+  overs: number;
+  declared?: boolean;
+};
+
+export type MatchState = {
+  scheduledDays: number; // 5 for a standard Test
+  day: number; // 1-based
+  session: number; // 1..3 within the day
+  oversBowledToday: number;
+  minOversPerDay: number; // 90 in Tests; split evenly across three sessions
+
+  battingFirst: Side;
+  followOnEnforced: boolean; // side batting second batted again straight away
+  innings: InningsScore[]; // completed innings plus the one in progress, in match order
+};
+
+export const SESSIONS_PER_DAY = 3;
+
+// Who bats in each innings, honouring an enforced follow-on
+export function inningsOrder(state: Pick<MatchState, "battingFirst" | "followOnEnforced">): Side[] {
+  const a = state.battingFirst;
+  const b: Side = a === "us" ? "them" : "us";
+  return state.followOnEnforced ? [a, b, b, a] : [a, b, a, b];
+}
+
+// First-innings lead that lets the side batting first enforce the follow-on (Law 14)
+export function followOnLead(scheduledDays: number) {
+  return scheduledDays >= 5 ? 200 : scheduledDays >= 3 ? 150 : 100;
+}
+
+// Runs each side has scored across the innings entered so far
+export function sideTotals(state: MatchState) {
+  const order = inningsOrder(state);
+  const totals = { us: 0, them: 0 };
+  state.innings.forEach((inn, i) => {
+    totals[order[i]] += inn.runs;
+  });
+  return totals;
+}
+
+// The scheduled day is split into equal sessions; the last one stretches so the day's minimum overs get bowled
+export function oversLeftInSession(state: MatchState) {
+  const perSession = state.minOversPerDay / SESSIONS_PER_DAY;
+  if (state.session >= SESSIONS_PER_DAY) return Math.max(0, state.minOversPerDay - state.oversBowledToday);
+  return Math.max(0, state.session * perSession - state.oversBowledToday);
+}
+
+export function sessionsLeftInMatch(state: MatchState) {
+  return SESSIONS_PER_DAY - state.session + 1 + (state.scheduledDays - state.day) * SESSIONS_PER_DAY;
+}
+
+export type DeclarationStatus = {
+  legal: boolean; // we are batting, so a declaration is ours to make
+  meaningful: boolean; // the advisor's third-innings model applies
+  reasons: string[];
+};
+
+export function declarationStatus(state: MatchState): DeclarationStatus {
+  const reasons: string[] = [];
+  const order = inningsOrder(state);
+  const current = state.innings.length - 1;
+  if (current < 0) return { legal: false, meaningful: false, reasons: ["No innings entered yet."] };
+
+  const batting = order[current];
+  const legal = batting === "us";
+  if (!legal) reasons.push("The opposition is batting, so there is nothing for us to declare.");
+
+  let meaningful = legal;
+  if (legal && current < 2) {
+    meaningful = false;
+    reasons.push(
+      current === 0
+        ? "This is the first innings; declaring now hands the opposition a first innings, not a fourth-innings chase. The first-innings declaration panel plays out the rest of the match instead."
+        : "This is only the second innings; the opposition still has another innings to come."
+    );
+  }
+  if (legal && current === 3) {
+    meaningful = false;
+    reasons.push("We are batting last and chasing; there is no target to set.");
+  }
+  if (legal && current === 2) {
+    const totals = sideTotals(state);
+    const lead = totals.us - totals.them;
+    if (lead <= 0) {
+      meaningful = false;
+      reasons.push(`We trail by ${-lead}; declaring now would hand them the win.`);
+    }
+  }
+  return { legal, meaningful, reasons };
+}
+
+// Cross-field checks on the match state itself
+export function validateMatchState(state: MatchState): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const push = (field: string, message: string) => issues.push({ field, message });
+
+  if (!Number.isInteger(state.scheduledDays) || state.scheduledDays < 1 || state.scheduledDays > MAX_SCHEDULED_DAYS) {
+    push("scheduledDays", `must be a whole number between 1 and ${MAX_SCHEDULED_DAYS}`);
+  }
+  if (!Number.isInteger(state.day) || state.day < 1 || state.day > state.scheduledDays) push("day", `must be between 1 and ${state.scheduledDays}`);
+  if (!Number.isInteger(state.session) || state.session < 1 || state.session > SESSIONS_PER_DAY) push("session", `must be between 1 and ${SESSIONS_PER_DAY}`);
+  if (!(state.minOversPerDay > 0)) push("minOversPerDay", "must be positive");
+  if (!(state.oversBowledToday >= 0)) push("oversBowledToday", "must be zero or more");
+  const perSession = state.minOversPerDay / SESSIONS_PER_DAY;
+  if (state.oversBowledToday > state.minOversPerDay + 15) {
+    push("oversBowledToday", "is more than a day's play");
+  } else if (state.session < SESSIONS_PER_DAY && state.oversBowledToday > state.session * perSession + 5) {
+    push("oversBowledToday", `is too many to still be in session ${state.session}`);
+  }
+
+  if (state.innings.length < 1 || state.innings.length > 4) push("innings", "must list between 1 and 4 innings");
+
+  const last = state.innings.length - 1;
+  state.innings.forEach((inn, i) => {
+    const f = `innings[${i}]`;
+    if (!Number.isInteger(inn.runs) || inn.runs < 0) push(`${f}.runs`, "must be a whole number of runs");
+    if (!Number.isInteger(inn.wickets) || inn.wickets < 0 || inn.wickets > 10) push(`${f}.wickets`, "must be between 0 and 10");
+    if (!(inn.overs >= 0)) push(`${f}.overs`, "must be zero or more");
+    if (i < last && inn.wickets < 10 && !inn.declared) push(`${f}.wickets`, "a completed innings must be all out or declared");
+    if (i === last && (inn.wickets >= 10 || inn.declared)) push(`${f}`, "the innings in progress cannot be finished; add the next innings");
+  });
+
+  if (state.followOnEnforced) {
+    const [first, second] = state.innings;
+    const threshold = followOnLead(state.scheduledDays);
+    if (!first || !second || state.innings.length < 3) {
+      push("followOnEnforced", "needs both first innings complete");
+    } else if (first.runs - second.runs < threshold) {
+      push("followOnEnforced", `needs a first-innings lead of at least ${threshold}`);
+    }
+  }
+
+  return issues;
+}
+
+export type MatchStateDerivation = {
+  inputs: Inputs; // base inputs with lead, wickets, sessions and overs filled in from the state
+  issues: ValidationIssue[]; // match-state contradictions, then any problems in the derived inputs
+  declaration: DeclarationStatus;
+};
+
+// Fills in the clock and scoreboard fields of Inputs; everything else comes from `base`
+export function deriveInputs(state: MatchState, base: Inputs): MatchStateDerivation {
+  const totals = sideTotals(state);
+  const current = state.innings[state.innings.length - 1];
+
+  const inputs: Inputs = {
+    ...base,
+    oversPerSession: state.minOversPerDay / SESSIONS_PER_DAY,
+    sessionsRemaining: sessionsLeftInMatch(state),
+    oversLeftThisSession: oversLeftInSession(state),
+    currentLead: totals.us - totals.them,
+    wicketsInHand: current ? 10 - current.wickets : base.wicketsInHand,
+    sessionOfDay: state.session,
+    matchDay: state.day,
+  };
+
+  const stateIssues = validateMatchState(state);
+  const issues = stateIssues.length > 0 ? stateIssues : validateInputs(inputs);
+  return { inputs, issues, declaration: declarationStatus(state) };
+}
@@ -0,0 +1,27 @@
+// ---------- Per-sweep caches ----------
+// A sweep simulates the same inputs, ground and rates thousands of times, so tables derived from them
+// are built once and kept for as long as those objects live.
+
+type Node = { next: WeakMap<object, Node>; built: boolean; value?: unknown };
+
+const node = (): Node => ({ next: new WeakMap(), built: false });
+
+export function weakMemo<K extends object[], R>(build: (...keys: K) => R): (...keys: K) => R {
+  const root = node();
+  return (...keys: K): R => {
+    let at = root;
+    for (const key of keys) {
+      let child = at.next.get(key);
+      if (!child) {
+        child = node();
+        at.next.set(key, child);
+      }
+      at = child;
+    }
+    if (!at.built) {
+      at.value = build(...keys);
+      at.built = true;
+    }
+    return at.value as R;
+  };
+}
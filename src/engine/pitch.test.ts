@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { CALIBRATION } from "./calibration.ts";
+import { DEFAULT_INPUTS } from "./defaults.ts";
+import { GROUND_PRESETS } from "./grounds.ts";
+import { attackAssist, currentMatchDay, defaultDeterioration, dayPosition, pitchWear, wearAt } from "./pitch.ts";
+import { simulateOption } from "./simulate.ts";
+
+const rates = CALIBRATION.baseline;
+
+describe("wearAt", () => {
+  const curve = [{ wickets: 1, runs: 1 }, { wickets: 1.21, runs: 0.81 }, { wickets: 1.5, runs: 0.7 }];
+
+  it("joins days geometrically", () => {
+    expect(wearAt(curve, 1)).toEqual(curve[0]);
+    expect(wearAt(curve, 1.5).wickets).toBeCloseTo(1.1);
+    expect(wearAt(curve, 1.5).runs).toBeCloseTo(0.9);
+  });
+
+  it("carries the last day-on-day change past the end of the curve", () => {
+    expect(wearAt(curve, 4).wickets).toBeCloseTo(1.5 * (1.5 / 1.21));
+    expect(wearAt([{ wickets: 1.2, runs: 1 }], 6)).toEqual({ wickets: 1.2, runs: 1 });
+  });
+});
+
+describe("defaultDeterioration", () => {
+  it("spreads the calibrated drift over whole days", () => {
+    const curve = defaultDeterioration(rates, 90);
+    expect(curve).toHaveLength(5);
+    expect(curve[0]).toEqual({ wickets: 1, runs: 1 });
+    expect(curve[2].wickets).toBeCloseTo(Math.pow(rates.wicketDriftPer20, 9));
+  });
+});
+
+describe("match day and position", () => {
+  it("assumes the remaining sessions end a five-day Test unless told the day", () => {
+    expect(currentMatchDay({ ...DEFAULT_INPUTS, sessionsRemaining: 3 })).toBe(5);
+    expect(currentMatchDay({ ...DEFAULT_INPUTS, sessionsRemaining: 7 })).toBe(3);
+    expect(currentMatchDay({ ...DEFAULT_INPUTS, matchDay: 4 })).toBe(4);
+  });
+
+  it("counts overs already bowled today", () => {
+    const inputs = { ...DEFAULT_INPUTS, matchDay: 5, sessionOfDay: 2, oversLeftThisSession: 20 };
+    expect(dayPosition(inputs, 0)).toBeCloseTo(5 + 40 / 90);
+    expect(dayPosition(inputs, 45)).toBeCloseTo(5 + 85 / 90);
+  });
+});
+
+describe("pitchWear", () => {
+  it("starts at the pitch as it is now and follows the calibrated drift", () => {
+    const wear = pitchWear(DEFAULT_INPUTS, GROUND_PRESETS.generic, rates);
+    expect(wear.wickets[0]).toBeCloseTo(1);
+    expect(wear.wickets[20]).toBeCloseTo(rates.wicketDriftPer20);
+    expect(wear.runs[40]).toBeCloseTo(Math.pow(rates.rpoDriftPer20, 2));
+    expect(pitchWear(DEFAULT_INPUTS, GROUND_PRESETS.generic, rates)).toBe(wear);
+  });
+});
+
+describe("attackAssist", () => {
+  it("is neutral on a plain surface and weights spin by its share of the overs", () => {
+    expect(attackAssist({})).toBe(1);
+    expect(attackAssist({ spinAssist: 1.4 }, 0.5)).toBeCloseTo(1.2);
+    expect(attackAssist({ paceAssist: 1.1, bounce: 1.1, spinAssist: 0.8 }, 0)).toBeCloseTo(1.21);
+  });
+});
+
+describe("chase on a wearing pitch", () => {
+  it("wins more often when the pitch breaks up faster", () => {
+    const flat = { ...GROUND_PRESETS.generic, deterioration: [{ wickets: 1, runs: 1 }, { wickets: 1, runs: 1 }] };
+    const crumbling = { ...GROUND_PRESETS.generic, deterioration: [{ wickets: 1, runs: 1 }, { wickets: 1.4, runs: 0.9 }] };
+    const inputs = { ...DEFAULT_INPUTS, matchDay: 5 };
+    const base = simulateOption(inputs, flat, 6, 3000, 7);
+    const worn = simulateOption(inputs, crumbling, 6, 3000, 7);
+    expect(worn.winP).toBeGreaterThan(base.winP + 0.02);
+  });
+});
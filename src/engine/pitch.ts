@@ -0,0 +1,70 @@
+import type { ChaseRates } from "./calibration.ts";
+import { SESSIONS_PER_DAY } from "./matchState.ts";
+import { weakMemo } from "./memo.ts";
+import { scheduledOvers } from "./policy.ts";
+import type { DayWear, GroundPreset, Inputs } from "./types.ts";
+import { STANDARD_TEST_DAYS } from "./validate.ts";
+
+// ---------- Pitch assistance and deterioration ----------
+// pitchBowlingFactor describes the pitch as it is now; a ground's deterioration curve says how it
+// changes from here, so the chase scales its hazard and scoring by wear relative to the current day.
+
+export const DEFAULT_SPIN_SHARE = 0.35;
+
+// Extra help our attack gets from this surface: seamers from pace and bounce, spinners from turn
+export function attackAssist(ground: Pick<GroundPreset, "bounce" | "paceAssist" | "spinAssist">, spinShare = DEFAULT_SPIN_SHARE) {
+  const pace = (ground.paceAssist ?? 1) * (ground.bounce ?? 1);
+  const spin = ground.spinAssist ?? 1;
+  return (1 - spinShare) * pace + spinShare * spin;
+}
+
+// The calibrated per-20-over drift spread over whole days, for grounds without a curve of their own
+export function defaultDeterioration(rates: ChaseRates, oversPerDay: number, days = STANDARD_TEST_DAYS): DayWear[] {
+  const steps = oversPerDay / 20;
+  return Array.from({ length: days }, (_, d) => ({
+    wickets: Math.pow(rates.wicketDriftPer20, steps * d),
+    runs: Math.pow(rates.rpoDriftPer20, steps * d),
+  }));
+}
+
+// Entry d is the pitch at the start of day d + 1, so day 1.5 is halfway through day one. Changes compound,
+// so days are joined geometrically, and past the last entry its day-on-day change carries on.
+export function wearAt(curve: DayWear[], day: number): DayWear {
+  if (curve.length === 0) return { wickets: 1, runs: 1 };
+  if (curve.length === 1) return curve[0];
+  const i = Math.max(day - 1, 0);
+  const lo = Math.min(Math.floor(i), curve.length - 2);
+  const f = i - lo;
+  const a = curve[lo], b = curve[lo + 1];
+  return { wickets: a.wickets * Math.pow(b.wickets / a.wickets, f), runs: a.runs * Math.pow(b.runs / a.runs, f) };
+}
+
+// Today's day of the match; without one, the remaining sessions are assumed to end a five-day Test
+export function currentMatchDay(inputs: Inputs) {
+  return inputs.matchDay ?? Math.max(1, STANDARD_TEST_DAYS - Math.ceil(inputs.sessionsRemaining / SESSIONS_PER_DAY) + 1);
+}
+
+// Position in the match, in days from the start of day one, `oversFromNow` overs of play ahead
+export function dayPosition(inputs: Inputs, oversFromNow: number) {
+  const oversPerDay = inputs.oversPerSession * SESSIONS_PER_DAY;
+  const bowledToday = ((inputs.sessionOfDay ?? 1) - 1) * inputs.oversPerSession + Math.max(0, inputs.oversPerSession - inputs.oversLeftThisSession);
+  return currentMatchDay(inputs) + (bowledToday + oversFromNow) / oversPerDay;
+}
+
+// Wear relative to now for each over from now to the end of the match, one entry per over
+export type WearTable = { wickets: Float64Array; runs: Float64Array };
+
+export const pitchWear = weakMemo((inputs: Inputs, ground: Pick<GroundPreset, "deterioration">, rates: ChaseRates): WearTable => {
+  const curve = ground.deterioration ?? defaultDeterioration(rates, inputs.oversPerSession * SESSIONS_PER_DAY);
+  const start = dayPosition(inputs, 0);
+  const perOver = 1 / (inputs.oversPerSession * SESSIONS_PER_DAY);
+  const now = wearAt(curve, start);
+  const overs = Math.ceil(scheduledOvers(inputs)) + 1;
+  const table: WearTable = { wickets: new Float64Array(overs), runs: new Float64Array(overs) };
+  for (let o = 0; o < overs; o++) {
+    const then = wearAt(curve, start + o * perOver);
+    table.wickets[o] = then.wickets / now.wickets;
+    table.runs[o] = then.runs / now.runs;
+  }
+  return table;
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS } from "./defaults.ts";
+import { declarationPolicies, evaluateAllOptions } from "./evaluate.ts";
+import { GROUND_PRESETS } from "./grounds.ts";
+import { alternativePolicies, policyKey, policyLabel, policyOverCap, policySeedOffset, type DeclarationPolicy } from "./policy.ts";
+import { rng } from "./random.ts";
+import { batOn, simulateOption, simulatePolicy } from "./simulate.ts";
+
+const preset = GROUND_PRESETS.generic;
+
+describe("policy helpers", () => {
+  it("labels and keys each kind", () => {
+    expect(policyLabel({ kind: "overs", overs: 0 })).toBe("Declare now");
+    expect(policyLabel({ kind: "lead", lead: 350 })).toBe("Declare at a lead of 350");
+    expect(policyLabel({ kind: "session", breaks: 1 })).toBe("Declare at this session's break");
+    expect(policyKey({ kind: "hybrid", lead: 350, overs: 20 })).toBe("hybrid:350:20");
+  });
+
+  it("caps batting-on time per policy", () => {
+    expect(policyOverCap({ kind: "session", breaks: 1 }, DEFAULT_INPUTS)).toBe(DEFAULT_INPUTS.oversLeftThisSession);
+    expect(policyOverCap({ kind: "session", breaks: 2 }, DEFAULT_INPUTS)).toBe(DEFAULT_INPUTS.oversLeftThisSession + 30);
+    expect(policyOverCap({ kind: "hybrid", lead: 500, overs: 20 }, DEFAULT_INPUTS)).toBe(20);
+  });
+
+  it("keeps the historical per-K seed offsets and separates the rest", () => {
+    expect(policySeedOffset({ kind: "overs", overs: 7 })).toBe(707);
+    expect(policySeedOffset({ kind: "lead", lead: 300 })).not.toBe(policySeedOffset({ kind: "lead", lead: 350 }));
+  });
+
+  it("only offers session breaks that exist", () => {
+    const policies = alternativePolicies({ ...DEFAULT_INPUTS, sessionsRemaining: 2 }, { leadTargets: [], sessionBreaks: 3, hybridOvers: null });
+    expect(policies).toEqual([{ kind: "session", breaks: 1 }]);
+  });
+});
+
+describe("batting on under a policy", () => {
+  const steady = { ...DEFAULT_INPUTS, continueBattingWicketProbPerOver: 0 };
+
+  it("declares immediately when the lead target is already reached", () => {
+    expect(batOn(steady, { kind: "lead", lead: 200 }, rng(1))).toEqual({ runs: 0, wickets: 0, overs: 0 });
+  });
+
+  it("declares at the first over end where the lead reaches the target", () => {
+    const out = batOn(steady, { kind: "lead", lead: 300 }, rng(2));
+    expect(steady.currentLead + out.runs).toBeGreaterThanOrEqual(300);
+    expect(out.overs).toBeGreaterThan(0);
+  });
+
+  it("stops a hybrid policy at whichever limit comes first", () => {
+    expect(batOn(steady, { kind: "hybrid", lead: 5000, overs: 12 }, rng(3)).overs).toBe(12);
+    expect(batOn(steady, { kind: "hybrid", lead: 250, overs: 12 }, rng(3)).overs).toBe(0);
+  });
+
+  it("matches simulateOption for fixed-over policies", () => {
+    expect(simulatePolicy(DEFAULT_INPUTS, preset, { kind: "overs", overs: 9 }, 100, 5)).toEqual(simulateOption(DEFAULT_INPUTS, preset, 9, 100, 5));
+  });
+});
+
+describe("sweeping alternative policies", () => {
+  it("ranks lead, session and hybrid policies alongside the K-over options", () => {
+    const policies = declarationPolicies(DEFAULT_INPUTS, { leadTargets: [300, 350], sessionBreaks: 1, hybridOvers: 20 });
+    const { options } = evaluateAllOptions(DEFAULT_INPUTS, 100, 1, policies);
+    const kinds = new Set(options.map((o) => o.policy.kind));
+    expect(kinds).toEqual(new Set<DeclarationPolicy["kind"]>(["overs", "lead", "session", "hybrid"]));
+    expect(new Set(options.map((o) => o.key)).size).toBe(options.length);
+    for (const o of options) expect(o.winP + o.drawP + o.lossP).toBeCloseTo(1, 10);
+  });
+});
@@ -0,0 +1,109 @@
+import type { Inputs } from "./types.ts";
+
+// ---------- Declaration policies ----------
+
+// How the captain decides when to declare while batting on
+export type DeclarationPolicy =
+  | { kind: "overs"; overs: number } // bat exactly K more overs
+  | { kind: "lead"; lead: number } // declare as soon as the lead reaches X
+  | { kind: "session"; breaks: number } // declare at a session break; 1 = the end of the current session
+  | { kind: "hybrid"; lead: number; overs: number }; // lead X or K overs, whichever comes first
+
+// Stable identity used for table rows, seeding and merging adaptive batches
+export function policyKey(policy: DeclarationPolicy) {
+  switch (policy.kind) {
+    case "overs":
+      return `overs:${policy.overs}`;
+    case "lead":
+      return `lead:${policy.lead}`;
+    case "session":
+      return `session:${policy.breaks}`;
+    case "hybrid":
+      return `hybrid:${policy.lead}:${policy.overs}`;
+  }
+}
+
+export function optionLabel(declareAfterOvers: number) {
+  return declareAfterOvers === 0 ? "Declare now" : `Declare in ${declareAfterOvers} over${declareAfterOvers === 1 ? "" : "s"}`;
+}
+
+export function policyLabel(policy: DeclarationPolicy) {
+  switch (policy.kind) {
+    case "overs":
+      return optionLabel(policy.overs);
+    case "lead":
+      return `Declare at a lead of ${policy.lead}`;
+    case "session":
+      return policy.breaks === 1 ? "Declare at this session's break" : `Declare at session break ${policy.breaks}`;
+    case "hybrid":
+      return `Declare at a lead of ${policy.lead} or in ${policy.overs} overs`;
+  }
+}
+
+// Overs of play left in the match, before any weather
+export function scheduledOvers(inputs: Inputs) {
+  return inputs.oversLeftThisSession + Math.max(0, inputs.sessionsRemaining - 1) * inputs.oversPerSession;
+}
+
+// Overs in each remaining session, the current one first, before any weather
+export function scheduledSessionOvers(inputs: Inputs) {
+  return Array.from({ length: inputs.sessionsRemaining }, (_, i) => (i === 0 ? inputs.oversLeftThisSession : inputs.oversPerSession));
+}
+
+// Most overs the policy can spend batting; lead policies may run out of time before the lead is reached.
+// `sessions` is the play each session actually offers, when weather has been sampled.
+export function policyOverCap(policy: DeclarationPolicy, inputs: Inputs, sessions = scheduledSessionOvers(inputs)) {
+  const total = sessions.reduce((a, b) => a + b, 0);
+  switch (policy.kind) {
+    case "overs":
+      return Math.min(total, policy.overs);
+    case "lead":
+      return total;
+    case "session":
+      return Math.min(total, sessions.slice(0, policy.breaks).reduce((a, b) => a + b, 0));
+    case "hybrid":
+      return Math.min(total, policy.overs);
+  }
+}
+
+// Lead at which the policy declares, if it watches the lead at all
+export function policyLeadTarget(policy: DeclarationPolicy) {
+  return policy.kind === "lead" || policy.kind === "hybrid" ? policy.lead : undefined;
+}
+
+// Fixed-over policies keep the per-K seed offsets the sweep has always used; others hash their key clear of them
+export function policySeedOffset(policy: DeclarationPolicy) {
+  if (policy.kind === "overs") return policy.overs * 101;
+  let h = 0x811c9dc5;
+  for (const ch of policyKey(policy)) {
+    h = Math.imul(h ^ ch.charCodeAt(0), 0x01000193);
+  }
+  return 10007 + ((h >>> 0) % 100000);
+}
+
+// ---------- Policy sets ----------
+
+export type AlternativePolicySettings = {
+  leadTargets: number[]; // declare-at-lead thresholds
+  sessionBreaks: number; // how many upcoming session breaks to offer
+  hybridOvers: number | null; // over cap paired with each lead target; null for no hybrids
+};
+
+export const NO_ALTERNATIVES: AlternativePolicySettings = { leadTargets: [], sessionBreaks: 0, hybridOvers: null };
+
+// Lead thresholds a captain would typically consider from the current lead
+export function suggestedLeadTargets(inputs: Inputs) {
+  const base = Math.ceil(Math.max(0, inputs.currentLead) / 25) * 25;
+  return [50, 100, 150].map((d) => base + d);
+}
+
+export function alternativePolicies(inputs: Inputs, settings: AlternativePolicySettings): DeclarationPolicy[] {
+  const out: DeclarationPolicy[] = [];
+  for (const lead of settings.leadTargets) out.push({ kind: "lead", lead });
+  const breaks = Math.min(settings.sessionBreaks, Math.max(0, inputs.sessionsRemaining - 1));
+  for (let b = 1; b <= breaks; b++) out.push({ kind: "session", breaks: b });
+  if (settings.hybridOvers !== null) {
+    for (const lead of settings.leadTargets) out.push({ kind: "hybrid", lead, overs: settings.hybridOvers });
+  }
+  return out;
+}
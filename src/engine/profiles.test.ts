@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ATTACK, DEFAULT_BATTING_ORDER, DEFAULT_INPUTS } from "./defaults.ts";
+import { GROUND_PRESETS } from "./grounds.ts";
+import { attackAssist } from "./pitch.ts";
+import {
+  attackSpinShare,
+  attackStrength,
+  battingStrength,
+  bowlerQuality,
+  bowlingShares,
+  carriedFatigue,
+  fatigueFactor,
+  orderStrength,
+  usesProfiles,
+} from "./profiles.ts";
+import { sensitivityParams } from "./sensitivity.ts";
+import { simulateOption } from "./simulate.ts";
+import type { BowlerProfile, Inputs } from "./types.ts";
+
+const withAttack = (ourAttack: BowlerProfile[], patch: Partial<Inputs> = {}): Inputs => ({
+  ...DEFAULT_INPUTS,
+  strengthModel: "profiles",
+  ourAttack,
+  ...patch,
+});
+
+describe("sliders", () => {
+  it("turn 50 into a typical side", () => {
+    const inputs = { ...DEFAULT_INPUTS, opponentBattingStrength: 60, ourBowlingStrength: 50, spinShare: 0.5 };
+    expect(battingStrength(inputs)).toEqual({ resistance: 1.2, tempo: 1.2 });
+    const spinning = { ...GROUND_PRESETS.generic, spinAssist: 1.4 };
+    expect(attackStrength(inputs, spinning).wickets[0]).toBeCloseTo(attackAssist(spinning, 0.5));
+  });
+
+  it("stand in until both profiles are filled", () => {
+    expect(usesProfiles({ ...DEFAULT_INPUTS, strengthModel: "profiles" })).toBe(false);
+    expect(usesProfiles(withAttack(DEFAULT_ATTACK))).toBe(true);
+  });
+});
+
+describe("batting profiles", () => {
+  it("rate the typical order as a typical side", () => {
+    const typical = orderStrength(DEFAULT_BATTING_ORDER);
+    expect(typical.resistance).toBeCloseTo(1, 1);
+    expect(typical.tempo).toBeCloseTo(1, 1);
+  });
+
+  it("scale resistance with averages and tempo with strike rates", () => {
+    const doubled = orderStrength(DEFAULT_BATTING_ORDER.map((b) => ({ ...b, average: b.average * 2 })));
+    expect(doubled.resistance).toBeCloseTo(orderStrength(DEFAULT_BATTING_ORDER).resistance * 2);
+    expect(doubled.tempo).toBeCloseTo(orderStrength(DEFAULT_BATTING_ORDER).tempo);
+  });
+});
+
+describe("bowling profiles", () => {
+  const seamer: BowlerProfile = { name: "A", kind: "pace", average: 32, economy: 3.2, oversBowled: 0, fitness: 1 };
+
+  it("compares a bowler's wickets and runs per over with a typical one", () => {
+    expect(bowlerQuality(seamer)).toEqual({ wickets: 1, runs: 1 });
+    expect(bowlerQuality({ ...seamer, average: 16 }).wickets).toBeCloseTo(2);
+  });
+
+  it("tires bowlers past their workload, sooner when unfit, up to a limit", () => {
+    expect(fatigueFactor(30, 1)).toBe(1);
+    expect(fatigueFactor(30, 0.5)).toBeLessThan(1);
+    expect(fatigueFactor(1000, 1)).toBeCloseTo(0.7);
+  });
+
+  it("counts the whole stint when the attack goes straight back out", () => {
+    expect(carriedFatigue(0, 50)).toBe(1);
+    expect(carriedFatigue(80, 0)).toBeLessThan(1);
+    expect(carriedFatigue(80, 40)).toBeLessThan(carriedFatigue(80, 0));
+    expect(carriedFatigue(1000, 0)).toBeCloseTo(0.7);
+  });
+
+  it("gives more overs to fitter, better bowlers", () => {
+    const shares = bowlingShares(DEFAULT_ATTACK);
+    expect(shares.reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+    expect(shares[0]).toBeGreaterThan(shares[2]);
+    expect(shares[4]).toBe(Math.min(...shares));
+    expect(attackSpinShare([seamer, { ...seamer, kind: "spin" }])).toBeCloseTo(0.5);
+  });
+
+  it("lose penetration through the chase and use the surface that suits them", () => {
+    const generic = GROUND_PRESETS.generic;
+    const table = attackStrength(withAttack([{ ...seamer, oversBowled: 40 }]), generic);
+    expect(table.wickets[0]).toBeCloseTo(1);
+    expect(table.wickets[60]).toBeLessThan(table.wickets[0]);
+    expect(table.runs[60]).toBeGreaterThan(table.runs[0]);
+
+    const turning = { ...generic, spinAssist: 1.3, paceAssist: 0.9 };
+    expect(attackStrength(withAttack([{ ...seamer, kind: "spin" }]), turning).wickets[0]).toBeCloseTo(1.3);
+    expect(attackStrength(withAttack([seamer]), turning).wickets[0]).toBeCloseTo(0.9);
+  });
+});
+
+describe("chase under player profiles", () => {
+  it("wins more often with a sharper, fresher attack", () => {
+    const tired = DEFAULT_ATTACK.map((b) => ({ ...b, oversBowled: 60, fitness: 0.6 }));
+    const sharp = DEFAULT_ATTACK.map((b) => ({ ...b, average: b.average * 0.8 }));
+    const base = simulateOption(withAttack(DEFAULT_ATTACK), GROUND_PRESETS.generic, 6, 3000, 5).winP;
+    expect(simulateOption(withAttack(tired), GROUND_PRESETS.generic, 6, 3000, 5).winP).toBeLessThan(base - 0.02);
+    expect(simulateOption(withAttack(sharp), GROUND_PRESETS.generic, 6, 3000, 5).winP).toBeGreaterThan(base + 0.02);
+  });
+
+  it("drops the strength sliders from the sensitivity inputs", () => {
+    const fields = sensitivityParams(withAttack(DEFAULT_ATTACK)).map((p) => p.field);
+    expect(fields).not.toContain("ourBowlingStrength");
+    expect(fields).toContain("pitchBowlingFactor");
+  });
+});
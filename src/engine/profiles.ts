@@ -0,0 +1,110 @@
+import { weakMemo } from "./memo.ts";
+import { DEFAULT_SPIN_SHARE, attackAssist } from "./pitch.ts";
+import { scheduledOvers } from "./policy.ts";
+import type { BatterProfile, BowlerProfile, GroundPreset, Inputs } from "./types.ts";
+
+// ---------- Team strength ----------
+// The chase scales its calibrated wicket chance and run rate by what the two sides bring. The sliders rate
+// each side on a 0..100 scale where 50 is a typical Test side; profiles derive the same factors from player records.
+
+// A typical Test side, which a slider's 50 stands for
+export const TYPICAL_RUNS_PER_WICKET = 32;
+export const TYPICAL_STRIKE_RATE = 53;
+export const TYPICAL_BOWLING_AVERAGE = 32;
+export const TYPICAL_ECONOMY = 3.2;
+
+// Profiles need our attack and at least an opening pair; without them the sliders stand in
+export function usesProfiles(inputs: Inputs) {
+  return inputs.strengthModel === "profiles" && (inputs.ourAttack?.length ?? 0) > 0 && (inputs.battingOrder?.length ?? 0) >= 2;
+}
+
+// `resistance` divides our wicket chance and `tempo` scales their scoring; 1 is a typical side
+export type BattingStrength = { resistance: number; tempo: number };
+
+// A side bowled out scores roughly the sum of its averages for its wickets, and faces the balls its strike rates imply
+export function orderStrength(order: BatterProfile[]): BattingStrength {
+  let runs = 0, balls = 0;
+  for (const b of order) {
+    runs += b.average;
+    balls += (b.average * 100) / Math.max(1, b.strikeRate);
+  }
+  const runsPerWicket = runs / Math.max(1, order.length - 1);
+  const strikeRate = balls > 0 ? (runs / balls) * 100 : TYPICAL_STRIKE_RATE;
+  return { resistance: runsPerWicket / TYPICAL_RUNS_PER_WICKET, tempo: strikeRate / TYPICAL_STRIKE_RATE };
+}
+
+export function battingStrength(inputs: Inputs): BattingStrength {
+  if (usesProfiles(inputs)) return orderStrength(inputs.battingOrder!);
+  const s = inputs.opponentBattingStrength / 50;
+  return { resistance: s, tempo: s };
+}
+
+// Wickets per over (economy over average) and runs per over, each against a typical bowler
+export function bowlerQuality(b: BowlerProfile) {
+  return {
+    wickets: b.economy / Math.max(1, b.average) / (TYPICAL_ECONOMY / TYPICAL_BOWLING_AVERAGE),
+    runs: b.economy / TYPICAL_ECONOMY,
+  };
+}
+
+const FRESH_OVERS = 40; // overs in the match a fully fit bowler gets through before tiring
+const FATIGUE_PER_OVER = 0.006; // penetration lost per over beyond that
+const MAX_FATIGUE = 0.3;
+
+// Multiplier on a bowler's wicket chance after `workload` overs in the match; unfit bowlers tire sooner
+export function fatigueFactor(workload: number, fitness: number) {
+  return 1 - Math.min(MAX_FATIGUE, FATIGUE_PER_OVER * Math.max(0, workload - FRESH_OVERS * fitness));
+}
+
+const FRONTLINE_BOWLERS = 4; // an innings' overs fall mostly to four front-line bowlers
+
+// Penetration left `o` overs into an innings bowled straight after one of `carried` overs, as when enforcing
+// the follow-on. With no break the whole stint counts, not just the overs past a fresh bowler's allowance.
+export function carriedFatigue(carried: number, o: number) {
+  if (carried <= 0) return 1;
+  return 1 - Math.min(MAX_FATIGUE, (FATIGUE_PER_OVER * (carried + o)) / FRONTLINE_BOWLERS);
+}
+
+// The captain leans on fitter and more penetrating bowlers, and keeps part-timers for when nothing else works;
+// shares stay fixed through the innings
+export function bowlingShares(attack: BowlerProfile[]): number[] {
+  const weights = attack.map((b) => Math.max(0, b.fitness) * bowlerQuality(b).wickets ** 2);
+  const total = weights.reduce((a, w) => a + w, 0);
+  return total > 0 ? weights.map((w) => w / total) : attack.map(() => 1 / attack.length);
+}
+
+export function attackSpinShare(attack: BowlerProfile[]) {
+  const shares = bowlingShares(attack);
+  return attack.reduce((a, b, i) => a + (b.kind === "spin" ? shares[i] : 0), 0);
+}
+
+// Our attack's multipliers on the wicket chance and the run rate, one entry per over of the chase
+export type AttackTable = { wickets: Float64Array; runs: Float64Array };
+
+export const attackStrength = weakMemo((inputs: Inputs, ground: Pick<GroundPreset, "bounce" | "paceAssist" | "spinAssist">): AttackTable => {
+  if (!usesProfiles(inputs)) {
+    const wickets = (inputs.ourBowlingStrength / 50) * attackAssist(ground, inputs.spinShare ?? DEFAULT_SPIN_SHARE);
+    return { wickets: Float64Array.of(wickets), runs: Float64Array.of(1) };
+  }
+
+  const attack = inputs.ourAttack!;
+  const shares = bowlingShares(attack);
+  const bowlers = attack.map((b, i) => ({
+    ...bowlerQuality(b),
+    share: shares[i],
+    assist: attackAssist(ground, b.kind === "spin" ? 1 : 0), // seamers get pace and bounce, spinners turn
+    bowled: b.oversBowled,
+    fitness: b.fitness,
+  }));
+
+  const overs = Math.max(1, Math.ceil(scheduledOvers(inputs)) + 1);
+  const table: AttackTable = { wickets: new Float64Array(overs), runs: new Float64Array(overs) };
+  for (let o = 0; o < overs; o++) {
+    for (const b of bowlers) {
+      const fresh = fatigueFactor(b.bowled + b.share * o, b.fitness);
+      table.wickets[o] += b.share * b.wickets * b.assist * fresh;
+      table.runs[o] += b.share * b.runs * (2 - fresh); // tired bowlers leak runs as they lose penetration
+    }
+  }
+  return table;
+});
@@ -0,0 +1,25 @@
+// ---------- RNG helpers ----------
+
+export type Rng = () => number;
+
+export function rng(seed: number): Rng {
+  // Mulberry32 deterministic RNG
+  let t = seed >>> 0;
+  return () => {
+    t += 0x6D2B79F5;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r ^= r + Math.imul(r ^ (r >>> 7), 61 | r);
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function normal(r: Rng, mean: number, sd: number) {
+  // Box-Muller
+  const u1 = Math.max(r(), 1e-9);
+  const u2 = r();
+  const z0 = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  return mean + sd * z0;
+}
+
+// Clamp helper
+export const clamp = (x: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, x));
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS } from "./defaults.ts";
+import { policyKey } from "./policy.ts";
+import { reviewDeclaration, reviewPolicies, validateActualDeclaration } from "./review.ts";
+import { InputValidationError } from "./validate.ts";
+
+const SIMS = 400;
+
+describe("validateActualDeclaration", () => {
+  it("wants whole overs within the match and a lead no smaller than at the reviewed moment", () => {
+    expect(validateActualDeclaration(DEFAULT_INPUTS, { overs: 10, lead: DEFAULT_INPUTS.currentLead + 40 })).toEqual([]);
+    expect(validateActualDeclaration(DEFAULT_INPUTS, { overs: 2.5, lead: DEFAULT_INPUTS.currentLead - 1 }).map((i) => i.field)).toEqual(["actual.overs", "actual.lead"]);
+    expect(validateActualDeclaration(DEFAULT_INPUTS, { overs: 10_000, lead: DEFAULT_INPUTS.currentLead })[0].field).toBe("actual.overs");
+  });
+
+  it("is enforced by reviewDeclaration", () => {
+    expect(() => reviewDeclaration(DEFAULT_INPUTS, { overs: -1, lead: DEFAULT_INPUTS.currentLead }, "draw", SIMS)).toThrow(InputValidationError);
+  });
+});
+
+describe("reviewPolicies", () => {
+  it("adds the actual timing only when the sweep lacks it", () => {
+    const base = reviewPolicies(DEFAULT_INPUTS, { overs: 0, lead: DEFAULT_INPUTS.currentLead });
+    const odd = reviewPolicies(DEFAULT_INPUTS, { overs: 37, lead: DEFAULT_INPUTS.currentLead });
+    expect(odd).toHaveLength(base.length + 1);
+    expect(policyKey(odd[odd.length - 1])).toBe(policyKey({ kind: "overs", overs: 37 }));
+  });
+});
+
+describe("reviewDeclaration", () => {
+  it("costs nothing when the declaration was the model's best", () => {
+    const first = reviewDeclaration(DEFAULT_INPUTS, { overs: 0, lead: DEFAULT_INPUTS.currentLead }, "draw", SIMS);
+    const best = first.evaluation.best.policy;
+    if (best.kind !== "overs") throw new Error("expected the best option to be a fixed number of overs");
+    const review = reviewDeclaration(DEFAULT_INPUTS, { overs: best.overs, lead: DEFAULT_INPUTS.currentLead + 40 }, "win", SIMS);
+    expect(review.rank).toBe(1);
+    expect(review.winCost).toBe(0);
+    expect(review.utilityCost).toBe(0);
+    expect(review.defensible).toBe(true);
+  });
+
+  it("ranks a late declaration below the best and prices what it gave up", () => {
+    const review = reviewDeclaration(DEFAULT_INPUTS, { overs: 37, lead: DEFAULT_INPUTS.currentLead + 150 }, "draw", SIMS);
+    expect(review.actual.key).toBe(policyKey({ kind: "overs", overs: 37 }));
+    expect(review.rank).toBeGreaterThan(1);
+    expect(review.evaluation.options[review.rank - 1]).toBe(review.actual);
+    expect(review.winCost).toBeCloseTo(review.evaluation.best.winP - review.actual.winP, 10);
+    expect(review.winCost).toBeGreaterThan(0);
+    expect(review.resultChance).toBe(review.hindsight.drawP);
+  });
+
+  it("replays the chase from the lead actually set", () => {
+    const huge = reviewDeclaration(DEFAULT_INPUTS, { overs: 0, lead: 2000 }, "win", SIMS);
+    expect(huge.hindsight.lossP).toBe(0);
+    expect(huge.resultChance).toBe(huge.hindsight.winP);
+  });
+});
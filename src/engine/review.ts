@@ -0,0 +1,107 @@
+import type { ChaseOutcome } from "./chase.ts";
+import { DEFAULT_SEED, declarationPolicies, evaluateAllOptions } from "./evaluate.ts";
+import { resolveGround } from "./grounds.ts";
+import { NO_ALTERNATIVES, policyKey, scheduledOvers, type AlternativePolicySettings, type DeclarationPolicy } from "./policy.ts";
+import { rng } from "./random.ts";
+import { simulateDeclared } from "./simulate.ts";
+import { proportionStdErr, separation } from "./stats.ts";
+import type { Evaluation, Inputs, RankedOption, SimResult } from "./types.ts";
+import { expectedUtility, outcomeValues } from "./utility.ts";
+import { InputValidationError, assertValidInputs, assertValidSims, type ValidationIssue } from "./validate.ts";
+
+// ---------- Declaration review ----------
+// After the match: the inputs describe the moment the captain had to decide, and the actual declaration
+// is ranked against the sweep from that moment. The hindsight run replays the chase from the target and
+// time the declaration really left, so a good call that lost and a poor one that won can be told apart.
+
+// Overs we batted on from the reviewed moment, and the lead we declared with
+export type ActualDeclaration = { overs: number; lead: number };
+
+export type DeclarationReview = {
+  declaration: ActualDeclaration;
+  evaluation: Evaluation; // the sweep from the reviewed moment, including the actual timing
+  actual: RankedOption; // the fixed-over option matching the declaration
+  rank: number; // 1-based position of `actual` in the options table
+  winCost: number; // best option's win chance minus the actual one's
+  utilityCost: number;
+  defensible: boolean; // the best option's lead over the actual one is within Monte Carlo noise
+  hindsight: SimResult & { utility: number }; // the chase from the target and time actually left
+  result: ChaseOutcome; // how the match really ended
+  resultChance: number; // the hindsight chance of that result
+};
+
+export function validateActualDeclaration(inputs: Inputs, actual: ActualDeclaration): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const maxOvers = Math.floor(scheduledOvers(inputs));
+  if (!Number.isInteger(actual.overs) || actual.overs < 0 || actual.overs > maxOvers) {
+    issues.push({ field: "actual.overs", message: `must be a whole number of overs from 0 to ${maxOvers}` });
+  }
+  if (!Number.isFinite(actual.lead) || actual.lead < inputs.currentLead) {
+    issues.push({ field: "actual.lead", message: `must be at least the lead at the reviewed moment (${inputs.currentLead})` });
+  }
+  return issues;
+}
+
+// The sweep's policies plus the actual timing, when the sweep doesn't already cover it
+export function reviewPolicies(inputs: Inputs, actual: ActualDeclaration, alternatives: AlternativePolicySettings = NO_ALTERNATIVES): DeclarationPolicy[] {
+  const policies = declarationPolicies(inputs, alternatives);
+  const chosen: DeclarationPolicy = { kind: "overs", overs: actual.overs };
+  return policies.some((p) => policyKey(p) === policyKey(chosen)) ? policies : [...policies, chosen];
+}
+
+function hindsight(inputs: Inputs, actual: ActualDeclaration, sims: number, seed: number): SimResult & { utility: number } {
+  const preset = resolveGround(inputs);
+  const batting = { runs: actual.lead - inputs.currentLead, wickets: 0, overs: actual.overs };
+  const r0 = rng(seed);
+  let win = 0, draw = 0, loss = 0, margin = 0;
+  for (let s = 0; s < sims; s++) {
+    const { target, chase } = simulateDeclared(inputs, preset, batting, rng((r0() * 1e9 + s) | 0));
+    if (chase.outcome === "win") win++;
+    else if (chase.outcome === "loss") loss++;
+    else draw++;
+    margin += target - chase.runs;
+  }
+  const winP = win / sims, drawP = draw / sims, lossP = loss / sims;
+  return {
+    winP,
+    drawP,
+    lossP,
+    expMarginRuns: margin / sims,
+    sims,
+    stdErr: { winP: proportionStdErr(winP, sims), drawP: proportionStdErr(drawP, sims), lossP: proportionStdErr(lossP, sims) },
+    utility: expectedUtility({ winP, drawP, lossP }, outcomeValues(inputs)),
+  };
+}
+
+export function reviewDeclaration(
+  inputs: Inputs,
+  actual: ActualDeclaration,
+  result: ChaseOutcome,
+  sims = 2500,
+  seed = DEFAULT_SEED,
+  alternatives: AlternativePolicySettings = NO_ALTERNATIVES
+): DeclarationReview {
+  assertValidInputs(inputs);
+  assertValidSims(sims);
+  const issues = validateActualDeclaration(inputs, actual);
+  if (issues.length > 0) throw new InputValidationError(issues);
+
+  const evaluation = evaluateAllOptions(inputs, sims, seed, reviewPolicies(inputs, actual, alternatives));
+  const key = policyKey({ kind: "overs", overs: actual.overs });
+  const rank = evaluation.options.findIndex((o) => o.key === key) + 1;
+  const chosen = evaluation.options[rank - 1];
+  const outcome = hindsight(inputs, actual, sims, seed);
+
+  return {
+    declaration: actual,
+    evaluation,
+    actual: chosen,
+    rank,
+    winCost: evaluation.best.winP - chosen.winP,
+    utilityCost: evaluation.best.utility - chosen.utility,
+    defensible: rank === 1 || !separation(evaluation.best, chosen).separable,
+    hindsight: outcome,
+    result,
+    resultChance: result === "win" ? outcome.winP : result === "draw" ? outcome.drawP : outcome.lossP,
+  };
+}
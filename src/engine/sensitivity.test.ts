@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS } from "./defaults.ts";
+import { declarationPolicies, evaluateAllOptions } from "./evaluate.ts";
+import { bySwing, fieldValue, sensitivityAnalysis, sensitivityParams, sensitivityRow, withFieldValue } from "./sensitivity.ts";
+import type { Inputs } from "./types.ts";
+import { InputValidationError } from "./validate.ts";
+
+// a handful of declaration points keeps the repeated sweeps quick
+const policies = declarationPolicies(DEFAULT_INPUTS).filter((_, i) => i % 10 === 0);
+const opts = { sims: 200, seed: 7, policies };
+
+describe("sensitivityParams", () => {
+  it("adds a rain chance for each session after the current one in the session model", () => {
+    const fields = sensitivityParams({ ...DEFAULT_INPUTS, sessionsRemaining: 3 }).map((p) => p.field);
+    expect(fields).toContain("opponentBattingStrength");
+    expect(fields.filter((f) => f.startsWith("weatherBySession."))).toEqual(["weatherBySession.1", "weatherBySession.2"]);
+  });
+
+  it("includes the current session in the hourly model and drops rain chances once a forecast is imported", () => {
+    const hourly: Inputs = { ...DEFAULT_INPUTS, sessionsRemaining: 2, weatherModel: "hourly", sessionOfDay: 1 };
+    expect(sensitivityParams(hourly).filter((p) => p.field.startsWith("weatherBySession.")).map((p) => p.field)).toEqual(["weatherBySession.0", "weatherBySession.1"]);
+    const forecast = Array.from({ length: 12 }, () => ({ rainChance: 0, rainMinutes: 0 }));
+    expect(sensitivityParams({ ...hourly, forecast }).some((p) => p.field.startsWith("weatherBySession."))).toBe(false);
+  });
+});
+
+describe("withFieldValue", () => {
+  it("sets plain fields and session rain chances without touching the original", () => {
+    const moved = withFieldValue(DEFAULT_INPUTS, "pitchBowlingFactor", 1.4);
+    expect(fieldValue(moved, "pitchBowlingFactor")).toBe(1.4);
+    expect(DEFAULT_INPUTS.pitchBowlingFactor).not.toBe(1.4);
+
+    const wet = withFieldValue({ ...DEFAULT_INPUTS, weatherBySession: [] }, "weatherBySession.2", 0.5);
+    expect(wet.weatherBySession).toEqual([{ rainChance: 0 }, { rainChance: 0 }, { rainChance: 0.5 }]);
+    expect(fieldValue(wet, "weatherBySession.2")).toBe(0.5);
+  });
+});
+
+describe("sensitivityRow", () => {
+  const base = evaluateAllOptions(DEFAULT_INPUTS, opts.sims, opts.seed, policies);
+  const param = sensitivityParams(DEFAULT_INPUTS).find((p) => p.field === "ourBowlingStrength")!;
+  const row = sensitivityRow(DEFAULT_INPUTS, param, base, opts);
+
+  it("evaluates a step either side of the current value", () => {
+    expect(row.base).toBe(DEFAULT_INPUTS.ourBowlingStrength);
+    expect(row.low.value).toBe(Math.max(param.min, row.base - param.step));
+    expect(row.high.value).toBe(Math.min(param.max, row.base + param.step));
+    expect(row.swing).toBeCloseTo(Math.abs(row.high.winP - row.low.winP));
+  });
+
+  it("wins more often with a stronger attack", () => {
+    expect(row.high.winP).toBeGreaterThan(row.low.winP);
+  });
+
+  it("puts break-even values inside the searched range, on the right side of the current value", () => {
+    if (row.breakEvenBelow !== null) {
+      expect(row.breakEvenBelow).toBeGreaterThanOrEqual(param.min);
+      expect(row.breakEvenBelow).toBeLessThan(row.base);
+    }
+    if (row.breakEvenAbove !== null) {
+      expect(row.breakEvenAbove).toBeGreaterThan(row.base);
+      expect(row.breakEvenAbove).toBeLessThanOrEqual(param.max);
+    }
+  });
+});
+
+describe("sensitivityAnalysis", () => {
+  it("returns one row per parameter, widest swing first", () => {
+    const report = sensitivityAnalysis(DEFAULT_INPUTS, opts);
+    expect(report.rows).toHaveLength(sensitivityParams(DEFAULT_INPUTS).length);
+    expect(report.rows.slice().sort(bySwing)).toEqual(report.rows);
+  });
+
+  it("rejects invalid inputs", () => {
+    expect(() => sensitivityAnalysis({ ...DEFAULT_INPUTS, sessionsRemaining: -1 }, opts)).toThrow(InputValidationError);
+  });
+});
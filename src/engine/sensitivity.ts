@@ -0,0 +1,170 @@
+import { DEFAULT_SEED, declarationPolicies, evaluateAllOptions, rankOptions } from "./evaluate.ts";
+import { resolveGround } from "./grounds.ts";
+import type { DeclarationPolicy } from "./policy.ts";
+import { usesProfiles } from "./profiles.ts";
+import { clamp } from "./random.ts";
+import { simulatePolicy } from "./simulate.ts";
+import type { Evaluation, Inputs } from "./types.ts";
+import { assertValidInputs, assertValidSims } from "./validate.ts";
+
+// ---------- Sensitivity analysis ----------
+// Perturbs one input at a time, re-runs the sweep with the same seed (so differences are the input's,
+// not Monte Carlo noise), and searches each input's range for where the runner-up overtakes the best option.
+
+export type SensitivityParam = {
+  field: string; // "opponentBattingStrength", or "weatherBySession.2" for a session's rain chance
+  label: string;
+  step: number; // perturbation either side of the current value
+  min: number; // range searched for a break-even
+  max: number;
+};
+
+const FIELD_PARAMS: SensitivityParam[] = [
+  { field: "opponentBattingStrength", label: "Opponent batting strength", step: 10, min: 20, max: 90 },
+  { field: "ourBowlingStrength", label: "Our bowling strength", step: 10, min: 20, max: 90 },
+  { field: "pitchBowlingFactor", label: "Pitch bowling factor", step: 0.15, min: 0.5, max: 2 },
+  { field: "continueBattingRunRate", label: "Run rate batting on", step: 0.75, min: 1, max: 8 },
+  { field: "continueBattingWicketProbPerOver", label: "Wicket chance per over batting on", step: 0.04, min: 0.01, max: 0.4 },
+];
+
+const INTENT_BIAS_PARAM: SensitivityParam = { field: "chaseIntentBias", label: "Opposition's chase bias", step: 0.5, min: -1, max: 1 };
+
+// The inputs worth perturbing for this scenario. Session rain chances only count when they drive the weather.
+export function sensitivityParams(inputs: Inputs): SensitivityParam[] {
+  const rainDrivesWeather = inputs.weatherModel !== "hourly" || !inputs.forecast;
+  // the session model never cuts the current session, so its rain chance can't move anything
+  const firstRainSession = inputs.weatherModel === "hourly" ? 0 : 1;
+  const rain = rainDrivesWeather
+    ? Array.from({ length: Math.max(0, inputs.sessionsRemaining - firstRainSession) }, (_, i): SensitivityParam => ({
+      field: `weatherBySession.${i + firstRainSession}`,
+      label: `Rain chance, session ${i + firstRainSession + 1}`,
+      step: 0.2,
+      min: 0,
+      max: 1,
+    }))
+    : [];
+  // the strength sliders do nothing once player profiles rate the sides
+  const fields = usesProfiles(inputs) ? FIELD_PARAMS.filter((p) => !p.field.endsWith("Strength")) : FIELD_PARAMS;
+  const intent = (inputs.chaseIntent ?? "adaptive") === "adaptive" ? [INTENT_BIAS_PARAM] : [];
+  return [...fields, ...intent, ...rain];
+}
+
+export function fieldValue(inputs: Inputs, field: string): number {
+  const [name, index] = field.split(".");
+  if (name === "weatherBySession") return inputs.weatherBySession[Number(index)]?.rainChance ?? 0;
+  if (name === "chaseIntentBias") return inputs.chaseIntentBias ?? 0;
+  return inputs[name as keyof Inputs] as number;
+}
+
+export function withFieldValue(inputs: Inputs, field: string, value: number): Inputs {
+  const [name, index] = field.split(".");
+  if (name === "weatherBySession") {
+    const i = Number(index);
+    const weatherBySession = Array.from({ length: Math.max(inputs.weatherBySession.length, i + 1) }, (_, j) => inputs.weatherBySession[j] ?? { rainChance: 0 });
+    weatherBySession[i] = { rainChance: value };
+    return { ...inputs, weatherBySession };
+  }
+  return { ...inputs, [name]: value };
+}
+
+export type SensitivityPoint = {
+  value: number;
+  best: string; // option label
+  bestKey: string;
+  declareAfterOvers: number;
+  winP: number;
+  utility: number;
+};
+
+export type SensitivityRow = {
+  field: string;
+  label: string;
+  base: number;
+  low: SensitivityPoint;
+  high: SensitivityPoint;
+  swing: number; // win-probability spread between the low and high ends
+  // input values, below and above the current one, where the runner-up overtakes the best option; null when it never does in range
+  breakEvenBelow: number | null;
+  breakEvenAbove: number | null;
+};
+
+export type SensitivityOptions = {
+  sims?: number;
+  seed?: number;
+  policies?: DeclarationPolicy[];
+  tolerance?: number; // break-even search stops when the bracket is this fraction of the param's range
+};
+
+export type SensitivityReport = {
+  base: Evaluation;
+  rows: SensitivityRow[]; // largest win-probability swing first
+};
+
+function point(evaluation: Evaluation, value: number): SensitivityPoint {
+  const { best } = evaluation;
+  return { value, best: best.optionLabel, bestKey: best.key, declareAfterOvers: best.declareAfterOvers, winP: best.winP, utility: best.utility };
+}
+
+const roundValue = (v: number) => Math.round(v * 1e6) / 1e6;
+
+// Utility of the base best option minus the runner-up's, for inputs with the field set to `value`
+function utilityGap(inputs: Inputs, field: string, value: number, pair: [DeclarationPolicy, DeclarationPolicy], sims: number, seed: number) {
+  const moved = withFieldValue(inputs, field, value);
+  const preset = resolveGround(moved);
+  const [a, b] = pair.map((p) => simulatePolicy(moved, preset, p, sims, seed));
+  const ranked = rankOptions(moved, [a, b]);
+  const ua = ranked.find((o) => o.key === a.key)!.utility;
+  const ub = ranked.find((o) => o.key === b.key)!.utility;
+  return ua - ub;
+}
+
+// Bisects between the current value (where the best leads) and the end of the range (where it may not)
+function breakEven(inputs: Inputs, param: SensitivityParam, edge: number, pair: [DeclarationPolicy, DeclarationPolicy], sims: number, seed: number, tolerance: number) {
+  const base = fieldValue(inputs, param.field);
+  if (edge === base || utilityGap(inputs, param.field, edge, pair, sims, seed) >= 0) return null;
+  let ahead = base;
+  let behind = edge;
+  while (Math.abs(behind - ahead) > tolerance * (param.max - param.min)) {
+    const mid = (ahead + behind) / 2;
+    if (utilityGap(inputs, param.field, mid, pair, sims, seed) >= 0) ahead = mid;
+    else behind = mid;
+  }
+  return roundValue((ahead + behind) / 2);
+}
+
+// One row of the analysis; `base` is the evaluation of the unperturbed inputs with the same sims and seed
+export function sensitivityRow(inputs: Inputs, param: SensitivityParam, base: Evaluation, opts: SensitivityOptions = {}): SensitivityRow {
+  const { sims = 1000, seed = DEFAULT_SEED, policies = declarationPolicies(inputs), tolerance = 0.02 } = opts;
+  const value = fieldValue(inputs, param.field);
+  // rounded so 1.15 - 0.15 reads as 1, not 0.9999999999999999
+  const lowValue = roundValue(clamp(value - param.step, param.min, param.max));
+  const highValue = roundValue(clamp(value + param.step, param.min, param.max));
+
+  const low = point(evaluateAllOptions(withFieldValue(inputs, param.field, lowValue), sims, seed, policies), lowValue);
+  const high = point(evaluateAllOptions(withFieldValue(inputs, param.field, highValue), sims, seed, policies), highValue);
+
+  let breakEvenBelow: number | null = null;
+  let breakEvenAbove: number | null = null;
+  if (base.runnerUp) {
+    const pair: [DeclarationPolicy, DeclarationPolicy] = [base.best.policy, base.runnerUp.policy];
+    breakEvenBelow = breakEven(inputs, param, param.min, pair, sims, seed, tolerance);
+    breakEvenAbove = breakEven(inputs, param, param.max, pair, sims, seed, tolerance);
+  }
+
+  return { field: param.field, label: param.label, base: value, low, high, swing: Math.abs(high.winP - low.winP), breakEvenBelow, breakEvenAbove };
+}
+
+export const bySwing = (a: SensitivityRow, b: SensitivityRow) => b.swing - a.swing;
+
+// Yields rows one parameter at a time so a caller can stream them
+export function* sensitivityRows(inputs: Inputs, base: Evaluation, opts: SensitivityOptions = {}): Generator<SensitivityRow> {
+  assertValidInputs(inputs);
+  assertValidSims(opts.sims ?? 1000);
+  for (const param of sensitivityParams(inputs)) yield sensitivityRow(inputs, param, base, opts);
+}
+
+export function sensitivityAnalysis(inputs: Inputs, opts: SensitivityOptions = {}): SensitivityReport {
+  const { sims = 1000, seed = DEFAULT_SEED, policies = declarationPolicies(inputs) } = opts;
+  const base = evaluateAllOptions(inputs, sims, seed, policies);
+  return { base, rows: [...sensitivityRows(inputs, base, { ...opts, sims, seed, policies })].sort(bySwing) };
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS } from "./defaults.ts";
+import { GROUND_PRESETS } from "./grounds.ts";
+import { rng } from "./random.ts";
+import { batOn, oversToBowl, simulateOption } from "./simulate.ts";
+
+const preset = GROUND_PRESETS.generic;
+
+describe("simulateOption", () => {
+  it("is deterministic for a given seed", () => {
+    const a = simulateOption(DEFAULT_INPUTS, preset, 10, 300, 7);
+    const b = simulateOption(DEFAULT_INPUTS, preset, 10, 300, 7);
+    expect(a).toEqual(b);
+  });
+
+  it("changes with the seed", () => {
+    const a = simulateOption(DEFAULT_INPUTS, preset, 10, 300, 7);
+    const b = simulateOption(DEFAULT_INPUTS, preset, 10, 300, 8);
+    expect(a).not.toEqual(b);
+  });
+
+  it("keeps win + draw + loss = 1", () => {
+    for (const K of [0, 5, 17, 30]) {
+      const out = simulateOption(DEFAULT_INPUTS, preset, K, 200, 99);
+      expect(out.winP + out.drawP + out.lossP).toBeCloseTo(1, 10);
+    }
+  });
+
+  it("keeps the invariant when rain cuts sessions to fractional overs", () => {
+    const wet = { ...DEFAULT_INPUTS, weatherBySession: DEFAULT_INPUTS.weatherBySession.map(() => ({ rainChance: 0.9 })) };
+    const out = simulateOption(wet, preset, 3, 200, 5);
+    expect(out.winP + out.drawP + out.lossP).toBeCloseTo(1, 10);
+  });
+
+  it("does not raise win probability when the opposition batting improves", () => {
+    const weak = simulateOption({ ...DEFAULT_INPUTS, opponentBattingStrength: 40 }, preset, 10, 800, 3);
+    const strong = simulateOption({ ...DEFAULT_INPUTS, opponentBattingStrength: 75 }, preset, 10, 800, 3);
+    expect(strong.winP).toBeLessThanOrEqual(weak.winP);
+    expect(strong.lossP).toBeGreaterThanOrEqual(weak.lossP);
+  });
+
+  it("does not lower win probability when our bowling improves", () => {
+    const weak = simulateOption({ ...DEFAULT_INPUTS, ourBowlingStrength: 40 }, preset, 10, 800, 3);
+    const strong = simulateOption({ ...DEFAULT_INPUTS, ourBowlingStrength: 75 }, preset, 10, 800, 3);
+    expect(strong.winP).toBeGreaterThanOrEqual(weak.winP);
+  });
+
+  it("sets a bigger target the longer we bat on", () => {
+    const now = simulateOption(DEFAULT_INPUTS, preset, 0, 300, 11);
+    const later = simulateOption(DEFAULT_INPUTS, preset, 20, 300, 11);
+    expect(now.target).toBe(DEFAULT_INPUTS.currentLead);
+    expect(later.target).toBeGreaterThan(now.target);
+  });
+});
+
+describe("batting on and the chase per simulation", () => {
+  const dry = { ...DEFAULT_INPUTS, weatherBySession: DEFAULT_INPUTS.weatherBySession.map(() => ({ rainChance: 0 })) };
+  const fullTime = dry.oversLeftThisSession + (dry.sessionsRemaining - 1) * dry.oversPerSession;
+
+  it("stops batting on at the last wicket in hand", () => {
+    const collapse = { ...dry, wicketsInHand: 2, continueBattingWicketProbPerOver: 1 };
+    expect(batOn(collapse, { kind: "overs", overs: 10 }, rng(1))).toMatchObject({ wickets: 2, overs: 2 });
+  });
+
+  it("takes batting-on overs from the current session first, then later ones", () => {
+    expect(oversToBowl(dry, 0, rng(1))).toBe(fullTime);
+    expect(oversToBowl(dry, 30, rng(1))).toBe(fullTime - 30);
+  });
+
+  it("hands overs back to the bowlers after an early all-out", () => {
+    const collapse = { ...dry, wicketsInHand: 1, continueBattingWicketProbPerOver: 1 };
+    const out = simulateOption(collapse, preset, 10, 50, 1);
+    expect(out.bowlOversAvail).toBe(fullTime - 1);
+    expect(simulateOption(dry, preset, 10, 50, 1).bowlOversAvail).toBe(fullTime - 10);
+  });
+
+  it("calls it a draw when there is no time left to bowl", () => {
+    const noTime = { ...dry, sessionsRemaining: 1, oversLeftThisSession: 5, continueBattingWicketProbPerOver: 0 };
+    const out = simulateOption(noTime, preset, 5, 100, 1);
+    expect(out.bowlOversAvail).toBe(0);
+    expect(out.drawP).toBe(1);
+  });
+
+  it("reports the spread of targets each simulation set", () => {
+    const out = simulateOption(DEFAULT_INPUTS, preset, 20, 400, 2);
+    const q = out.targetQuantiles;
+    expect(q.p10).toBeLessThan(q.p50);
+    expect(q.p50).toBeLessThan(q.p90);
+    expect(out.target).toBeGreaterThan(q.p10);
+    expect(out.target).toBeLessThan(q.p90);
+
+    const now = simulateOption(DEFAULT_INPUTS, preset, 0, 100, 2).targetQuantiles;
+    expect(now).toEqual({ p10: 250, p50: 250, p90: 250 });
+  });
+});
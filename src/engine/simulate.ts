@@ -0,0 +1,173 @@
+import { simulateChase, type ChasePreset, type ChaseResult } from "./chase.ts";
+import { normal, rng, type Rng } from "./random.ts";
+import { proportionStdErr, quantile } from "./stats.ts";
+import {
+  policyKey,
+  policyLabel,
+  policyLeadTarget,
+  policyOverCap,
+  policySeedOffset,
+  type DeclarationPolicy,
+} from "./policy.ts";
+import type { Inputs, OptionOutcome } from "./types.ts";
+import { oversAfterBatting, samplePlayableOvers } from "./weather.ts";
+
+// ---------- Core simulation ----------
+
+export type BattingOn = { runs: number; wickets: number; overs: number }; // overs actually batted
+
+// Bat on until the policy says declare, stopping early if the last wicket in hand falls.
+// `cap` defaults to the policy's limit on the scheduled overs.
+export function batOn(inputs: Inputs, policy: DeclarationPolicy, r: Rng, cap = policyOverCap(policy, inputs)): BattingOn {
+  const leadTarget = policyLeadTarget(policy);
+  let runs = 0;
+  let wkts = 0;
+  for (let o = 0; o < cap; o++) {
+    if (leadTarget !== undefined && inputs.currentLead + runs >= leadTarget) {
+      return { runs, wickets: wkts, overs: o };
+    }
+    // wicket this over while batting on?
+    if (r() < inputs.continueBattingWicketProbPerOver) {
+      wkts++;
+      if (wkts >= inputs.wicketsInHand) {
+        // all out during extension, still some runs in the over
+        const rpo = Math.max(0, normal(r, inputs.continueBattingRunRate, 0.8));
+        runs += Math.max(0, Math.round(normal(r, rpo, 1)));
+        return { runs, wickets: wkts, overs: o + 1 };
+      }
+    }
+    const rpo = Math.max(0, normal(r, inputs.continueBattingRunRate, 0.8));
+    runs += Math.max(0, Math.round(normal(r, rpo, 1)));
+  }
+  return { runs, wickets: wkts, overs: cap };
+}
+
+// Overs left to bowl once we have batted `oversBatted` more overs.
+// Batting eats into the current session first, then the next ones. weatherBySession[0] is the
+// current session, which we can see, so only later sessions are exposed to a random rain cut.
+export function oversToBowl(inputs: Inputs, oversBatted: number, r: Rng) {
+  let toConsume = oversBatted;
+  let overs = 0;
+  for (let si = 0; si < inputs.sessionsRemaining; si++) {
+    const scheduled = si === 0 ? inputs.oversLeftThisSession : inputs.oversPerSession;
+    const used = Math.min(scheduled, toConsume);
+    toConsume -= used;
+    let left = scheduled - used;
+
+    if (si > 0) {
+      const weather = inputs.weatherBySession[si] || { rainChance: 0 };
+      const rainOccurs = r() < weather.rainChance;
+      const expectedCut = rainOccurs ? (0.2 + 0.6 * r()) : 0.0; // if it rains, 20%..80% of overs lost this session
+      left *= 1 - expectedCut;
+    }
+    overs += left;
+  }
+  // only whole overs are bowled, so a fractional rain-cut session rounds down
+  return Math.floor(overs);
+}
+
+// The classic "bat exactly K more overs" option
+export function simulateOption(inputs: Inputs, preset: ChasePreset, declareAfterOvers: number, sims: number, seedBase = 12345): OptionOutcome {
+  return simulatePolicy(inputs, preset, { kind: "overs", overs: declareAfterOvers }, sims, seedBase);
+}
+
+// One simulated match: bat on, declare, then bowl at the target with whatever time that left
+export type MatchSample = { batting: BattingOn; overs: number; target: number; chase: ChaseResult };
+
+export function simulateMatch(inputs: Inputs, preset: ChasePreset, policy: DeclarationPolicy, r: Rng): MatchSample {
+  // 1) Bat on for K overs (or until all out) to set this sample's target
+  // 2) Overs available to bowl after declaration; an early all-out hands overs back.
+  // The hourly model samples stoppages up front, so rain or bad light while batting on costs those overs too.
+  let batting: BattingOn;
+  let overs: number;
+  if (inputs.weatherModel === "hourly") {
+    const sessions = samplePlayableOvers(inputs, preset, r);
+    batting = batOn(inputs, policy, r, policyOverCap(policy, inputs, sessions));
+    overs = oversAfterBatting(sessions, batting.overs);
+  } else {
+    batting = batOn(inputs, policy, r);
+    overs = oversToBowl(inputs, batting.overs, r);
+  }
+  const target = inputs.currentLead + batting.runs;
+
+  // 3) Simulate opposition batting towards target
+  const chase = simulateChase(inputs, preset, target, overs, r, batting.overs);
+  return { batting, overs, target, chase };
+}
+
+// A match whose batting-on has already happened, as in a post-match review: the target and the overs batted
+// are known, so only the weather after the declaration and the chase are simulated
+export function simulateDeclared(inputs: Inputs, preset: ChasePreset, batting: BattingOn, r: Rng): MatchSample {
+  const overs = inputs.weatherModel === "hourly"
+    ? oversAfterBatting(samplePlayableOvers(inputs, preset, r), batting.overs)
+    : oversToBowl(inputs, batting.overs, r);
+  const target = inputs.currentLead + batting.runs;
+  return { batting, overs, target, chase: simulateChase(inputs, preset, target, overs, r, batting.overs) };
+}
+
+// The samples behind simulatePolicy, one per simulation; the same seed gives the same matches
+export function* matchSamples(inputs: Inputs, preset: ChasePreset, policy: DeclarationPolicy, sims: number, seedBase = 12345): Generator<MatchSample> {
+  const r0 = rng(seedBase + policySeedOffset(policy));
+  for (let s = 0; s < sims; s++) {
+    yield simulateMatch(inputs, preset, policy, rng((r0() * 1e9 + s) | 0));
+  }
+}
+
+// Each simulation bats on, sets its own target, then bowls at it with whatever time that sample left
+export function simulatePolicy(
+  inputs: Inputs,
+  preset: ChasePreset,
+  policy: DeclarationPolicy,
+  sims: number,
+  seedBase = 12345
+): OptionOutcome {
+  let win = 0, draw = 0, loss = 0;
+  let marginAgg = 0, addedAgg = 0, wktsAgg = 0, oversAgg = 0, battedAgg = 0;
+  const targets: number[] = [];
+
+  for (const { batting, overs, target, chase } of matchSamples(inputs, preset, policy, sims, seedBase)) {
+    if (chase.outcome === "loss") {
+      loss++; // opponent chased successfully
+    } else if (chase.outcome === "win") {
+      win++;
+    } else {
+      draw++;
+    }
+
+    marginAgg += target - chase.runs; // negative = they win by runs
+    addedAgg += batting.runs;
+    wktsAgg += batting.wickets;
+    oversAgg += overs;
+    battedAgg += batting.overs;
+    targets.push(target);
+  }
+
+  targets.sort((a, b) => a - b);
+
+  const winP = win / sims;
+  const lossP = loss / sims;
+  const drawP = draw / sims;
+
+  return {
+    optionLabel: policyLabel(policy),
+    key: policyKey(policy),
+    policy,
+    declareAfterOvers: policy.kind === "overs" ? policy.overs : Math.round(battedAgg / sims),
+    expectOversBatted: battedAgg / sims,
+    expectAddedRuns: addedAgg / sims,
+    expectWktsLostWhileBatting: wktsAgg / sims,
+    target: inputs.currentLead + addedAgg / sims,
+    targetQuantiles: { p10: quantile(targets, 0.1), p50: quantile(targets, 0.5), p90: quantile(targets, 0.9) },
+    bowlOversAvail: oversAgg / sims,
+    winP,
+    lossP,
+    drawP,
+    expMarginRuns: marginAgg / sims,
+    sims,
+    stdErr: {
+      winP: proportionStdErr(winP, sims),
+      drawP: proportionStdErr(drawP, sims),
+      lossP: proportionStdErr(lossP, sims),
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { inningsAggregate } from "./chase.ts";
+import { DEFAULT_INPUTS } from "./defaults.ts";
+import { GROUND_PRESETS } from "./grounds.ts";
+import { followOnLead } from "./matchState.ts";
+import { rng } from "./random.ts";
+import { FOLLOW_ON_LEAD, evaluateStage, simulateStage, simulateStagePlan, stagePlanKey, stagePlans, validateStage } from "./stages.ts";
+import type { Inputs } from "./types.ts";
+import { InputValidationError } from "./validate.ts";
+
+const SIMS = 600;
+
+// Day three, with most of the match still to play
+const midMatch = (patch: Partial<Inputs> = {}): Inputs => ({
+  ...DEFAULT_INPUTS,
+  sessionsRemaining: 8,
+  oversLeftThisSession: 20,
+  matchDay: 3,
+  sessionOfDay: 2,
+  continueBattingRunRate: 3.3,
+  continueBattingWicketProbPerOver: 0.06,
+  ...patch,
+});
+
+describe("stagePlans", () => {
+  it("weighs enforcing against batting again at the follow-on", () => {
+    const plans = stagePlans("follow-on");
+    expect(plans.filter((p) => p.enforceFollowOn)).toHaveLength(1);
+    expect(plans.length).toBeGreaterThan(2);
+  });
+
+  it("steps first-innings declarations and ends with batting until all out", () => {
+    const plans = stagePlans("first-innings");
+    expect(plans[0].declareAfterOvers).toBe(0);
+    expect(plans[plans.length - 1].declareAfterOvers).toBeNull();
+    expect(new Set(plans.map(stagePlanKey)).size).toBe(plans.length);
+  });
+});
+
+describe("validateStage", () => {
+  it("needs a big enough lead for the follow-on", () => {
+    expect(FOLLOW_ON_LEAD).toBe(followOnLead(5));
+    expect(validateStage(midMatch({ currentLead: FOLLOW_ON_LEAD - 1 }), { stage: "follow-on", bowledOvers: 60 }).map((i) => i.field)).toEqual(["currentLead"]);
+    expect(validateStage(midMatch({ currentLead: 250 }), { stage: "follow-on", bowledOvers: -1 }).map((i) => i.field)).toEqual(["bowledOvers"]);
+    expect(() => evaluateStage(midMatch({ currentLead: 100 }), { stage: "follow-on", bowledOvers: 60 }, SIMS)).toThrow(InputValidationError);
+  });
+
+  it("reads the lead as our score in the first innings", () => {
+    expect(validateStage(midMatch({ currentLead: -10 }), { stage: "first-innings", bowledOvers: 0 })[0].field).toBe("currentLead");
+  });
+});
+
+describe("inningsAggregate", () => {
+  it("bats on until bowled out or out of time", () => {
+    const r = rng(7);
+    expect(inningsAggregate(DEFAULT_INPUTS, GROUND_PRESETS.generic, 0, r)).toEqual({ runs: 0, wickets: 0, overs: 0 });
+    const long = inningsAggregate(midMatch(), GROUND_PRESETS.generic, 1000, r);
+    expect(long.wickets).toBe(10);
+    expect(long.overs).toBeLessThan(1000);
+  });
+
+  it("lasts longer and scores more against a tired attack", () => {
+    const inputs = midMatch();
+    const mean = (carried: number) => {
+      let runs = 0, overs = 0;
+      for (let s = 0; s < 300; s++) {
+        const i = inningsAggregate(inputs, GROUND_PRESETS.generic, 1000, rng(s), 0, carried);
+        runs += i.runs;
+        overs += i.overs;
+      }
+      return { runs, overs };
+    };
+    const fresh = mean(0), tired = mean(150);
+    expect(tired.runs).toBeGreaterThan(fresh.runs);
+    expect(tired.overs).toBeGreaterThan(fresh.overs);
+  });
+});
+
+describe("simulateStage", () => {
+  it("only makes them follow on when the plan enforces it", () => {
+    const inputs = midMatch({ currentLead: 250 });
+    const scenario = { stage: "follow-on" as const, bowledOvers: 60 };
+    const [enforce, batAgain] = stagePlans("follow-on");
+    for (let s = 0; s < 50; s++) {
+      expect(simulateStage(inputs, GROUND_PRESETS.generic, scenario, enforce, rng(s)).followOn).toBe(true);
+      const again = simulateStage(inputs, GROUND_PRESETS.generic, scenario, batAgain, rng(s));
+      expect(again.followOn).toBe(false);
+    }
+  });
+
+  it("draws when there is no time left to finish the match", () => {
+    const inputs = midMatch({ currentLead: 300, sessionsRemaining: 1, oversLeftThisSession: 5 });
+    const plan = stagePlans("first-innings")[0];
+    expect(simulateStage(inputs, GROUND_PRESETS.generic, { stage: "first-innings", bowledOvers: 0 }, plan, rng(3)).outcome).toBe("draw");
+  });
+});
+
+describe("evaluateStage", () => {
+  it("makes enforcing the follow-on costlier the longer we were just in the field", () => {
+    const inputs = midMatch({ currentLead: 230 });
+    const enforce = stagePlans("follow-on")[0];
+    const short = simulateStagePlan(inputs, GROUND_PRESETS.generic, { stage: "follow-on", bowledOvers: 40 }, enforce, SIMS);
+    const long = simulateStagePlan(inputs, GROUND_PRESETS.generic, { stage: "follow-on", bowledOvers: 160 }, enforce, SIMS);
+    expect(long.winP).toBeLessThan(short.winP);
+  });
+
+  it("ranks every first-innings plan by utility", () => {
+    const weatherBySession = [...DEFAULT_INPUTS.weatherBySession, ...Array(7).fill({ rainChance: 0 })];
+    const inputs = midMatch({ currentLead: 320, wicketsInHand: 4, sessionsRemaining: 11, matchDay: 2, weatherBySession });
+    const evaluation = evaluateStage(inputs, { stage: "first-innings", bowledOvers: 0 }, SIMS);
+    expect(evaluation.options).toHaveLength(stagePlans("first-innings").length);
+    expect(evaluation.best).toBe(evaluation.options[0]);
+    for (let i = 1; i < evaluation.options.length; i++) {
+      expect(evaluation.options[i].utility).toBeLessThanOrEqual(evaluation.options[i - 1].utility);
+    }
+    for (const o of evaluation.options) expect(o.winP + o.drawP + o.lossP).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,208 @@
+import { inningsAggregate, simulateChase, type ChaseOutcome, type ChasePreset } from "./chase.ts";
+import { DEFAULT_SEED } from "./evaluate.ts";
+import { resolveGround } from "./grounds.ts";
+import { followOnLead } from "./matchState.ts";
+import { normal, rng, type Rng } from "./random.ts";
+import { oversToBowl } from "./simulate.ts";
+import { proportionStdErr, separation, utilityStdErr, type Separation } from "./stats.ts";
+import type { Inputs, SimResult } from "./types.ts";
+import { expectedUtility, outcomeValues } from "./utility.ts";
+import { InputValidationError, assertValidInputs, assertValidSims, type ValidationIssue } from "./validate.ts";
+import { samplePlayableOvers } from "./weather.ts";
+
+// ---------- Earlier decisions: first-innings declarations and the follow-on ----------
+// The third-innings sweep starts from a lead with one chase to come. These play out the whole remaining
+// match instead, innings by innings, from a decision made earlier in it. Later decisions follow a plan:
+// enforce the follow-on when it is offered or not, and declare the third innings at a set asking rate.
+// We bat at the batting-on rate and wicket chance; they bat as the aggregate side, chasing only in the
+// fourth innings, and never declare or enforce the follow-on themselves.
+
+// A first-innings declaration, where currentLead is our score so far, or the follow-on decision at the start
+// of the third innings, where it is our first-innings lead and `bowledOvers` is how long we just spent in the field
+export type MatchStage = "first-innings" | "follow-on";
+
+export type StageScenario = { stage: MatchStage; bowledOvers: number };
+
+export type StagePlan = {
+  declareAfterOvers: number | null; // first innings: overs we bat on before declaring; null bats until all out
+  enforceFollowOn: boolean; // when our first-innings lead allows it
+  declareAtRate: number; // third innings: declare once the target would need this many an over in the time left
+};
+
+export const MATCH_STAGE_LABELS: Record<MatchStage, string> = {
+  "first-innings": "First-innings declaration",
+  "follow-on": "Follow-on",
+};
+
+// The inputs describe a five-day Test
+export const FOLLOW_ON_LEAD = followOnLead(5);
+
+const DEFAULT_DECLARE_RATE = 3;
+const DECLARE_RATES = [2.5, 3, 3.5, 4]; // the third-innings declarations offered against the follow-on
+const FIRST_INNINGS_STEP = 10; // overs between first-innings declaration options
+const FIRST_INNINGS_MAX = 60;
+
+export function stagePlanKey(plan: StagePlan) {
+  return `${plan.declareAfterOvers ?? "all-out"}:${plan.enforceFollowOn ? "enforce" : "bat"}:${plan.declareAtRate}`;
+}
+
+export function stagePlanLabel(stage: MatchStage, plan: StagePlan) {
+  if (stage === "follow-on") {
+    return plan.enforceFollowOn ? "Enforce the follow-on" : `Bat again, declaring to leave them ${plan.declareAtRate} an over`;
+  }
+  if (plan.declareAfterOvers === null) return "Bat until all out";
+  return plan.declareAfterOvers === 0 ? "Declare now" : `Declare in ${plan.declareAfterOvers} overs`;
+}
+
+// The options each stage weighs; first-innings plans enforce the follow-on if it comes and declare the third innings as usual
+export function stagePlans(stage: MatchStage): StagePlan[] {
+  if (stage === "follow-on") {
+    return [
+      { declareAfterOvers: null, enforceFollowOn: true, declareAtRate: DEFAULT_DECLARE_RATE },
+      ...DECLARE_RATES.map((declareAtRate) => ({ declareAfterOvers: null, enforceFollowOn: false, declareAtRate })),
+    ];
+  }
+  const steps = Math.floor(FIRST_INNINGS_MAX / FIRST_INNINGS_STEP);
+  return [
+    ...Array.from({ length: steps + 1 }, (_, i) => i * FIRST_INNINGS_STEP),
+    null,
+  ].map((declareAfterOvers) => ({ declareAfterOvers, enforceFollowOn: true, declareAtRate: DEFAULT_DECLARE_RATE }));
+}
+
+export function validateStage(inputs: Inputs, scenario: StageScenario): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (scenario.stage === "follow-on") {
+    if (!(inputs.currentLead >= FOLLOW_ON_LEAD)) {
+      issues.push({ field: "currentLead", message: `is our first-innings lead here, and must be at least ${FOLLOW_ON_LEAD} for the follow-on` });
+    }
+    if (!Number.isFinite(scenario.bowledOvers) || scenario.bowledOvers < 0 || scenario.bowledOvers > 250) {
+      issues.push({ field: "bowledOvers", message: "must be between 0 and 250" });
+    }
+  } else if (!(inputs.currentLead >= 0)) {
+    issues.push({ field: "currentLead", message: "is our first-innings score here, so it must be zero or more" });
+  }
+  return issues;
+}
+
+type OurInnings = { runs: number; wickets: number; overs: number; allOut: boolean };
+
+// We bat at the batting-on rate until `stop` says so, the wickets run out or the overs do
+function ourInnings(inputs: Inputs, wicketsInHand: number, overCap: number, stop: (runs: number, overs: number) => boolean, r: Rng): OurInnings {
+  let runs = 0, wickets = 0;
+  for (let o = 0; o < overCap; o++) {
+    if (stop(runs, o)) return { runs, wickets, overs: o, allOut: false };
+    const out = r() < inputs.continueBattingWicketProbPerOver;
+    const rpo = Math.max(0, normal(r, inputs.continueBattingRunRate, 0.8));
+    runs += Math.max(0, Math.round(normal(r, rpo, 1)));
+    if (out && ++wickets >= wicketsInHand) return { runs, wickets, overs: o + 1, allOut: true };
+  }
+  return { runs, wickets, overs: overCap, allOut: false };
+}
+
+export type StageSample = {
+  outcome: ChaseOutcome;
+  followOn: boolean; // they followed on
+  fourthInnings: boolean; // the match reached a fourth innings
+};
+
+// One simulated rest of the match from the stage's decision
+export function simulateStage(inputs: Inputs, preset: ChasePreset, scenario: StageScenario, plan: StagePlan, r: Rng): StageSample {
+  const total = inputs.weatherModel === "hourly" ? samplePlayableOvers(inputs, preset, r).reduce((a, b) => a + b, 0) : oversToBowl(inputs, 0, r);
+  let used = 0;
+  let lead = inputs.currentLead;
+  let carried = scenario.bowledOvers; // overs our attack has just bowled, which only matter if it goes straight back out
+  const draw: StageSample = { outcome: "draw", followOn: false, fourthInnings: false };
+
+  if (scenario.stage === "first-innings") {
+    const ours = ourInnings(inputs, inputs.wicketsInHand, Math.min(total, plan.declareAfterOvers ?? Infinity), () => false, r);
+    used += ours.overs;
+    lead += ours.runs;
+    const theirs = inningsAggregate(inputs, preset, total - used, r, used);
+    used += theirs.overs;
+    lead -= theirs.runs;
+    if (theirs.wickets < 10) return draw;
+    carried = theirs.overs;
+  }
+
+  if (plan.enforceFollowOn && lead >= FOLLOW_ON_LEAD) {
+    const again = inningsAggregate(inputs, preset, total - used, r, used, carried);
+    used += again.overs;
+    lead -= again.runs;
+    if (again.wickets < 10) return { ...draw, followOn: true };
+    if (lead > 0) return { outcome: "win", followOn: true, fourthInnings: false }; // by an innings
+    const chase = ourInnings(inputs, 10, total - used, (runs) => runs > -lead, r);
+    const outcome = chase.runs > -lead ? "win" : chase.allOut ? "loss" : "draw";
+    return { outcome, followOn: true, fourthInnings: true };
+  }
+
+  // we bat again, and declare once the target would need the plan's rate in whatever time is left
+  const third = ourInnings(inputs, 10, total - used, (runs, overs) => lead + runs > 0 && lead + runs >= plan.declareAtRate * (total - used - overs), r);
+  used += third.overs;
+  lead += third.runs;
+  if (third.allOut && lead <= 0) return { ...draw, outcome: "loss" }; // by an innings
+  if (used >= total) return draw;
+  const chase = simulateChase(inputs, preset, lead, total - used, r, used);
+  return { outcome: chase.outcome, followOn: false, fourthInnings: true };
+}
+
+export type StageOutcome = Omit<SimResult, "expMarginRuns"> & {
+  key: string; // stagePlanKey(plan)
+  label: string;
+  plan: StagePlan;
+  followOnP: number; // share of matches in which they followed on
+  fourthInningsP: number; // share that reached a fourth innings
+  utility: number;
+  utilityStdErr: number;
+};
+
+export type StageEvaluation = {
+  stage: MatchStage;
+  best: StageOutcome;
+  runnerUp: StageOutcome | undefined;
+  options: StageOutcome[]; // sorted by utility, best first
+  separation: Separation;
+  seed: number;
+};
+
+export function simulateStagePlan(inputs: Inputs, preset: ChasePreset, scenario: StageScenario, plan: StagePlan, sims: number, seed = DEFAULT_SEED): StageOutcome {
+  let win = 0, draw = 0, loss = 0, followOn = 0, fourth = 0;
+  const r0 = rng(seed);
+  for (let s = 0; s < sims; s++) {
+    const sample = simulateStage(inputs, preset, scenario, plan, rng((r0() * 1e9 + s) | 0));
+    if (sample.outcome === "win") win++;
+    else if (sample.outcome === "loss") loss++;
+    else draw++;
+    if (sample.followOn) followOn++;
+    if (sample.fourthInnings) fourth++;
+  }
+  const winP = win / sims, drawP = draw / sims, lossP = loss / sims;
+  const values = outcomeValues(inputs);
+  return {
+    key: stagePlanKey(plan),
+    label: stagePlanLabel(scenario.stage, plan),
+    plan,
+    winP,
+    drawP,
+    lossP,
+    sims,
+    stdErr: { winP: proportionStdErr(winP, sims), drawP: proportionStdErr(drawP, sims), lossP: proportionStdErr(lossP, sims) },
+    followOnP: followOn / sims,
+    fourthInningsP: fourth / sims,
+    utility: expectedUtility({ winP, drawP, lossP }, values),
+    utilityStdErr: utilityStdErr({ winP, drawP, lossP }, sims, values),
+  };
+}
+
+// Every plan for the stage, each on its own seed like the third-innings sweep, ranked by the inputs' utility model
+export function evaluateStage(inputs: Inputs, scenario: StageScenario, sims = 2500, seed = DEFAULT_SEED): StageEvaluation {
+  assertValidInputs(inputs);
+  assertValidSims(sims);
+  const issues = validateStage(inputs, scenario);
+  if (issues.length > 0) throw new InputValidationError(issues);
+
+  const preset = resolveGround(inputs);
+  const options = stagePlans(scenario.stage)
+    .map((plan, i) => simulateStagePlan(inputs, preset, scenario, plan, sims, seed + i * 101))
+    .sort((a, b) => b.utility - a.utility);
+  return { stage: scenario.stage, best: options[0], runnerUp: options[1], options, separation: separation(options[0], options[1]), seed };
+}
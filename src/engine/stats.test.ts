@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS } from "./defaults.ts";
+import { GROUND_PRESETS } from "./grounds.ts";
+import { simulateOption } from "./simulate.ts";
+import { interval95, mergeOutcomes, proportionStdErr, quantile, separation, utilityStdErr } from "./stats.ts";
+import type { RankedOption } from "./types.ts";
+
+const ranked = (utility: number, utilityStdErr: number) => ({ utility, utilityStdErr }) as RankedOption;
+
+describe("standard errors", () => {
+  it("matches the binomial formula", () => {
+    expect(proportionStdErr(0.5, 100)).toBeCloseTo(0.05, 10);
+    expect(proportionStdErr(0, 100)).toBe(0);
+  });
+
+  it("reduces to the proportion error when only wins score", () => {
+    expect(utilityStdErr({ winP: 0.3, drawP: 0.7, lossP: 0 }, 400, { win: 1, draw: 0, loss: 0 })).toBeCloseTo(proportionStdErr(0.3, 400), 10);
+  });
+
+  it("is zero when every result is worth the same", () => {
+    expect(utilityStdErr({ winP: 0.3, drawP: 0.3, lossP: 0.4 }, 400, { win: 0.5, draw: 0.5, loss: 0.5 })).toBeCloseTo(0, 10);
+  });
+
+  it("builds a symmetric 95% interval", () => {
+    const [lo, hi] = interval95(0.5, 0.1);
+    expect(lo).toBeCloseTo(0.304, 10);
+    expect(hi).toBeCloseTo(0.696, 10);
+  });
+});
+
+describe("quantile", () => {
+  it("interpolates between neighbouring samples", () => {
+    expect(quantile([0, 10, 20, 30], 0.5)).toBe(15);
+    expect(quantile([0, 10, 20, 30], 0)).toBe(0);
+    expect(quantile([0, 10, 20, 30], 1)).toBe(30);
+  });
+});
+
+describe("separation", () => {
+  it("separates only when the gap clears 1.96 combined standard errors", () => {
+    expect(separation(ranked(0.5, 0.01), ranked(0.45, 0.01)).separable).toBe(true);
+    expect(separation(ranked(0.5, 0.02), ranked(0.47, 0.02)).separable).toBe(false);
+  });
+
+  it("treats a lone option as separable", () => {
+    expect(separation(ranked(0.5, 0.01), undefined).separable).toBe(true);
+  });
+});
+
+describe("mergeOutcomes", () => {
+  it("pools batches weighted by simulation count", () => {
+    const a = simulateOption(DEFAULT_INPUTS, GROUND_PRESETS.generic, 5, 100, 1);
+    const b = simulateOption(DEFAULT_INPUTS, GROUND_PRESETS.generic, 5, 300, 2);
+    const m = mergeOutcomes(a, b);
+    expect(m.sims).toBe(400);
+    expect(m.winP).toBeCloseTo((a.winP * 100 + b.winP * 300) / 400, 10);
+    expect(m.winP + m.drawP + m.lossP).toBeCloseTo(1, 10);
+    expect(m.stdErr.winP).toBeCloseTo(proportionStdErr(m.winP, 400), 10);
+  });
+});
@@ -0,0 +1,80 @@
+import type { OptionOutcome, OutcomeValues, RankedOption } from "./types.ts";
+
+// ---------- Monte Carlo error ----------
+
+export const Z95 = 1.96;
+
+export function proportionStdErr(p: number, n: number) {
+  return n > 0 ? Math.sqrt((p * (1 - p)) / n) : 0;
+}
+
+// Each simulated match scores the value of its result, so utility is a mean of a three-point variable
+export function utilityStdErr(p: { winP: number; drawP: number; lossP: number }, n: number, values: OutcomeValues) {
+  if (n <= 0) return 0;
+  const mean = values.win * p.winP + values.draw * p.drawP + values.loss * p.lossP;
+  const variance = values.win ** 2 * p.winP + values.draw ** 2 * p.drawP + values.loss ** 2 * p.lossP - mean * mean;
+  return Math.sqrt(Math.max(0, variance) / n);
+}
+
+export function interval95(value: number, stdErr: number): [number, number] {
+  return [value - Z95 * stdErr, value + Z95 * stdErr];
+}
+
+// Linear-interpolated quantile of an ascending array
+export function quantile(sorted: number[], q: number) {
+  if (sorted.length === 0) return NaN;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+export type Separation = {
+  z: number; // utility gap between best and runner-up in standard errors
+  separable: boolean; // true when the gap clears the 95% threshold
+};
+
+type Scored = Pick<RankedOption, "utility" | "utilityStdErr">;
+
+// Options are simulated from independent seeds, so the errors of the two utilities add in quadrature
+export function separation(best: Scored | undefined, runnerUp: Scored | undefined): Separation {
+  if (!best || !runnerUp) return { z: Infinity, separable: true };
+  const gap = best.utility - runnerUp.utility;
+  const se = Math.hypot(best.utilityStdErr, runnerUp.utilityStdErr);
+  if (se === 0) return { z: gap > 0 ? Infinity : 0, separable: gap > 0 };
+  const z = gap / se;
+  return { z, separable: z >= Z95 };
+}
+
+// Pools two independent batches of the same option, weighting every average by its simulation count
+export function mergeOutcomes(a: OptionOutcome, b: OptionOutcome): OptionOutcome {
+  const n = a.sims + b.sims;
+  const avg = (x: number, y: number) => (x * a.sims + y * b.sims) / n;
+  const winP = avg(a.winP, b.winP);
+  const drawP = avg(a.drawP, b.drawP);
+  const lossP = avg(a.lossP, b.lossP);
+  return {
+    ...a,
+    sims: n,
+    winP,
+    drawP,
+    lossP,
+    stdErr: {
+      winP: proportionStdErr(winP, n),
+      drawP: proportionStdErr(drawP, n),
+      lossP: proportionStdErr(lossP, n),
+    },
+    expMarginRuns: avg(a.expMarginRuns, b.expMarginRuns),
+    expectAddedRuns: avg(a.expectAddedRuns, b.expectAddedRuns),
+    expectWktsLostWhileBatting: avg(a.expectWktsLostWhileBatting, b.expectWktsLostWhileBatting),
+    expectOversBatted: avg(a.expectOversBatted, b.expectOversBatted),
+    target: avg(a.target, b.target),
+    // raw samples are not kept, so pooled quantiles are approximated by weighting each batch's
+    targetQuantiles: {
+      p10: avg(a.targetQuantiles.p10, b.targetQuantiles.p10),
+      p50: avg(a.targetQuantiles.p50, b.targetQuantiles.p50),
+      p90: avg(a.targetQuantiles.p90, b.targetQuantiles.p90),
+    },
+    bowlOversAvail: avg(a.bowlOversAvail, b.bowlOversAvail),
+  };
+}
@@ -0,0 +1,149 @@
+import type { DeclarationPolicy } from "./policy.ts";
+import type { Separation } from "./stats.ts";
+
+// ---------- Engine types ----------
+
+export type SessionWeather = { rainChance: number }; // 0..1
+
+// Chance of rain in one hour, and the minutes of play it costs when it comes
+export type HourlyWeather = { rainChance: number; rainMinutes: number };
+
+export type WeatherModel = "session" | "hourly";
+
+export type Inputs = {
+  ground: string;
+  oversPerSession: number; // typical 30
+  sessionsRemaining: number; // whole sessions remaining in match including current
+  oversLeftThisSession: number; // overs left in the current session
+
+  currentLead: number; // runs ahead right now, in the third innings; our score so far or first-innings lead for the earlier stages in stages.ts
+  wicketsInHand: number; // 0..10, for info when simulating batting on
+  continueBattingRunRate: number; // rpo while continuing to bat before declaring
+  continueBattingWicketProbPerOver: number; // chance of a wicket per over while batting before declaration
+
+  opponentBattingStrength: number; // 0..100 higher = better batting; used by the "sliders" strength model
+  ourBowlingStrength: number; // 0..100 higher = better bowling; used by the "sliders" strength model
+  strengthModel?: StrengthModel; // defaults to "sliders"
+  ourAttack?: BowlerProfile[]; // our bowlers, for the "profiles" strength model
+  pitchBowlingFactor: number; // 0.5 .. 2.0 higher = helps bowlers
+
+  weatherBySession: SessionWeather[]; // length >= sessionsRemaining (extra ignored)
+  weatherModel?: WeatherModel; // defaults to "session"
+  forecast?: HourlyWeather[]; // hour by hour from now, for the hourly model; built from weatherBySession when unset
+  sessionOfDay?: number; // 1..3, where the current session sits in the day; the morning when unset
+
+  riskAppetite: number; // 0 conservative (avoid loss), 1 balanced, 2 aggressive (maximize win even if loss risk rises)
+  utilityModel?: UtilityModel; // how results are scored; the three-step riskAppetite weighting when unset
+
+  groundPresetKey: string; // for quick presets
+  groundProfile?: GroundPreset; // a user-edited ground; overrides the preset when set
+  matchDay?: number; // 1-based day of the match, for pitch deterioration; inferred from sessionsRemaining when unset
+  spinShare?: number; // 0..1, share of our overs bowled by spinners; 0.35 when unset
+
+  era?: string; // calibration era key, e.g. "2010s"; the all-era baseline when unset
+  chaseModel?: ChaseModel; // defaults to "aggregate"
+  chaseIntent?: ChaseIntentModel; // how the opposition approaches the target; "adaptive" when unset
+  chaseIntentBias?: number; // -1 draw-minded .. 1 win-minded, for the adaptive intent; 0 when unset
+  battingOrder?: BatterProfile[]; // opposition order, openers first; used by the detailed chase model and the "profiles" strength model
+};
+
+export type ChaseModel = "aggregate" | "detailed";
+
+export type ChaseIntent = "attack" | "cautious" | "block";
+
+// "adaptive" picks an intent each over from the asking rate, wickets in hand and overs left; "pressure" only
+// lifts scoring when behind the rate and never blocks; a ChaseIntent holds that intent all the way
+export type ChaseIntentModel = "adaptive" | "pressure" | ChaseIntent;
+
+// "sliders" rates both sides on the 0..100 strength scale; "profiles" builds them from player records
+export type StrengthModel = "sliders" | "profiles";
+
+// What a win, a draw and a loss in this match are each worth; an option's utility is their expected value
+export type OutcomeValues = { win: number; draw: number; loss: number };
+
+export type UtilityModel =
+  | { kind: "steps" } // riskAppetite bucketed into three loss weights; draws score nothing
+  | { kind: "risk" } // riskAppetite as a continuous loss weight; draws score nothing
+  | {
+    kind: "wtc"; // World Test Championship points percentage after this match
+    pointsWon: number; // before this match
+    pointsContested: number; // before this match
+    qualifyingPct?: number; // when set, only reaching this percentage counts
+  }
+  | {
+    kind: "series"; // chance of winning the series, with a level series worth half (or all of it for the holders)
+    lead: number; // our wins minus theirs before this match
+    matchesAfter: number; // matches still to play after this one
+    holders: boolean; // we keep the trophy if the series ends level
+    futureWinP: number; // our chance of winning each later match
+    futureDrawP: number;
+  }
+  | ({ kind: "custom" } & OutcomeValues);
+
+export type UtilityKind = UtilityModel["kind"];
+
+export type BatterProfile = {
+  name: string;
+  average: number; // runs per dismissal
+  strikeRate: number; // runs per 100 balls
+  dismissalHazard: number; // chance of getting out on any ball against neutral bowling
+};
+
+export type BowlerKind = "pace" | "spin";
+
+export type BowlerProfile = {
+  name: string;
+  kind: BowlerKind;
+  average: number; // runs conceded per wicket
+  economy: number; // runs conceded per over
+  oversBowled: number; // overs already bowled in this match
+  fitness: number; // 0..1, where 1 is fully fit
+};
+
+// Pitch state on one match day relative to day 1: multipliers on the wicket hazard and on the scoring rate
+export type DayWear = { wickets: number; runs: number };
+
+export type GroundPreset = {
+  name: string;
+  wicketHelp: number;
+  chaseEase: number;
+  badLight?: number; // relative risk of bad light ending an evening session early; 1 when unset
+  sessionOvers?: number; // overs typically bowled in a session here
+  bounce?: number; // altitude and bounce; scales pace assistance, 1 when unset
+  paceAssist?: number; // help for seamers, 1 when unset
+  spinAssist?: number; // help for spinners, 1 when unset
+  deterioration?: DayWear[]; // day 1 first; follows the calibrated drift when unset
+};
+
+export type SimResult = {
+  winP: number;
+  drawP: number;
+  lossP: number;
+  expMarginRuns: number; // +ve means average runs short of target by opp when all out or time up; -ve means they win by that many runs
+  sims: number; // simulations behind these estimates
+  stdErr: { winP: number; drawP: number; lossP: number }; // Monte Carlo standard errors
+};
+
+export type OptionOutcome = SimResult & {
+  optionLabel: string;
+  key: string; // policyKey(policy), unique within a sweep
+  policy: DeclarationPolicy;
+  declareAfterOvers: number; // K for fixed-over policies, otherwise expected overs batted rounded
+  expectOversBatted: number;
+  expectAddedRuns: number;
+  expectWktsLostWhileBatting: number;
+  target: number; // mean target across simulations
+  targetQuantiles: { p10: number; p50: number; p90: number }; // spread of the target each simulation set
+  bowlOversAvail: number; // expected overs available to bowl after declaration
+};
+
+export type RankedOption = OptionOutcome & { utility: number; utilityStdErr: number };
+
+export type Evaluation = {
+  best: RankedOption;
+  runnerUp: RankedOption | undefined;
+  options: RankedOption[]; // sorted by utility, best first
+  preset: GroundPreset;
+  separation: Separation; // whether best and runner-up differ beyond Monte Carlo noise
+  seed: number;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS } from "./defaults.ts";
+import { evaluateAllOptions, rankOptions } from "./evaluate.ts";
+import type { Inputs, UtilityModel } from "./types.ts";
+import { continuousLossWeight, expectedUtility, outcomeValues, seriesValues, utilityWeights, wtcValues } from "./utility.ts";
+
+const withModel = (utilityModel: UtilityModel, patch: Partial<Inputs> = {}): Inputs => ({ ...DEFAULT_INPUTS, utilityModel, ...patch });
+
+describe("outcomeValues", () => {
+  it("keeps the three-step weighting when no model is set", () => {
+    for (const riskAppetite of [0.5, 1.2, 1.8]) {
+      const { weightLoss } = utilityWeights({ ...DEFAULT_INPUTS, riskAppetite });
+      expect(outcomeValues({ ...DEFAULT_INPUTS, riskAppetite })).toEqual({ win: 1, draw: 0, loss: -weightLoss });
+    }
+  });
+
+  it("weights losses continuously by risk appetite", () => {
+    expect(continuousLossWeight(0)).toBeCloseTo(2, 10);
+    expect(continuousLossWeight(2)).toBeCloseTo(0.8, 10);
+    const a = outcomeValues(withModel({ kind: "risk" }, { riskAppetite: 1.0 }));
+    const b = outcomeValues(withModel({ kind: "risk" }, { riskAppetite: 1.01 }));
+    expect(b.loss).toBeGreaterThan(a.loss);
+    expect(b.loss - a.loss).toBeLessThan(0.01);
+  });
+
+  it("passes custom values through", () => {
+    expect(outcomeValues(withModel({ kind: "custom", win: 3, draw: 1, loss: -2 }))).toEqual({ win: 3, draw: 1, loss: -2 });
+  });
+});
+
+describe("wtcValues", () => {
+  it("scores the points percentage after the match", () => {
+    const v = wtcValues({ kind: "wtc", pointsWon: 48, pointsContested: 96 });
+    expect(v.win).toBeCloseTo(60 / 108, 10);
+    expect(v.draw).toBeCloseTo(52 / 108, 10);
+    expect(v.loss).toBeCloseTo(48 / 108, 10);
+  });
+
+  it("counts only results that reach the qualifying mark", () => {
+    // 56 from 108 is about 51.9%; 52 from 108 is 48.1%
+    expect(wtcValues({ kind: "wtc", pointsWon: 52, pointsContested: 96, qualifyingPct: 50 })).toEqual({ win: 1, draw: 1, loss: 0 });
+  });
+});
+
+describe("seriesValues", () => {
+  const series = { kind: "series", lead: 1, matchesAfter: 0, holders: false, futureWinP: 0.35, futureDrawP: 0.3 } as const;
+
+  it("values a final match by the series result it leaves", () => {
+    expect(seriesValues(series)).toEqual({ win: 1, draw: 1, loss: 0.5 });
+    expect(seriesValues({ ...series, lead: 0, holders: true })).toEqual({ win: 1, draw: 1, loss: 0 });
+  });
+
+  it("makes a draw worth most of a win when one up with a match to go", () => {
+    const v = seriesValues({ ...series, matchesAfter: 1 });
+    // after a draw we stay 1 up: the last match wins or draws the series outright and a loss levels it
+    expect(v.draw).toBeCloseTo(0.35 + 0.3 + 0.35 * 0.5, 10);
+    expect(v.win).toBe(1);
+    expect(v.draw).toBeGreaterThan((v.win + v.loss) / 2);
+  });
+});
+
+describe("rankOptions", () => {
+  it("scores and orders options with the selected model", () => {
+    const options = evaluateAllOptions(DEFAULT_INPUTS, 100).options;
+    const inputs = withModel({ kind: "custom", win: 0, draw: 1, loss: 0 });
+    const ranked = rankOptions(inputs, options);
+    expect(ranked[0].utility).toBeCloseTo(Math.max(...options.map((o) => o.drawP)), 10);
+    for (const o of ranked) expect(o.utility).toBeCloseTo(expectedUtility(o, outcomeValues(inputs)), 10);
+  });
+
+  it("picks the best option by the model's values", () => {
+    const drawn = evaluateAllOptions(withModel({ kind: "custom", win: 0.1, draw: 1, loss: 0 }), 200, 3);
+    const won = evaluateAllOptions(withModel({ kind: "custom", win: 1, draw: 0, loss: 0 }), 200, 3);
+    expect(drawn.best.drawP).toBeGreaterThanOrEqual(won.best.drawP);
+    expect(won.best.winP).toBeGreaterThanOrEqual(drawn.best.winP);
+  });
+});
@@ -0,0 +1,103 @@
+import type { Inputs, OutcomeValues, UtilityKind, UtilityModel } from "./types.ts";
+
+// ---------- Utility models ----------
+// Every model reduces to a value for each result of this match, so an option's utility is
+// value.win * winP + value.draw * drawP + value.loss * lossP and stays comparable across options.
+
+export const UTILITY_MODEL_LABELS: Record<UtilityKind, string> = {
+  steps: "Risk appetite, three steps",
+  risk: "Risk appetite, continuous",
+  wtc: "World Test Championship points",
+  series: "Series result",
+  custom: "Custom win/draw/loss values",
+};
+
+// Starting settings when a model is picked in the UI
+export const DEFAULT_UTILITY_MODELS: Record<UtilityKind, UtilityModel> = {
+  steps: { kind: "steps" },
+  risk: { kind: "risk" },
+  wtc: { kind: "wtc", pointsWon: 48, pointsContested: 96 },
+  series: { kind: "series", lead: 1, matchesAfter: 1, holders: false, futureWinP: 0.35, futureDrawP: 0.3 },
+  custom: { kind: "custom", win: 1, draw: 0.3, loss: -1 },
+};
+
+export const WTC_POINTS: OutcomeValues = { win: 12, draw: 4, loss: 0 };
+
+// Converts riskAppetite into win/loss weights for the three-step utility score
+export function utilityWeights(inputs: Inputs) {
+  const weightLoss = inputs.riskAppetite < 1 ? 2.0 : inputs.riskAppetite < 1.5 ? 1.2 : 0.8;
+  const weightWin = 1.0;
+  return { weightWin, weightLoss };
+}
+
+// Loss weight that falls smoothly from 2 at appetite 0, through about 1.26 at 1, to 0.8 at 2
+export function continuousLossWeight(riskAppetite: number) {
+  return 2 * Math.pow(0.4, riskAppetite / 2);
+}
+
+// Points percentage after this match, or whether it clears the qualifying mark
+export function wtcValues(model: Extract<UtilityModel, { kind: "wtc" }>): OutcomeValues {
+  const contested = model.pointsContested + WTC_POINTS.win;
+  const value = (points: number) => {
+    const pct = ((model.pointsWon + points) / contested) * 100;
+    if (model.qualifyingPct === undefined) return pct / 100;
+    return pct >= model.qualifyingPct ? 1 : 0;
+  };
+  return { win: value(WTC_POINTS.win), draw: value(WTC_POINTS.draw), loss: value(WTC_POINTS.loss) };
+}
+
+// Value of the series from a given lead with `matches` left, each an independent win/draw/loss
+function seriesValue(lead: number, matches: number, model: Extract<UtilityModel, { kind: "series" }>): number {
+  const futureLossP = Math.max(0, 1 - model.futureWinP - model.futureDrawP);
+  let dist = new Map([[lead, 1]]);
+  for (let m = 0; m < matches; m++) {
+    const next = new Map<number, number>();
+    const add = (l: number, p: number) => next.set(l, (next.get(l) ?? 0) + p);
+    for (const [l, p] of dist) {
+      add(l + 1, p * model.futureWinP);
+      add(l, p * model.futureDrawP);
+      add(l - 1, p * futureLossP);
+    }
+    dist = next;
+  }
+  const level = model.holders ? 1 : 0.5;
+  let value = 0;
+  for (const [l, p] of dist) value += p * (l > 0 ? 1 : l === 0 ? level : 0);
+  return value;
+}
+
+export function seriesValues(model: Extract<UtilityModel, { kind: "series" }>): OutcomeValues {
+  return {
+    win: seriesValue(model.lead + 1, model.matchesAfter, model),
+    draw: seriesValue(model.lead, model.matchesAfter, model),
+    loss: seriesValue(model.lead - 1, model.matchesAfter, model),
+  };
+}
+
+export function outcomeValues(inputs: Inputs): OutcomeValues {
+  const model = inputs.utilityModel ?? DEFAULT_UTILITY_MODELS.steps;
+  switch (model.kind) {
+    case "steps": {
+      const { weightWin, weightLoss } = utilityWeights(inputs);
+      return { win: weightWin, draw: 0, loss: -weightLoss };
+    }
+    case "risk":
+      return { win: 1, draw: 0, loss: -continuousLossWeight(inputs.riskAppetite) };
+    case "wtc":
+      return wtcValues(model);
+    case "series":
+      return seriesValues(model);
+    case "custom":
+      return { win: model.win, draw: model.draw, loss: model.loss };
+  }
+}
+
+export function expectedUtility(p: { winP: number; drawP: number; lossP: number }, values: OutcomeValues) {
+  return values.win * p.winP + values.draw * p.drawP + values.loss * p.lossP;
+}
+
+// Whether the model scores with riskAppetite, so the UI knows when the slider matters
+export function usesRiskAppetite(inputs: Inputs) {
+  const kind = inputs.utilityModel?.kind ?? "steps";
+  return kind === "steps" || kind === "risk";
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS } from "./defaults.ts";
+import type { Inputs } from "./types.ts";
+import { INPUT_SCHEMA, InputValidationError, assertValidInputs, issueFor, validateField, validateInputs } from "./validate.ts";
+
+describe("validateInputs", () => {
+  it("accepts the default scenario", () => {
+    expect(validateInputs(DEFAULT_INPUTS)).toEqual([]);
+  });
+
+  it("reports each bad field", () => {
+    const issues = validateInputs({
+      ...DEFAULT_INPUTS,
+      wicketsInHand: 0,
+      sessionsRemaining: -1,
+      continueBattingWicketProbPerOver: 1.5,
+      pitchBowlingFactor: Number.NaN,
+    });
+    expect(issues.map((i) => i.field)).toEqual([
+      "sessionsRemaining",
+      "wicketsInHand",
+      "continueBattingWicketProbPerOver",
+      "pitchBowlingFactor",
+    ]);
+  });
+
+  it("checks every weather entry", () => {
+    const issues = validateInputs({ ...DEFAULT_INPUTS, weatherBySession: [{ rainChance: 0.1 }, { rainChance: 2 }, { rainChance: 0 }] });
+    expect(issues).toEqual([{ field: "weatherBySession[1].rainChance", message: "must be between 0 and 1" }]);
+  });
+
+  it("checks the hourly forecast and the session of the day", () => {
+    const issues = validateInputs({
+      ...DEFAULT_INPUTS,
+      weatherModel: "hourly",
+      sessionOfDay: 4,
+      forecast: [{ rainChance: 0.2, rainMinutes: 30 }, { rainChance: 0.2, rainMinutes: 90 }],
+    });
+    expect(issues.map((i) => i.field)).toEqual(["sessionOfDay", "forecast[1].rainMinutes"]);
+  });
+
+  it("checks the utility model's settings", () => {
+    const series = validateInputs({
+      ...DEFAULT_INPUTS,
+      utilityModel: { kind: "series", lead: 1.5, matchesAfter: 2, holders: false, futureWinP: 0.6, futureDrawP: 0.5 },
+    });
+    expect(series.map((i) => i.field)).toEqual(["utilityModel.lead", "utilityModel.futureDrawP"]);
+    const custom = validateInputs({ ...DEFAULT_INPUTS, utilityModel: { kind: "custom", win: -1, draw: 0, loss: 0 } });
+    expect(custom).toEqual([{ field: "utilityModel.win", message: "must be worth more than a loss" }]);
+  });
+
+  it("checks the match day, spin share and a saved ground profile", () => {
+    const issues = validateInputs({
+      ...DEFAULT_INPUTS,
+      matchDay: 0,
+      spinShare: 1.2,
+      groundProfile: { name: " ", wicketHelp: 1, chaseEase: 1, spinAssist: 3, deterioration: [{ wickets: 1, runs: 1 }, { wickets: 5, runs: 1 }] },
+    });
+    expect(issues.map((i) => i.field)).toEqual([
+      "matchDay",
+      "spinShare",
+      "groundProfile.name",
+      "groundProfile.spinAssist",
+      "groundProfile.deterioration[1].wickets",
+    ]);
+  });
+
+  it("checks our attack under player profiles", () => {
+    const issues = validateInputs({
+      ...DEFAULT_INPUTS,
+      strengthModel: "profiles",
+      battingOrder: DEFAULT_INPUTS.battingOrder!.slice(0, 1),
+      ourAttack: [{ name: "A", kind: "pace", average: 30, economy: 12, oversBowled: 0, fitness: 1.5 }],
+    });
+    expect(issues.map((i) => i.field)).toEqual(["battingOrder", "ourAttack[0].economy", "ourAttack[0].fitness"]);
+    expect(issues[0].message).toBe("needs between 2 and 11 batters for the player profiles");
+    expect(validateInputs({ ...DEFAULT_INPUTS, strengthModel: "profiles" }).map((i) => i.field)).toEqual(["ourAttack"]);
+  });
+
+  it("checks the opposition's chase intent", () => {
+    const issues = validateInputs({ ...DEFAULT_INPUTS, chaseIntent: "swing" as "attack", chaseIntentBias: 2 });
+    expect(issues.map((i) => i.field)).toEqual(["chaseIntent", "chaseIntentBias"]);
+  });
+
+  it("reports malformed lists and objects instead of reading into them", () => {
+    const check = (patch: object) => validateInputs({ ...DEFAULT_INPUTS, ...patch } as Inputs);
+    expect(check({ weatherBySession: [null] })).toEqual([{ field: "weatherBySession", message: "must be a list of objects" }]);
+    expect(check({ weatherBySession: "dry" })).toEqual([{ field: "weatherBySession", message: "must be a list" }]);
+    expect(check({ weatherModel: "hourly", forecast: [0.2] })).toEqual([{ field: "forecast", message: "must be a list of objects" }]);
+    expect(check({ chaseModel: "detailed", battingOrder: 5 })).toEqual([{ field: "battingOrder", message: "must be a list" }]);
+    expect(check({ strengthModel: "profiles", ourAttack: [null] })).toEqual([{ field: "ourAttack", message: "must be a list of objects" }]);
+    expect(check({ groundProfile: "Lord's" })).toEqual([{ field: "groundProfile", message: "must be an object" }]);
+    expect(check({ utilityModel: null })).toEqual([{ field: "utilityModel", message: "must be an object" }]);
+    expect(check({ groundProfile: { name: "G", wicketHelp: 1, chaseEase: 1, deterioration: [1] } })).toEqual([
+      { field: "groundProfile.deterioration", message: "must be a list of objects" },
+    ]);
+  });
+
+  it("checks fields against each other", () => {
+    const issues = validateInputs({ ...DEFAULT_INPUTS, oversLeftThisSession: 40, weatherBySession: [{ rainChance: 0.1 }] });
+    expect(issues).toEqual([
+      { field: "oversLeftThisSession", message: "can't be more than the 30 overs in a session" },
+      { field: "weatherBySession", message: "gives a rain chance for 1 session but 3 remain" },
+    ]);
+    // an hourly forecast replaces the session chances
+    expect(validateInputs({ ...DEFAULT_INPUTS, weatherModel: "hourly", forecast: [], weatherBySession: [] })).toEqual([]);
+    expect(validateInputs({ ...DEFAULT_INPUTS, matchDay: 6, sessionOfDay: 3, sessionsRemaining: 5, weatherBySession: Array(5).fill({ rainChance: 0 }) })).toEqual([
+      { field: "sessionsRemaining", message: "would run the match past day 6 from day 6" },
+    ]);
+  });
+
+  it("leaves the cross-checks to the fields' own problems", () => {
+    expect(validateInputs({ ...DEFAULT_INPUTS, sessionsRemaining: 20, oversPerSession: Number.NaN }).map((i) => i.field)).toEqual(["oversPerSession", "sessionsRemaining"]);
+  });
+
+  it("throws a typed error carrying the issues", () => {
+    try {
+      assertValidInputs({ ...DEFAULT_INPUTS, wicketsInHand: 2.5 });
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(InputValidationError);
+      expect((e as InputValidationError).issues).toEqual([{ field: "wicketsInHand", message: "must be a whole number" }]);
+    }
+  });
+});
+
+describe("validateField", () => {
+  it("checks a value against its schema rule", () => {
+    expect(validateField("wicketsInHand", 0)).toEqual([{ field: "wicketsInHand", message: "must be between 1 and 10" }]);
+    expect(validateField("currentLead", undefined)).toEqual([{ field: "currentLead", message: "must be a number" }]);
+    expect(validateField("matchDay", undefined)).toEqual([]);
+    expect(validateField("chaseModel", "fast")).toEqual([{ field: "chaseModel", message: "must be one of aggregate, detailed" }]);
+  });
+
+  it("gives every rule a label", () => {
+    expect(Object.values(INPUT_SCHEMA).every((r) => r.label.length > 0)).toBe(true);
+  });
+
+  it("finds a field's first issue", () => {
+    const issues = validateInputs({ ...DEFAULT_INPUTS, wicketsInHand: 11 });
+    expect(issueFor(issues, "wicketsInHand")).toBe("must be between 1 and 10");
+    expect(issueFor(issues, "currentLead")).toBeUndefined();
+  });
+});
@@ -0,0 +1,260 @@
+import { CHASE_INTENT_MODELS } from "./intent.ts";
+import { SESSIONS_PER_DAY } from "./matchState.ts";
+import type { DeclarationPolicy } from "./policy.ts";
+import type { GroundPreset, Inputs, UtilityModel } from "./types.ts";
+
+// ---------- Input validation ----------
+
+// A Test's usual length, and the longest one the advisor takes: the match-state editor, the match day
+// and a ground's day-by-day wear all stop there
+export const STANDARD_TEST_DAYS = 5;
+export const MAX_SCHEDULED_DAYS = 6;
+
+export type ValidationIssue = { field: string; message: string };
+
+export class InputValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`Invalid inputs: ${issues.map((i) => `${i.field} ${i.message}`).join("; ")}`);
+    this.name = "InputValidationError";
+    this.issues = issues;
+  }
+}
+
+function checkRange(issues: ValidationIssue[], field: string, value: number, lo: number, hi: number) {
+  if (!Number.isFinite(value)) {
+    issues.push({ field, message: "must be a number" });
+  } else if (value < lo || value > hi) {
+    issues.push({ field, message: `must be between ${lo} and ${hi}` });
+  }
+}
+
+function checkInteger(issues: ValidationIssue[], field: string, value: number, lo: number, hi: number) {
+  if (Number.isFinite(value) && !Number.isInteger(value)) {
+    issues.push({ field, message: "must be a whole number" });
+    return;
+  }
+  checkRange(issues, field, value, lo, hi);
+}
+
+// ---------- Input schema ----------
+// One rule per scalar field, read by validateInputs and by the form, which takes its labels, bounds and steps
+// from here so the two can't disagree. Optional fields are only checked when set.
+
+export type NumberRule = { kind: "number"; label: string; min: number; max: number; step?: number; integer?: boolean; optional?: boolean };
+export type ChoiceRule = { kind: "choice"; label: string; choices: readonly string[]; optional?: boolean };
+export type FieldRule = NumberRule | ChoiceRule;
+
+export const INPUT_SCHEMA = {
+  oversPerSession: { kind: "number", label: "Overs / session", min: 1, max: 60 },
+  sessionsRemaining: { kind: "number", label: "Sessions remaining", min: 1, max: 15, integer: true },
+  oversLeftThisSession: { kind: "number", label: "Overs left this session", min: 0, max: 60 },
+  currentLead: { kind: "number", label: "Current lead (runs)", min: -1000, max: 2000 },
+  wicketsInHand: { kind: "number", label: "Wickets in hand", min: 1, max: 10, integer: true },
+  continueBattingRunRate: { kind: "number", label: "If batting on, run rate", min: 0, max: 12, step: 0.1 },
+  continueBattingWicketProbPerOver: { kind: "number", label: "If batting on, wicket chance / over", min: 0, max: 1, step: 0.01 },
+  opponentBattingStrength: { kind: "number", label: "Opponent batting strength", min: 0, max: 100 },
+  ourBowlingStrength: { kind: "number", label: "Our bowling strength", min: 0, max: 100 },
+  pitchBowlingFactor: { kind: "number", label: "Pitch bowling factor", min: 0.5, max: 2, step: 0.01 },
+  riskAppetite: { kind: "number", label: "Risk appetite", min: 0, max: 2, step: 0.1 },
+  sessionOfDay: { kind: "number", label: "Session of the day", min: 1, max: 3, integer: true, optional: true },
+  matchDay: { kind: "number", label: "Day of the match", min: 1, max: MAX_SCHEDULED_DAYS, integer: true, optional: true },
+  spinShare: { kind: "number", label: "Spin share", min: 0, max: 1, step: 0.05, optional: true },
+  weatherModel: { kind: "choice", label: "Weather model", choices: ["session", "hourly"], optional: true },
+  chaseModel: { kind: "choice", label: "Chase model", choices: ["aggregate", "detailed"], optional: true },
+  strengthModel: { kind: "choice", label: "Team strength from", choices: ["sliders", "profiles"], optional: true },
+  chaseIntent: { kind: "choice", label: "Their approach", choices: CHASE_INTENT_MODELS, optional: true },
+  chaseIntentBias: { kind: "number", label: "Their bias between the draw and the win", min: -1, max: 1, step: 0.1, optional: true },
+} satisfies Partial<Record<keyof Inputs, FieldRule>>;
+
+export type SchemaField = keyof typeof INPUT_SCHEMA;
+
+// A single field's problems against its rule, for checking a value before it goes into the inputs
+export function validateField(field: SchemaField, value: unknown): ValidationIssue[] {
+  const rule: FieldRule = INPUT_SCHEMA[field];
+  const issues: ValidationIssue[] = [];
+  if (value === undefined && rule.optional) return issues;
+  if (rule.kind === "choice") {
+    if (!rule.choices.includes(value as string)) issues.push({ field, message: `must be one of ${rule.choices.join(", ")}` });
+  } else if (typeof value !== "number") {
+    issues.push({ field, message: "must be a number" });
+  } else {
+    (rule.integer ? checkInteger : checkRange)(issues, field, value, rule.min, rule.max);
+  }
+  return issues;
+}
+
+// The first problem with a field, for showing beside it
+export function issueFor(issues: ValidationIssue[], field: string) {
+  return issues.find((i) => i.field === field)?.message;
+}
+
+type Obj = Record<string, unknown>;
+const isObj = (v: unknown): v is Obj => typeof v === "object" && v !== null && !Array.isArray(v);
+
+function checkList(issues: ValidationIssue[], field: string, value: unknown) {
+  if (!Array.isArray(value)) issues.push({ field, message: "must be a list" });
+  else if (!value.every(isObj)) issues.push({ field, message: "must be a list of objects" });
+}
+
+// The lists and nested objects the checks below walk into. Inputs built from JSON or a link can carry any shape,
+// and a field with the wrong one has its members skipped rather than read.
+function checkShapes(issues: ValidationIssue[], inputs: Inputs) {
+  checkList(issues, "weatherBySession", inputs.weatherBySession);
+  for (const field of ["forecast", "battingOrder", "ourAttack"] as const) {
+    if (inputs[field] !== undefined) checkList(issues, field, inputs[field]);
+  }
+  for (const field of ["groundProfile", "utilityModel"] as const) {
+    if (inputs[field] !== undefined && !isObj(inputs[field])) issues.push({ field, message: "must be an object" });
+  }
+}
+
+// Fields that can each be fine on their own but not together. Skipped while either side is itself invalid.
+function checkConsistency(issues: ValidationIssue[], inputs: Inputs) {
+  const bad = new Set(issues.map((i) => i.field));
+  const ok = (...fields: string[]) => fields.every((f) => !bad.has(f));
+
+  if (ok("oversLeftThisSession", "oversPerSession") && inputs.oversLeftThisSession > inputs.oversPerSession) {
+    issues.push({ field: "oversLeftThisSession", message: `can't be more than the ${inputs.oversPerSession} overs in a session` });
+  }
+  // the session model, and the hourly one without a forecast, read a rain chance for every remaining session
+  const sessionWeather = inputs.weatherModel !== "hourly" || !inputs.forecast;
+  if (ok("sessionsRemaining", "weatherBySession") && sessionWeather && inputs.weatherBySession.length < inputs.sessionsRemaining) {
+    const given = inputs.weatherBySession.length;
+    issues.push({ field: "weatherBySession", message: `gives a rain chance for ${given} ${given === 1 ? "session" : "sessions"} but ${inputs.sessionsRemaining} remain` });
+  }
+  if (inputs.matchDay !== undefined && ok("matchDay", "sessionOfDay", "sessionsRemaining")) {
+    const lastDay = inputs.matchDay + Math.floor(((inputs.sessionOfDay ?? 1) - 1 + inputs.sessionsRemaining - 1) / SESSIONS_PER_DAY);
+    if (lastDay > MAX_SCHEDULED_DAYS) issues.push({ field: "sessionsRemaining", message: `would run the match past day ${MAX_SCHEDULED_DAYS} from day ${inputs.matchDay}` });
+  }
+}
+
+// Returns every problem found; an empty list means the inputs are safe to simulate
+export function validateInputs(inputs: Inputs): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const field of Object.keys(INPUT_SCHEMA) as SchemaField[]) issues.push(...validateField(field, inputs[field]));
+  checkShapes(issues, inputs);
+  const malformed = new Set(issues.map((i) => i.field));
+  const wellFormed = (field: string) => !malformed.has(field);
+  checkConsistency(issues, inputs);
+
+  if (wellFormed("weatherBySession")) {
+    inputs.weatherBySession.forEach((w, i) => {
+      checkRange(issues, `weatherBySession[${i}].rainChance`, w.rainChance, 0, 1);
+    });
+  }
+
+  if (inputs.weatherModel === "hourly" && inputs.forecast && wellFormed("forecast")) {
+    if (inputs.forecast.length > 24 * 7) issues.push({ field: "forecast", message: "covers more than a week of hours" });
+    inputs.forecast.forEach((h, i) => {
+      checkRange(issues, `forecast[${i}].rainChance`, h.rainChance, 0, 1);
+      checkRange(issues, `forecast[${i}].rainMinutes`, h.rainMinutes, 0, 60);
+    });
+  }
+
+  if ((inputs.chaseModel === "detailed" || inputs.strengthModel === "profiles") && wellFormed("battingOrder")) {
+    const order = inputs.battingOrder ?? [];
+    if (order.length < 2 || order.length > 11) {
+      issues.push({ field: "battingOrder", message: `needs between 2 and 11 batters for the ${inputs.chaseModel === "detailed" ? "detailed chase model" : "player profiles"}` });
+    }
+    order.forEach((b, i) => {
+      checkRange(issues, `battingOrder[${i}].average`, b.average, 0, 150);
+      checkRange(issues, `battingOrder[${i}].strikeRate`, b.strikeRate, 1, 200);
+      checkRange(issues, `battingOrder[${i}].dismissalHazard`, b.dismissalHazard, 0, 1);
+    });
+  }
+
+  if (inputs.strengthModel === "profiles" && wellFormed("ourAttack")) {
+    const attack = inputs.ourAttack ?? [];
+    if (attack.length < 1 || attack.length > 11) issues.push({ field: "ourAttack", message: "needs between 1 and 11 bowlers" });
+    attack.forEach((b, i) => {
+      if (b.kind !== "pace" && b.kind !== "spin") issues.push({ field: `ourAttack[${i}].kind`, message: "must be pace or spin" });
+      checkRange(issues, `ourAttack[${i}].average`, b.average, 5, 200);
+      checkRange(issues, `ourAttack[${i}].economy`, b.economy, 0.5, 10);
+      checkRange(issues, `ourAttack[${i}].oversBowled`, b.oversBowled, 0, 300);
+      checkRange(issues, `ourAttack[${i}].fitness`, b.fitness, 0, 1);
+    });
+  }
+
+  if (inputs.groundProfile !== undefined && wellFormed("groundProfile")) validateGround(issues, inputs.groundProfile);
+  if (inputs.utilityModel !== undefined && wellFormed("utilityModel")) validateUtilityModel(issues, inputs.utilityModel);
+
+  return issues;
+}
+
+// A ground profile's own problems, for editors that check a ground before it is used
+export function validateGroundProfile(ground: GroundPreset): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validateGround(issues, ground);
+  return issues;
+}
+
+function validateGround(issues: ValidationIssue[], ground: GroundPreset) {
+  if (typeof ground.name !== "string" || !ground.name.trim()) issues.push({ field: "groundProfile.name", message: "must not be empty" });
+  checkRange(issues, "groundProfile.wicketHelp", ground.wicketHelp, 0.5, 2);
+  checkRange(issues, "groundProfile.chaseEase", ground.chaseEase, 0.5, 2);
+  if (ground.badLight !== undefined) checkRange(issues, "groundProfile.badLight", ground.badLight, 0, 3);
+  if (ground.sessionOvers !== undefined) checkRange(issues, "groundProfile.sessionOvers", ground.sessionOvers, 1, 60);
+  if (ground.bounce !== undefined) checkRange(issues, "groundProfile.bounce", ground.bounce, 0.5, 2);
+  if (ground.paceAssist !== undefined) checkRange(issues, "groundProfile.paceAssist", ground.paceAssist, 0.5, 2);
+  if (ground.spinAssist !== undefined) checkRange(issues, "groundProfile.spinAssist", ground.spinAssist, 0.5, 2);
+  if (ground.deterioration !== undefined) checkList(issues, "groundProfile.deterioration", ground.deterioration);
+  if (Array.isArray(ground.deterioration) && ground.deterioration.every(isObj)) {
+    if (ground.deterioration.length < 1 || ground.deterioration.length > MAX_SCHEDULED_DAYS) {
+      issues.push({ field: "groundProfile.deterioration", message: `needs between 1 and ${MAX_SCHEDULED_DAYS} days` });
+    }
+    ground.deterioration.forEach((d, i) => {
+      checkRange(issues, `groundProfile.deterioration[${i}].wickets`, d.wickets, 0.25, 4);
+      checkRange(issues, `groundProfile.deterioration[${i}].runs`, d.runs, 0.25, 4);
+    });
+  }
+}
+
+function validateUtilityModel(issues: ValidationIssue[], model: UtilityModel) {
+  switch (model.kind) {
+    case "steps":
+    case "risk":
+      return;
+    case "wtc":
+      checkRange(issues, "utilityModel.pointsContested", model.pointsContested, 0, 1000);
+      checkRange(issues, "utilityModel.pointsWon", model.pointsWon, 0, model.pointsContested);
+      if (model.qualifyingPct !== undefined) checkRange(issues, "utilityModel.qualifyingPct", model.qualifyingPct, 0, 100);
+      return;
+    case "series":
+      checkInteger(issues, "utilityModel.lead", model.lead, -10, 10);
+      checkInteger(issues, "utilityModel.matchesAfter", model.matchesAfter, 0, 10);
+      checkRange(issues, "utilityModel.futureWinP", model.futureWinP, 0, 1);
+      checkRange(issues, "utilityModel.futureDrawP", model.futureDrawP, 0, 1);
+      if (model.futureWinP + model.futureDrawP > 1) issues.push({ field: "utilityModel.futureDrawP", message: "plus the win chance must not exceed 1" });
+      return;
+    case "custom":
+      checkRange(issues, "utilityModel.win", model.win, -100, 100);
+      checkRange(issues, "utilityModel.draw", model.draw, -100, 100);
+      checkRange(issues, "utilityModel.loss", model.loss, -100, 100);
+      if (model.win <= model.loss) issues.push({ field: "utilityModel.win", message: "must be worth more than a loss" });
+      return;
+    default:
+      issues.push({ field: "utilityModel.kind", message: "must be steps, risk, wtc, series or custom" });
+  }
+}
+
+export function assertValidInputs(inputs: Inputs) {
+  const issues = validateInputs(inputs);
+  if (issues.length > 0) throw new InputValidationError(issues);
+}
+
+export function validateSims(sims: number): ValidationIssue[] {
+  return Number.isInteger(sims) && sims >= 1 ? [] : [{ field: "sims", message: "must be a positive whole number" }];
+}
+
+export function assertValidSims(sims: number) {
+  const issues = validateSims(sims);
+  if (issues.length > 0) throw new InputValidationError(issues);
+}
+
+// A sweep over no options has no best one to report
+export function validatePolicies(policies: DeclarationPolicy[]): ValidationIssue[] {
+  return policies.length > 0 ? [] : [{ field: "policies", message: "must include at least one declaration option" }];
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS } from "./defaults.ts";
+import { GROUND_PRESETS } from "./grounds.ts";
+import { rng } from "./random.ts";
+import { simulateOption, simulatePolicy } from "./simulate.ts";
+import type { Inputs } from "./types.ts";
+import { badLightChance, hourlyForecast, oversAfterBatting, samplePlayableOvers, sessionWindows } from "./weather.ts";
+
+const hourly = (patch: Partial<Inputs> = {}): Inputs => ({ ...DEFAULT_INPUTS, weatherModel: "hourly", sessionOfDay: 1, ...patch });
+const dry = (hours: number) => Array.from({ length: hours }, () => ({ rainChance: 0, rainMinutes: 0 }));
+const noBadLight = { ...GROUND_PRESETS.generic, badLight: 0 };
+
+describe("sessionWindows", () => {
+  it("puts the current session's remaining overs before its scheduled end, then follows the day", () => {
+    const w = sessionWindows(hourly({ sessionsRemaining: 4, oversLeftThisSession: 15 }));
+    expect(w.map((s) => [s.day, s.sessionOfDay])).toEqual([[0, 1], [0, 2], [0, 3], [1, 1]]);
+    expect(w[0].start).toBeCloseTo(11);
+    expect(w[0].end).toBe(12);
+    expect(w[3].start).toBe(34);
+  });
+});
+
+describe("hourlyForecast", () => {
+  it("spreads a session's rain chance over its hours", () => {
+    const hours = hourlyForecast(hourly({ oversLeftThisSession: 30, weatherBySession: [{ rainChance: 0.36 }, { rainChance: 0 }, { rainChance: 0 }] }));
+    expect(1 - (1 - hours[0].rainChance) * (1 - hours[1].rainChance)).toBeCloseTo(0.36);
+    expect(hours[3].rainChance).toBe(0);
+  });
+
+  it("uses an imported forecast as given", () => {
+    const forecast = [{ rainChance: 0.5, rainMinutes: 20 }];
+    expect(hourlyForecast(hourly({ forecast }))).toBe(forecast);
+  });
+});
+
+describe("samplePlayableOvers", () => {
+  it("plays every scheduled over in dry weather with good light", () => {
+    const overs = samplePlayableOvers(hourly({ forecast: dry(48) }), noBadLight, rng(1));
+    expect(overs).toEqual([24, 30, 30]);
+  });
+
+  it("loses overs in the hour it rains", () => {
+    const forecast = dry(48);
+    forecast[0] = { rainChance: 1, rainMinutes: 60 };
+    const overs = samplePlayableOvers(hourly({ forecast }), noBadLight, rng(1));
+    expect(overs[0]).toBeLessThan(24);
+    expect(overs.slice(1)).toEqual([30, 30]);
+  });
+
+  it("ends evening sessions early for bad light more often at darker grounds", () => {
+    const inputs = hourly({ forecast: dry(48), sessionOfDay: 3, sessionsRemaining: 1, oversLeftThisSession: 30 });
+    const shortened = (badLight: number) => {
+      const r = rng(5);
+      let n = 0;
+      for (let i = 0; i < 2000; i++) if (samplePlayableOvers(inputs, { badLight }, r)[0] < 30) n++;
+      return n / 2000;
+    };
+    expect(shortened(0)).toBe(0);
+    expect(shortened(GROUND_PRESETS.lords.badLight!)).toBeGreaterThan(shortened(GROUND_PRESETS.mcg.badLight!));
+    expect(badLightChance({ badLight: 1 }, [{ rainChance: 0.8, rainMinutes: 30 }])).toBeGreaterThan(badLightChance({ badLight: 1 }, []));
+  });
+});
+
+describe("hourly weather in the simulation", () => {
+  it("charges rain while batting on to the overs left for the chase", () => {
+    const forecast = dry(48);
+    forecast[0] = { rainChance: 1, rainMinutes: 60 }; // the coming hour is a washout
+    const wet = simulateOption(hourly({ forecast }), noBadLight, 10, 200, 3);
+    const clear = simulateOption(hourly({ forecast: dry(48) }), noBadLight, 10, 200, 3);
+    expect(wet.bowlOversAvail).toBeLessThan(clear.bowlOversAvail - 5);
+    expect(wet.expectOversBatted).toBe(10);
+  });
+
+  it("lets a session-break declaration come sooner when the session is cut", () => {
+    const forecast = dry(48);
+    forecast[0] = { rainChance: 1, rainMinutes: 60 };
+    const out = simulatePolicy(hourly({ forecast }), noBadLight, { kind: "session", breaks: 1 }, 100, 3);
+    expect(out.expectOversBatted).toBeLessThan(DEFAULT_INPUTS.oversLeftThisSession);
+  });
+
+  it("keeps win + draw + loss = 1 and is deterministic", () => {
+    const a = simulateOption(hourly(), GROUND_PRESETS.lords, 5, 300, 11);
+    expect(a.winP + a.drawP + a.lossP).toBeCloseTo(1, 10);
+    expect(simulateOption(hourly(), GROUND_PRESETS.lords, 5, 300, 11)).toEqual(a);
+  });
+
+  it("gives the chase whatever playable overs batting on leaves", () => {
+    expect(oversAfterBatting([10, 30], 12)).toBe(28);
+    expect(oversAfterBatting([10], 12)).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+import { clamp, type Rng } from "./random.ts";
+import type { ChasePreset } from "./chase.ts";
+import type { HourlyWeather, Inputs } from "./types.ts";
+
+// ---------- Hourly weather and bad light ----------
+// The hourly model places each remaining session on the clock, samples showers hour by hour and
+// an early finish for bad light in each evening session, and turns what is left into playable overs.
+// Batting on and the chase then share those overs, so a stoppage costs whichever phase it falls in.
+
+// A Test day in local clock hours: three two-hour sessions with 40 minutes for lunch and 20 for tea
+export const SESSION_CLOCK = [
+  { start: 10, end: 12 },
+  { start: 12 + 40 / 60, end: 14 + 40 / 60 },
+  { start: 15, end: 17 },
+];
+
+const HOURS_PER_SESSION = 2;
+const RESTART_MINUTES = 10; // covers off and an inspection after every shower
+const BAD_LIGHT_CHANCE = 0.12; // per evening session at a ground of typical light, under clear skies
+export const DEFAULT_RAIN_MINUTES = 40; // a shower's cost when no forecast says otherwise
+
+export type SessionWindow = {
+  day: number; // 0 = today
+  sessionOfDay: number; // 1..3
+  start: number; // hours since midnight today
+  end: number;
+};
+
+// Where each remaining session falls on the clock. The current one is already under way,
+// so it starts however long before its scheduled end its remaining overs take.
+export function sessionWindows(inputs: Inputs): SessionWindow[] {
+  const first = clamp(Math.round(inputs.sessionOfDay ?? 1), 1, SESSION_CLOCK.length) - 1;
+  const overRate = inputs.oversPerSession / HOURS_PER_SESSION;
+  return Array.from({ length: inputs.sessionsRemaining }, (_, i) => {
+    const slot = first + i;
+    const day = Math.floor(slot / SESSION_CLOCK.length);
+    const clock = SESSION_CLOCK[slot % SESSION_CLOCK.length];
+    const end = day * 24 + clock.end;
+    const start = i === 0 ? end - inputs.oversLeftThisSession / overRate : day * 24 + clock.start;
+    return { day, sessionOfDay: (slot % SESSION_CLOCK.length) + 1, start, end };
+  });
+}
+
+// Hour-by-hour weather from now. Without an imported forecast, each session's rain chance is spread
+// over its hours so that the chance of at least one shower in the session matches it.
+export function hourlyForecast(inputs: Inputs, windows = sessionWindows(inputs)): HourlyWeather[] {
+  if (inputs.forecast) return inputs.forecast;
+  const now = windows[0]?.start ?? 0;
+  const hours = Math.ceil((windows[windows.length - 1]?.end ?? now) - now);
+  return Array.from({ length: hours }, (_, h) => {
+    const mid = now + h + 0.5;
+    const i = windows.findIndex((w) => mid >= w.start && mid < w.end);
+    if (i < 0) return { rainChance: 0, rainMinutes: 0 };
+    const sessionChance = inputs.weatherBySession[i]?.rainChance ?? 0;
+    return { rainChance: 1 - Math.pow(1 - sessionChance, 1 / HOURS_PER_SESSION), rainMinutes: DEFAULT_RAIN_MINUTES };
+  });
+}
+
+type Interval = [number, number];
+
+function overlap(windowStart: number, windowEnd: number, stoppages: Interval[]) {
+  let lost = 0;
+  for (const [a, b] of stoppages) lost += Math.max(0, Math.min(b, windowEnd) - Math.max(a, windowStart));
+  return lost;
+}
+
+// Overlapping showers and bad light only cost the time once
+function merge(intervals: Interval[]): Interval[] {
+  const sorted = intervals.slice().sort((x, y) => x[0] - y[0]);
+  const out: Interval[] = [];
+  for (const [a, b] of sorted) {
+    const last = out[out.length - 1];
+    if (last && a <= last[1]) last[1] = Math.max(last[1], b);
+    else out.push([a, b]);
+  }
+  return out;
+}
+
+// Chance that bad light ends this evening session early: the ground's light, darkened by cloud from any rain about
+export function badLightChance(preset: Pick<ChasePreset, "badLight">, forecastHours: HourlyWeather[]) {
+  const cloud = Math.max(0, ...forecastHours.map((h) => h.rainChance));
+  return clamp(BAD_LIGHT_CHANCE * (preset.badLight ?? 1) * (1 + 2 * cloud), 0, 0.9);
+}
+
+// One sample of the whole overs playable in each remaining session
+export function samplePlayableOvers(inputs: Inputs, preset: Pick<ChasePreset, "badLight">, r: Rng): number[] {
+  const windows = sessionWindows(inputs);
+  if (windows.length === 0) return [];
+  const now = windows[0].start;
+  const forecast = hourlyForecast(inputs, windows);
+  const last = windows[windows.length - 1].end;
+
+  const stoppages: Interval[] = [];
+  for (let h = 0; now + h < last; h++) {
+    const w = forecast[h];
+    if (!w || r() >= w.rainChance) continue;
+    const minutes = Math.min(60, w.rainMinutes * (0.5 + r())) + RESTART_MINUTES;
+    const start = now + h + r() * Math.max(0, 1 - minutes / 60);
+    stoppages.push([start, start + minutes / 60]);
+  }
+
+  for (const w of windows) {
+    if (w.sessionOfDay !== SESSION_CLOCK.length) continue;
+    const hours = forecast.slice(Math.max(0, Math.floor(w.start - now)), Math.ceil(w.end - now));
+    if (r() < badLightChance(preset, hours)) {
+      const from = Math.max(w.start, w.end - r()); // light goes some time in the last hour
+      stoppages.push([from, w.end]);
+    }
+  }
+
+  const merged = merge(stoppages);
+  const overRate = inputs.oversPerSession / HOURS_PER_SESSION;
+  return windows.map((w) => Math.max(0, Math.floor((w.end - w.start - overlap(w.start, w.end, merged)) * overRate + 1e-9)));
+}
+
+// Overs the chase gets once batting on has used its share of the playable overs
+export function oversAfterBatting(sessions: number[], oversBatted: number) {
+  return Math.max(0, sessions.reduce((a, b) => a + b, 0) - oversBatted);
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { briefingMarkdown, briefingText } from "./briefing.ts";
+import type { Explanation } from "./explanation.ts";
+
+const explanation: Explanation = {
+  headline: "Declare in 6 overs: win 32.4%, draw 55.2%, loss 12.4%.",
+  situation: "Lead of 250 with 6 wickets in hand and 84 overs left in the match at Generic.",
+  points: ["One.", "Two.", "Three.", "Four.", "Five."],
+  warnings: [],
+};
+const meta = { sims: 2500, seed: 1234 };
+
+describe("briefingText", () => {
+  it("keeps the strongest reasons and skips the checks when there are none", () => {
+    const out = briefingText(explanation, meta);
+    expect(out).toContain(`Call: ${explanation.headline}`);
+    expect(out).toContain("- Four.");
+    expect(out).not.toContain("Five.");
+    expect(out).not.toContain("Check first");
+    expect(out.trimEnd().endsWith("2,500 simulations per option, seed 1234.")).toBe(true);
+  });
+});
+
+describe("briefingMarkdown", () => {
+  it("lists warnings under their own heading", () => {
+    const out = briefingMarkdown({ ...explanation, warnings: ["Only 1 wicket in hand."] }, meta);
+    expect(out.startsWith("# Declaration briefing\n")).toBe(true);
+    expect(out).toContain(`**${explanation.headline}**`);
+    expect(out).toContain("## Check first\n\n- Only 1 wicket in hand.");
+  });
+});
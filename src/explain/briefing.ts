@@ -0,0 +1,43 @@
+import type { Explanation } from "./explanation.ts";
+
+// ---------- Dressing-room briefing ----------
+// The explanation cut down to what a captain reads between overs: the call, the moment, the strongest
+// reasons and anything to check before acting on it.
+
+const BRIEFING_POINTS = 4;
+
+export type BriefingMeta = { sims: number; seed: number };
+
+const footer = ({ sims, seed }: BriefingMeta) => `${sims.toLocaleString("en-GB")} simulations per option, seed ${seed}.`;
+
+export function briefingText(explanation: Explanation, meta: BriefingMeta) {
+  const lines = [
+    "DECLARATION BRIEFING",
+    "",
+    `Call: ${explanation.headline}`,
+    explanation.situation,
+    "",
+    "Why:",
+    ...explanation.points.slice(0, BRIEFING_POINTS).map((p) => `- ${p}`),
+  ];
+  if (explanation.warnings.length > 0) lines.push("", "Check first:", ...explanation.warnings.map((w) => `- ${w}`));
+  lines.push("", footer(meta));
+  return `${lines.join("\n")}\n`;
+}
+
+export function briefingMarkdown(explanation: Explanation, meta: BriefingMeta) {
+  const lines = [
+    "# Declaration briefing",
+    "",
+    `**${explanation.headline}**`,
+    "",
+    explanation.situation,
+    "",
+    "## Why",
+    "",
+    ...explanation.points.slice(0, BRIEFING_POINTS).map((p) => `- ${p}`),
+  ];
+  if (explanation.warnings.length > 0) lines.push("", "## Check first", "", ...explanation.warnings.map((w) => `- ${w}`));
+  lines.push("", `_${footer(meta)}_`);
+  return `${lines.join("\n")}\n`;
+}
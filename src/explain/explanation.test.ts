@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ATTACK, DEFAULT_BATTING_ORDER, DEFAULT_INPUTS, attackStrength, evaluateAllOptions, resolveGround, type Inputs, type SensitivityRow } from "../engine/index.ts";
+import { explainEvaluation, flatRange, marginalPerOver, unusualInputs } from "./explanation.ts";
+
+const SIMS = 300;
+const evaluation = evaluateAllOptions(DEFAULT_INPUTS, SIMS, 5);
+
+const point = (value: number, winP: number, best = "Declare in 6 overs", bestKey = "overs:6") => ({ value, best, bestKey, declareAfterOvers: 6, winP, utility: winP });
+
+const row = (field: string, label: string, swing: number, extra: Partial<SensitivityRow> = {}): SensitivityRow => ({
+  field,
+  label,
+  base: 50,
+  low: point(40, 0.3),
+  high: point(60, 0.3 + swing),
+  swing,
+  breakEvenBelow: null,
+  breakEvenAbove: null,
+  ...extra,
+});
+
+describe("marginalPerOver", () => {
+  it("fits the change per over batted from the options either side", () => {
+    const options = evaluation.options.map((o) => (o.policy.kind === "overs" ? { ...o, winP: 0.5 - 0.01 * o.declareAfterOvers, lossP: 0.1 + 0.002 * o.declareAfterOvers } : o));
+    const slope = marginalPerOver(options, 10)!;
+    expect(slope.winP).toBeCloseTo(-0.01, 10);
+    expect(slope.lossP).toBeCloseTo(0.002, 10);
+  });
+
+  it("needs three options in reach", () => {
+    expect(marginalPerOver(evaluation.options.filter((o) => o.declareAfterOvers <= 1), 0)).toBeNull();
+  });
+});
+
+describe("flatRange", () => {
+  it("spans the options within noise of the best and stops at the first clear gap", () => {
+    const options = evaluation.options.map((o) => ({ ...o, utility: o.declareAfterOvers <= 8 ? 0.5 : 0.2, utilityStdErr: 0.01 }));
+    const best = options.find((o) => o.declareAfterOvers === 4 && o.policy.kind === "overs")!;
+    expect(flatRange({ ...evaluation, options, best })).toEqual({ from: 0, to: 8 });
+  });
+});
+
+describe("explainEvaluation", () => {
+  const dry: Inputs = { ...DEFAULT_INPUTS, weatherBySession: DEFAULT_INPUTS.weatherBySession.map(() => ({ rainChance: 0 })) };
+
+  it("only talks about rain when some is forecast for a session it can cut", () => {
+    const quiet = explainEvaluation(dry, evaluateAllOptions(dry, SIMS, 5));
+    expect(quiet.points.join(" ")).not.toMatch(/rain/i);
+
+    // the current session's chance never costs overs under the session model
+    const now = { ...dry, weatherBySession: [{ rainChance: 0.9 }, ...dry.weatherBySession.slice(1)] };
+    expect(explainEvaluation(now, evaluateAllOptions(now, SIMS, 5)).points.join(" ")).not.toMatch(/rain/i);
+
+    const wet = { ...dry, weatherBySession: [{ rainChance: 0 }, { rainChance: 0.6 }, { rainChance: 0 }] };
+    expect(explainEvaluation(wet, evaluateAllOptions(wet, SIMS, 5)).points.join(" ")).toMatch(/Rain, up to 60\.0% in session 2/);
+  });
+
+  it("names the input with the largest swing and its break-even", () => {
+    const rows = [row("pitchBowlingFactor", "Pitch bowling factor", 0.02), row("opponentBattingStrength", "Opponent batting strength", 0.12, { breakEvenAbove: 72 })];
+    const text = explainEvaluation(DEFAULT_INPUTS, evaluation, rows).points.join(" ");
+    expect(text).toContain("The input that matters most is opponent batting strength");
+    expect(text).toContain("takes over at 72");
+  });
+
+  it("leaves the factor out without sensitivity evidence or when nothing moves", () => {
+    expect(explainEvaluation(DEFAULT_INPUTS, evaluation).points.join(" ")).not.toContain("matters most");
+    expect(explainEvaluation(DEFAULT_INPUTS, evaluation, [row("pitchBowlingFactor", "Pitch bowling factor", 0.001)]).points.join(" ")).not.toContain("matters most");
+  });
+
+  it("heads with the best option and its odds", () => {
+    const { headline, points } = explainEvaluation(DEFAULT_INPUTS, evaluation);
+    expect(headline.startsWith(`${evaluation.best.optionLabel}: win `)).toBe(true);
+    expect(points[0]).toContain(`target of about ${Math.round(evaluation.best.target)}`);
+  });
+
+  it("gives the attack's wicket chance as it stands when the chase starts", () => {
+    const profiles: Inputs = { ...DEFAULT_INPUTS, strengthModel: "profiles", battingOrder: DEFAULT_BATTING_ORDER, ourAttack: DEFAULT_ATTACK };
+    const opening = attackStrength(profiles, resolveGround(profiles)).wickets[0];
+    const text = explainEvaluation(profiles, evaluateAllOptions(profiles, SIMS, 5)).points.join(" ");
+    expect(text).toContain(`wicket chance ×${opening.toFixed(2)} at the start of the chase`);
+    expect(text).not.toContain("new ball");
+  });
+});
+
+describe("unusualInputs", () => {
+  it("is quiet for a typical declaration", () => {
+    expect(unusualInputs(DEFAULT_INPUTS, { ...evaluation, best: { ...evaluation.best, sims: 2500 } })).toEqual([]);
+  });
+
+  it("flags trailing, a thin tail, extreme sliders and a small run", () => {
+    const odd = { ...DEFAULT_INPUTS, currentLead: -20, wicketsInHand: 1, opponentBattingStrength: 95, continueBattingRunRate: 7 };
+    const warnings = unusualInputs(odd, { ...evaluation, best: { ...evaluation.best, sims: 200 } });
+    expect(warnings).toHaveLength(5);
+    expect(warnings[0]).toContain("trail by 20");
+    expect(warnings.some((w) => w.startsWith("Opponent batting strength of 95"))).toBe(true);
+    expect(warnings[warnings.length - 1]).toContain("Only 200 simulations");
+  });
+});
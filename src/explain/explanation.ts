@@ -0,0 +1,188 @@
+import {
+  CHASE_INTENT_LABELS,
+  DEFAULT_SPIN_SHARE,
+  TYPICAL_RUNS_PER_WICKET,
+  UTILITY_MODEL_LABELS,
+  attackSpinShare,
+  attackStrength,
+  battingStrength,
+  maxDeclarationOvers,
+  resolveGround,
+  scheduledOvers,
+  separation,
+  usesProfiles,
+  usesRiskAppetite,
+  type Evaluation,
+  type Inputs,
+  type RankedOption,
+  type SensitivityRow,
+} from "../engine/index.ts";
+
+// ---------- Plain-language explanations ----------
+// Every sentence here is built from a number the sweep or the sensitivity analysis produced, and a sentence
+// is left out when its evidence is missing or says nothing, rather than falling back to a stock phrase.
+
+export type ExplanationInputs = Pick<Evaluation, "best" | "runnerUp" | "options" | "separation">;
+
+export type Explanation = {
+  headline: string; // the call and its odds, in one line
+  situation: string; // the moment being decided, for a reader who hasn't seen the inputs
+  points: string[]; // the reasons, most important first
+  warnings: string[]; // inputs or results that deserve a second look
+};
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+const pts = (n: number) => `${n >= 0 ? "+" : "−"}${Math.abs(n * 100).toFixed(1)} points`;
+const overs = (n: number) => `${n} over${n === 1 ? "" : "s"}`;
+const round = (n: number) => Math.round(n * 10) / 10;
+
+// Change in win and loss chance per extra over batted around `at`, fitted over the K-over options within
+// `window` overs either side. Null when fewer than three of them are in reach.
+export function marginalPerOver(options: RankedOption[], at: number, window = 3) {
+  const near = options
+    .filter((o) => o.policy.kind === "overs" && Math.abs(o.declareAfterOvers - at) <= window)
+    .sort((a, b) => a.declareAfterOvers - b.declareAfterOvers);
+  if (near.length < 3) return null;
+  const mx = near.reduce((a, o) => a + o.declareAfterOvers, 0) / near.length;
+  const sxx = near.reduce((a, o) => a + (o.declareAfterOvers - mx) ** 2, 0);
+  const slope = (f: (o: RankedOption) => number) => {
+    const my = near.reduce((a, o) => a + f(o), 0) / near.length;
+    return near.reduce((a, o) => a + (o.declareAfterOvers - mx) * (f(o) - my), 0) / sxx;
+  };
+  return { winP: slope((o) => o.winP), lossP: slope((o) => o.lossP) };
+}
+
+// The run of K-over options around the best that are within Monte Carlo noise of it
+export function flatRange(evaluation: ExplanationInputs) {
+  const { best } = evaluation;
+  const byOvers = new Map(evaluation.options.filter((o) => o.policy.kind === "overs").map((o) => [o.declareAfterOvers, o]));
+  if (best.policy.kind !== "overs") return null;
+  const level = (k: number) => {
+    const o = byOvers.get(k);
+    return o !== undefined && (o === best || !separation(best, o).separable);
+  };
+  let from = best.declareAfterOvers, to = best.declareAfterOvers;
+  while (level(from - 1)) from--;
+  while (level(to + 1)) to++;
+  return { from, to };
+}
+
+const FLAT_OVERS = 4; // a level stretch at least this wide is called flat
+
+// Rain chances that can still cost overs: the session model never cuts the current session
+function rainAhead(inputs: Inputs) {
+  if (inputs.weatherModel === "hourly" && inputs.forecast) {
+    const hour = inputs.forecast.reduce((m, h, i) => (h.rainChance > (inputs.forecast![m]?.rainChance ?? 0) ? i : m), 0);
+    return { chance: inputs.forecast[hour]?.rainChance ?? 0, where: `hour ${hour + 1} of the forecast` };
+  }
+  const first = inputs.weatherModel === "hourly" ? 0 : 1;
+  let chance = 0, session = -1;
+  for (let i = first; i < inputs.sessionsRemaining; i++) {
+    const c = inputs.weatherBySession[i]?.rainChance ?? 0;
+    if (c > chance) [chance, session] = [c, i];
+  }
+  return { chance, where: `session ${session + 1}` };
+}
+
+function dominantFactor(rows: SensitivityRow[]) {
+  const top = rows.slice().sort((a, b) => b.swing - a.swing)[0];
+  if (!top || top.swing < 0.005) return null;
+  const lo = Math.min(top.low.winP, top.high.winP), hi = Math.max(top.low.winP, top.high.winP);
+  let text = `The input that matters most is ${top.label.toLowerCase()}: moving it from ${top.low.value} to ${top.high.value} moves the win chance between ${pct(lo)} and ${pct(hi)}`;
+  text += top.low.bestKey === top.high.bestKey ? `, with ${top.low.best.toLowerCase()} still best at both ends.` : `, and the best call goes from ${top.low.best.toLowerCase()} to ${top.high.best.toLowerCase()}.`;
+  const breaks = [top.breakEvenBelow, top.breakEvenAbove].filter((v): v is number => v !== null);
+  if (breaks.length > 0) text += ` The runner-up takes over at ${breaks.join(" or ")}.`;
+  return text;
+}
+
+// Inputs well outside what Test cricket usually sees, and results at the edge of what the sweep covers
+export function unusualInputs(inputs: Inputs, evaluation?: ExplanationInputs): string[] {
+  const out: string[] = [];
+  const left = scheduledOvers(inputs);
+  if (inputs.currentLead <= 0) out.push(`We trail by ${-inputs.currentLead}, so any declaration now hands them a win for the taking.`);
+  if (inputs.wicketsInHand <= 2) out.push(`Only ${inputs.wicketsInHand} wicket${inputs.wicketsInHand === 1 ? "" : "s"} in hand: batting on may end in being bowled out rather than a declaration.`);
+  if (inputs.continueBattingRunRate > 6) out.push(`A batting-on rate of ${inputs.continueBattingRunRate} an over is well above what Test sides usually manage.`);
+  if (inputs.continueBattingWicketProbPerOver > 0.25) out.push(`A ${pct(inputs.continueBattingWicketProbPerOver)} chance of a wicket every over batting on is very high.`);
+  if (inputs.pitchBowlingFactor <= 0.6 || inputs.pitchBowlingFactor >= 1.8) out.push(`The pitch bowling factor of ${inputs.pitchBowlingFactor} is near the end of its range.`);
+  if (!usesProfiles(inputs)) {
+    for (const [label, v] of [["Opponent batting", inputs.opponentBattingStrength], ["Our bowling", inputs.ourBowlingStrength]] as const) {
+      if (v <= 15 || v >= 90) out.push(`${label} strength of ${v} is extreme; 50 is a typical Test side.`);
+    }
+  }
+  if (left < 20) out.push(`Only ${round(left)} overs remain, so a result either way is unlikely whatever the declaration.`);
+  if (evaluation) {
+    const { best } = evaluation;
+    if (best.policy.kind === "overs" && best.declareAfterOvers >= maxDeclarationOvers(inputs) && maxDeclarationOvers(inputs) < left) {
+      out.push(`The best option is the longest the sweep considers (${overs(best.declareAfterOvers)}); batting longer still might be better.`);
+    }
+    if (best.sims < 500) out.push(`Only ${best.sims} simulations per option, so the odds carry wide error bars.`);
+  }
+  return out;
+}
+
+export function explainEvaluation(inputs: Inputs, evaluation: ExplanationInputs, sensitivity: SensitivityRow[] | null = null): Explanation {
+  const { best, runnerUp } = evaluation;
+  const points: string[] = [];
+
+  points.push(
+    `${best.optionLabel} sets a target of about ${Math.round(best.target)} (80% between ${Math.round(best.targetQuantiles.p10)} and ${Math.round(best.targetQuantiles.p90)}) and leaves about ${Math.round(best.bowlOversAvail)} overs to bowl them out.`
+  );
+
+  const slope = marginalPerOver(evaluation.options, best.declareAfterOvers);
+  const range = flatRange(evaluation);
+  if (range && range.to - range.from >= FLAT_OVERS) {
+    points.push(`The curve is flat here: declaring anywhere from ${overs(range.from)} to ${overs(range.to)} is within Monte Carlo noise of the best, so the exact over matters less than it looks.`);
+  } else if (slope) {
+    points.push(`Around this point each extra over batted changes the win chance by ${pts(slope.winP)} and the loss chance by ${pts(slope.lossP)}.`);
+  }
+
+  if (sensitivity) {
+    const factor = dominantFactor(sensitivity);
+    if (factor) points.push(factor);
+  }
+
+  const rain = rainAhead(inputs);
+  if (rain.chance > 0) {
+    const lost = scheduledOvers(inputs) - best.expectOversBatted - best.bowlOversAvail;
+    points.push(
+      lost >= 1
+        ? `Rain, up to ${pct(rain.chance)} in ${rain.where}, is expected to cost about ${Math.round(lost)} of the overs left to bowl after this declaration.`
+        : `Rain is forecast (up to ${pct(rain.chance)} in ${rain.where}) but costs less than an over on average.`
+    );
+  }
+
+  const attack = attackStrength(inputs, resolveGround(inputs));
+  const runsPerWicket = (battingStrength(inputs).resistance * TYPICAL_RUNS_PER_WICKET).toFixed(1);
+  points.push(
+    usesProfiles(inputs)
+      ? `Our attack of ${inputs.ourAttack!.length} (${Math.round(attackSpinShare(inputs.ourAttack!) * 100)}% spin, wicket chance ×${attack.wickets[0].toFixed(2)} at the start of the chase) bowls at an order worth ${runsPerWicket} runs a wicket, on a pitch factor of ${inputs.pitchBowlingFactor}.`
+      : `Our bowling at ${inputs.ourBowlingStrength} (${Math.round((inputs.spinShare ?? DEFAULT_SPIN_SHARE) * 100)}% spin) meets their batting at ${inputs.opponentBattingStrength}, ${runsPerWicket} runs a wicket, on a pitch factor of ${inputs.pitchBowlingFactor}.`
+  );
+
+  const chaseIntent = inputs.chaseIntent ?? "adaptive";
+  const bias = inputs.chaseIntentBias ?? 0;
+  const m = Math.round(best.expMarginRuns);
+  const margin = m >= 0 ? `on average they finish ${m} runs short` : `on average they pass the target by ${-m}`;
+  points.push(
+    chaseIntent === "adaptive"
+      ? `They are modelled to chase targets within reach and block once the asking rate or the wickets run away from them, leaning ${bias < -0.3 ? "towards the draw" : bias > 0.3 ? "towards the win" : "neither way"}; ${margin}.`
+      : `They are modelled as ${CHASE_INTENT_LABELS[chaseIntent].toLowerCase()} throughout; ${margin}.`
+  );
+
+  if (runnerUp) {
+    const gap = `${runnerUp.optionLabel}, would change the win chance by ${pts(runnerUp.winP - best.winP)} and the loss chance by ${pts(runnerUp.lossP - best.lossP)}`;
+    const scored = `the ${UTILITY_MODEL_LABELS[inputs.utilityModel?.kind ?? "steps"]} utility model${usesRiskAppetite(inputs) ? ` (risk appetite ${inputs.riskAppetite})` : ""}`;
+    points.push(
+      evaluation.separation.separable
+        ? `The next best, ${gap}, and is clearly behind on ${scored}.`
+        : `The next best, ${gap}; the two are within Monte Carlo noise on ${scored}, so treat them as equivalent.`
+    );
+  }
+
+  return {
+    headline: `${best.optionLabel}: win ${pct(best.winP)}, draw ${pct(best.drawP)}, loss ${pct(best.lossP)}.`,
+    situation: `Lead of ${inputs.currentLead} with ${inputs.wicketsInHand} wickets in hand and ${round(scheduledOvers(inputs))} overs left in the match at ${inputs.ground}.`,
+    points,
+    warnings: unusualInputs(inputs, evaluation),
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { memoryStore } from "../../test-utils/memoryStore.ts";
+import { GROUND_PRESETS } from "../engine/index.ts";
+import {
+  GROUND_STORAGE_KEY,
+  GroundFormatError,
+  allGrounds,
+  customGroundKey,
+  editableDeterioration,
+  parseGround,
+  readGrounds,
+  writeGrounds,
+} from "./library.ts";
+
+const perth = { name: "Perth", wicketHelp: 1.05, chaseEase: 0.95, bounce: 1.2, deterioration: [{ wickets: 1, runs: 1 }, { wickets: 1.1, runs: 0.95 }] };
+
+describe("parseGround", () => {
+  it("keeps the known fields", () => {
+    expect(parseGround({ ...perth, colour: "green" })).toEqual(perth);
+  });
+
+  it("names the field at fault", () => {
+    expect(() => parseGround({ name: "X", wicketHelp: "1" })).toThrow(new GroundFormatError("ground.wicketHelp must be a number"));
+    expect(() => parseGround({ ...perth, deterioration: [{ wickets: 1 }] }, "perth")).toThrow("perth.deterioration[0] needs numeric wickets and runs");
+  });
+});
+
+describe("storage", () => {
+  it("round-trips and drops unreadable entries", () => {
+    const store = memoryStore();
+    writeGrounds(store, { "custom-perth": perth });
+    expect(readGrounds(store)).toEqual({ "custom-perth": perth });
+
+    store.setItem(GROUND_STORAGE_KEY, JSON.stringify({ "custom-perth": perth, broken: { name: 3 } }));
+    expect(Object.keys(readGrounds(store))).toEqual(["custom-perth"]);
+    store.setItem(GROUND_STORAGE_KEY, "not json");
+    expect(readGrounds(store)).toEqual({});
+  });
+
+  it("lays saved grounds over the built-in ones", () => {
+    const edited = { ...GROUND_PRESETS.generic, chaseEase: 1.2 };
+    const grounds = allGrounds({ generic: edited, "custom-perth": perth });
+    expect(grounds.generic).toBe(edited);
+    expect(grounds["custom-perth"]).toBe(perth);
+    expect(Object.keys(grounds)).toEqual([...Object.keys(GROUND_PRESETS), "custom-perth"]);
+  });
+});
+
+describe("customGroundKey", () => {
+  it("slugs the name and avoids taken keys", () => {
+    expect(customGroundKey("WACA, Perth", [])).toBe("custom-waca-perth");
+    expect(customGroundKey("WACA, Perth", ["custom-waca-perth", "custom-waca-perth-2"])).toBe("custom-waca-perth-3");
+    expect(customGroundKey("!!", [])).toBe("custom-ground");
+  });
+});
+
+describe("editableDeterioration", () => {
+  it("shows the calibrated drift for grounds without a curve", () => {
+    const curve = editableDeterioration(GROUND_PRESETS.generic, 30);
+    expect(curve).toHaveLength(5);
+    expect(curve[0]).toEqual({ wickets: 1, runs: 1 });
+    expect(editableDeterioration(perth, 30)).toBe(perth.deterioration);
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  CALIBRATION,
+  GROUND_PRESETS,
+  SESSIONS_PER_DAY,
+  defaultDeterioration,
+  type DayWear,
+  type GroundPreset,
+} from "../engine/index.ts";
+import { readStoredRecord, writeStoredJson, type KeyValueStore } from "../storage/persisted.ts";
+
+// ---------- Saved grounds ----------
+// User-edited grounds live in localStorage as one object keyed like GROUND_PRESETS. A saved entry under a
+// built-in key overrides that ground; any other key is a ground of the user's own.
+
+export const GROUND_STORAGE_KEY = "declaration-advisor:grounds";
+
+export class GroundFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GroundFormatError";
+  }
+}
+
+type Obj = Record<string, unknown>;
+const isObj = (v: unknown): v is Obj => typeof v === "object" && v !== null && !Array.isArray(v);
+
+const OPTIONAL_NUMBERS = ["badLight", "sessionOvers", "bounce", "paceAssist", "spinAssist"] as const;
+
+// Checks the shape only; ranges are the engine's validation's job
+export function parseGround(raw: unknown, where = "ground"): GroundPreset {
+  if (!isObj(raw)) throw new GroundFormatError(`${where} must be an object`);
+  if (typeof raw.name !== "string") throw new GroundFormatError(`${where}.name must be a string`);
+  const number = (key: string) => {
+    if (typeof raw[key] !== "number") throw new GroundFormatError(`${where}.${key} must be a number`);
+    return raw[key] as number;
+  };
+  const ground: GroundPreset = { name: raw.name, wicketHelp: number("wicketHelp"), chaseEase: number("chaseEase") };
+  for (const key of OPTIONAL_NUMBERS) {
+    if (raw[key] !== undefined) ground[key] = number(key);
+  }
+  if (raw.deterioration !== undefined) {
+    if (!Array.isArray(raw.deterioration)) throw new GroundFormatError(`${where}.deterioration must be a list`);
+    ground.deterioration = raw.deterioration.map((d: unknown, i): DayWear => {
+      if (!isObj(d) || typeof d.wickets !== "number" || typeof d.runs !== "number") {
+        throw new GroundFormatError(`${where}.deterioration[${i}] needs numeric wickets and runs`);
+      }
+      return { wickets: d.wickets, runs: d.runs };
+    });
+  }
+  return ground;
+}
+
+// Unreadable entries are dropped rather than taking every saved ground down
+export function readGrounds(store: KeyValueStore): Record<string, GroundPreset> {
+  return readStoredRecord(store, GROUND_STORAGE_KEY, parseGround);
+}
+
+export function writeGrounds(store: KeyValueStore, grounds: Record<string, GroundPreset>) {
+  writeStoredJson(store, GROUND_STORAGE_KEY, grounds);
+}
+
+// Built-in grounds with the saved ones laid over them
+export function allGrounds(saved: Record<string, GroundPreset>): Record<string, GroundPreset> {
+  return { ...GROUND_PRESETS, ...saved };
+}
+
+export const isBuiltInGround = (key: string) => key in GROUND_PRESETS;
+
+// A fresh key for a new ground, from its name
+export function customGroundKey(name: string, taken: string[]) {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "ground";
+  let key = `custom-${slug}`;
+  for (let n = 2; taken.includes(key); n++) key = `custom-${slug}-${n}`;
+  return key;
+}
+
+// What a ground's curve looks like in the editor before it has one of its own
+export function editableDeterioration(ground: GroundPreset, oversPerSession: number): DayWear[] {
+  return ground.deterioration ?? defaultDeterioration(CALIBRATION.baseline, oversPerSession * SESSIONS_PER_DAY).map((d) => ({
+    wickets: Math.round(d.wickets * 100) / 100,
+    runs: Math.round(d.runs * 100) / 100,
+  }));
+}
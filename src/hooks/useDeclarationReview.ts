@@ -0,0 +1,58 @@
+import { useState } from "react";
+import type {
+  ActualDeclaration,
+  AlternativePolicySettings,
+  ChaseOutcome,
+  DeclarationReview,
+  Inputs,
+  ValidationIssue,
+} from "../engine/index.ts";
+import type { ReviewRequest, ReviewResponse } from "../worker/protocol.ts";
+import { useWorkerRuns } from "./useWorkerRuns.ts";
+
+type ReviewState = {
+  inputs: Inputs | null; // what the review was computed for
+  review: DeclarationReview | null;
+  running: boolean;
+  issues: ValidationIssue[];
+  error: string | null;
+};
+
+const IDLE: ReviewState = { inputs: null, review: null, running: false, issues: [], error: null };
+
+const createWorker = () => new Worker(new URL("../worker/review.worker.ts", import.meta.url), { type: "module" });
+
+// Reviews an actual declaration in its own Web Worker on request. The review stays on screen after the
+// inputs change but is flagged stale, since it no longer describes the moment on screen.
+export function useDeclarationReview(inputs: Inputs | null, sims: number, seed: number, alternatives: AlternativePolicySettings) {
+  const [state, setState] = useState<ReviewState>(IDLE);
+  const worker = useWorkerRuns<ReviewRequest, ReviewResponse>(createWorker, (msg) => {
+    switch (msg.type) {
+      case "done":
+        setState((prev) => ({ ...prev, review: msg.review, running: false }));
+        break;
+      case "invalid":
+        setState({ ...IDLE, issues: msg.issues });
+        break;
+      case "error":
+        setState((prev) => ({ ...prev, running: false, error: msg.message }));
+        break;
+    }
+  });
+
+  const run = (actual: ActualDeclaration, result: ChaseOutcome) => {
+    if (!inputs) return;
+    if (worker.start((runId) => ({ type: "run", runId, inputs, actual, result, sims, seed, alternatives })) === null) return;
+    setState({ ...IDLE, inputs, running: true });
+  };
+
+  return {
+    review: state.review,
+    running: state.running,
+    stale: state.inputs !== null && state.inputs !== inputs,
+    issues: state.issues,
+    error: state.error,
+    run,
+  };
+}
+export type DeclarationReviewer = ReturnType<typeof useDeclarationReview>;
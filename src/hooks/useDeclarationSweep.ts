@@ -0,0 +1,97 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  declarationPolicies,
+  prioritisePolicies,
+  rankOptions,
+  separation,
+  validateInputs,
+  validateSims,
+  type AlternativePolicySettings,
+  type Inputs,
+  type OptionOutcome,
+  type ValidationIssue,
+} from "../engine/index.ts";
+import type { SweepRequest, SweepResponse } from "../worker/protocol.ts";
+import { useWorkerRuns } from "./useWorkerRuns.ts";
+
+type SweepState = {
+  raw: OptionOutcome[]; // in simulation order, as streamed by the worker
+  completed: number;
+  refineRound: number; // adaptive rounds finished so far
+  total: number;
+  running: boolean;
+  inputs: Inputs | null; // what `raw` was simulated for
+  issues: ValidationIssue[];
+  error: string | null;
+};
+
+const IDLE: SweepState = { raw: [], completed: 0, refineRound: 0, total: 0, running: false, inputs: null, issues: [], error: null };
+
+const createWorker = () => new Worker(new URL("../worker/sweep.worker.ts", import.meta.url), { type: "module" });
+
+// Runs evaluateAllOptions' sweep in a Web Worker and streams ranked rows back as each policy finishes.
+// Any change to inputs, sims, seed, adaptive mode or the policy set cancels the run in flight and starts a fresh one.
+// Passing null inputs stops any run and clears the results. Each run sweeps the previous run's ranking first,
+// so small changes, like one more over in live mode, show a sensible provisional best almost immediately.
+export function useDeclarationSweep(
+  inputs: Inputs | null,
+  sims: number,
+  seed: number,
+  adaptive: boolean,
+  alternatives: AlternativePolicySettings
+) {
+  const rankingRef = useRef<string[]>([]); // option keys of the last finished run, best first
+  const [state, setState] = useState<SweepState>(IDLE);
+  const worker = useWorkerRuns<SweepRequest, SweepResponse>(createWorker, (msg) => {
+    switch (msg.type) {
+      case "option":
+        setState((prev) => ({ ...prev, raw: [...prev.raw, msg.option], completed: msg.completed, total: msg.total }));
+        break;
+      case "refined":
+        setState((prev) => ({ ...prev, raw: msg.outcomes, refineRound: msg.round }));
+        break;
+      case "done":
+        setState((prev) => ({ ...prev, running: false }));
+        break;
+      case "invalid":
+        setState({ ...IDLE, issues: msg.issues });
+        break;
+      case "error":
+        setState((prev) => ({ ...prev, running: false, error: msg.message }));
+        break;
+    }
+  });
+
+  useEffect(() => {
+    const issues = inputs ? [...validateInputs(inputs), ...validateSims(sims)] : [];
+    if (!inputs || issues.length > 0) {
+      worker.cancel();
+      setState({ ...IDLE, issues });
+      return;
+    }
+
+    const policies = prioritisePolicies(declarationPolicies(inputs, alternatives), rankingRef.current);
+    if (worker.start((runId) => ({ type: "run", runId, inputs, sims, seed, adaptive, policies })) === null) return;
+    setState({ ...IDLE, running: true, inputs });
+    return () => worker.cancel((runId) => ({ type: "cancel", runId }));
+  }, [worker, inputs, sims, seed, adaptive, alternatives]);
+
+  const options = useMemo(() => (inputs ? rankOptions(inputs, state.raw) : []), [inputs, state.raw]);
+
+  useEffect(() => {
+    if (!state.running && options.length > 0) rankingRef.current = options.map((o) => o.key);
+  }, [state.running, options]);
+
+  return {
+    best: options[0],
+    runnerUp: options[1],
+    options,
+    separation: separation(options[0], options[1]),
+    progress: { completed: state.completed, total: state.total, refineRound: state.refineRound },
+    running: state.running,
+    // finished, and for these inputs rather than the previous ones still on screen
+    settled: !state.running && !state.error && state.inputs === inputs && options.length > 0,
+    issues: state.issues,
+    error: state.error,
+  };
+}
@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from "react";
+import type { LiveUpdate } from "../engine/index.ts";
+import { LiveFeedError, parseLiveFeed, parseLiveMessage } from "../live/feed.ts";
+
+export type SocketStatus = "disconnected" | "connecting" | "connected";
+
+// Feeds live updates from a replayed JSON file or a WebSocket into `onUpdate`.
+// A file is queued and can be stepped through or played at a fixed interval; socket messages apply as they arrive.
+export function useLiveFeed(onUpdate: (update: LiveUpdate) => void) {
+  const onUpdateRef = useRef(onUpdate);
+  useEffect(() => {
+    onUpdateRef.current = onUpdate;
+  });
+
+  const [queue, setQueue] = useState<LiveUpdate[]>([]);
+  const [playing, setPlaying] = useState(false);
+  const [intervalMs, setIntervalMs] = useState(2000);
+  const [socketStatus, setSocketStatus] = useState<SocketStatus>("disconnected");
+  const [error, setError] = useState<string | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+
+  const loadFeed = (text: string) => {
+    try {
+      setQueue(parseLiveFeed(text));
+      setError(null);
+    } catch (e) {
+      if (!(e instanceof LiveFeedError)) throw e;
+      setError(e.message);
+    }
+  };
+
+  const step = () => {
+    if (queue.length === 0) return;
+    onUpdateRef.current(queue[0]);
+    setQueue(queue.slice(1));
+  };
+
+  useEffect(() => {
+    if (!playing) return;
+    if (queue.length === 0) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => {
+      onUpdateRef.current(queue[0]);
+      setQueue(queue.slice(1));
+    }, intervalMs);
+    return () => clearTimeout(timer);
+  }, [playing, queue, intervalMs]);
+
+  const disconnect = () => {
+    const socket = socketRef.current;
+    socketRef.current = null;
+    socket?.close();
+    setSocketStatus("disconnected");
+  };
+
+  const connect = (url: string) => {
+    disconnect();
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    socketRef.current = socket;
+    setSocketStatus("connecting");
+    setError(null);
+    socket.onopen = () => {
+      if (socketRef.current === socket) setSocketStatus("connected");
+    };
+    socket.onmessage = (e: MessageEvent) => {
+      try {
+        for (const update of parseLiveMessage(String(e.data))) onUpdateRef.current(update);
+      } catch (err) {
+        if (!(err instanceof LiveFeedError)) throw err;
+        setError(err.message);
+      }
+    };
+    socket.onerror = () => setError(`couldn't reach ${url}`);
+    socket.onclose = () => {
+      if (socketRef.current !== socket) return; // replaced or closed on purpose
+      socketRef.current = null;
+      setSocketStatus("disconnected");
+    };
+  };
+
+  useEffect(() => () => socketRef.current?.close(), []);
+
+  return { queued: queue.length, loadFeed, step, playing, setPlaying, intervalMs, setIntervalMs, socketStatus, connect, disconnect, error };
+}
@@ -0,0 +1,53 @@
+import { useMemo, useReducer } from "react";
+import { applyLiveUpdate, type LiveUpdate, type MatchState } from "../engine/index.ts";
+import { addTimelinePoint, type TimelinePoint } from "../live/timeline.ts";
+
+type LiveMatch = {
+  state: MatchState;
+  history: MatchState[]; // states before each live update, for undo
+  timeline: TimelinePoint[];
+};
+
+type Action =
+  | { type: "set"; state: MatchState } // hand edit: corrects the current state in place
+  | { type: "apply"; update: LiveUpdate }
+  | { type: "undo" }
+  | { type: "record"; point: TimelinePoint }
+  | { type: "reset"; state: MatchState };
+
+function reducer(m: LiveMatch, action: Action): LiveMatch {
+  switch (action.type) {
+    case "set":
+      return { ...m, state: action.state };
+    case "apply":
+      return { ...m, state: applyLiveUpdate(m.state, action.update), history: [...m.history, m.state] };
+    case "undo": {
+      if (m.history.length === 0) return m;
+      const revision = m.history.length - 1;
+      return { state: m.history[revision], history: m.history.slice(0, -1), timeline: m.timeline.filter((p) => p.revision <= revision) };
+    }
+    case "record":
+      return { ...m, timeline: addTimelinePoint(m.timeline, action.point) };
+    case "reset":
+      return { state: action.state, history: [], timeline: [] };
+  }
+}
+
+// The match state plus the live-mode log around it. `revision` counts the live updates applied,
+// so a timeline point can be tied to the state it was evaluated for.
+export function useLiveMatch(initial: MatchState) {
+  const [match, dispatch] = useReducer(reducer, initial, (state): LiveMatch => ({ state, history: [], timeline: [] }));
+
+  const actions = useMemo(
+    () => ({
+      setMatchState: (state: MatchState) => dispatch({ type: "set", state }),
+      applyUpdate: (update: LiveUpdate) => dispatch({ type: "apply", update }),
+      undo: () => dispatch({ type: "undo" }),
+      record: (point: TimelinePoint) => dispatch({ type: "record", point }),
+      reset: (state: MatchState) => dispatch({ type: "reset", state }),
+    }),
+    []
+  );
+
+  return { matchState: match.state, revision: match.history.length, timeline: match.timeline, ...actions };
+}
@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+import type { DeclarationPolicy, Inputs, OutcomeDistribution } from "../engine/index.ts";
+import type { DistributionRequest, DistributionResponse } from "../worker/protocol.ts";
+import { useWorkerRuns } from "./useWorkerRuns.ts";
+
+type DistributionState = { distribution: OutcomeDistribution | null; loading: boolean; error: string | null };
+
+const createWorker = () => new Worker(new URL("../worker/distribution.worker.ts", import.meta.url), { type: "module" });
+
+// Histograms for one declaration option, recomputed in a Web Worker whenever the option or the inputs change.
+// Null inputs or policy (say, while the sweep is still running) leave the last histograms on screen.
+export function useOutcomeDistribution(inputs: Inputs | null, policy: DeclarationPolicy | null, sims: number, seed: number) {
+  const [state, setState] = useState<DistributionState>({ distribution: null, loading: false, error: null });
+  const worker = useWorkerRuns<DistributionRequest, DistributionResponse>(createWorker, (msg) => {
+    switch (msg.type) {
+      case "done":
+        setState({ distribution: msg.distribution, loading: false, error: null });
+        break;
+      case "invalid":
+        setState({ distribution: null, loading: false, error: null }); // the sweep already reports the issues
+        break;
+      case "error":
+        setState({ distribution: null, loading: false, error: msg.message });
+        break;
+    }
+  });
+
+  useEffect(() => {
+    if (!inputs || !policy) return;
+    if (worker.start((runId) => ({ type: "run", runId, inputs, policy, sims, seed })) === null) return;
+    setState((prev) => ({ ...prev, loading: true }));
+  }, [worker, inputs, policy, sims, seed]);
+
+  return state;
+}
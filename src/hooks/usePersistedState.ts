@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+import type { KeyValueStore } from "../storage/persisted.ts";
+
+// State read from localStorage once and written back on every change. Other tabs writing the same key are
+// picked up through the storage event. `read` and `write` should be module-level functions.
+export function usePersistedState<T>(read: (store: KeyValueStore) => T, write: (store: KeyValueStore, value: T) => void) {
+  const [value, setValue] = useState<T>(() => read(localStorage));
+
+  useEffect(() => {
+    write(localStorage, value);
+  }, [write, value]);
+
+  useEffect(() => {
+    const onStorage = () => setValue(read(localStorage));
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [read]);
+
+  return [value, setValue] as const;
+}
@@ -0,0 +1,80 @@
+import { useMemo, useState } from "react";
+import {
+  bySwing,
+  declarationPolicies,
+  type AlternativePolicySettings,
+  type Evaluation,
+  type Inputs,
+  type SensitivityRow,
+  type ValidationIssue,
+} from "../engine/index.ts";
+import type { SensitivityRequest, SensitivityResponse } from "../worker/protocol.ts";
+import { useWorkerRuns } from "./useWorkerRuns.ts";
+
+type SensitivityState = {
+  inputs: Inputs | null; // what the results were computed for
+  base: Evaluation | null;
+  rows: SensitivityRow[];
+  completed: number;
+  total: number;
+  running: boolean;
+  issues: ValidationIssue[];
+  error: string | null;
+};
+
+const IDLE: SensitivityState = { inputs: null, base: null, rows: [], completed: 0, total: 0, running: false, issues: [], error: null };
+
+const createWorker = () => new Worker(new URL("../worker/sensitivity.worker.ts", import.meta.url), { type: "module" });
+
+// Runs the sensitivity analysis in its own Web Worker on request; it costs a dozen or more sweeps, so it
+// never starts by itself. Results stay on screen after the inputs change but are flagged stale.
+export function useSensitivity(inputs: Inputs | null, sims: number, seed: number, alternatives: AlternativePolicySettings) {
+  const [state, setState] = useState<SensitivityState>(IDLE);
+  const worker = useWorkerRuns<SensitivityRequest, SensitivityResponse>(createWorker, (msg) => {
+    switch (msg.type) {
+      case "base":
+        setState((prev) => ({ ...prev, base: msg.base, total: msg.total }));
+        break;
+      case "row":
+        setState((prev) => ({ ...prev, rows: [...prev.rows, msg.row], completed: msg.completed, total: msg.total }));
+        break;
+      case "done":
+        setState((prev) => ({ ...prev, running: false }));
+        break;
+      case "invalid":
+        setState({ ...IDLE, issues: msg.issues });
+        break;
+      case "error":
+        setState((prev) => ({ ...prev, running: false, error: msg.message }));
+        break;
+    }
+  });
+
+  const run = () => {
+    if (!inputs) return;
+    const policies = declarationPolicies(inputs, alternatives);
+    if (worker.start((runId) => ({ type: "run", runId, inputs, sims, seed, policies })) === null) return;
+    setState({ ...IDLE, inputs, running: true });
+  };
+
+  const cancel = () => {
+    worker.cancel((runId) => ({ type: "cancel", runId }));
+    setState((prev) => ({ ...prev, running: false }));
+  };
+
+  const rows = useMemo(() => state.rows.slice().sort(bySwing), [state.rows]);
+
+  return {
+    base: state.base,
+    rows,
+    progress: { completed: state.completed, total: state.total },
+    running: state.running,
+    stale: state.inputs !== null && state.inputs !== inputs,
+    issues: state.issues,
+    error: state.error,
+    run,
+    cancel,
+  };
+}
+
+export type SensitivityAnalysis = ReturnType<typeof useSensitivity>;
@@ -0,0 +1,54 @@
+import { useState } from "react";
+import type { Inputs, StageEvaluation, StageScenario, ValidationIssue } from "../engine/index.ts";
+import type { StageRequest, StageResponse } from "../worker/protocol.ts";
+import { useWorkerRuns } from "./useWorkerRuns.ts";
+
+type StageState = {
+  inputs: Inputs | null; // what the evaluation was computed for
+  scenario: StageScenario | null;
+  evaluation: StageEvaluation | null;
+  running: boolean;
+  issues: ValidationIssue[];
+  error: string | null;
+};
+
+const IDLE: StageState = { inputs: null, scenario: null, evaluation: null, running: false, issues: [], error: null };
+
+const createWorker = () => new Worker(new URL("../worker/stage.worker.ts", import.meta.url), { type: "module" });
+
+// Plays out a first-innings declaration or the follow-on in its own Web Worker on request; a whole match
+// per simulation costs several third-innings sweeps. Results stay on screen, flagged stale, once the inputs change.
+export function useStageEvaluation(inputs: Inputs | null, sims: number, seed: number) {
+  const [state, setState] = useState<StageState>(IDLE);
+  const worker = useWorkerRuns<StageRequest, StageResponse>(createWorker, (msg) => {
+    switch (msg.type) {
+      case "done":
+        setState((prev) => ({ ...prev, evaluation: msg.evaluation, running: false }));
+        break;
+      case "invalid":
+        setState({ ...IDLE, issues: msg.issues });
+        break;
+      case "error":
+        setState((prev) => ({ ...prev, running: false, error: msg.message }));
+        break;
+    }
+  });
+
+  const run = (scenario: StageScenario) => {
+    if (!inputs) return;
+    if (worker.start((runId) => ({ type: "run", runId, inputs, scenario, sims, seed })) === null) return;
+    setState({ ...IDLE, inputs, scenario, running: true });
+  };
+
+  return {
+    evaluation: state.evaluation,
+    scenario: state.scenario,
+    running: state.running,
+    stale: state.inputs !== null && state.inputs !== inputs,
+    issues: state.issues,
+    error: state.error,
+    run,
+  };
+}
+
+export type StageAnalysis = ReturnType<typeof useStageEvaluation>;
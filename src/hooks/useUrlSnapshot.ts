@@ -0,0 +1,19 @@
+import { useEffect } from "react";
+import { ScenarioImportError, decodeSnapshot, encodeSnapshot, type ScenarioSnapshot } from "../scenarios/snapshot.ts";
+
+// Reads the scenario a shared link carries, if any. A broken link, whatever is wrong with it, falls back to the defaults with a message.
+export function readUrlSnapshot(): { snapshot: ScenarioSnapshot | null; error: string | null } {
+  try {
+    return { snapshot: decodeSnapshot(window.location.hash), error: null };
+  } catch (e) {
+    return { snapshot: null, error: e instanceof ScenarioImportError ? e.message : "the link's scenario is not readable" };
+  }
+}
+
+// Mirrors the current scenario into the URL hash without adding history entries, so the address bar is always a shareable link
+export function useUrlSnapshot(snapshot: ScenarioSnapshot) {
+  useEffect(() => {
+    const url = `${window.location.pathname}${window.location.search}#${encodeSnapshot(snapshot)}`;
+    window.history.replaceState(null, "", url);
+  }, [snapshot]);
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+
+// One Web Worker for the component's lifetime, with every request tagged by a run id. Replies carry the id back,
+// and only the latest run's reach `onMessage`, so a superseded or cancelled run can never overwrite a newer one.
+// `createWorker` should be a module-level function (Vite needs the `new Worker(new URL(...))` call written out there).
+export function useWorkerRuns<Request, Response extends { runId: number }>(createWorker: () => Worker, onMessage: (msg: Response) => void) {
+  const workerRef = useRef<Worker | null>(null);
+  const runIdRef = useRef(0);
+  const onMessageRef = useRef(onMessage);
+
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  });
+
+  useEffect(() => {
+    const worker = createWorker();
+    worker.onmessage = (e: MessageEvent<Response>) => {
+      if (e.data.runId !== runIdRef.current) return; // stale run
+      onMessageRef.current(e.data);
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [createWorker]);
+
+  // Starts a run, superseding any in flight. Returns its id, or null when the worker isn't up.
+  const start = useCallback((request: (runId: number) => Request): number | null => {
+    const worker = workerRef.current;
+    if (!worker) return null;
+    const runId = ++runIdRef.current;
+    worker.postMessage(request(runId));
+    return runId;
+  }, []);
+
+  // Drops the current run's replies from here on, first telling the worker when it takes a cancel message
+  const cancel = useCallback((request?: (runId: number) => Request) => {
+    if (request) workerRef.current?.postMessage(request(runIdRef.current));
+    runIdRef.current++;
+  }, []);
+
+  return useMemo(() => ({ start, cancel }), [start, cancel]);
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MATCH_STATE, applyLiveUpdate, type RankedOption } from "../engine/index.ts";
+import { LiveFeedError, parseLiveFeed, parseLiveMessage } from "./feed.ts";
+import { addTimelinePoint, clockLabel, scoreLabel, timelinePoint } from "./timeline.ts";
+
+describe("parseLiveFeed", () => {
+  it("reads JSON lists, { updates } and JSON lines", () => {
+    const updates = [{ runs: 4, wickets: 0 }, { runs: 1, wickets: 1, overs: 0.3, endSession: true }];
+    expect(parseLiveFeed(JSON.stringify(updates))).toEqual(updates);
+    expect(parseLiveFeed(JSON.stringify({ updates }))).toEqual(updates);
+    expect(parseLiveFeed(updates.map((u) => JSON.stringify(u)).join("\n") + "\n\n")).toEqual(updates);
+    expect(parseLiveFeed("  ")).toEqual([]);
+  });
+
+  it("drops unknown fields and says where a bad update is", () => {
+    expect(parseLiveFeed('{"runs":2,"wickets":0,"bowler":"X"}')).toEqual([{ runs: 2, wickets: 0 }]);
+    expect(() => parseLiveFeed('{"runs":1,"wickets":0}\n{"runs":1}')).toThrow(/line 2: wickets/);
+    expect(() => parseLiveFeed('{"runs":1,"wickets":0}\nnope')).toThrow(/line 2: not valid JSON/);
+    expect(() => parseLiveFeed('[{"runs":1,"wickets":0},{"runs":"x","wickets":0}]')).toThrow(/update 2: runs/);
+  });
+
+  it("reads WebSocket messages holding one update or several", () => {
+    expect(parseLiveMessage('{"runs":3,"wickets":0}')).toEqual([{ runs: 3, wickets: 0 }]);
+    expect(parseLiveMessage('[{"runs":3,"wickets":0},{"runs":0,"wickets":1}]')).toHaveLength(2);
+    expect(() => parseLiveMessage("hello")).toThrow(LiveFeedError);
+  });
+});
+
+describe("timeline", () => {
+  const best = { optionLabel: "Declare in 5 overs", expectOversBatted: 5, target: 280, winP: 0.4, drawP: 0.55, lossP: 0.05 } as RankedOption;
+
+  it("labels the clock and the innings in progress", () => {
+    expect(clockLabel(DEFAULT_MATCH_STATE)).toBe("Day 5, morning");
+    expect(scoreLabel(DEFAULT_MATCH_STATE)).toBe("us 210/4 (55 ov)");
+    const point = timelinePoint(1, applyLiveUpdate(DEFAULT_MATCH_STATE, { runs: 10, wickets: 0 }), best);
+    expect(point).toMatchObject({ revision: 1, lead: 260, best: "Declare in 5 overs", winP: 0.4 });
+  });
+
+  it("keeps one point per revision", () => {
+    const p = (revision: number, winP: number) => ({ ...timelinePoint(revision, DEFAULT_MATCH_STATE, best), winP });
+    let t = addTimelinePoint([], p(0, 0.3));
+    t = addTimelinePoint(t, p(1, 0.35));
+    t = addTimelinePoint(t, p(1, 0.38));
+    expect(t.map((x) => [x.revision, x.winP])).toEqual([[0, 0.3], [1, 0.38]]);
+  });
+});
@@ -0,0 +1,65 @@
+import { validateLiveUpdate, type LiveUpdate } from "../engine/index.ts";
+
+// ---------- Live feed messages ----------
+// A feed file is a JSON list of updates, { updates: [...] }, or one JSON update per line.
+// WebSocket messages carry a single update or a list.
+
+export class LiveFeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LiveFeedError";
+  }
+}
+
+export function parseLiveUpdate(raw: unknown, where = "update"): LiveUpdate {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) throw new LiveFeedError(`${where}: expected an object`);
+  const r = raw as Record<string, unknown>;
+  const update: LiveUpdate = {
+    runs: r.runs as number,
+    wickets: r.wickets as number,
+    ...(r.overs !== undefined && { overs: r.overs as number }),
+    ...(r.endSession === true && { endSession: true }),
+    ...(r.declared === true && { declared: true }),
+  };
+  const issues = validateLiveUpdate(update);
+  if (issues.length > 0) throw new LiveFeedError(`${where}: ${issues.map((i) => `${i.field} ${i.message}`).join("; ")}`);
+  return update;
+}
+
+function parseList(doc: unknown, where: string): LiveUpdate[] {
+  const isObj = typeof doc === "object" && doc !== null;
+  const list = Array.isArray(doc) ? doc : isObj && Array.isArray((doc as { updates?: unknown }).updates) ? (doc as { updates: unknown[] }).updates : [doc];
+  return list.map((u, i) => parseLiveUpdate(u, list.length > 1 ? `${where} ${i + 1}` : where));
+}
+
+export function parseLiveFeed(text: string): LiveUpdate[] {
+  const trimmed = text.trim();
+  if (trimmed === "") return [];
+  try {
+    return parseList(JSON.parse(trimmed), "update");
+  } catch (e) {
+    if (e instanceof LiveFeedError) throw e;
+  }
+  // JSON lines
+  return trimmed.split(/\r?\n/).flatMap((line, i) => {
+    if (line.trim() === "") return [];
+    let doc: unknown;
+    try {
+      doc = JSON.parse(line);
+    } catch {
+      throw new LiveFeedError(`line ${i + 1}: not valid JSON`);
+    }
+    return parseList(doc, `line ${i + 1}`);
+  });
+}
+
+// One WebSocket message
+export function parseLiveMessage(data: string): LiveUpdate[] {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(data);
+  } catch {
+    throw new LiveFeedError("message: not valid JSON");
+  }
+  return parseList(doc, "message");
+}
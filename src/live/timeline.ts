@@ -0,0 +1,53 @@
+import { SESSIONS_PER_DAY, inningsOrder, sideTotals, type MatchState, type RankedOption } from "../engine/index.ts";
+
+// ---------- Live timeline ----------
+
+export type TimelinePoint = {
+  revision: number; // how many live updates had been applied
+  clock: string; // e.g. "Day 5, afternoon"
+  score: string; // innings in progress, e.g. "us 246/5 (64.2 ov)"
+  lead: number;
+  best: string; // recommended option label
+  batOnOvers: number; // expected overs of batting on under the recommendation
+  target: number;
+  winP: number;
+  drawP: number;
+  lossP: number;
+};
+
+const SESSION_NAMES = ["morning", "afternoon", "evening"];
+
+export function clockLabel(state: MatchState) {
+  const session = SESSION_NAMES[state.session - 1] ?? `session ${state.session}/${SESSIONS_PER_DAY}`;
+  return `Day ${state.day}, ${session}`;
+}
+
+export function scoreLabel(state: MatchState) {
+  const i = state.innings.length - 1;
+  const inn = state.innings[i];
+  if (!inn) return "";
+  return `${inningsOrder(state)[i]} ${inn.runs}/${inn.wickets} (${inn.overs} ov)`;
+}
+
+export function timelinePoint(revision: number, state: MatchState, best: RankedOption): TimelinePoint {
+  const totals = sideTotals(state);
+  return {
+    revision,
+    clock: clockLabel(state),
+    score: scoreLabel(state),
+    lead: totals.us - totals.them,
+    best: best.optionLabel,
+    batOnOvers: best.expectOversBatted,
+    target: best.target,
+    winP: best.winP,
+    drawP: best.drawP,
+    lossP: best.lossP,
+  };
+}
+
+// Keeps one point per revision: a later result for the same state replaces the earlier one
+export function addTimelinePoint(timeline: TimelinePoint[], point: TimelinePoint): TimelinePoint[] {
+  const last = timeline[timeline.length - 1];
+  if (last && last.revision === point.revision) return [...timeline.slice(0, -1), point];
+  return [...timeline, point];
+}
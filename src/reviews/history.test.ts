@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { memoryStore } from "../../test-utils/memoryStore.ts";
+import { sampleReview } from "../../test-utils/reviews.ts";
+import { REVIEW_STORAGE_KEY, readReviews, removeReview, reviewSeasons, seasonStats, writeReviews } from "./history.ts";
+
+describe("storage", () => {
+  it("round-trips and drops unreadable entries", () => {
+    const store = memoryStore();
+    const reviews = [sampleReview(), sampleReview({ id: "r2", result: "win" })];
+    writeReviews(store, reviews);
+    expect(readReviews(store)).toEqual(reviews);
+
+    store.setItem(REVIEW_STORAGE_KEY, JSON.stringify([sampleReview(), { ...sampleReview({ id: "r3" }), result: "abandoned" }, { id: "r4" }]));
+    expect(readReviews(store).map((r) => r.id)).toEqual(["r1"]);
+  });
+
+  it("starts empty on missing or corrupt storage", () => {
+    const store = memoryStore();
+    expect(readReviews(store)).toEqual([]);
+    store.setItem(REVIEW_STORAGE_KEY, "{not json");
+    expect(readReviews(store)).toEqual([]);
+  });
+});
+
+describe("history", () => {
+  it("removes by id", () => {
+    expect(removeReview([sampleReview(), sampleReview({ id: "r2" })], "r1").map((r) => r.id)).toEqual(["r2"]);
+  });
+
+  it("lists seasons most recent first", () => {
+    const seasons = ["2025", "2026", "2024-25", "2025", "2026-27"].map((season, i) => sampleReview({ id: `r${i}`, season }));
+    expect(reviewSeasons(seasons)).toEqual(["2026-27", "2026", "2025", "2024-25"]);
+  });
+
+  it("sums a season", () => {
+    const stats = seasonStats([
+      sampleReview(),
+      sampleReview({ id: "r2", rank: 1, winCost: 0, defensible: true, result: "win", hindsight: { winP: 0.5, drawP: 0.4, lossP: 0.1 } }),
+    ]);
+    expect(stats).toMatchObject({ reviews: 2, optimal: 1, defensible: 1, meanRank: 2, wins: 1, draws: 1, losses: 0 });
+    expect(stats.meanWinCost).toBeCloseTo(0.05);
+    expect(stats.winsGivenUp).toBeCloseTo(0.1);
+    expect(stats.expectedWins).toBeCloseTo(0.8);
+  });
+
+  it("handles an empty season", () => {
+    expect(seasonStats([])).toMatchObject({ reviews: 0, meanRank: 0, meanWinCost: 0 });
+  });
+});
@@ -0,0 +1,154 @@
+import type { ActualDeclaration, ChaseOutcome, DeclarationReview, RankedOption } from "../engine/index.ts";
+import { parseSnapshot, type ScenarioSnapshot } from "../scenarios/snapshot.ts";
+import { readStoredList, writeStoredJson, type KeyValueStore } from "../storage/persisted.ts";
+
+// ---------- Reviewed declarations ----------
+// Each review is flattened to what the report and the season figures need, plus the snapshot that reproduces it.
+// Kept in localStorage as one JSON list; the functions over the list are pure and the hook persists them.
+
+export type ReviewedOption = { key: string; label: string; winP: number; drawP: number; lossP: number; utility: number };
+
+export type ReviewRecord = {
+  id: string;
+  reviewedAt: string; // ISO timestamp
+  match: string;
+  season: string;
+  actual: ActualDeclaration;
+  result: ChaseOutcome;
+  rank: number;
+  optionCount: number;
+  best: ReviewedOption;
+  chosen: ReviewedOption;
+  topOptions: ReviewedOption[]; // the head of the options table, for the report
+  winCost: number;
+  utilityCost: number;
+  defensible: boolean;
+  hindsight: { winP: number; drawP: number; lossP: number };
+  resultChance: number;
+  snapshot: ScenarioSnapshot;
+};
+
+export type ReviewMeta = Pick<ReviewRecord, "match" | "season">;
+
+export const REVIEW_STORAGE_KEY = "declaration-advisor:reviews";
+
+const REPORT_OPTIONS = 8;
+
+const reviewed = (o: RankedOption): ReviewedOption => ({
+  key: o.key,
+  label: o.optionLabel,
+  winP: o.winP,
+  drawP: o.drawP,
+  lossP: o.lossP,
+  utility: o.utility,
+});
+
+export function reviewRecord(review: DeclarationReview, meta: ReviewMeta, snapshot: ScenarioSnapshot, now = new Date()): ReviewRecord {
+  const { evaluation, hindsight } = review;
+  return {
+    id: crypto.randomUUID(),
+    reviewedAt: now.toISOString(),
+    ...meta,
+    actual: review.declaration,
+    result: review.result,
+    rank: review.rank,
+    optionCount: evaluation.options.length,
+    best: reviewed(evaluation.best),
+    chosen: reviewed(review.actual),
+    topOptions: evaluation.options.slice(0, REPORT_OPTIONS).map(reviewed),
+    winCost: review.winCost,
+    utilityCost: review.utilityCost,
+    defensible: review.defensible,
+    hindsight: { winP: hindsight.winP, drawP: hindsight.drawP, lossP: hindsight.lossP },
+    resultChance: review.resultChance,
+    snapshot,
+  };
+}
+
+const RESULTS: ChaseOutcome[] = ["win", "draw", "loss"];
+
+type Obj = Record<string, unknown>;
+const isObj = (v: unknown): v is Obj => typeof v === "object" && v !== null && !Array.isArray(v);
+
+function num(raw: Obj, key: string) {
+  if (typeof raw[key] !== "number") throw new Error(`${key} must be a number`);
+  return raw[key] as number;
+}
+
+function parseOption(raw: unknown): ReviewedOption {
+  if (!isObj(raw)) throw new Error("option must be an object");
+  return { key: String(raw.key), label: String(raw.label), winP: num(raw, "winP"), drawP: num(raw, "drawP"), lossP: num(raw, "lossP"), utility: num(raw, "utility") };
+}
+
+function parseRecord(raw: unknown): ReviewRecord {
+  if (!isObj(raw) || !isObj(raw.actual) || !isObj(raw.hindsight) || !Array.isArray(raw.topOptions)) throw new Error("malformed review");
+  if (!RESULTS.includes(raw.result as ChaseOutcome)) throw new Error("unknown result");
+  return {
+    id: String(raw.id),
+    reviewedAt: String(raw.reviewedAt),
+    match: String(raw.match),
+    season: String(raw.season),
+    actual: { overs: num(raw.actual, "overs"), lead: num(raw.actual, "lead") },
+    result: raw.result as ChaseOutcome,
+    rank: num(raw, "rank"),
+    optionCount: num(raw, "optionCount"),
+    best: parseOption(raw.best),
+    chosen: parseOption(raw.chosen),
+    topOptions: raw.topOptions.map(parseOption),
+    winCost: num(raw, "winCost"),
+    utilityCost: num(raw, "utilityCost"),
+    defensible: raw.defensible === true,
+    hindsight: { winP: num(raw.hindsight, "winP"), drawP: num(raw.hindsight, "drawP"), lossP: num(raw.hindsight, "lossP") },
+    resultChance: num(raw, "resultChance"),
+    snapshot: parseSnapshot(raw.snapshot),
+  };
+}
+
+// Unreadable or hand-edited entries are dropped rather than taking the whole history down
+export function readReviews(store: KeyValueStore): ReviewRecord[] {
+  return readStoredList(store, REVIEW_STORAGE_KEY, parseRecord);
+}
+
+export function writeReviews(store: KeyValueStore, reviews: ReviewRecord[]) {
+  writeStoredJson(store, REVIEW_STORAGE_KEY, reviews);
+}
+
+export function removeReview(reviews: ReviewRecord[], id: string): ReviewRecord[] {
+  return reviews.filter((r) => r.id !== id);
+}
+
+// Most recent season first
+export function reviewSeasons(reviews: ReviewRecord[]) {
+  return [...new Set(reviews.map((r) => r.season))].sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+}
+
+export type SeasonStats = {
+  reviews: number;
+  optimal: number; // declarations that were the model's best option
+  defensible: number; // within Monte Carlo noise of the best
+  meanRank: number;
+  meanWinCost: number;
+  winsGivenUp: number; // expected wins the timing cost, summed over the season
+  expectedWins: number; // hindsight win chances of the declarations as made, summed
+  wins: number;
+  draws: number;
+  losses: number;
+};
+
+export function seasonStats(reviews: ReviewRecord[]): SeasonStats {
+  const n = reviews.length;
+  const sum = (f: (r: ReviewRecord) => number) => reviews.reduce((a, r) => a + f(r), 0);
+  const count = (f: (r: ReviewRecord) => boolean) => reviews.filter(f).length;
+  return {
+    reviews: n,
+    optimal: count((r) => r.rank === 1),
+    defensible: count((r) => r.defensible),
+    meanRank: n ? sum((r) => r.rank) / n : 0,
+    meanWinCost: n ? sum((r) => r.winCost) / n : 0,
+    winsGivenUp: sum((r) => r.winCost),
+    expectedWins: sum((r) => r.hindsight.winP),
+    wins: count((r) => r.result === "win"),
+    draws: count((r) => r.result === "draw"),
+    losses: count((r) => r.result === "loss"),
+  };
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { sampleReview } from "../../test-utils/reviews.ts";
+import { reviewReportHtml, seasonReportHtml } from "./report.ts";
+
+describe("reviewReportHtml", () => {
+  it("escapes user text", () => {
+    const html = reviewReportHtml(sampleReview({ match: `<script>alert("x")</script>` }));
+    expect(html).not.toContain("<script>");
+    expect(html).toContain("&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;");
+  });
+
+  it("highlights the actual declaration, appending it when it ranked outside the table", () => {
+    expect(reviewReportHtml(sampleReview()).match(/class="chosen"/g)).toHaveLength(1);
+    const html = reviewReportHtml(sampleReview({ rank: 11, chosen: { key: "overs:40", label: "overs:40", winP: 0.1, drawP: 0.9, lossP: 0, utility: 0.1 } }));
+    expect(html).toContain("…");
+    expect(html).toMatch(/<tr class="chosen"><td>11<\/td><td>overs:40 \(our call\)/);
+  });
+});
+
+describe("seasonReportHtml", () => {
+  it("lists every review with the season totals", () => {
+    const html = seasonReportHtml("2026", [sampleReview(), sampleReview({ id: "r2", match: "2nd Test", result: "win" })]);
+    expect(html).toContain("1st Test");
+    expect(html).toContain("2nd Test");
+    expect(html).toContain("1 won, 1 drawn, 0 lost");
+  });
+});
@@ -0,0 +1,109 @@
+import { UTILITY_MODEL_LABELS } from "../engine/index.ts";
+import { seasonStats, type ReviewRecord, type ReviewedOption } from "./history.ts";
+
+// ---------- Printable reports ----------
+// Standalone HTML documents, so a review can be printed, saved as PDF or filed without the app
+
+const escape = (s: string) => s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+const pct = (n: number) => (n * 100).toFixed(1) + "%";
+const points = (n: number) => (n >= 0 ? "" : "−") + (Math.abs(n) * 100).toFixed(1) + " pts";
+
+const RESULT_LABELS = { win: "Won", draw: "Drawn", loss: "Lost" } as const;
+
+const STYLE = `
+  body { font: 14px/1.45 system-ui, sans-serif; color: #0f172a; margin: 2rem; }
+  h1 { font-size: 1.4rem; margin: 0 0 .25rem; }
+  h2 { font-size: 1.05rem; margin: 1.5rem 0 .5rem; }
+  .muted { color: #64748b; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid #e2e8f0; padding: .3rem .5rem; text-align: right; }
+  th:first-child, td:first-child, th:nth-child(2), td:nth-child(2) { text-align: left; }
+  tr.chosen td { background: #fef3c7; font-weight: 600; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: .25rem 1rem; }
+  dt { color: #64748b; }
+  @media print { body { margin: 0; } }
+`;
+
+function page(title: string, body: string) {
+  return `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><title>${escape(title)}</title><style>${STYLE}</style></head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function optionRow(o: ReviewedOption, rank: number, chosen: boolean) {
+  return `<tr${chosen ? ' class="chosen"' : ""}><td>${rank}</td><td>${escape(o.label)}${chosen ? " (our call)" : ""}</td><td>${pct(o.winP)}</td><td>${pct(o.drawP)}</td><td>${pct(o.lossP)}</td><td>${o.utility.toFixed(3)}</td></tr>`;
+}
+
+export function reviewReportHtml(r: ReviewRecord) {
+  const inputs = r.snapshot.inputs;
+  const shown = r.topOptions.some((o) => o.key === r.chosen.key);
+  const rows = [
+    ...r.topOptions.map((o, i) => optionRow(o, i + 1, o.key === r.chosen.key)),
+    ...(shown ? [] : [`<tr><td colspan="6" class="muted">…</td></tr>`, optionRow(r.chosen, r.rank, true)]),
+  ].join("\n");
+
+  const verdict = r.rank === 1
+    ? "The declaration was the model's best option."
+    : r.defensible
+      ? `The declaration ranked ${r.rank} of ${r.optionCount}, within Monte Carlo noise of the best option.`
+      : `The declaration ranked ${r.rank} of ${r.optionCount}. ${escape(r.best.label)} was clearly better.`;
+
+  return page(`Declaration review: ${r.match}`, `
+<h1>Declaration review: ${escape(r.match)}</h1>
+<div class="muted">Season ${escape(r.season)} · reviewed ${escape(r.reviewedAt.slice(0, 10))} · ${r.snapshot.sims} simulations per option, seed ${r.snapshot.seed}</div>
+
+<h2>The call</h2>
+<dl>
+  <dt>Reviewed moment</dt><dd>Lead ${inputs.currentLead} with ${inputs.wicketsInHand} wickets in hand, ${inputs.sessionsRemaining} sessions left, at ${escape(inputs.ground)}</dd>
+  <dt>Declaration</dt><dd>${r.actual.overs === 0 ? "Declared straight away" : `Batted ${r.actual.overs} more over${r.actual.overs === 1 ? "" : "s"}`} and set a lead of ${r.actual.lead}</dd>
+  <dt>Result</dt><dd>${RESULT_LABELS[r.result]}</dd>
+  <dt>Scored by</dt><dd>${escape(UTILITY_MODEL_LABELS[inputs.utilityModel?.kind ?? "steps"])}</dd>
+</dl>
+
+<h2>Verdict</h2>
+<p>${verdict}</p>
+<dl>
+  <dt>Win chance given up</dt><dd>${points(r.winCost)} (${pct(r.chosen.winP)} against ${pct(r.best.winP)} for ${escape(r.best.label)})</dd>
+  <dt>Utility given up</dt><dd>${r.utilityCost.toFixed(3)}</dd>
+  <dt>As it turned out</dt><dd>From the target and time the declaration really left: win ${pct(r.hindsight.winP)}, draw ${pct(r.hindsight.drawP)}, loss ${pct(r.hindsight.lossP)}. The actual result had a ${pct(r.resultChance)} chance.</dd>
+</dl>
+
+<h2>Options from the reviewed moment</h2>
+<table>
+<thead><tr><th>#</th><th>Option</th><th>Win</th><th>Draw</th><th>Loss</th><th>Utility</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+`);
+}
+
+export function seasonReportHtml(season: string, reviews: ReviewRecord[]) {
+  const s = seasonStats(reviews);
+  const rows = reviews
+    .map((r) => `<tr><td>${escape(r.reviewedAt.slice(0, 10))}</td><td>${escape(r.match)}</td><td>${r.actual.overs} overs, lead ${r.actual.lead}</td><td>${r.rank} / ${r.optionCount}</td><td>${points(r.winCost)}</td><td>${RESULT_LABELS[r.result]}</td><td>${pct(r.resultChance)}</td></tr>`)
+    .join("\n");
+  return page(`Declarations, season ${season}`, `
+<h1>Declarations reviewed, season ${escape(season)}</h1>
+<dl>
+  <dt>Declarations</dt><dd>${s.reviews}</dd>
+  <dt>The model's best</dt><dd>${s.optimal} (${s.defensible} within noise of it)</dd>
+  <dt>Average rank</dt><dd>${s.meanRank.toFixed(1)}</dd>
+  <dt>Win chance given up</dt><dd>${points(s.meanWinCost)} a declaration, ${s.winsGivenUp.toFixed(2)} expected wins over the season</dd>
+  <dt>Results</dt><dd>${s.wins} won, ${s.draws} drawn, ${s.losses} lost, against ${s.expectedWins.toFixed(1)} wins expected from the declarations as made</dd>
+</dl>
+<h2>Reviews</h2>
+<table>
+<thead><tr><th>Date</th><th>Match</th><th>Declaration</th><th>Rank</th><th>Win cost</th><th>Result</th><th>Chance of result</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+`);
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { memoryStore } from "../../test-utils/memoryStore.ts";
+import { scenariosFromDocument } from "../cli/scenario.ts";
+import {
+  LIBRARY_STORAGE_KEY,
+  addScenario,
+  duplicateScenario,
+  exportScenarios,
+  filterByTags,
+  importScenarios,
+  parseTags,
+  readLibrary,
+  removeScenario,
+  updateScenario,
+  writeLibrary,
+} from "./library.ts";
+import { DEFAULT_SNAPSHOT, ScenarioImportError } from "./snapshot.ts";
+
+const now = new Date("2026-01-02T03:04:05Z");
+const withLead = (currentLead: number) => ({ ...DEFAULT_SNAPSHOT, inputs: { ...DEFAULT_SNAPSHOT.inputs, currentLead } });
+
+describe("library list operations", () => {
+  const one = addScenario([], { name: "SCG", tags: ["day 5"], snapshot: withLead(300) }, now);
+
+  it("adds, updates and removes by id", () => {
+    expect(one).toHaveLength(1);
+    expect(one[0]).toMatchObject({ name: "SCG", savedAt: now.toISOString() });
+
+    const updated = updateScenario(one, one[0].id, { snapshot: withLead(350) });
+    expect(updated[0].snapshot.inputs.currentLead).toBe(350);
+    expect(updated[0].id).toBe(one[0].id);
+
+    expect(removeScenario(updated, one[0].id)).toEqual([]);
+  });
+
+  it("duplicates next to the original with a fresh id", () => {
+    const two = addScenario(one, { name: "Gabba", tags: [], snapshot: DEFAULT_SNAPSHOT });
+    const dup = duplicateScenario(two, one[0].id);
+    expect(dup.map((s) => s.name)).toEqual(["SCG", "SCG (copy)", "Gabba"]);
+    expect(dup[1].id).not.toBe(dup[0].id);
+    expect(dup[1].snapshot).toEqual(dup[0].snapshot);
+  });
+
+  it("filters on every selected tag and normalises tag text", () => {
+    expect(parseTags(" Day 5, spin,, day 5 ")).toEqual(["day 5", "spin"]);
+    const lib = addScenario(one, { name: "Spin", tags: ["day 5", "spin"], snapshot: DEFAULT_SNAPSHOT });
+    expect(filterByTags(lib, ["day 5"])).toHaveLength(2);
+    expect(filterByTags(lib, ["day 5", "spin"]).map((s) => s.name)).toEqual(["Spin"]);
+  });
+});
+
+describe("storage", () => {
+  it("round-trips through the store and drops broken entries", () => {
+    const store = memoryStore();
+    const lib = addScenario([], { name: "A", tags: ["x"], snapshot: withLead(200) }, now);
+    writeLibrary(store, lib);
+    expect(readLibrary(store)).toEqual(lib);
+
+    const raw = JSON.parse(store.items.get(LIBRARY_STORAGE_KEY)!);
+    store.setItem(LIBRARY_STORAGE_KEY, JSON.stringify([...raw, { id: "bad", name: "B", snapshot: { sims: "x" } }]));
+    expect(readLibrary(store).map((s) => s.name)).toEqual(["A"]);
+
+    store.setItem(LIBRARY_STORAGE_KEY, "{not json");
+    expect(readLibrary(store)).toEqual([]);
+  });
+});
+
+describe("import/export", () => {
+  it("round-trips names, tags and snapshots", () => {
+    const entries = [{ name: "A", tags: ["x"], snapshot: withLead(280) }, { name: "B", tags: [], snapshot: { ...DEFAULT_SNAPSHOT, seed: 5 } }];
+    expect(importScenarios(exportScenarios(entries))).toEqual(entries);
+  });
+
+  it("writes files the command-line advisor reads", () => {
+    const doc = JSON.parse(exportScenarios([{ name: "A", tags: [], snapshot: { ...withLead(280), sims: 900, seed: 5 } }]));
+    const [s] = scenariosFromDocument(doc, "file");
+    expect(s).toMatchObject({ name: "A", sims: 900, seed: 5 });
+    expect(s.inputs.currentLead).toBe(280);
+  });
+
+  it("accepts single scenarios and bare Inputs documents", () => {
+    expect(importScenarios(JSON.stringify({ name: "One", inputs: { currentLead: 1 } }))[0].name).toBe("One");
+    const [bare] = importScenarios(JSON.stringify({ currentLead: 275 }));
+    expect(bare.name).toBe("Imported scenario 1");
+    expect(bare.snapshot.inputs.currentLead).toBe(275);
+  });
+
+  it("reports what is wrong with a bad file", () => {
+    expect(() => importScenarios("nope")).toThrow(/not valid JSON/);
+    expect(() => importScenarios("[]")).toThrow(/no scenarios/);
+    expect(() => importScenarios(JSON.stringify({ scenarios: [{ inputs: { wicketsInHand: "six" } }] }))).toThrow(ScenarioImportError);
+  });
+});
@@ -0,0 +1,97 @@
+import { readStoredList, writeStoredJson, type KeyValueStore } from "../storage/persisted.ts";
+import { ScenarioImportError, parseSnapshot, type ScenarioSnapshot } from "./snapshot.ts";
+
+// ---------- Saved-scenario library ----------
+// Kept in localStorage as one JSON list. The functions over the list are pure; the hook persists them.
+
+export type SavedScenario = {
+  id: string;
+  name: string;
+  tags: string[];
+  savedAt: string; // ISO timestamp of the last save
+  snapshot: ScenarioSnapshot;
+};
+
+export type NamedSnapshot = Pick<SavedScenario, "name" | "tags" | "snapshot">;
+
+export const LIBRARY_STORAGE_KEY = "declaration-advisor:scenarios";
+
+function parseSaved(raw: unknown): SavedScenario {
+  if (typeof raw !== "object" || raw === null) throw new ScenarioImportError("a saved scenario must be an object");
+  const entry = raw as Record<string, unknown>;
+  return {
+    id: String(entry.id),
+    name: String(entry.name),
+    tags: Array.isArray(entry.tags) ? entry.tags.map(String) : [],
+    savedAt: String(entry.savedAt),
+    snapshot: parseSnapshot(entry.snapshot),
+  };
+}
+
+// Unreadable or hand-edited entries are dropped rather than taking the whole library down
+export function readLibrary(store: KeyValueStore): SavedScenario[] {
+  return readStoredList(store, LIBRARY_STORAGE_KEY, parseSaved);
+}
+
+export function writeLibrary(store: KeyValueStore, library: SavedScenario[]) {
+  writeStoredJson(store, LIBRARY_STORAGE_KEY, library);
+}
+
+export function parseTags(text: string) {
+  return [...new Set(text.split(",").map((t) => t.trim().toLowerCase()).filter(Boolean))];
+}
+
+export function addScenario(library: SavedScenario[], entry: NamedSnapshot, now = new Date()): SavedScenario[] {
+  return [...library, { ...entry, id: crypto.randomUUID(), savedAt: now.toISOString() }];
+}
+
+export function updateScenario(library: SavedScenario[], id: string, patch: Partial<NamedSnapshot>, now = new Date()): SavedScenario[] {
+  return library.map((s) => (s.id === id ? { ...s, ...patch, savedAt: now.toISOString() } : s));
+}
+
+// The copy lands straight after the original
+export function duplicateScenario(library: SavedScenario[], id: string, now = new Date()): SavedScenario[] {
+  const i = library.findIndex((s) => s.id === id);
+  if (i < 0) return library;
+  const copy = { ...library[i], id: crypto.randomUUID(), name: `${library[i].name} (copy)`, savedAt: now.toISOString() };
+  return [...library.slice(0, i + 1), copy, ...library.slice(i + 1)];
+}
+
+export function removeScenario(library: SavedScenario[], id: string): SavedScenario[] {
+  return library.filter((s) => s.id !== id);
+}
+
+// Tag filter: a scenario must carry every selected tag
+export function filterByTags(library: SavedScenario[], tags: string[]) {
+  return library.filter((s) => tags.every((t) => s.tags.includes(t)));
+}
+
+// ---------- JSON import/export ----------
+// The file is { scenarios: [{ name, tags, inputs, sims, seed, ... }] }, which the command-line advisor also reads
+
+export function exportScenarios(entries: NamedSnapshot[]) {
+  return JSON.stringify({ scenarios: entries.map(({ name, tags, snapshot }) => ({ name, tags, ...snapshot })) }, null, 2) + "\n";
+}
+
+export function importScenarios(text: string): NamedSnapshot[] {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new ScenarioImportError("the file is not valid JSON");
+  }
+  const isObj = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+  const list = Array.isArray(doc) ? doc : isObj(doc) && Array.isArray(doc.scenarios) ? doc.scenarios : [doc];
+  if (list.length === 0) throw new ScenarioImportError("the file holds no scenarios");
+
+  return list.map((entry: unknown, i): NamedSnapshot => {
+    const where = `scenarios[${i}]`;
+    const e = isObj(entry) ? entry : {};
+    return {
+      name: typeof e.name === "string" && e.name.trim() ? e.name : `Imported scenario ${i + 1}`,
+      tags: Array.isArray(e.tags) ? parseTags(e.tags.map(String).join(",")) : [],
+      // a bare Inputs document, as the command-line advisor accepts, stands for the inputs alone
+      snapshot: parseSnapshot("inputs" in e ? e : { inputs: e }, where),
+    };
+  });
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_INPUTS, DEFAULT_MATCH_STATE, validateInputs } from "../engine/index.ts";
+import { DEFAULT_SNAPSHOT, EXAMPLE_SCENARIOS, ScenarioImportError, decodeSnapshot, encodeSnapshot, parseSnapshot, type ScenarioSnapshot } from "./snapshot.ts";
+
+describe("parseSnapshot", () => {
+  it("fills missing fields from the defaults", () => {
+    const s = parseSnapshot({ inputs: { currentLead: 333 }, seed: 9 });
+    expect(s.inputs).toEqual({ ...DEFAULT_INPUTS, currentLead: 333 });
+    expect(s.seed).toBe(9);
+    expect(s.sims).toBe(DEFAULT_SNAPSHOT.sims);
+    expect(s.alternatives).toEqual(DEFAULT_SNAPSHOT.alternatives);
+    expect(s.matchState).toBeUndefined();
+  });
+
+  it("keeps optional inputs and the match state", () => {
+    const s = parseSnapshot({ inputs: { era: "2010s" }, alternatives: { hybridOvers: 15 }, matchState: { day: 4 } });
+    expect(s.inputs.era).toBe("2010s");
+    expect(s.alternatives.hybridOvers).toBe(15);
+    expect(s.matchState).toEqual({ ...DEFAULT_MATCH_STATE, day: 4 });
+  });
+
+  it("rejects fields of the wrong kind", () => {
+    expect(() => parseSnapshot({ inputs: { currentLead: "lots" } })).toThrow(/inputs.currentLead must be a number/);
+    expect(() => parseSnapshot({ inputs: { weatherBySession: { rainChance: 0.1 } } })).toThrow(/must be a list/);
+    expect(() => parseSnapshot({ sims: "many" })).toThrow(ScenarioImportError);
+    expect(() => parseSnapshot(null)).toThrow(ScenarioImportError);
+  });
+
+  it("checks the kinds inside lists and optional inputs", () => {
+    expect(() => parseSnapshot({ inputs: { weatherBySession: [null] } })).toThrow("scenario.inputs.weatherBySession[0] must be an object");
+    expect(() => parseSnapshot({ inputs: { battingOrder: 5 } })).toThrow("scenario.inputs.battingOrder must be a list");
+    expect(() => parseSnapshot({ inputs: { forecast: [{ rainChance: 0.2 }] } })).toThrow("scenario.inputs.forecast[0].rainMinutes must be a number");
+    expect(() => parseSnapshot({ inputs: { ourAttack: [{ name: "A", kind: "pace", average: "30" }] } })).toThrow("scenario.inputs.ourAttack[0].average must be a number");
+    expect(() => parseSnapshot({ inputs: { matchDay: "5" } })).toThrow("scenario.inputs.matchDay must be a number");
+    expect(() => parseSnapshot({ inputs: { groundProfile: { name: "G", wicketHelp: 1, chaseEase: 1, deterioration: [{ wickets: 1 }] } } })).toThrow(
+      "scenario.inputs.groundProfile.deterioration[0].runs must be a number"
+    );
+    expect(() => parseSnapshot({ inputs: { utilityModel: { kind: "custom", win: "1" } } })).toThrow("scenario.inputs.utilityModel.win must be a number or a boolean");
+    const utilityModel = { kind: "series", lead: 0, matchesAfter: 1, holders: true, futureWinP: 0.4, futureDrawP: 0.3 };
+    expect(parseSnapshot({ inputs: { utilityModel } }).inputs.utilityModel).toEqual(utilityModel);
+  });
+
+  it("checks the match state's innings and who batted first", () => {
+    expect(() => parseSnapshot({ matchState: { innings: [null] } })).toThrow("scenario.matchState.innings[0] must be an object");
+    expect(() => parseSnapshot({ matchState: { innings: [{}] } })).toThrow("scenario.matchState.innings[0].runs must be a number");
+    expect(() => parseSnapshot({ matchState: { innings: [{ runs: 300, wickets: 10, overs: 95, declared: "yes" }] } })).toThrow(
+      "scenario.matchState.innings[0].declared must be a boolean"
+    );
+    expect(() => parseSnapshot({ matchState: { battingFirst: "both" } })).toThrow("scenario.matchState.battingFirst must be one of us, them");
+    const innings = [{ runs: 400, wickets: 10, overs: 120 }, { runs: 250, wickets: 4, overs: 70, declared: true }];
+    expect(parseSnapshot({ matchState: { battingFirst: "them", innings } }).matchState).toEqual({ ...DEFAULT_MATCH_STATE, battingFirst: "them", innings });
+  });
+});
+
+describe("URL encoding", () => {
+  it("round-trips a snapshot, including non-ASCII ground names", () => {
+    const snapshot = { ...DEFAULT_SNAPSHOT, inputs: { ...DEFAULT_INPUTS, ground: "Estádio – São Paulo" }, sims: 4000, seed: 77, matchState: DEFAULT_MATCH_STATE };
+    const hash = "#" + encodeSnapshot(snapshot);
+    expect(hash).toMatch(/^#s=[A-Za-z0-9_-]+$/);
+    expect(decodeSnapshot(hash)).toEqual(snapshot);
+  });
+
+  it("returns null without a scenario and throws on a corrupt one", () => {
+    expect(decodeSnapshot("")).toBeNull();
+    expect(decodeSnapshot("#other=1")).toBeNull();
+    expect(() => decodeSnapshot("#s=not-json")).toThrow(ScenarioImportError);
+    const broken = encodeSnapshot({ ...DEFAULT_SNAPSHOT, inputs: { ...DEFAULT_INPUTS, weatherBySession: [null] } } as unknown as ScenarioSnapshot);
+    expect(() => decodeSnapshot(`#${broken}`)).toThrow(ScenarioImportError);
+  });
+});
+
+describe("EXAMPLE_SCENARIOS", () => {
+  it("hold valid inputs", () => {
+    for (const { snapshot } of EXAMPLE_SCENARIOS) expect(validateInputs(snapshot.inputs)).toEqual([]);
+  });
+});
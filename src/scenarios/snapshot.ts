@@ -0,0 +1,229 @@
+import {
+  DEFAULT_INPUTS,
+  DEFAULT_MATCH_STATE,
+  DEFAULT_SEED,
+  GROUND_PRESETS,
+  INPUT_SCHEMA,
+  NO_ALTERNATIVES,
+  type AlternativePolicySettings,
+  type Inputs,
+  type MatchState,
+} from "../engine/index.ts";
+
+// ---------- Scenario snapshots ----------
+// Everything the advisor needs to reproduce a recommendation: the inputs, the sweep settings,
+// and the match state when lead, sessions and overs are derived from the scorecard.
+
+export type ScenarioSnapshot = {
+  inputs: Inputs;
+  sims: number;
+  seed: number;
+  adaptive: boolean;
+  alternatives: AlternativePolicySettings;
+  matchState?: MatchState; // set when the match-state editor drives the inputs
+};
+
+export const DEFAULT_SNAPSHOT: ScenarioSnapshot = {
+  inputs: DEFAULT_INPUTS,
+  sims: 2500,
+  seed: DEFAULT_SEED,
+  adaptive: false,
+  alternatives: NO_ALTERNATIVES,
+};
+
+export class ScenarioImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScenarioImportError";
+  }
+}
+
+type Obj = Record<string, unknown>;
+const isObj = (v: unknown): v is Obj => typeof v === "object" && v !== null && !Array.isArray(v);
+
+const kind = (v: unknown) => (Array.isArray(v) ? "list" : typeof v);
+
+// Fields must keep the kind of their default (null defaults take anything); range checks are left to the engine's validation
+function typedFields<T extends object>(raw: unknown, defaults: T, where: string): T {
+  if (!isObj(raw)) throw new ScenarioImportError(`${where} must be an object`);
+  const out: Obj = { ...(defaults as Obj) };
+  for (const [key, value] of Object.entries(raw)) {
+    if (value === undefined) continue;
+    const expected = (defaults as Obj)[key];
+    if (expected !== undefined && expected !== null && kind(value) !== kind(expected)) {
+      throw new ScenarioImportError(`${where}.${key} must be a ${kind(expected)}`);
+    }
+    out[key] = value;
+  }
+  return out as T;
+}
+
+// The kinds inside the optional inputs and the lists, which have no default (or an empty one) to compare against.
+// Only kinds are checked here, so a parsed scenario can be rendered and validated without reading a member that isn't there.
+const MEMBER_KINDS: Record<string, Obj> = {
+  weatherBySession: { rainChance: 0 },
+  forecast: { rainChance: 0, rainMinutes: 0 },
+  battingOrder: { name: "", average: 0, strikeRate: 0, dismissalHazard: 0 },
+  ourAttack: { name: "", kind: "", average: 0, economy: 0, oversBowled: 0, fitness: 0 },
+};
+const GROUND_KINDS: Obj = { name: "", wicketHelp: 0, chaseEase: 0 };
+const OPTIONAL_GROUND_NUMBERS = ["badLight", "sessionOvers", "bounce", "paceAssist", "spinAssist"];
+const DAY_WEAR_KINDS: Obj = { wickets: 0, runs: 0 };
+const INNINGS_KINDS: Obj = { runs: 0, wickets: 0, overs: 0 };
+const SIDES = ["us", "them"];
+
+function checkKinds(raw: unknown, kinds: Obj, where: string): Obj {
+  if (!isObj(raw)) throw new ScenarioImportError(`${where} must be an object`);
+  for (const [key, expected] of Object.entries(kinds)) {
+    if (kind(raw[key]) !== kind(expected)) throw new ScenarioImportError(`${where}.${key} must be a ${kind(expected)}`);
+  }
+  return raw;
+}
+
+function checkList(raw: unknown, kinds: Obj, where: string) {
+  if (!Array.isArray(raw)) throw new ScenarioImportError(`${where} must be a list`);
+  raw.forEach((item, i) => checkKinds(item, kinds, `${where}[${i}]`));
+}
+
+function parseInputs(raw: unknown, where: string): Inputs {
+  const inputs = typedFields(raw, DEFAULT_INPUTS, where);
+  const fields = inputs as unknown as Obj;
+
+  for (const [field, rule] of Object.entries(INPUT_SCHEMA)) {
+    const expected = rule.kind === "number" ? "number" : "string";
+    if (fields[field] !== undefined && kind(fields[field]) !== expected) throw new ScenarioImportError(`${where}.${field} must be a ${expected}`);
+  }
+  if (fields.era !== undefined && typeof fields.era !== "string") throw new ScenarioImportError(`${where}.era must be a string`);
+  for (const [field, kinds] of Object.entries(MEMBER_KINDS)) {
+    if (fields[field] !== undefined) checkList(fields[field], kinds, `${where}.${field}`);
+  }
+
+  if (fields.groundProfile !== undefined) {
+    const ground = checkKinds(fields.groundProfile, GROUND_KINDS, `${where}.groundProfile`);
+    for (const key of OPTIONAL_GROUND_NUMBERS) {
+      if (ground[key] !== undefined && typeof ground[key] !== "number") throw new ScenarioImportError(`${where}.groundProfile.${key} must be a number`);
+    }
+    if (ground.deterioration !== undefined) checkList(ground.deterioration, DAY_WEAR_KINDS, `${where}.groundProfile.deterioration`);
+  }
+  if (fields.utilityModel !== undefined) {
+    const model = checkKinds(fields.utilityModel, { kind: "" }, `${where}.utilityModel`);
+    for (const [key, value] of Object.entries(model)) {
+      if (key !== "kind" && typeof value !== "number" && typeof value !== "boolean") throw new ScenarioImportError(`${where}.utilityModel.${key} must be a number or a boolean`);
+    }
+  }
+  return inputs;
+}
+
+function parseMatchState(raw: unknown, where: string): MatchState {
+  const state = typedFields(raw, DEFAULT_MATCH_STATE, where);
+  if (!SIDES.includes(state.battingFirst)) throw new ScenarioImportError(`${where}.battingFirst must be one of ${SIDES.join(", ")}`);
+  checkList(state.innings, INNINGS_KINDS, `${where}.innings`);
+  state.innings.forEach((inn, i) => {
+    if (inn.declared !== undefined && typeof inn.declared !== "boolean") throw new ScenarioImportError(`${where}.innings[${i}].declared must be a boolean`);
+  });
+  return state;
+}
+
+// Accepts a snapshot, or a CLI-style { name, inputs, sims, seed } document; missing fields take the defaults
+export function parseSnapshot(raw: unknown, where = "scenario"): ScenarioSnapshot {
+  if (!isObj(raw)) throw new ScenarioImportError(`${where} must be an object`);
+  const { sims, seed, adaptive } = typedFields(
+    { sims: raw.sims, seed: raw.seed, adaptive: raw.adaptive },
+    { sims: DEFAULT_SNAPSHOT.sims, seed: DEFAULT_SNAPSHOT.seed, adaptive: DEFAULT_SNAPSHOT.adaptive },
+    where
+  );
+
+  return {
+    inputs: parseInputs(raw.inputs ?? {}, `${where}.inputs`),
+    sims,
+    seed,
+    adaptive,
+    alternatives: typedFields(raw.alternatives ?? {}, NO_ALTERNATIVES, `${where}.alternatives`),
+    ...(raw.matchState !== undefined && { matchState: parseMatchState(raw.matchState, `${where}.matchState`) }),
+  };
+}
+
+// ---------- URL state ----------
+// The snapshot travels as base64url JSON in the hash, so links never reach the server
+
+const URL_PARAM = "s";
+
+function toBase64Url(text: string) {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string) {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+export function encodeSnapshot(snapshot: ScenarioSnapshot) {
+  return `${URL_PARAM}=${toBase64Url(JSON.stringify(snapshot))}`;
+}
+
+// Returns null when the hash carries no scenario; throws ScenarioImportError when it carries a broken one
+export function decodeSnapshot(hash: string): ScenarioSnapshot | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(URL_PARAM);
+  if (!encoded) return null;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    throw new ScenarioImportError("the link's scenario is not readable");
+  }
+  return parseSnapshot(raw, "link");
+}
+
+// ---------- Built-in examples ----------
+
+export const EXAMPLE_SCENARIOS: { name: string; tags: string[]; snapshot: ScenarioSnapshot }[] = [
+  {
+    name: "Day 5 squeeze",
+    tags: ["example", "day 5"],
+    snapshot: {
+      ...DEFAULT_SNAPSHOT,
+      inputs: {
+        ground: GROUND_PRESETS.scg.name,
+        oversPerSession: 30,
+        sessionsRemaining: 2,
+        oversLeftThisSession: 18,
+        currentLead: 310,
+        wicketsInHand: 7,
+        continueBattingRunRate: 3.7,
+        continueBattingWicketProbPerOver: 0.11,
+        opponentBattingStrength: 55,
+        ourBowlingStrength: 70,
+        pitchBowlingFactor: 1.25,
+        weatherBySession: [{ rainChance: 0.05 }, { rainChance: 0.15 }, { rainChance: 0.15 }],
+        riskAppetite: 1.0,
+        groundPresetKey: "scg",
+      },
+    },
+  },
+  {
+    name: "Flat pitch, rain risk",
+    tags: ["example", "weather"],
+    snapshot: {
+      ...DEFAULT_SNAPSHOT,
+      inputs: {
+        ground: GROUND_PRESETS.rawalpindi.name,
+        oversPerSession: 30,
+        sessionsRemaining: 3,
+        oversLeftThisSession: 22,
+        currentLead: 180,
+        wicketsInHand: 5,
+        continueBattingRunRate: 4.2,
+        continueBattingWicketProbPerOver: 0.09,
+        opponentBattingStrength: 70,
+        ourBowlingStrength: 60,
+        pitchBowlingFactor: 0.9,
+        weatherBySession: [{ rainChance: 0.3 }, { rainChance: 0.4 }, { rainChance: 0.4 }],
+        riskAppetite: 0.7,
+        groundPresetKey: "rawalpindi",
+      },
+    },
+  },
+];
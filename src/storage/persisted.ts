@@ -0,0 +1,47 @@
+// ---------- Persisted lists and records ----------
+// The scenario library and the review history each live in localStorage as one JSON list under their own key,
+// and the saved grounds as one JSON object. Reading is forgiving: an unreadable value gives an empty list or
+// object, and entries that don't parse are dropped rather than taking the rest down.
+
+export type KeyValueStore = Pick<Storage, "getItem" | "setItem">;
+
+// The stored JSON, or the fallback when it is missing or unreadable
+export function readStoredJson(store: KeyValueStore, key: string, fallback: unknown): unknown {
+  try {
+    return JSON.parse(store.getItem(key) ?? "null") ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// `parse` throws on an entry it can't use, which is then left out
+export function readStoredList<T>(store: KeyValueStore, key: string, parse: (entry: unknown) => T): T[] {
+  const raw = readStoredJson(store, key, []);
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((entry): T[] => {
+    try {
+      return [parse(entry)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+// As readStoredList, for an object of entries by key
+export function readStoredRecord<T>(store: KeyValueStore, key: string, parse: (entry: unknown, key: string) => T): Record<string, T> {
+  const raw = readStoredJson(store, key, {});
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return {};
+  return Object.fromEntries(
+    Object.entries(raw).flatMap(([k, entry]) => {
+      try {
+        return [[k, parse(entry, k)]];
+      } catch {
+        return [];
+      }
+    })
+  );
+}
+
+export function writeStoredJson(store: KeyValueStore, key: string, value: unknown) {
+  store.setItem(key, JSON.stringify(value));
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RAIN_MINUTES } from "../engine/index.ts";
+import { ForecastFormatError, parseForecast, parseForecastCsv, parseForecastJson } from "./forecast.ts";
+
+describe("parseForecastJson", () => {
+  it("reads hours with the engine's field names or common aliases", () => {
+    expect(parseForecastJson('[{"rainChance":0.2,"rainMinutes":15},{"precipitation_probability":0.5}]')).toEqual([
+      { rainChance: 0.2, rainMinutes: 15 },
+      { rainChance: 0.5, rainMinutes: DEFAULT_RAIN_MINUTES },
+    ]);
+    expect(parseForecastJson('{"hours":[{"rainChance":0.1,"rainMinutes":10}]}')).toHaveLength(1);
+  });
+
+  it("places timestamped hours by their offset from the first and fills gaps with dry hours", () => {
+    const out = parseForecastJson(JSON.stringify([
+      { time: "2026-01-05T10:00:00Z", rainChance: 0.1 },
+      { time: "2026-01-05T13:00:00Z", rainChance: 0.6, rainMinutes: 90 },
+    ]));
+    expect(out).toHaveLength(4);
+    expect(out[1]).toEqual({ rainChance: 0, rainMinutes: 0 });
+    expect(out[3]).toEqual({ rainChance: 0.6, rainMinutes: 60 });
+  });
+
+  it("rejects files it can't use", () => {
+    expect(() => parseForecastJson("nope")).toThrow(/not valid JSON/);
+    expect(() => parseForecastJson('{"rain":1}')).toThrow(ForecastFormatError);
+    expect(() => parseForecastJson('[{"temperature":20}]')).toThrow(/no rain chance/);
+    expect(() => parseForecastJson('[{"rainChance":"wet"}]')).toThrow(/row 1: rain chance/);
+  });
+});
+
+describe("parseForecastCsv", () => {
+  it("reads percentages and explicit hour offsets", () => {
+    const csv = "hour,precip_prob,duration_minutes\n0,10,20\n2,70,45\n";
+    expect(parseForecastCsv(csv)).toEqual([
+      { rainChance: 0.1, rainMinutes: 20 },
+      { rainChance: 0, rainMinutes: 0 },
+      { rainChance: 0.7, rainMinutes: 45 },
+    ]);
+  });
+
+  it("handles quoted cells and rejects chances over 100%", () => {
+    expect(parseForecastCsv('"Time","Rain Chance"\n"2026-01-05 10:00",0.3\n')).toEqual([{ rainChance: 0.3, rainMinutes: DEFAULT_RAIN_MINUTES }]);
+    expect(() => parseForecastCsv("rain_chance\n50\n120\n")).toThrow(/row 2/);
+    expect(() => parseForecastCsv("rain_chance\n")).toThrow(/header row and at least one hour/);
+  });
+});
+
+describe("parseForecast", () => {
+  it("picks the format by file name or content", () => {
+    expect(parseForecast("rain_chance\n0.2\n", "f.csv")).toHaveLength(1);
+    expect(parseForecast('[{"rainChance":0.2}]')).toHaveLength(1);
+    expect(parseForecast("rainChance\n0.4\n")).toEqual([{ rainChance: 0.4, rainMinutes: DEFAULT_RAIN_MINUTES }]);
+  });
+});
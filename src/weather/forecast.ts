@@ -0,0 +1,132 @@
+import { DEFAULT_RAIN_MINUTES, type HourlyWeather } from "../engine/index.ts";
+
+// ---------- Forecast import ----------
+// Turns a local forecast file into the hour-by-hour list the hourly weather model reads, first row = the coming hour.
+// JSON: a list of hours, or { hours: [...] }. CSV: a header row, then one row per hour.
+// Recognised fields, in either file:
+//   rain chance   rainChance, rain_chance, precipitationProbability, precipitation_probability, precip_prob (0..1, or percentages)
+//   rain minutes  rainMinutes, rain_minutes, durationMinutes, duration_minutes (minutes of play lost if it rains;
+//                 the engine's DEFAULT_RAIN_MINUTES when the file doesn't say)
+//   time          time or hour; timestamps are placed by their offset from the first row, and missing hours are dry
+
+export class ForecastFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ForecastFormatError";
+  }
+}
+
+const FIELDS = {
+  chance: ["rainchance", "precipitationprobability", "precipprob"],
+  minutes: ["rainminutes", "durationminutes"],
+  time: ["time"],
+  hour: ["hour"],
+};
+
+const normaliseKey = (k: string) => k.toLowerCase().replace(/[^a-z]/g, "");
+
+type Row = Record<string, string | number | undefined>;
+
+function field(row: Row, names: string[]) {
+  for (const [k, v] of Object.entries(row)) if (names.includes(normaliseKey(k))) return v;
+  return undefined;
+}
+
+function number(v: string | number | undefined, what: string, line: number) {
+  const n = typeof v === "number" ? v : Number(String(v).trim());
+  if (v === undefined || String(v).trim() === "" || !Number.isFinite(n)) throw new ForecastFormatError(`row ${line}: ${what} is not a number`);
+  return n;
+}
+
+function toHours(rows: Row[]): HourlyWeather[] {
+  if (rows.length === 0) throw new ForecastFormatError("the forecast has no hours");
+  if (field(rows[0], FIELDS.chance) === undefined) throw new ForecastFormatError("no rain chance column (e.g. rainChance or precipitation_probability)");
+
+  const chances = rows.map((row, i) => number(field(row, FIELDS.chance), "rain chance", i + 1));
+  const percent = chances.some((c) => c > 1);
+
+  const firstTime = field(rows[0], FIELDS.time);
+  const t0 = firstTime === undefined ? NaN : Date.parse(String(firstTime));
+  const offset = (row: Row, i: number) => {
+    const hour = field(row, FIELDS.hour);
+    if (hour !== undefined) return number(hour, "hour", i + 1);
+    if (!Number.isNaN(t0)) {
+      const t = Date.parse(String(field(row, FIELDS.time)));
+      if (Number.isNaN(t)) throw new ForecastFormatError(`row ${i + 1}: time is not a date`);
+      return Math.round((t - t0) / 3_600_000);
+    }
+    return i;
+  };
+
+  const hours: HourlyWeather[] = [];
+  rows.forEach((row, i) => {
+    const h = offset(row, i);
+    if (!Number.isInteger(h) || h < 0) throw new ForecastFormatError(`row ${i + 1}: comes before the first hour`);
+    const minutes = field(row, FIELDS.minutes);
+    const rainChance = percent ? chances[i] / 100 : chances[i];
+    if (rainChance < 0 || rainChance > 1) throw new ForecastFormatError(`row ${i + 1}: rain chance must be between 0 and ${percent ? "100%" : "1"}`);
+    const rainMinutes = minutes === undefined || String(minutes).trim() === "" ? DEFAULT_RAIN_MINUTES : Math.min(60, Math.max(0, number(minutes, "rain minutes", i + 1)));
+    while (hours.length < h) hours.push({ rainChance: 0, rainMinutes: 0 });
+    hours[h] = { rainChance, rainMinutes };
+  });
+  return hours;
+}
+
+function splitCsvLine(line: string) {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells.map((c) => c.trim());
+}
+
+export function parseForecastCsv(text: string): HourlyWeather[] {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== "");
+  if (lines.length < 2) throw new ForecastFormatError("the CSV needs a header row and at least one hour");
+  const header = splitCsvLine(lines[0]);
+  const rows = lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line);
+    return Object.fromEntries(header.map((h, i) => [h, cells[i]]));
+  });
+  return toHours(rows);
+}
+
+export function parseForecastJson(text: string): HourlyWeather[] {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new ForecastFormatError("the file is not valid JSON");
+  }
+  const list = Array.isArray(doc) ? doc : typeof doc === "object" && doc !== null && Array.isArray((doc as { hours?: unknown }).hours) ? (doc as { hours: unknown[] }).hours : null;
+  if (!list) throw new ForecastFormatError("expected a list of hours or { hours: [...] }");
+  if (list.some((h) => typeof h !== "object" || h === null)) throw new ForecastFormatError("every hour must be an object");
+  return toHours(list as Row[]);
+}
+
+// Picks the format from the file name, falling back to sniffing the content
+export function parseForecast(text: string, fileName = ""): HourlyWeather[] {
+  if (/\.csv$/i.test(fileName)) return parseForecastCsv(text);
+  if (/\.json$/i.test(fileName)) return parseForecastJson(text);
+  return /^\s*[[{]/.test(text) ? parseForecastJson(text) : parseForecastCsv(text);
+}
@@ -0,0 +1,12 @@
+import { outcomeDistribution } from "../engine/index.ts";
+import type { DistributionRequest, DistributionResponse } from "./protocol.ts";
+import { answerEachRequest } from "./reply.ts";
+
+// Re-runs one option's simulations off the main thread to collect its outcome histograms.
+// A single option is quick, so there is no cancel: the hook ignores replies to superseded runs.
+
+answerEachRequest(({ runId, inputs, policy, sims, seed }: DistributionRequest): DistributionResponse => ({
+  type: "done",
+  runId,
+  distribution: outcomeDistribution(inputs, policy, sims, seed),
+}));
@@ -0,0 +1,79 @@
+import type {
+  ActualDeclaration,
+  AlternativePolicySettings,
+  ChaseOutcome,
+  DeclarationPolicy,
+  DeclarationReview,
+  Evaluation,
+  Inputs,
+  OptionOutcome,
+  OutcomeDistribution,
+  SensitivityRow,
+  StageEvaluation,
+  StageScenario,
+  ValidationIssue,
+} from "../engine/index.ts";
+
+// Every worker's reply to a run that failed: the issues when the inputs were rejected, otherwise the error's message
+export type FailureResponse =
+  | { type: "invalid"; runId: number; issues: ValidationIssue[] }
+  | { type: "error"; runId: number; message: string };
+
+// ---------- Sweep worker messages ----------
+
+// main thread -> worker
+export type SweepRequest =
+  | { type: "run"; runId: number; inputs: Inputs; sims: number; seed: number; adaptive: boolean; policies: DeclarationPolicy[] }
+  | { type: "cancel"; runId: number };
+
+// worker -> main thread; every message carries the runId it belongs to so stale ones can be dropped
+export type SweepResponse =
+  | { type: "option"; runId: number; option: OptionOutcome; completed: number; total: number }
+  | { type: "refined"; runId: number; round: number; outcomes: OptionOutcome[] } // adaptive mode: full replacement list
+  | { type: "done"; runId: number }
+  | FailureResponse;
+
+// ---------- Sensitivity worker messages ----------
+
+export type SensitivityRequest =
+  | { type: "run"; runId: number; inputs: Inputs; sims: number; seed: number; policies: DeclarationPolicy[] }
+  | { type: "cancel"; runId: number };
+
+export type SensitivityResponse =
+  | { type: "base"; runId: number; base: Evaluation; total: number } // the unperturbed sweep every row is compared with
+  | { type: "row"; runId: number; row: SensitivityRow; completed: number; total: number }
+  | { type: "done"; runId: number }
+  | FailureResponse;
+
+// ---------- Distribution worker messages ----------
+
+export type DistributionRequest = { type: "run"; runId: number; inputs: Inputs; policy: DeclarationPolicy; sims: number; seed: number };
+
+export type DistributionResponse =
+  | { type: "done"; runId: number; distribution: OutcomeDistribution }
+  | FailureResponse;
+
+// ---------- Review worker messages ----------
+
+export type ReviewRequest = {
+  type: "run";
+  runId: number;
+  inputs: Inputs;
+  actual: ActualDeclaration;
+  result: ChaseOutcome;
+  sims: number;
+  seed: number;
+  alternatives: AlternativePolicySettings;
+};
+
+export type ReviewResponse =
+  | { type: "done"; runId: number; review: DeclarationReview }
+  | FailureResponse;
+
+// ---------- Match stage worker messages ----------
+
+export type StageRequest = { type: "run"; runId: number; inputs: Inputs; scenario: StageScenario; sims: number; seed: number };
+
+export type StageResponse =
+  | { type: "done"; runId: number; evaluation: StageEvaluation }
+  | FailureResponse;
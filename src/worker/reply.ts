@@ -0,0 +1,23 @@
+import { InputValidationError } from "../engine/index.ts";
+import type { FailureResponse } from "./protocol.ts";
+
+// ---------- Worker replies ----------
+
+// Every worker reports a failed run the same way
+export function failureResponse(runId: number, e: unknown): FailureResponse {
+  if (e instanceof InputValidationError) return { type: "invalid", runId, issues: e.issues };
+  return { type: "error", runId, message: e instanceof Error ? e.message : String(e) };
+}
+
+// For workers that answer each request with a single reply: posts what `handle` returns, or why it failed
+export function answerEachRequest<Request extends { runId: number }, Response>(handle: (request: Request) => Response) {
+  self.onmessage = (e: MessageEvent<Request>) => {
+    let reply: Response | FailureResponse;
+    try {
+      reply = handle(e.data);
+    } catch (err) {
+      reply = failureResponse(e.data.runId, err);
+    }
+    self.postMessage(reply);
+  };
+}
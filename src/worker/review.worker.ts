@@ -0,0 +1,12 @@
+import { reviewDeclaration } from "../engine/index.ts";
+import type { ReviewRequest, ReviewResponse } from "./protocol.ts";
+import { answerEachRequest } from "./reply.ts";
+
+// Re-runs the sweep from the reviewed moment, plus the hindsight chase, off the main thread.
+// A review is one sweep, so there is no cancel: the hook ignores replies to superseded runs.
+
+answerEachRequest(({ runId, inputs, actual, result, sims, seed, alternatives }: ReviewRequest): ReviewResponse => ({
+  type: "done",
+  runId,
+  review: reviewDeclaration(inputs, actual, result, sims, seed, alternatives),
+}));
@@ -0,0 +1,41 @@
+import { evaluateAllOptions, sensitivityParams, sensitivityRows } from "../engine/index.ts";
+import type { SensitivityRequest, SensitivityResponse } from "./protocol.ts";
+import { failureResponse } from "./reply.ts";
+
+// Runs the sensitivity analysis off the main thread, one perturbed input at a time,
+// yielding between rows so a newer run or a cancel can stop it. Same protocol shape as the sweep worker.
+
+let activeRunId = 0;
+
+const post = (msg: SensitivityResponse) => self.postMessage(msg);
+const nextTick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+async function run({ runId, inputs, sims, seed, policies }: Extract<SensitivityRequest, { type: "run" }>) {
+  try {
+    const total = sensitivityParams(inputs).length;
+    const base = evaluateAllOptions(inputs, sims, seed, policies);
+    post({ type: "base", runId, base, total });
+    await nextTick();
+    if (runId !== activeRunId) return;
+
+    let completed = 0;
+    for (const row of sensitivityRows(inputs, base, { sims, seed, policies })) {
+      post({ type: "row", runId, row, completed: ++completed, total });
+      await nextTick();
+      if (runId !== activeRunId) return;
+    }
+    post({ type: "done", runId });
+  } catch (e) {
+    post(failureResponse(runId, e));
+  }
+}
+
+self.onmessage = (e: MessageEvent<SensitivityRequest>) => {
+  const msg = e.data;
+  if (msg.type === "cancel") {
+    if (msg.runId === activeRunId) activeRunId = 0;
+    return;
+  }
+  activeRunId = msg.runId;
+  void run(msg);
+};
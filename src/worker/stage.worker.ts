@@ -0,0 +1,12 @@
+import { evaluateStage } from "../engine/index.ts";
+import type { StageRequest, StageResponse } from "./protocol.ts";
+import { answerEachRequest } from "./reply.ts";
+
+// Plays out the rest of the match from a first-innings declaration or the follow-on, off the main thread.
+// Like the review, one request is one evaluation, so superseded runs are simply ignored by the hook.
+
+answerEachRequest(({ runId, inputs, scenario, sims, seed }: StageRequest): StageResponse => ({
+  type: "done",
+  runId,
+  evaluation: evaluateStage(inputs, scenario, sims, seed),
+}));
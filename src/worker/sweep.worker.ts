@@ -0,0 +1,45 @@
+import { refineOptions, sweepOptions, type OptionOutcome } from "../engine/index.ts";
+import type { SweepRequest, SweepResponse } from "./protocol.ts";
+import { failureResponse } from "./reply.ts";
+
+// Runs the option sweep off the main thread, one declaration policy at a time.
+// In adaptive mode it then keeps refining the leading options until best and runner-up separate.
+// Between options the loop yields to the event loop so a newer "run" or a "cancel" can stop it.
+
+let activeRunId = 0;
+
+const post = (msg: SweepResponse) => self.postMessage(msg);
+const nextTick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+async function run({ runId, inputs, sims, seed, adaptive, policies }: Extract<SweepRequest, { type: "run" }>) {
+  try {
+    const total = policies.length;
+    const outcomes: OptionOutcome[] = [];
+    for (const option of sweepOptions(inputs, sims, seed, policies)) {
+      outcomes.push(option);
+      post({ type: "option", runId, option, completed: outcomes.length, total });
+      await nextTick();
+      if (runId !== activeRunId) return;
+    }
+    if (adaptive) {
+      for (const step of refineOptions(inputs, outcomes, { sims, seed })) {
+        post({ type: "refined", runId, ...step });
+        await nextTick();
+        if (runId !== activeRunId) return;
+      }
+    }
+    if (runId === activeRunId) post({ type: "done", runId });
+  } catch (e) {
+    post(failureResponse(runId, e));
+  }
+}
+
+self.onmessage = (e: MessageEvent<SweepRequest>) => {
+  const msg = e.data;
+  if (msg.type === "cancel") {
+    if (msg.runId === activeRunId) activeRunId = 0;
+    return;
+  }
+  activeRunId = msg.runId;
+  void run(msg);
+};
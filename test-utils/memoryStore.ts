@@ -0,0 +1,7 @@
+import type { KeyValueStore } from "../src/storage/persisted.ts";
+
+// An in-memory stand-in for localStorage, for tests of the persisted lists
+export const memoryStore = (): KeyValueStore & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return { items, getItem: (k) => items.get(k) ?? null, setItem: (k, v) => void items.set(k, v) };
+};
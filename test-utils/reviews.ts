@@ -0,0 +1,28 @@
+import { DEFAULT_SNAPSHOT } from "../src/scenarios/snapshot.ts";
+import type { ReviewedOption, ReviewRecord } from "../src/reviews/history.ts";
+
+// ---------- Test fixtures ----------
+// A stored review for the history and report tests; patch what a test cares about.
+
+export const reviewedOption = (key: string, winP: number): ReviewedOption => ({ key, label: key, winP, drawP: 1 - winP, lossP: 0, utility: winP });
+
+export const sampleReview = (patch: Partial<ReviewRecord> = {}): ReviewRecord => ({
+  id: "r1",
+  reviewedAt: "2026-07-01T18:00:00.000Z",
+  match: "1st Test",
+  season: "2026",
+  actual: { overs: 20, lead: 380 },
+  result: "draw",
+  rank: 3,
+  optionCount: 12,
+  best: reviewedOption("overs:5", 0.4),
+  chosen: reviewedOption("overs:20", 0.3),
+  topOptions: [reviewedOption("overs:5", 0.4), reviewedOption("overs:10", 0.35), reviewedOption("overs:20", 0.3)],
+  winCost: 0.1,
+  utilityCost: 0.1,
+  defensible: false,
+  hindsight: { winP: 0.3, drawP: 0.7, lossP: 0 },
+  resultChance: 0.7,
+  snapshot: DEFAULT_SNAPSHOT,
+  ...patch,
+});
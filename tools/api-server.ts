@@ -0,0 +1,87 @@
+// Local HTTP API over the declaration engine, for graphics and analytics tools.
+//
+//   npm run api -- [--port 8790] [--host 127.0.0.1] [--cache-size 200]
+//
+// POST /evaluate and POST /sensitivity take { inputs, sims, seed, alternatives } as JSON; GET /grounds,
+// GET /defaults and GET /openapi.json describe the rest. Everything runs in this process, offline.
+// Requests are handled one at a time, so a long sensitivity run holds up the ones behind it.
+
+import { createServer, type IncomingMessage } from "node:http";
+import { parseArgs } from "node:util";
+import { createApiHandler, type ApiResponse } from "../src/api/handler.ts";
+
+const MAX_BODY_BYTES = 1 << 20;
+
+class BodyError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "BodyError";
+    this.status = status;
+  }
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new BodyError(413, `body is larger than ${MAX_BODY_BYTES} bytes`);
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString("utf8");
+  if (text.trim() === "") return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new BodyError(400, "body is not valid JSON");
+  }
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: "string", default: "8790" },
+      host: { type: "string", default: "127.0.0.1" },
+      "cache-size": { type: "string", default: "200" },
+    },
+  });
+
+  const port = Number(values.port);
+  const cacheSize = Number(values["cache-size"]);
+  if (!Number.isInteger(port) || !Number.isInteger(cacheSize) || cacheSize < 0) {
+    console.error("usage: npm run api -- [--port 8790] [--host 127.0.0.1] [--cache-size 200]");
+    process.exit(2);
+  }
+
+  const handle = createApiHandler({ cacheSize });
+
+  const server = createServer(async (req, res) => {
+    const started = Date.now();
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    let reply: ApiResponse;
+    try {
+      const body = req.method === "POST" ? await readJson(req) : undefined;
+      reply = handle({ method: req.method ?? "GET", path, body });
+    } catch (e) {
+      reply = e instanceof BodyError
+        ? { status: e.status, body: { error: e.message } }
+        : { status: 500, body: { error: e instanceof Error ? e.message : String(e) } };
+    }
+
+    res.writeHead(reply.status, {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Headers": "Content-Type",
+      ...(reply.body !== undefined && { "Content-Type": "application/json" }),
+      ...reply.headers,
+    });
+    res.end(reply.body === undefined ? undefined : JSON.stringify(reply.body));
+    const cache = reply.headers?.["X-Cache"];
+    console.error(`${req.method} ${path} ${reply.status}${cache ? ` (cache ${cache})` : ""} ${Date.now() - started} ms`);
+  });
+
+  server.listen(port, values.host, () => console.error(`declaration API on http://${values.host}:${port}`));
+}
+
+main();
@@ -0,0 +1,123 @@
+// Offline calibration from local Cricsheet Test match files.
+//
+//   npm run calibrate -- <files or directories...> [--out src/engine/calibration.json]
+//                        [--report calibration-report.md] [--sims 500] [--seed 1234]
+//                        [--prior-overs 150] [--min-matches 3]
+//
+// Reads Cricsheet JSON (*.json) and legacy YAML (*.yaml, *.yml), fits fourth-innings rates
+// per ground and era, writes the calibration file the engine loads, and prints (or writes)
+// a reliability report for historical third-innings declarations. Exit codes follow the advisor:
+// 2 for bad arguments or an input path that can't be read.
+
+import { readFileSync, readdirSync, statSync, writeFileSync } from "node:fs";
+import { basename, extname, join } from "node:path";
+import { parseArgs } from "node:util";
+import { parse as parseYaml } from "yaml";
+import { parseCricsheetMatch, type ParsedMatch } from "../src/calibration/cricsheet.ts";
+import { fitCalibration } from "../src/calibration/fit.ts";
+import { formatReliabilityMarkdown, reliabilityReport } from "../src/calibration/reliability.ts";
+
+const MATCH_FILE = /\.(json|ya?ml)$/i;
+
+const USAGE =
+  "usage: npm run calibrate -- <cricsheet files or directories...> [--out file] [--report file]\n" +
+  "                            [--sims N] [--seed N] [--prior-overs N] [--min-matches N]";
+
+const EXIT_USAGE = 2;
+
+function usageError(message: string): never {
+  console.error(`${message}\n${USAGE}`);
+  process.exit(EXIT_USAGE);
+}
+
+// A finite number no smaller than `min`, and a whole one when `integer` is set
+function numberFlag(value: string, flag: string, { min, integer }: { min: number; integer: boolean }) {
+  const n = Number(value);
+  if (value.trim() === "" || !Number.isFinite(n) || (integer && !Number.isSafeInteger(n))) {
+    usageError(`--${flag} must be a ${integer ? "whole number" : "number"}, got "${value}"`);
+  }
+  if (n < min) usageError(`--${flag} must be at least ${min}, got "${value}"`);
+  return n;
+}
+
+function collectFiles(paths: string[]): string[] {
+  return paths.flatMap((p) => {
+    let isDirectory: boolean;
+    try {
+      isDirectory = statSync(p).isDirectory();
+    } catch (e) {
+      console.error(`cannot read ${p}: ${e instanceof Error ? e.message : String(e)}`);
+      process.exit(EXIT_USAGE);
+    }
+    if (isDirectory) {
+      return collectFiles(readdirSync(p).sort().map((f) => join(p, f)));
+    }
+    return MATCH_FILE.test(p) ? [p] : [];
+  });
+}
+
+function loadMatch(file: string): ParsedMatch | null {
+  const text = readFileSync(file, "utf8");
+  const doc: unknown = extname(file).toLowerCase() === ".json" ? JSON.parse(text) : parseYaml(text);
+  return parseCricsheetMatch(doc, basename(file, extname(file)));
+}
+
+// Four decimal places is plenty for rates and keeps the committed file readable
+const rounded = (_key: string, v: unknown) => (typeof v === "number" && !Number.isInteger(v) ? Math.round(v * 1e4) / 1e4 : v);
+
+const OPTIONS = {
+  out: { type: "string", default: "src/engine/calibration.json" },
+  report: { type: "string" },
+  sims: { type: "string", default: "500" },
+  seed: { type: "string", default: "1234" },
+  "prior-overs": { type: "string", default: "150" },
+  "min-matches": { type: "string", default: "3" },
+} as const;
+
+function parseCommandLine() {
+  try {
+    return parseArgs({ allowPositionals: true, options: OPTIONS });
+  } catch (e) {
+    usageError(e instanceof Error ? e.message : String(e));
+  }
+}
+
+function main() {
+  const { values, positionals } = parseCommandLine();
+  if (positionals.length === 0) usageError("no match files given");
+
+  const sims = numberFlag(values.sims, "sims", { min: 1, integer: true });
+  const seed = numberFlag(values.seed, "seed", { min: -Infinity, integer: true });
+  const priorOvers = numberFlag(values["prior-overs"], "prior-overs", { min: 0, integer: false });
+  const minMatches = numberFlag(values["min-matches"], "min-matches", { min: 1, integer: true });
+
+  const files = collectFiles(positionals);
+  const matches: ParsedMatch[] = [];
+  let skipped = 0;
+  for (const file of files) {
+    try {
+      const m = loadMatch(file);
+      if (m) matches.push(m);
+      else skipped++;
+    } catch (e) {
+      skipped++;
+      console.error(`skipping ${file}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  console.error(`read ${files.length} files: ${matches.length} Tests, ${skipped} skipped`);
+
+  const calibration = fitCalibration(matches, { priorOvers, minMatches });
+  writeFileSync(values.out, JSON.stringify(calibration, rounded, 2) + "\n");
+  console.error(`wrote ${values.out} (${Object.keys(calibration.grounds).length} grounds, ${Object.keys(calibration.eras).length} eras)`);
+
+  const report = reliabilityReport(matches, calibration, { sims, seed });
+  const markdown = formatReliabilityMarkdown(report, calibration);
+  if (values.report) {
+    writeFileSync(values.report, markdown);
+    console.error(`wrote ${values.report} (${report.cases.length} historical declarations)`);
+  } else {
+    process.stdout.write(markdown);
+  }
+}
+
+main();
@@ -0,0 +1,129 @@
+// Command-line evaluation of declaration scenarios.
+//
+//   declaration-advisor evaluate <scenario files...> [--sims 2500] [--seed 1234]
+//                      [--format table|json|csv] [--top N] [--adaptive]
+//                      [--lead-targets 300,350] [--session-breaks 2] [--hybrid-overs 20]
+//
+// A scenario file is JSON or YAML holding an Inputs document, a { name, inputs, sims, seed }
+// wrapper, or a batch of either (a list, or { scenarios: [...] }). Sims and seed set in a
+// file apply unless --sims or --seed is given. Exit codes: 0 ok, 1 invalid scenario or scenario file,
+// 2 usage or unreadable file.
+
+import { readFileSync } from "node:fs";
+import { basename, extname } from "node:path";
+import { parseArgs } from "node:util";
+import { parse as parseYaml } from "yaml";
+import { DEFAULT_EVALUATE_SETTINGS, evaluateScenarios } from "../src/cli/evaluate.ts";
+import { OUTPUT_FORMATS, formatResults, type OutputFormat } from "../src/cli/report.ts";
+import { ScenarioFormatError, scenariosFromDocument, type Scenario } from "../src/cli/scenario.ts";
+
+const USAGE =
+  "usage: declaration-advisor evaluate <scenario files...> [--sims N] [--seed N] [--format table|json|csv] [--top N]\n" +
+  "                                    [--adaptive] [--lead-targets L1,L2] [--session-breaks N] [--hybrid-overs N]";
+
+const EXIT_INVALID = 1;
+const EXIT_USAGE = 2;
+
+function usageError(message: string): never {
+  console.error(`${message}\n${USAGE}`);
+  process.exit(EXIT_USAGE);
+}
+
+function integerFlag(value: string | undefined, flag: string, fallback: number, min = -Infinity) {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isSafeInteger(n)) usageError(`--${flag} must be a whole number, got "${value}"`);
+  if (n < min) usageError(`--${flag} must be at least ${min}, got "${value}"`);
+  return n;
+}
+
+function readDocument(file: string): unknown {
+  const text = readFileSync(file, "utf8");
+  return extname(file).toLowerCase() === ".json" ? JSON.parse(text) : parseYaml(text);
+}
+
+const OPTIONS = {
+  sims: { type: "string" },
+  seed: { type: "string" },
+  format: { type: "string", default: "table" },
+  top: { type: "string" },
+  adaptive: { type: "boolean", default: false },
+  "lead-targets": { type: "string" },
+  "session-breaks": { type: "string" },
+  "hybrid-overs": { type: "string" },
+  help: { type: "boolean", short: "h", default: false },
+} as const;
+
+// Unknown flags and missing or ambiguous values ("--sims -5") are usage errors too
+function parseCommandLine() {
+  try {
+    return parseArgs({ allowPositionals: true, options: OPTIONS });
+  } catch (e) {
+    usageError(e instanceof Error ? e.message : String(e));
+  }
+}
+
+function main() {
+  const { values, positionals } = parseCommandLine();
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  const [command, ...files] = positionals;
+  if (command !== "evaluate") usageError(command ? `unknown command "${command}"` : "missing command");
+  if (files.length === 0) usageError("no scenario files given");
+
+  const format = values.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) usageError(`--format must be one of ${OUTPUT_FORMATS.join(", ")}`);
+
+  const leadTargets = (values["lead-targets"] ?? "")
+    .split(",")
+    .filter((s) => s.trim() !== "")
+    .map((s) => integerFlag(s.trim(), "lead-targets", 0, 1));
+  const settings = {
+    sims: integerFlag(values.sims, "sims", DEFAULT_EVALUATE_SETTINGS.sims, 1),
+    seed: integerFlag(values.seed, "seed", DEFAULT_EVALUATE_SETTINGS.seed),
+    adaptive: values.adaptive,
+    alternatives: {
+      leadTargets,
+      sessionBreaks: integerFlag(values["session-breaks"], "session-breaks", 0, 0),
+      hybridOvers: values["hybrid-overs"] === undefined ? null : integerFlag(values["hybrid-overs"], "hybrid-overs", 0, 1),
+    },
+  };
+  const top = integerFlag(values.top, "top", Infinity, 1);
+  // the flags, when given, win over sims and seed set in a file
+  const flagged = {
+    ...(values.sims !== undefined && { sims: settings.sims }),
+    ...(values.seed !== undefined && { seed: settings.seed }),
+  };
+
+  const scenarios: Scenario[] = [];
+  for (const file of files) {
+    let doc: unknown;
+    try {
+      doc = readDocument(file);
+    } catch (e) {
+      console.error(`cannot read ${file}: ${e instanceof Error ? e.message : String(e)}`);
+      process.exit(EXIT_USAGE);
+    }
+    try {
+      scenarios.push(...scenariosFromDocument(doc, basename(file, extname(file))).map((s) => ({ ...s, ...flagged })));
+    } catch (e) {
+      if (!(e instanceof ScenarioFormatError)) throw e;
+      console.error(`${file}: invalid scenario file`);
+      console.error(`  ${e.message}`);
+      process.exitCode = EXIT_INVALID;
+    }
+  }
+
+  const { results, failures } = evaluateScenarios(scenarios, settings);
+  for (const { name, issues } of failures) {
+    console.error(`${name}: invalid scenario`);
+    for (const issue of issues) console.error(`  ${issue.field}: ${issue.message}`);
+  }
+  if (results.length > 0) process.stdout.write(formatResults(results, format, top));
+  if (failures.length > 0) process.exitCode = EXIT_INVALID;
+}
+
+main();
@@ -0,0 +1,56 @@
+// Stand-in live score feed for the advisor's live mode.
+//
+//   npm run live-feed -- <feed file> [--port 8787] [--interval 2000]
+//
+// Replays a feed file (a JSON list of updates or one JSON update per line) over WebSocket.
+// Every client that connects gets its own replay from the first update, one message per interval.
+
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { WebSocketServer } from "ws";
+import { parseLiveFeed } from "../src/live/feed.ts";
+
+function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      port: { type: "string", default: "8787" },
+      interval: { type: "string", default: "2000" },
+    },
+  });
+
+  if (positionals.length !== 1) {
+    console.error("usage: npm run live-feed -- <feed file> [--port 8787] [--interval 2000]");
+    process.exit(2);
+  }
+
+  let updates;
+  try {
+    updates = parseLiveFeed(readFileSync(positionals[0], "utf8"));
+  } catch (e) {
+    console.error(`cannot read ${positionals[0]}: ${e instanceof Error ? e.message : String(e)}`);
+    process.exit(2);
+  }
+
+  const port = Number(values.port);
+  const interval = Number(values.interval);
+  const server = new WebSocketServer({ port });
+
+  server.on("connection", (socket) => {
+    let next = 0;
+    console.error(`client connected; replaying ${updates.length} updates every ${interval} ms`);
+    const timer = setInterval(() => {
+      if (next >= updates.length) {
+        clearInterval(timer);
+        console.error("replay finished");
+        return;
+      }
+      socket.send(JSON.stringify(updates[next++]));
+    }, interval);
+    socket.on("close", () => clearInterval(timer));
+  });
+
+  server.on("listening", () => console.error(`live feed on ws://localhost:${port}`));
+}
+
+main();